@@ -138,7 +138,7 @@ function AnimatedRouter() {
         </Route>
 
         {/* Share View - Cinematic zoom */}
-        <Route path="/share/:tripId">
+        <Route path="/share/:token">
           <ZoomTransition>
             <TripShareView />
           </ZoomTransition>
@@ -3,8 +3,17 @@
  * Allows users to set up price tracking for flights and hotels
  */
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+} from 'recharts';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -27,6 +36,7 @@ import {
   CheckCircle,
   AlertCircle,
   DollarSign,
+  LineChart as LineChartIcon,
 } from 'lucide-react';
 
 interface PriceAlertProps {
@@ -296,7 +306,7 @@ export function PriceAlertButton({
                   <TrendingDown className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
                   <div className="text-sm text-slate-400">
                     <p className="font-medium text-slate-300 mb-1">How it works</p>
-                    <p>We check prices daily and notify you instantly when they drop below your target.</p>
+                    <p>We re-check prices several times a day and email you when they drop below your target.</p>
                   </div>
                 </div>
 
@@ -338,6 +348,7 @@ export function PriceAlertCard({ alert, onDelete }: {
   };
   onDelete: (id: number) => void;
 }) {
+  const [showHistory, setShowHistory] = useState(false);
   const currencySymbol = getCurrencySymbol(alert.currency);
   const priceDiff = alert.currentPrice - alert.targetPrice;
   const isNearTarget = priceDiff <= alert.targetPrice * 0.1;
@@ -402,10 +413,109 @@ export function PriceAlertCard({ alert, onDelete }: {
           <span>Price is close to your target!</span>
         </div>
       )}
+
+      <button
+        onClick={() => setShowHistory(!showHistory)}
+        className="mt-3 flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        <LineChartIcon className="w-3.5 h-3.5" />
+        {showHistory ? 'Hide price history' : 'Show price history'}
+      </button>
+
+      {showHistory && <PriceHistoryChart alertId={alert.id} />}
     </motion.div>
   );
 }
 
+interface PriceHistoryResponse {
+  currency: string;
+  targetPrice: number | null;
+  lowestPrice: number | null;
+  history: Array<{ price: number; timestamp: string; source?: 'api' | 'estimate' }>;
+}
+
+/**
+ * Line chart of an alert's re-priced history with the target as a reference line
+ */
+export function PriceHistoryChart({ alertId }: { alertId: number }) {
+  const [data, setData] = useState<PriceHistoryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetch(`/api/price-alerts/${alertId}/history`, { credentials: 'include' })
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to load price history');
+        return res.json();
+      })
+      .then((body: PriceHistoryResponse) => {
+        if (!cancelled) setData(body);
+      })
+      .catch(err => {
+        console.error('Price history error:', err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [alertId]);
+
+  if (isLoading) {
+    return (
+      <div className="h-32 flex items-center justify-center">
+        <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="mt-3 text-xs text-slate-500">Price history unavailable.</p>;
+  }
+
+  if (data.history.length < 2) {
+    return <p className="mt-3 text-xs text-slate-500">Not enough price checks yet. Check back later.</p>;
+  }
+
+  const currencySymbol = getCurrencySymbol(data.currency);
+  const points = data.history.map(point => ({
+    price: point.price,
+    label: new Date(point.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+  }));
+
+  return (
+    <div className="mt-3 h-32">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+          <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} tickLine={false} axisLine={false} />
+          <YAxis
+            tick={{ fontSize: 10, fill: '#64748b' }}
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => `${currencySymbol}${value}`}
+          />
+          <RechartsTooltip
+            contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 8, fontSize: 12 }}
+            formatter={(value: number) => [`${currencySymbol}${value}`, 'Price']}
+          />
+          {data.targetPrice != null && (
+            <ReferenceLine y={data.targetPrice} stroke="#4ade80" strokeDasharray="4 4" />
+          )}
+          <Line type="monotone" dataKey="price" stroke="#38bdf8" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 // Currency helper
 function getCurrencySymbol(currency: string): string {
   const symbols: Record<string, string> = {
@@ -21,13 +21,30 @@ import {
   Check,
   AlertCircle,
 } from 'lucide-react';
+import { getVoyageHeaders } from '@/lib/voyageUid';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  author?: ChatAuthor | null;
   pendingChanges?: PendingChanges;
+  /** What became of this message's proposal (saved history only) */
+  proposalOutcome?: { status: 'pending' | 'applying' | 'applied' | 'rejected' | 'conflict'; resolvedBy?: ChatAuthor | null };
+}
+
+interface ChatAuthor {
+  userId: number | null;
+  name: string;
+}
+
+/** One proposed change, with the trip before and after it */
+interface ChangeDiff {
+  summary: string;
+  before: string | null;
+  after: string | null;
+  costChange: number;
 }
 
 interface PendingChanges {
@@ -35,6 +52,7 @@ interface PendingChanges {
   preview: {
     description: string;
     items: string[];
+    diff?: ChangeDiff[];
     estimatedCostChange: number;
   };
 }
@@ -86,6 +104,8 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [dynamicSuggestions, setDynamicSuggestions] = useState<string[]>([]);
   const [activePendingChange, setActivePendingChange] = useState<PendingChanges | null>(null);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -98,10 +118,14 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
     }
   }, [isOpen, mode]);
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when new messages arrive (not when older ones are prepended)
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  // Show who wrote what once more than one person has chatted
+  const showAuthors = new Set(messages.filter(m => m.author).map(m => m.author!.name)).size > 1;
 
   // Focus input when opened
   useEffect(() => {
@@ -119,24 +143,53 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
     }
   }, [prefillMessage]);
 
+  async function fetchHistory(before?: string) {
+    const params = before ? `?before=${encodeURIComponent(before)}` : '';
+    const res = await fetch(`/api/trips/${tripId}/chat${params}`, { headers: getVoyageHeaders() });
+    if (!res.ok) throw new Error('Failed to load conversation');
+    const data = await res.json();
+    return {
+      messages: (data.messages || []).map(toMessage),
+      nextCursor: data.nextCursor as string | null,
+      pendingChanges: data.pendingChanges as PendingChanges | null,
+    };
+  }
+
   async function loadConversation() {
     try {
-      const res = await fetch(`/api/trips/${tripId}/chat`);
-      if (res.ok) {
-        const data = await res.json();
-        if (data.messages && data.messages.length > 0) {
-          setMessages(data.messages.map((m: any) => ({
-            ...m,
-            timestamp: new Date(m.timestamp),
-          })));
-          setShowSuggestions(false);
-        }
+      const history = await fetchHistory();
+      if (history.messages.length > 0) {
+        setMessages(history.messages);
+        setShowSuggestions(false);
       }
+      setOlderCursor(history.nextCursor);
+      // Pick up a proposal nobody has answered yet, even from an earlier visit
+      setActivePendingChange(history.pendingChanges);
     } catch (err) {
       console.error('Failed to load conversation:', err);
     }
   }
 
+  async function loadOlderMessages() {
+    if (!olderCursor || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    try {
+      const history = await fetchHistory(olderCursor);
+      setMessages(prev => [...history.messages, ...prev]);
+      setOlderCursor(history.nextCursor);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }
+
+  function markProposal(changeId: string, status: 'applied' | 'rejected' | 'conflict') {
+    setMessages(prev => prev.map(m =>
+      m.pendingChanges?.id === changeId ? { ...m, proposalOutcome: { status } } : m
+    ));
+  }
+
   async function handleSend(messageText?: string) {
     const text = messageText || input.trim();
     if (!text || isLoading) return;
@@ -156,7 +209,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
     try {
       const res = await fetch(`/api/trips/${tripId}/chat`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({ message: text }),
       });
 
@@ -223,10 +276,23 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
     try {
       const res = await fetch(`/api/trips/${tripId}/chat/confirm`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({ changeId: activePendingChange.id }),
       });
 
+      if (res.status === 409) {
+        // The trip moved on since the proposal; it can't be applied any more
+        const data = await res.json().catch(() => ({}));
+        markProposal(activePendingChange.id, 'conflict');
+        setActivePendingChange(null);
+        toast({
+          title: 'Proposal out of date',
+          description: data.error || 'Your trip changed since this was proposed. Ask again for a fresh proposal.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
       if (!res.ok) {
         throw new Error('Failed to apply changes');
       }
@@ -244,6 +310,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
       }
 
       // Clear pending change
+      markProposal(activePendingChange.id, 'applied');
       setActivePendingChange(null);
 
       // Add confirmation message
@@ -280,7 +347,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
     try {
       await fetch(`/api/trips/${tripId}/chat/reject`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({ changeId: activePendingChange.id }),
       });
 
@@ -292,6 +359,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, rejectMessage]);
+      markProposal(activePendingChange.id, 'rejected');
 
     } catch (err) {
       console.error('Reject error:', err);
@@ -329,6 +397,18 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
             </div>
           )}
 
+          {olderCursor && (
+            <div className="text-center">
+              <button
+                onClick={loadOlderMessages}
+                disabled={isLoadingOlder}
+                className="text-xs text-slate-400 hover:text-white transition-colors"
+              >
+                {isLoadingOlder ? 'Loading…' : 'Load earlier messages'}
+              </button>
+            </div>
+          )}
+
           {/* Messages list */}
           {messages.map((message) => (
             <motion.div
@@ -350,12 +430,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                 }`}
               >
                 <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                <p className="text-[10px] opacity-60 mt-1">
-                  {message.timestamp.toLocaleTimeString([], {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
-                </p>
+                <MessageMeta message={message} showAuthor={showAuthors} />
               </div>
               {message.role === 'user' && (
                 <div className="w-8 h-8 rounded-full bg-slate-700 flex-shrink-0 flex items-center justify-center">
@@ -416,7 +491,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: 20 }}
-              className="mx-3 mb-2 p-3 bg-gradient-to-r from-amber-500/20 to-orange-500/20 border border-amber-500/30 rounded-xl max-h-40 flex flex-col"
+              className="mx-3 mb-2 p-3 bg-gradient-to-r from-amber-500/20 to-orange-500/20 border border-amber-500/30 rounded-xl max-h-48 flex flex-col"
             >
               <div className="flex items-center gap-2 mb-2 flex-shrink-0">
                 <div className="w-6 h-6 rounded-full bg-amber-500/20 flex items-center justify-center">
@@ -425,22 +500,13 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                 <h4 className="text-xs font-semibold text-white">
                   {activePendingChange.preview.items.length} change{activePendingChange.preview.items.length > 1 ? 's' : ''} proposed
                 </h4>
-                {activePendingChange.preview.estimatedCostChange > 0 && (
+                {activePendingChange.preview.estimatedCostChange !== 0 && (
                   <span className="text-xs text-amber-300 ml-auto">
-                    +${activePendingChange.preview.estimatedCostChange}
+                    {formatCostChange(activePendingChange.preview.estimatedCostChange)}
                   </span>
                 )}
               </div>
-              {activePendingChange.preview.items.length > 2 && (
-                <div className="overflow-y-auto max-h-16 mb-2 pr-1 scrollbar-thin">
-                  {activePendingChange.preview.items.slice(0, 5).map((item, idx) => (
-                    <p key={idx} className="text-[10px] text-amber-100/70 truncate">• {item}</p>
-                  ))}
-                  {activePendingChange.preview.items.length > 5 && (
-                    <p className="text-[10px] text-amber-300">...and {activePendingChange.preview.items.length - 5} more</p>
-                  )}
-                </div>
-              )}
+              <PendingChangeList preview={activePendingChange.preview} />
               <div className="flex gap-2 flex-shrink-0">
                 <Button
                   size="sm"
@@ -569,6 +635,18 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                 </div>
               )}
 
+              {olderCursor && (
+                <div className="text-center">
+                  <button
+                    onClick={loadOlderMessages}
+                    disabled={isLoadingOlder}
+                    className="text-xs text-slate-400 hover:text-white transition-colors"
+                  >
+                    {isLoadingOlder ? 'Loading…' : 'Load earlier messages'}
+                  </button>
+                </div>
+              )}
+
               {/* Messages list */}
               {messages.map((message) => (
                 <motion.div
@@ -590,12 +668,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                     }`}
                   >
                     <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                    <p className="text-[10px] opacity-60 mt-1">
-                      {message.timestamp.toLocaleTimeString([], {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
-                    </p>
+                    <MessageMeta message={message} showAuthor={showAuthors} />
                   </div>
                   {message.role === 'user' && (
                     <div className="w-8 h-8 rounded-full bg-slate-700 flex-shrink-0 flex items-center justify-center">
@@ -656,7 +729,7 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: 20 }}
-                  className="mx-3 mb-2 p-3 bg-gradient-to-r from-amber-500/20 to-orange-500/20 border border-amber-500/30 rounded-xl max-h-40 flex flex-col"
+                  className="mx-3 mb-2 p-3 bg-gradient-to-r from-amber-500/20 to-orange-500/20 border border-amber-500/30 rounded-xl max-h-48 flex flex-col"
                 >
                   {/* Header - always visible */}
                   <div className="flex items-center gap-2 mb-2 flex-shrink-0">
@@ -666,24 +739,14 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
                     <h4 className="text-xs font-semibold text-white">
                       {activePendingChange.preview.items.length} change{activePendingChange.preview.items.length > 1 ? 's' : ''} proposed
                     </h4>
-                    {activePendingChange.preview.estimatedCostChange > 0 && (
+                    {activePendingChange.preview.estimatedCostChange !== 0 && (
                       <span className="text-xs text-amber-300 ml-auto">
-                        +${activePendingChange.preview.estimatedCostChange}
+                        {formatCostChange(activePendingChange.preview.estimatedCostChange)}
                       </span>
                     )}
                   </div>
 
-                  {/* Scrollable items - only if more than 2 */}
-                  {activePendingChange.preview.items.length > 2 && (
-                    <div className="overflow-y-auto max-h-16 mb-2 pr-1 scrollbar-thin">
-                      {activePendingChange.preview.items.slice(0, 5).map((item, idx) => (
-                        <p key={idx} className="text-[10px] text-amber-100/70 truncate">• {item}</p>
-                      ))}
-                      {activePendingChange.preview.items.length > 5 && (
-                        <p className="text-[10px] text-amber-300">...and {activePendingChange.preview.items.length - 5} more</p>
-                      )}
-                    </div>
-                  )}
+                  <PendingChangeList preview={activePendingChange.preview} />
 
                   {/* Buttons - always visible */}
                   <div className="flex gap-2 flex-shrink-0">
@@ -751,6 +814,82 @@ export function TripChat({ tripId, destination, tripContext, onTripUpdate, prefi
 /**
  * Minimized chat trigger for the trip page
  */
+function toMessage(m: any): Message {
+  return {
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    timestamp: new Date(m.timestamp),
+    author: m.author,
+    ...(m.proposal && {
+      pendingChanges: { id: m.proposal.id, preview: m.proposal.preview },
+      proposalOutcome: { status: m.proposal.status, resolvedBy: m.proposal.resolvedBy },
+    }),
+  };
+}
+
+const OUTCOME_LABELS: Record<string, string> = {
+  applying: 'Applying…',
+  applied: 'Applied',
+  rejected: 'Dismissed',
+  conflict: 'Out of date - not applied',
+};
+
+/**
+ * Time, author (in shared chats) and what became of a proposal
+ */
+function MessageMeta({ message, showAuthor }: { message: Message; showAuthor: boolean }) {
+  const outcome = message.proposalOutcome;
+  return (
+    <p className="text-[10px] opacity-60 mt-1">
+      {showAuthor && message.author && `${message.author.name} · `}
+      {message.timestamp.toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit',
+      })}
+      {outcome && outcome.status !== 'pending' && (
+        <span className="ml-1">
+          · {OUTCOME_LABELS[outcome.status]}{outcome.resolvedBy ? ` by ${outcome.resolvedBy.name}` : ''}
+        </span>
+      )}
+    </p>
+  );
+}
+
+function formatCostChange(amount: number): string {
+  return amount > 0 ? `+$${amount}` : `-$${Math.abs(amount)}`;
+}
+
+/**
+ * The proposed changes, each with what it replaces. Older previews without
+ * a diff fall back to the plain item list.
+ */
+function PendingChangeList({ preview }: { preview: PendingChanges['preview'] }) {
+  const entries: ChangeDiff[] = preview.diff ?? preview.items.map(summary => ({ summary, before: null, after: null, costChange: 0 }));
+
+  return (
+    <div className="overflow-y-auto max-h-24 mb-2 pr-1 scrollbar-thin space-y-1">
+      {entries.map((entry, idx) => (
+        <div key={idx} className="text-[10px] leading-tight">
+          <p className="text-amber-100/90 truncate">
+            • {entry.summary}
+            {entry.costChange !== 0 && (
+              <span className="text-amber-300 ml-1">({formatCostChange(entry.costChange)})</span>
+            )}
+          </p>
+          {(entry.before || entry.after) && (
+            <p className="pl-2 text-amber-100/60 truncate">
+              {entry.before && <span className="line-through">{entry.before}</span>}
+              {entry.before && entry.after && ' → '}
+              {entry.after}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function TripChatTrigger({
   tripId,
   destination,
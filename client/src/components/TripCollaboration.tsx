@@ -27,6 +27,7 @@ import {
   ChevronDown,
   ChevronUp,
 } from 'lucide-react';
+import { getVoyageHeaders } from '@/lib/voyageUid';
 
 interface Collaborator {
   id: number;
@@ -43,7 +44,7 @@ interface Comment {
   authorName: string;
   content: string;
   dayNumber?: number;
-  activityId?: string;
+  activityIndex?: number;
   createdAt: string;
 }
 
@@ -84,7 +85,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
 
   async function fetchCollaborators() {
     try {
-      const res = await fetch(`/api/trips/${tripId}/collaborators`);
+      const res = await fetch(`/api/trips/${tripId}/collaborators`, { headers: getVoyageHeaders() });
       if (res.ok) {
         const data = await res.json();
         setCollaborators(data.collaborators || []);
@@ -98,7 +99,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
 
   async function fetchComments() {
     try {
-      const res = await fetch(`/api/trips/${tripId}/comments`);
+      const res = await fetch(`/api/trips/${tripId}/comments`, { headers: getVoyageHeaders() });
       if (res.ok) {
         const data = await res.json();
         setComments(data.comments || []);
@@ -115,7 +116,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
     try {
       const res = await fetch(`/api/trips/${tripId}/collaborators`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email: inviteEmail,
           role: inviteRole,
@@ -151,6 +152,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
     try {
       const res = await fetch(`/api/trips/${tripId}/collaborators/${id}`, {
         method: 'DELETE',
+        headers: getVoyageHeaders(),
       });
 
       if (!res.ok) throw new Error('Failed to remove collaborator');
@@ -176,7 +178,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
     try {
       const res = await fetch(`/api/trips/${tripId}/comments`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({
           content: newComment,
         }),
@@ -202,6 +204,7 @@ export function CollaborationPanel({ tripId, destination }: CollaborationPanelPr
     try {
       const res = await fetch(`/api/trips/${tripId}/comments/${id}`, {
         method: 'DELETE',
+        headers: getVoyageHeaders(),
       });
 
       if (!res.ok) throw new Error('Failed to delete comment');
@@ -511,7 +514,7 @@ function ShareButton({
     try {
       const res = await fetch(`/api/trips/${tripId}/share`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({ role: 'viewer' }),
       });
 
@@ -619,11 +622,13 @@ function ShareButton({
  */
 export function ActivityVote({
   tripId,
-  activityId,
+  dayNumber,
+  activityIndex,
   initialVotes = { up: 0, down: 0 },
 }: {
   tripId: number;
-  activityId: string;
+  dayNumber: number;
+  activityIndex: number;
   initialVotes?: { up: number; down: number };
 }) {
   const [votes, setVotes] = useState(initialVotes);
@@ -634,10 +639,10 @@ export function ActivityVote({
     try {
       const res = await fetch(`/api/trips/${tripId}/votes`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          itemType: 'activity',
-          itemId: activityId,
+          dayNumber,
+          activityIndex,
           vote,
         }),
       });
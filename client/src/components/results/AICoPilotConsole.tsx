@@ -26,6 +26,7 @@ import {
   CheckCircle2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getVoyageHeaders } from '@/lib/voyageUid';
 
 // ============================================================================
 // TYPES
@@ -175,6 +176,7 @@ export function AICoPilotConsole({
       const response = await fetch(`/api/trips/${tripId}/modify`, {
         method: 'POST',
         headers: {
+          ...getVoyageHeaders(),
           'Content-Type': 'application/json',
         },
         credentials: 'include',
@@ -5,6 +5,7 @@
  * Split into Required (blocking) vs Recommended (nice-to-have).
  *
  * Required: visa, passport validity, vaccines, entry restrictions
+ * (group trips: visas and documents per traveler, grouped under their name)
  * Recommended: flights, accommodation, insurance, currency, mobile, packing
  */
 
@@ -25,10 +26,11 @@ import {
   Syringe,
   AlertTriangle,
   IdCard,
+  CalendarX,
 } from "lucide-react";
 import type { TripResponse, VisaDetails, FeasibilityReport } from "@shared/schema";
 import { trackTripEvent } from "@/lib/analytics";
-import { needsVisaTimingFix } from "@/lib/actionItems";
+import { needsVisaTimingFix, buildStayLimitActionItems, buildPassportChoiceActionItems, buildTravelerActionItems } from "@/lib/actionItems";
 import { FixBlockersCTA } from "./FixBlockersCTA";
 import type { BlockerDeltaUI } from "@/lib/blockerDeltas";
 
@@ -44,6 +46,7 @@ interface ActionItem {
   category: Category;
   completed: boolean;
   url?: string;
+  traveler?: string; // Group trips: shown under this traveler's name
 }
 
 interface ActionItemRowProps {
@@ -157,8 +160,34 @@ export function ActionItems({ trip, completedItems = [], onToggle, blockerDelta
     // REQUIRED ITEMS (blocking - affects eligibility)
     // =============================================
 
-    // 1. Visa application (if required)
-    if (visaDetails && visaDetails.required && visaDetails.type !== 'visa_free') {
+    // 0. Passport choice (travelers holding several passports)
+    for (const passportItem of buildPassportChoiceActionItems(feasibility)) {
+      result.push({
+        id: passportItem.id,
+        label: passportItem.label,
+        description: passportItem.description,
+        icon: <IdCard className="w-4 h-4" />,
+        priority: passportItem.priority,
+        category: passportItem.category,
+        completed: completedItems.includes(passportItem.id),
+      });
+    }
+
+    // 1. Visa application (if required) - per traveler on group trips
+    for (const travelerItem of buildTravelerActionItems(feasibility)) {
+      result.push({
+        id: travelerItem.id,
+        label: travelerItem.label,
+        description: travelerItem.description,
+        icon: travelerItem.type === 'visa' ? <FileText className="w-4 h-4" /> : <IdCard className="w-4 h-4" />,
+        priority: travelerItem.priority,
+        category: travelerItem.category,
+        completed: completedItems.includes(travelerItem.id),
+        url: travelerItem.url,
+        traveler: travelerItem.traveler,
+      });
+    }
+    if (!feasibility?.group && visaDetails && visaDetails.required && visaDetails.type !== 'visa_free') {
       const isUrgent = visaDetails.timing?.urgency === 'tight' || visaDetails.timing?.urgency === 'risky';
       result.push({
         id: 'visa',
@@ -215,6 +244,19 @@ export function ActionItems({ trip, completedItems = [], onToggle, blockerDelta
       });
     }
 
+    // 5. Stay limits exceeded with the traveler's other trips (HARD_BLOCKER)
+    for (const stayItem of buildStayLimitActionItems(feasibility)) {
+      result.push({
+        id: stayItem.id,
+        label: stayItem.label,
+        description: stayItem.description,
+        icon: <CalendarX className="w-4 h-4" />,
+        priority: stayItem.priority,
+        category: stayItem.category,
+        completed: completedItems.includes(stayItem.id),
+      });
+    }
+
     // =============================================
     // RECOMMENDED ITEMS (nice-to-have - improves trip)
     // =============================================
@@ -304,6 +346,20 @@ export function ActionItems({ trip, completedItems = [], onToggle, blockerDelta
 
   // Split by category (not priority)
   const requiredItems = useMemo(() => items.filter(i => i.category === 'required'), [items]);
+
+  // Group trips: trip-wide required items first, then each traveler's under their name
+  const requiredGroups = useMemo(() => {
+    const groups: Array<{ traveler?: string; items: ActionItem[] }> = [{ items: [] }];
+    for (const item of requiredItems) {
+      let group = groups.find(g => g.traveler === item.traveler);
+      if (!group) {
+        group = { traveler: item.traveler, items: [] };
+        groups.push(group);
+      }
+      group.items.push(item);
+    }
+    return groups.filter(g => g.items.length > 0);
+  }, [requiredItems]);
   const recommendedItems = useMemo(() => items.filter(i => i.category === 'recommended'), [items]);
 
   const completedCount = items.filter(i => i.completed).length;
@@ -407,17 +463,24 @@ export function ActionItems({ trip, completedItems = [], onToggle, blockerDelta
         </div>
         {requiredItems.length > 0 ? (
           <div className="space-y-1">
-            {requiredItems.map(item => (
-              <ActionItemRow
-                key={item.id}
-                item={item}
-                onToggle={handleToggle}
-                onItemClick={handleItemClick}
-              />
+            {requiredGroups.map(group => (
+              <div key={group.traveler ?? 'trip'} className="space-y-1">
+                {group.traveler && (
+                  <div className="text-[11px] font-medium text-white/60 pt-1.5 px-2">{group.traveler}</div>
+                )}
+                {group.items.map(item => (
+                  <ActionItemRow
+                    key={item.id}
+                    item={item}
+                    onToggle={handleToggle}
+                    onItemClick={handleItemClick}
+                  />
+                ))}
+              </div>
             ))}
 
             {/* Fix visa timing CTA - show under visa item when timing is tight/risky */}
-            {requiredItems.some(i => i.id === 'visa' && !i.completed) &&
+            {requiredItems.some(i => (i.id === 'visa' || (i.traveler && i.id.includes('_visa_'))) && !i.completed) &&
               needsVisaTimingFix(feasibility) && (
               <div className="ml-8 mt-1 mb-2">
                 <FixBlockersCTA source="action_items" reason="visa_timing" />
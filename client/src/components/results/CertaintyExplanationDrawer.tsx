@@ -5,6 +5,7 @@
  * - Why the certainty score is what it is (current trip)
  * - What changed after a replan (Change Planner delta)
  * - Clear next actions (links to "Fix blockers" when relevant)
+ * - What-if heatmap of other start dates, trip lengths and passports
  *
  * Uses data from:
  * - trip.feasibilityReport (score, breakdown, visaDetails, summary)
@@ -17,6 +18,7 @@ import type { TripResponse, ChangePlannerResponse } from "@shared/schema";
 import { buildCertaintyExplanation } from "@/lib/certaintyExplain";
 import { hasVisaBlocker, needsVisaTimingFix } from "@/lib/actionItems";
 import { openFixBlockersEvent } from "@/lib/uiEvents";
+import { WhatIfHeatmap } from "./WhatIfHeatmap";
 
 function severityDot(sev?: "good" | "warn" | "bad") {
   if (sev === "good") return "bg-emerald-400/80";
@@ -122,6 +124,8 @@ export function CertaintyExplanationDrawer({
             </div>
           ))}
 
+          <WhatIfHeatmap trip={trip} />
+
           {/* Fix Blockers CTA */}
           {showFixBlockers && (
             <button
@@ -0,0 +1,248 @@
+/**
+ * ExpenseTracker.tsx
+ *
+ * On the road: log what things actually cost and see how it compares with
+ * the plan - per day, per category, and a forecast for the rest of the trip.
+ *
+ * Expenses can be in any currency; the server converts them to the trip's
+ * budget currency when they're logged.
+ */
+
+import { useMemo, useState } from "react";
+import { Receipt, Trash2, TrendingUp, TrendingDown } from "lucide-react";
+import type { BudgetStatus, ExpenseCategory, TripResponse, TripTraveler } from "@shared/schema";
+import { useTripExpenses } from "@/hooks/useTripExpenses";
+import { CURRENCIES } from "@/lib/currencies";
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  activities: "Activities",
+  meals: "Meals",
+  transport: "Transport",
+  lodging: "Lodging",
+};
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  APPROVED: "text-emerald-300",
+  UNDER_BUDGET: "text-emerald-300",
+  NEAR_LIMIT: "text-amber-300",
+  OVER_BUDGET: "text-red-300",
+};
+
+function formatAmount(amount: number, currency: string): string {
+  return `${Math.round(amount).toLocaleString()} ${currency}`;
+}
+
+interface ExpenseTrackerProps {
+  trip: TripResponse;
+}
+
+export function ExpenseTracker({ trip }: ExpenseTrackerProps) {
+  const { expenses, summary, addExpense, isAdding, deleteExpense } = useTripExpenses(trip.id);
+  const tripCurrency = trip.currency || "USD";
+
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(tripCurrency);
+  const [category, setCategory] = useState<ExpenseCategory>("meals");
+  const [dayNumber, setDayNumber] = useState<number | null>(null);
+  const [activityIndex, setActivityIndex] = useState<number | null>(null);
+  const [payer, setPayer] = useState("");
+
+  const days: Array<{ day: number; title?: string; activities?: Array<{ name?: string; description?: string }> }> =
+    (trip.itinerary as any)?.days ?? [];
+  const dayActivities = days.find((d) => d.day === dayNumber)?.activities ?? [];
+  const payers = ((trip.travelers as TripTraveler[] | null) ?? []).map((t) => t.name);
+
+  const expensesByDay = useMemo(() => {
+    const groups = new Map<number | null, typeof expenses>();
+    for (const expense of expenses) {
+      groups.set(expense.dayNumber, [...(groups.get(expense.dayNumber) ?? []), expense]);
+    }
+    return Array.from(groups.entries());
+  }, [expenses]);
+
+  const handleAdd = () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) return;
+    addExpense(
+      { amount: value, currency, category, dayNumber, activityIndex, payer: payer.trim() || null, note: null },
+      { onSuccess: () => setAmount("") }
+    );
+  };
+
+  const forecast = summary?.forecast;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 mt-4" data-testid="expense-tracker">
+      <div className="px-3 py-2 border-b border-white/10 flex items-center gap-2 text-xs font-semibold text-white/70">
+        <Receipt className="w-3.5 h-3.5" />
+        Spending so far
+      </div>
+
+      <div className="p-3 space-y-3">
+        {/* Budget vs actual */}
+        {summary && (
+          <div className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-white/85">
+                {formatAmount(summary.totalSpent, summary.currency)}
+                <span className="text-white/40"> of {formatAmount(summary.totalBudget, summary.currency)}</span>
+              </span>
+              <span className="text-[11px] text-white/50">
+                {formatAmount(forecast!.remainingBudget, summary.currency)} left
+              </span>
+            </div>
+
+            {forecast && forecast.currentDay !== null && (
+              <div className={`text-[11px] flex items-center gap-1 ${STATUS_COLORS[forecast.status]}`}>
+                {forecast.projectedRemaining >= 0 ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                At this pace: {formatAmount(forecast.projectedTotal, summary.currency)} total
+                {forecast.projectedRemaining < 0
+                  ? ` (${formatAmount(-forecast.projectedRemaining, summary.currency)} over)`
+                  : ` (${formatAmount(forecast.projectedRemaining, summary.currency)} spare)`}
+              </div>
+            )}
+            {forecast?.dailyAllowance != null && forecast.remainingDays > 0 && (
+              <div className="text-[11px] text-white/40">
+                {formatAmount(forecast.dailyAllowance, summary.currency)}/day for the remaining {forecast.remainingDays} day{forecast.remainingDays === 1 ? "" : "s"}
+              </div>
+            )}
+
+            {/* Per category */}
+            <div className="grid grid-cols-2 gap-1.5 pt-1">
+              {summary.categories.map((c) => (
+                <div key={c.category} className="rounded-md bg-black/20 px-2 py-1.5">
+                  <div className="text-[10px] text-white/40">{CATEGORY_LABELS[c.category]}</div>
+                  <div className="text-[11px] text-white/80">
+                    {formatAmount(c.actual, summary.currency)}
+                    <span className="text-white/35"> / {formatAmount(c.planned, summary.currency)} planned</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Per day */}
+            {summary.days.some((d) => d.actual.actual > 0) && (
+              <div className="space-y-1 pt-1">
+                {summary.days.filter((d) => d.actual.actual > 0).map(({ planned, actual }) => (
+                  <div key={actual.day} className="flex items-center justify-between text-[11px]">
+                    <span className="text-white/60">Day {actual.day}</span>
+                    <span className={STATUS_COLORS[actual.status]}>
+                      {formatAmount(actual.actual, summary.currency)}
+                      <span className="text-white/35"> vs {formatAmount(planned.actual, summary.currency)} planned</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Log an expense */}
+        <div className="space-y-1.5 border-t border-white/10 pt-3">
+          <div className="flex gap-1.5">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount"
+              className="flex-1 min-w-0 rounded-md bg-black/30 border border-white/10 px-2 py-1 text-xs text-white"
+              data-testid="input-expense-amount"
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="rounded-md bg-black/30 border border-white/10 px-1 py-1 text-xs text-white"
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c.code} value={c.code}>{c.code}</option>
+              ))}
+            </select>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ExpenseCategory)}
+              className="rounded-md bg-black/30 border border-white/10 px-1 py-1 text-xs text-white"
+            >
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-1.5">
+            <select
+              value={dayNumber ?? ""}
+              onChange={(e) => {
+                setDayNumber(e.target.value ? Number(e.target.value) : null);
+                setActivityIndex(null);
+              }}
+              className="rounded-md bg-black/30 border border-white/10 px-1 py-1 text-xs text-white"
+            >
+              <option value="">Whole trip</option>
+              {days.map((d) => (
+                <option key={d.day} value={d.day}>Day {d.day}</option>
+              ))}
+            </select>
+            <select
+              value={activityIndex ?? ""}
+              onChange={(e) => setActivityIndex(e.target.value ? Number(e.target.value) : null)}
+              disabled={dayActivities.length === 0}
+              className="flex-1 min-w-0 rounded-md bg-black/30 border border-white/10 px-1 py-1 text-xs text-white disabled:opacity-50"
+            >
+              <option value="">No activity</option>
+              {dayActivities.map((a, i) => (
+                <option key={i} value={i}>{a.name || a.description}</option>
+              ))}
+            </select>
+            <input
+              value={payer}
+              onChange={(e) => setPayer(e.target.value)}
+              placeholder="Paid by"
+              list={`expense-payers-${trip.id}`}
+              className="w-20 rounded-md bg-black/30 border border-white/10 px-2 py-1 text-xs text-white"
+            />
+            <datalist id={`expense-payers-${trip.id}`}>
+              {payers.map((name) => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={isAdding || !amount}
+            className="w-full px-2 py-1 rounded-md bg-white/10 hover:bg-white/15 text-[11px] text-white/80 disabled:opacity-50"
+            data-testid="button-add-expense"
+          >
+            Log expense
+          </button>
+        </div>
+
+        {/* Logged expenses */}
+        {expensesByDay.map(([day, dayExpenses]) => (
+          <div key={day ?? "trip"} className="space-y-1">
+            <div className="text-[10px] uppercase tracking-wide text-white/35">{day === null ? "Whole trip" : `Day ${day}`}</div>
+            {dayExpenses.map((expense) => (
+              <div key={expense.id} className="flex items-center justify-between gap-2 text-[11px] text-white/70">
+                <span className="truncate">
+                  {CATEGORY_LABELS[expense.category as ExpenseCategory] ?? expense.category}
+                  {expense.payer && <span className="text-white/40"> · {expense.payer}</span>}
+                </span>
+                <span className="flex items-center gap-1.5 shrink-0">
+                  {formatAmount(expense.amount, expense.currency)}
+                  {expense.currency !== tripCurrency && (
+                    <span className="text-white/35">≈ {formatAmount(expense.tripAmount, tripCurrency)}</span>
+                  )}
+                  <button
+                    onClick={() => deleteExpense(expense.id)}
+                    className="text-white/30 hover:text-white/60"
+                    aria-label="Delete expense"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ import {
 import { Button } from '@/components/ui/button';
 import type { TripResponse, VisaDetails } from '@shared/schema';
 import { springTransition } from '@/components/transitions';
+import { ShareLinksDialog } from './ShareLinksDialog';
 
 // ============================================================================
 // TYPES
@@ -105,6 +106,7 @@ function FloatingPillHeaderComponent({
   className = '',
 }: FloatingPillHeaderProps) {
   const [showQuickInfo, setShowQuickInfo] = useState(false);
+  const [showShareLinks, setShowShareLinks] = useState(false);
 
   const feasibility = trip.feasibilityReport as any;
   const visaDetails = feasibility?.visaDetails as VisaDetails | undefined;
@@ -122,10 +124,12 @@ function FloatingPillHeaderComponent({
   const handleShare = async () => {
     if (onShare) {
       onShare();
+    } else if (!isDemo) {
+      // Share links are tokenized, revocable and can hide details - see ShareLinksDialog
+      setShowShareLinks(true);
     } else {
-      const shareUrl = `${window.location.origin}/share/${trip.id}`;
       try {
-        await navigator.clipboard.writeText(shareUrl);
+        await navigator.clipboard.writeText(window.location.href);
       } catch (err) {
         console.warn('Failed to copy:', err);
       }
@@ -320,6 +324,10 @@ function FloatingPillHeaderComponent({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {!isDemo && (
+        <ShareLinksDialog tripId={trip.id} open={showShareLinks} onOpenChange={setShowShareLinks} />
+      )}
     </motion.header>
   );
 }
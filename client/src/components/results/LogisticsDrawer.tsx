@@ -28,6 +28,8 @@ import { DecisionStack } from './DecisionStack';
 import { AICoPilotConsole } from './AICoPilotConsole';
 import { RightDrawer } from './RightDrawer';
 import { ActionItems } from './ActionItems';
+import { PassportChoice } from './PassportChoice';
+import { ExpenseTracker } from './ExpenseTracker';
 import { VersionsPanel } from './VersionsPanel';
 import { CostBreakdown } from '@/components/CostBreakdown';
 import { springTransition } from '@/components/transitions';
@@ -282,6 +284,7 @@ function LogisticsDrawerComponent({
               size="xl"
             >
               <CostBreakdown trip={trip} />
+              {!isDemo && <ExpenseTracker trip={trip} />}
             </RightDrawer>
           )}
 
@@ -291,6 +294,7 @@ function LogisticsDrawerComponent({
               onClose={closeSection}
               title="Action Items"
             >
+              <PassportChoice trip={trip} />
               <ActionItems trip={trip} blockerDelta={blockerDelta} />
             </RightDrawer>
           )}
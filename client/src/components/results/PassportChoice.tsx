@@ -0,0 +1,111 @@
+/**
+ * PassportChoice.tsx
+ *
+ * For travelers holding more than one passport: how each fares for this
+ * trip (visa type, fees, processing time) and which one the plan uses.
+ *
+ * Uses trip.feasibilityReport.passports. Picking another passport re-runs
+ * feasibility, so visa details, action items and exports follow the choice.
+ */
+
+import { IdCard, Check } from "lucide-react";
+import type { FeasibilityReport, PassportOption, TripResponse } from "@shared/schema";
+import { useSetTripPassport } from "@/hooks/use-trips";
+
+const VISA_LABELS: Record<PassportOption["visas"][number]["type"], string> = {
+  visa_free: "Visa-free",
+  visa_on_arrival: "Visa on arrival",
+  e_visa: "e-Visa",
+  embassy_visa: "Embassy visa",
+  not_allowed: "Not admitted",
+  requires_verification: "Unverified",
+};
+
+function formatCost(option: PassportOption): string {
+  if (option.costPerPerson === null) return "Mixed currencies";
+  if (option.costPerPerson === 0) return "No visa fees";
+  return `${option.costPerPerson.toLocaleString()} ${option.currency}`;
+}
+
+function formatDeltas(option: PassportOption, recommended: PassportOption): string | null {
+  const parts: string[] = [];
+  if (option.processingDaysDelta > 0) {
+    parts.push(`+${option.processingDaysDelta} days processing`);
+  }
+  if (option.costDelta !== null && option.costDelta > 0) {
+    parts.push(`+${option.costDelta.toLocaleString()} ${option.currency ?? recommended.currency ?? ""} fees`.trim());
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+interface PassportChoiceProps {
+  trip: TripResponse;
+}
+
+export function PassportChoice({ trip }: PassportChoiceProps) {
+  const setPassport = useSetTripPassport();
+  const comparison = (trip.feasibilityReport as FeasibilityReport | null)?.passports;
+  if (!comparison) return null;
+
+  const recommended = comparison.options.find((o) => o.passport === comparison.recommended)!;
+  const isPending = setPassport.isPending || trip.feasibilityStatus === "pending";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 mb-4" data-testid="passport-choice">
+      <div className="px-3 py-2 border-b border-white/10 flex items-center gap-2 text-xs font-semibold text-white/70">
+        <IdCard className="w-3.5 h-3.5" />
+        Your passports
+      </div>
+
+      <div className="p-3 space-y-2">
+        {comparison.options.map((option) => {
+          const isChosen = option.passport === comparison.chosen;
+          const deltas = formatDeltas(option, recommended);
+          return (
+            <div
+              key={option.passport}
+              className={`rounded-lg p-2.5 ${isChosen ? "bg-white/10 border border-white/20" : "bg-black/20"}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-white/85 flex items-center gap-1.5">
+                  {isChosen && <Check className="w-3 h-3 text-emerald-400" />}
+                  {option.passport}
+                  {option.passport === comparison.recommended && (
+                    <span className="text-[10px] text-emerald-300/80">least friction</span>
+                  )}
+                </div>
+                {!isChosen && !option.blocked && (
+                  <button
+                    onClick={() => setPassport.mutate({ id: trip.id, passport: option.passport })}
+                    disabled={isPending}
+                    className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/15 text-[11px] text-white/80 disabled:opacity-50"
+                    data-testid={`button-use-passport-${option.passport}`}
+                  >
+                    Use this one
+                  </button>
+                )}
+              </div>
+              <div className="text-[11px] text-white/50 mt-1">
+                {option.visas.map((v) => `${v.country}: ${VISA_LABELS[v.type]}`).join(" · ")}
+              </div>
+              <div className="text-[11px] text-white/40 mt-0.5">
+                {formatCost(option)} · {option.processingDaysMax > 0 ? `up to ${option.processingDaysMax} days processing` : "no processing"}
+                {deltas && <span className="text-amber-200/70"> ({deltas})</span>}
+              </div>
+            </div>
+          );
+        })}
+
+        {comparison.pinned && comparison.chosen !== comparison.recommended && (
+          <button
+            onClick={() => setPassport.mutate({ id: trip.id, passport: null })}
+            disabled={isPending}
+            className="text-[11px] text-white/50 hover:text-white/70 underline disabled:opacity-50"
+          >
+            Switch back to {comparison.recommended}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
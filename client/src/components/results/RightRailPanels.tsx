@@ -8,7 +8,7 @@
  * 2. Modify with AI (chips only, chat opens on demand)
  *
  * Drawers (on-demand):
- * - Costs drawer (True Cost breakdown)
+ * - Costs drawer (True Cost breakdown, spending logged on the road)
  * - Checklist drawer (Action Items)
  * - History drawer (Version History)
  * - Chat drawer (Full AI chat)
@@ -24,6 +24,8 @@ import { DecisionStack } from "./DecisionStack";
 import { ModifyChips } from "./ModifyChips";
 import { RightDrawer, DrawerSection } from "./RightDrawer";
 import { ActionItems } from "./ActionItems";
+import { PassportChoice } from "./PassportChoice";
+import { ExpenseTracker } from "./ExpenseTracker";
 import { VersionsPanel } from "./VersionsPanel";
 import { CostBreakdown } from "@/components/CostBreakdown";
 
@@ -174,6 +176,7 @@ function RightRailPanelsComponent({
         subtitle={costs ? `Est. ${costs.currency}${costs.grandTotal?.toLocaleString()}` : undefined}
       >
         <CostBreakdown trip={trip} />
+        {!isDemo && <ExpenseTracker trip={trip} />}
       </RightDrawer>
 
       {/* Checklist Drawer */}
@@ -184,6 +187,7 @@ function RightRailPanelsComponent({
         subtitle="Checklist for your trip"
       >
         <DrawerSection>
+          <PassportChoice trip={trip} />
           <ActionItems trip={trip} blockerDelta={blockerDelta} />
         </DrawerSection>
       </RightDrawer>
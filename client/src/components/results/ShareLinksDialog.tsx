@@ -0,0 +1,169 @@
+/**
+ * ShareLinksDialog.tsx
+ *
+ * Owner's share controls: create a read-only link that hides chosen
+ * details (passport, budget, exact dates) and expires, copy it, and see or
+ * revoke existing links with their view counts.
+ */
+
+import { useState } from "react";
+import { Share2, Copy, Check, Eye, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import type { ShareRedaction } from "@shared/schema";
+import { useShareLinks } from "@/hooks/useShareLinks";
+
+const REDACTION_OPTIONS: Array<{ value: ShareRedaction; label: string }> = [
+  { value: "passport", label: "Hide passport, residence and home city" },
+  { value: "budget", label: "Hide budget and cost estimates" },
+  { value: "exactDates", label: "Hide exact dates (show month and length)" },
+];
+
+const REDACTION_LABELS: Record<ShareRedaction, string> = {
+  passport: "passport",
+  budget: "budget",
+  exactDates: "dates",
+};
+
+const EXPIRY_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: 7, label: "7 days" },
+  { value: 30, label: "30 days" },
+  { value: 90, label: "90 days" },
+  { value: null, label: "Never" },
+];
+
+interface ShareLinksDialogProps {
+  tripId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareLinksDialog({ tripId, open, onOpenChange }: ShareLinksDialogProps) {
+  const { links, createLink, isCreating, revokeLink } = useShareLinks(tripId, open);
+  const [redact, setRedact] = useState<ShareRedaction[]>(["passport"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedUrl(url);
+    } catch (err) {
+      console.warn("Failed to copy:", err);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const { shareUrl } = await createLink({ redact, expiresInDays });
+      await copy(shareUrl);
+    } catch {
+      // Already surfaced by the hook's error toast
+    }
+  };
+
+  const toggle = (value: ShareRedaction) =>
+    setRedact((prev) => (prev.includes(value) ? prev.filter((r) => r !== value) : [...prev, value]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-slate-900 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-primary" />
+            Share this trip
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Anyone with the link can view the trip, but can't edit it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {REDACTION_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={redact.includes(option.value)}
+                onChange={() => toggle(option.value)}
+                data-testid={`checkbox-redact-${option.value}`}
+              />
+              {option.label}
+            </label>
+          ))}
+          <div className="flex items-center gap-2 text-sm text-slate-300 pt-1">
+            <span>Expires after</span>
+            <select
+              value={expiresInDays ?? ""}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="rounded-md bg-slate-800 border border-slate-700 px-2 py-1 text-sm"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value ?? ""}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-primary hover:bg-primary/90 text-sm font-medium disabled:opacity-50"
+            data-testid="button-create-share-link"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+            Create link and copy
+          </button>
+        </div>
+
+        {links.length > 0 && (
+          <div className="border-t border-slate-700 pt-3 space-y-2 max-h-60 overflow-y-auto">
+            {links.map((link) => (
+              <div key={link.id} className={`rounded-lg p-2.5 bg-slate-800/60 ${link.status !== "active" ? "opacity-50" : ""}`}>
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-slate-300">
+                    {link.redact.length > 0
+                      ? `Hides ${(link.redact as ShareRedaction[]).map((r) => REDACTION_LABELS[r]).join(", ")}`
+                      : "Full details"}
+                  </span>
+                  <span className="flex items-center gap-1 text-slate-400">
+                    <Eye className="w-3 h-3" />
+                    {link.viewCount}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1 text-[11px] text-slate-500">
+                  <span>
+                    {link.status === "revoked"
+                      ? "Revoked"
+                      : link.status === "expired"
+                        ? "Expired"
+                        : link.expiresAt
+                          ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                          : "Never expires"}
+                  </span>
+                  {link.status === "active" && (
+                    <span className="flex items-center gap-2">
+                      <button onClick={() => copy(link.shareUrl)} className="text-slate-300 hover:text-white flex items-center gap-1">
+                        {copiedUrl === link.shareUrl ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+                        Copy
+                      </button>
+                      <button
+                        onClick={() => revokeLink(link.id)}
+                        className="text-red-300/80 hover:text-red-300"
+                        data-testid={`button-revoke-share-link-${link.id}`}
+                      >
+                        Revoke
+                      </button>
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
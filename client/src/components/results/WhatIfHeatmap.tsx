@@ -0,0 +1,227 @@
+/**
+ * WhatIfHeatmap.tsx
+ *
+ * Calendar heatmap of the what-if sweep: for each start date around the
+ * trip, how feasible it is with the selected trip length and passport.
+ *
+ * - Runs POST /api/trips/:id/what-if on demand (deterministic, no LLM)
+ * - Start dates four weeks either side of the trip (never in the past),
+ *   trip lengths three days either side, plus an optional second passport
+ * - Click a day to see its blockers, warnings and apply-by dates
+ */
+
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CalendarRange, Loader2 } from "lucide-react";
+import type { TripResponse, WhatIfCell, WhatIfSweepResult } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { parseTripDates } from "@/lib/tripInput";
+
+const WINDOW_DAYS = 28;
+const DURATION_SPREAD = 3;
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function addDays(dateISO: string, days: number): string {
+  const date = new Date(`${dateISO}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function cellColor(cell?: WhatIfCell): string {
+  if (!cell) return "bg-white/[0.03] text-white/20";
+  if (cell.blockers.length > 0 || cell.score < 40) return "bg-red-500/30 text-red-100";
+  if (cell.score < 70) return "bg-amber-500/30 text-amber-100";
+  return "bg-emerald-500/30 text-emerald-100";
+}
+
+function formatDay(dateISO: string): string {
+  return new Date(`${dateISO}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+interface WhatIfHeatmapProps {
+  trip: TripResponse;
+}
+
+export function WhatIfHeatmap({ trip }: WhatIfHeatmapProps) {
+  const base = useMemo(() => parseTripDates(trip.dates), [trip.dates]);
+  const [extraPassport, setExtraPassport] = useState("");
+  const [duration, setDuration] = useState<number | null>(null);
+  const [passport, setPassport] = useState(trip.passport);
+  const [selected, setSelected] = useState<WhatIfCell | null>(null);
+
+  const sweep = useMutation({
+    mutationFn: async (): Promise<WhatIfSweepResult> => {
+      const today = new Date().toISOString().slice(0, 10);
+      const from = addDays(base!.start, -WINDOW_DAYS);
+      const spec = {
+        startDates: {
+          from: from < today ? today : from,
+          to: addDays(base!.start, WINDOW_DAYS),
+          stepDays: 1,
+        },
+        // Multi-city trip length comes from the nights at each stop
+        durations: (trip.legs?.length ?? 0) >= 2 ? undefined : {
+          min: Math.max(1, base!.duration - DURATION_SPREAD),
+          max: base!.duration + DURATION_SPREAD,
+          step: 1,
+        },
+        passports: extraPassport.trim() ? [extraPassport.trim()] : [],
+      };
+      const res = await apiRequest("POST", `/api/trips/${trip.id}/what-if`, spec);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      const baseCell = result.cells.find(cell => cell.isBase);
+      setDuration(baseCell?.duration ?? result.axes.durations[0]);
+      setPassport(result.axes.passports[0]);
+      setSelected(baseCell ?? null);
+    },
+  });
+
+  const result = sweep.data;
+
+  const byDate = useMemo(() => {
+    const map = new Map<string, WhatIfCell>();
+    for (const cell of result?.cells ?? []) {
+      if (cell.duration === duration && cell.passport === passport) map.set(cell.startDate, cell);
+    }
+    return map;
+  }, [result, duration, passport]);
+
+  // Calendar rows, Monday first, padded to whole weeks
+  const weeks = useMemo(() => {
+    const dates = result?.axes.startDates ?? [];
+    if (dates.length === 0) return [];
+    const first = dates[0];
+    const leading = (new Date(`${first}T00:00:00Z`).getUTCDay() + 6) % 7;
+    const start = addDays(first, -leading);
+    const last = dates[dates.length - 1];
+    const rows: string[][] = [];
+    for (let day = start; day <= last; day = addDays(day, 7)) {
+      rows.push(Array.from({ length: 7 }, (_, i) => addDays(day, i)));
+    }
+    return rows;
+  }, [result]);
+
+  const best = result?.cells[0];
+
+  if (!base) return null;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5">
+      <div className="px-3 py-2 border-b border-white/10 flex items-center gap-2 text-xs font-semibold text-white/70">
+        <CalendarRange className="w-3.5 h-3.5" />
+        What if I went on a different date?
+      </div>
+
+      <div className="p-3 space-y-3">
+        <div className="flex gap-2">
+          <input
+            value={extraPassport}
+            onChange={(e) => setExtraPassport(e.target.value)}
+            placeholder="Second passport (optional)"
+            className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-white/85 placeholder:text-white/30"
+            data-testid="input-what-if-passport"
+          />
+          <button
+            onClick={() => sweep.mutate()}
+            disabled={sweep.isPending}
+            className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/15 text-xs text-white/85 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+            data-testid="button-run-what-if"
+          >
+            {sweep.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+            {result ? "Re-run" : "Compare dates"}
+          </button>
+        </div>
+
+        {sweep.isError && (
+          <div className="text-xs text-red-300">
+            {(sweep.error as Error).message.replace(/^\d+:\s*/, "")}
+          </div>
+        )}
+
+        {result && (
+          <>
+            {best && (
+              <div className="text-xs text-white/60">
+                Best: {formatDay(best.startDate)} for {best.duration} days
+                {result.axes.passports.length > 1 && ` on ${best.passport} passport`} ({best.score})
+              </div>
+            )}
+
+            {/* Passport and trip length pickers */}
+            <div className="flex flex-wrap gap-1.5">
+              {result.axes.passports.length > 1 && result.axes.passports.map(p => (
+                <button
+                  key={p}
+                  onClick={() => setPassport(p)}
+                  className={`px-2 py-0.5 rounded-full text-[11px] border ${p === passport ? "border-white/40 text-white/90 bg-white/10" : "border-white/10 text-white/50"}`}
+                >
+                  {p}
+                </button>
+              ))}
+              {result.axes.durations.length > 1 && result.axes.durations.map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDuration(d)}
+                  className={`px-2 py-0.5 rounded-full text-[11px] border ${d === duration ? "border-white/40 text-white/90 bg-white/10" : "border-white/10 text-white/50"}`}
+                >
+                  {d}d
+                </button>
+              ))}
+            </div>
+
+            {/* Calendar */}
+            <div className="grid grid-cols-7 gap-1" data-testid="what-if-heatmap">
+              {WEEKDAYS.map(day => (
+                <div key={day} className="text-[10px] text-white/40 text-center">{day}</div>
+              ))}
+              {weeks.flat().map(day => {
+                const cell = byDate.get(day);
+                return (
+                  <button
+                    key={day}
+                    disabled={!cell}
+                    onClick={() => cell && setSelected(cell)}
+                    title={cell ? `${formatDay(day)}: ${cell.score}` : undefined}
+                    className={`h-8 rounded-md text-[10px] ${cellColor(cell)} ${cell?.isBase ? "ring-1 ring-white/60" : ""} ${selected && cell === selected ? "ring-2 ring-white" : ""}`}
+                  >
+                    {new Date(`${day}T00:00:00Z`).getUTCDate()}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Selected day */}
+            {selected && (
+              <div className="rounded-lg bg-black/20 p-2.5 space-y-1.5">
+                <div className="text-xs text-white/85">
+                  {formatDay(selected.startDate)} – {formatDay(selected.endDate)} · {selected.score} · {selected.verdict}
+                  {selected.isBase && <span className="text-white/40"> (current plan)</span>}
+                </div>
+                {selected.blockers.map(blocker => (
+                  <div key={blocker} className="text-[11px] text-red-300">{blocker}</div>
+                ))}
+                {selected.warnings.map(warning => (
+                  <div key={warning} className="text-[11px] text-amber-200/80">{warning}</div>
+                ))}
+                <div className="text-[11px] text-white/40">
+                  About {selected.budgetPerDayPerPerson.toLocaleString()} {result.currency} per person per day
+                </div>
+              </div>
+            )}
+
+            <div className="text-[10px] text-white/35 leading-relaxed">
+              Visa timing and stay limits only; safety and budget fit aren't scored here.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { getVoyageHeaders } from '@/lib/voyageUid';
 
 interface User {
   id: number;
@@ -67,7 +68,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const res = await fetch('/api/auth/login', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({ email, password }),
       });
@@ -105,7 +106,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const res = await fetch('/api/auth/register', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({ email, password, name }),
       });
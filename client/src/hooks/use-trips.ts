@@ -163,3 +163,41 @@ export function useUpdateTrip() {
     },
   });
 }
+
+// PUT /api/trips/:id/passport - Travel on another of the traveler's passports (null = best one)
+export function useSetTripPassport() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, passport }: { id: number; passport: string | null }) => {
+      const res = await fetch(`/api/trips/${id}/passport`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...getVoyageHeaders(),
+        },
+        body: JSON.stringify({ passport }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to change passport");
+      }
+
+      return api.trips.get.responses[200].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      // Feasibility re-runs for the new passport; the trip query polls while pending
+      queryClient.invalidateQueries({ queryKey: [api.trips.get.path, data.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Passport Change Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -45,6 +45,38 @@ export interface StreamMeta {
   startDate: string;
   cached?: boolean;
   resumedFrom?: number;
+  /** Multi-city trips only */
+  legs?: StreamLeg[];
+}
+
+/**
+ * A stop on a multi-city trip (days are 0-based)
+ */
+export interface StreamLeg {
+  legIndex: number;
+  destination: string;
+  nights: number;
+  startDay: number;
+  endDay: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Per-stop costs from the done event (USD, whole group)
+ */
+export interface StreamLegCosts {
+  currency: string;
+  legs: Array<{
+    legIndex: number;
+    destination: string;
+    nights: number;
+    days: number[];
+    activities: number;
+    food: number;
+    transfer: number;
+    total: number;
+  }>;
 }
 
 export interface StreamProgress {
@@ -123,6 +155,12 @@ export interface UseItineraryStreamResult {
   /** Final validation metadata after completion */
   validationResult: ValidationMetadata | null;
 
+  /** Multi-city: stop currently being generated */
+  currentLeg: StreamLeg | null;
+
+  /** Multi-city: per-stop costs after completion */
+  legCosts: StreamLegCosts | null;
+
   /** Start streaming for a trip */
   startStream: (tripId: number) => void;
 
@@ -147,6 +185,8 @@ export function useItineraryStream(): UseItineraryStreamResult {
   const [validation, setValidation] = useState<StreamValidation | null>(null);
   const [refinement, setRefinement] = useState<StreamRefinement | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationMetadata | null>(null);
+  const [currentLeg, setCurrentLeg] = useState<StreamLeg | null>(null);
+  const [legCosts, setLegCosts] = useState<StreamLegCosts | null>(null);
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const currentTripIdRef = useRef<number | null>(null);
@@ -178,6 +218,8 @@ export function useItineraryStream(): UseItineraryStreamResult {
     setValidation(null);
     setRefinement(null);
     setValidationResult(null);
+    setCurrentLeg(null);
+    setLegCosts(null);
     currentTripIdRef.current = tripId;
 
     const url = `/api/trips/${tripId}/itinerary/stream`;
@@ -199,6 +241,17 @@ export function useItineraryStream(): UseItineraryStreamResult {
       }
     });
 
+    // Handle leg event (multi-city: a new stop starts)
+    eventSource.addEventListener("leg", (e) => {
+      try {
+        const data = JSON.parse(e.data) as StreamLeg;
+        console.log(`[ItineraryStream] Stop ${data.legIndex + 1}: ${data.destination}`);
+        setCurrentLeg(data);
+      } catch (err) {
+        console.error("[ItineraryStream] Failed to parse leg:", err);
+      }
+    });
+
     // Handle day event - this is the key one for progressive rendering
     eventSource.addEventListener("day", (e) => {
       try {
@@ -288,6 +341,10 @@ export function useItineraryStream(): UseItineraryStreamResult {
           console.log(`[ItineraryStream] Validation result: budget=${data.validation.budgetVerified}, logistics=${data.validation.logisticsVerified}, iterations=${data.validation.totalIterations}`);
         }
 
+        if (data.legCosts) {
+          setLegCosts(data.legCosts as StreamLegCosts);
+        }
+
         setStatus("complete");
         setProgress({
           currentDay: data.totalDays,
@@ -402,6 +459,8 @@ export function useItineraryStream(): UseItineraryStreamResult {
     validation,
     refinement,
     validationResult,
+    currentLeg,
+    legCosts,
     startStream,
     abortStream,
     retry
@@ -0,0 +1,128 @@
+/**
+ * useSavedPlaces.ts
+ *
+ * Client hook for the saved places library.
+ * - Lists the caller's places (account or this device)
+ * - Saves places by name (the server resolves them), edits notes and tags
+ * - Adds a place to a trip day and reports that day's logistics
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SavedPlace } from "@shared/schema";
+import { api } from "@shared/routes";
+import { getVoyageHeaders } from "@/lib/voyageUid";
+import { useToast } from "@/hooks/use-toast";
+
+export interface NewSavedPlace {
+  query: string;
+  city?: string | null;
+  notes?: string | null;
+  tags?: string[];
+}
+
+export interface AddToTripRequest {
+  placeId: number;
+  tripId: number;
+  dayNumber: number;
+  time?: string;
+}
+
+interface AddToTripResponse {
+  success: boolean;
+  message: string;
+  logistics: {
+    day: number;
+    status: "APPROVED" | "IMPOSSIBLE" | "TIGHT" | "RELAXED";
+    conflicts: Array<{ severity: "error" | "warning"; issue: string }>;
+  };
+}
+
+const SAVED_PLACES_KEY = ["/api/saved-places"];
+
+async function send<T>(url: string, method: string, body?: unknown, fallbackError = "Request failed"): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || fallbackError);
+  }
+  return res.json();
+}
+
+export function useSavedPlaces() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const placesQuery = useQuery<{ places: SavedPlace[] }>({
+    queryKey: SAVED_PLACES_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/saved-places", { headers: getVoyageHeaders() });
+      if (!res.ok) throw new Error("Failed to fetch saved places");
+      return res.json();
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: SAVED_PLACES_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: (place: NewSavedPlace) =>
+      send<{ place: SavedPlace }>("/api/saved-places", "POST", place, "Failed to save place"),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Place Not Saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: number; notes?: string | null; tags?: string[] }) =>
+      send<{ place: SavedPlace }>(`/api/saved-places/${id}`, "PATCH", updates, "Failed to update place"),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => send(`/api/saved-places/${id}`, "DELETE", undefined, "Failed to delete place"),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addToTripMutation = useMutation({
+    mutationFn: ({ placeId, ...body }: AddToTripRequest) =>
+      send<AddToTripResponse>(`/api/saved-places/${placeId}/add-to-trip`, "POST", body, "Failed to add place to trip"),
+    onSuccess: (data, { tripId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.trips.get.path, tripId] });
+      const problems = data.logistics.conflicts.filter((c) => c.severity === "error");
+      toast({
+        title: data.message,
+        description:
+          problems.length > 0
+            ? `Day ${data.logistics.day} no longer works: ${problems[0].issue}`
+            : data.logistics.status === "TIGHT"
+              ? `Day ${data.logistics.day} is now tight - check the timing`
+              : `Day ${data.logistics.day} still works`,
+        variant: problems.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Not Added", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    places: placesQuery.data?.places ?? [],
+    isLoading: placesQuery.isLoading,
+    savePlace: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+    updatePlace: updateMutation.mutate,
+    deletePlace: deleteMutation.mutate,
+    addToTrip: addToTripMutation.mutate,
+    isAddingToTrip: addToTripMutation.isPending,
+  };
+}
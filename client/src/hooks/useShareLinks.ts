@@ -0,0 +1,91 @@
+/**
+ * useShareLinks.ts
+ *
+ * Client hook for a trip's read-only share links (owner only).
+ * - Lists links with their view counts and status
+ * - Creates links with redactions and an expiry
+ * - Revokes links
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ShareRedaction, TripShareLink } from "@shared/schema";
+import { getVoyageHeaders } from "@/lib/voyageUid";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ShareLinkResponse extends Omit<TripShareLink, "token" | "expiresAt" | "revokedAt" | "lastViewedAt" | "createdAt"> {
+  status: "active" | "expired" | "revoked";
+  shareUrl: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string | null;
+}
+
+export interface NewShareLink {
+  redact: ShareRedaction[];
+  expiresInDays: number | null; // null = never
+}
+
+export function useShareLinks(tripId: number | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const linksKey = ["trip-share-links", tripId];
+
+  const linksQuery = useQuery<{ links: ShareLinkResponse[] }>({
+    queryKey: linksKey,
+    queryFn: async () => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/share-links`, { headers: getVoyageHeaders() });
+      if (!res.ok) throw new Error("Failed to fetch share links");
+      return res.json();
+    },
+    enabled: !!tripId && enabled,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (link: NewShareLink) => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/share`, {
+        method: "POST",
+        headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(link),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to create share link");
+      }
+      return res.json() as Promise<{ success: boolean; shareUrl: string }>;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linksKey }),
+    onError: (error) => {
+      toast({ title: "Share Link Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/share-links/${linkId}`, {
+        method: "DELETE",
+        headers: getVoyageHeaders(),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to revoke share link");
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linksKey }),
+    onError: (error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    links: linksQuery.data?.links ?? [],
+    isLoading: linksQuery.isLoading,
+    createLink: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    revokeLink: revokeMutation.mutate,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * useTripExpenses.ts
+ *
+ * Client hook for expenses logged during the trip.
+ * - Fetches the expense list and the budget-vs-actual summary
+ * - Logs and deletes expenses (both refresh the summary)
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ExpenseCategory, ExpenseReconciliation, TripExpense } from "@shared/schema";
+import { getVoyageHeaders } from "@/lib/voyageUid";
+import { useToast } from "@/hooks/use-toast";
+
+export interface NewExpense {
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  dayNumber: number | null;
+  activityIndex: number | null;
+  payer: string | null;
+  note: string | null;
+}
+
+export function useTripExpenses(tripId: number | null) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const expensesKey = ["trip-expenses", tripId];
+  const summaryKey = ["trip-expenses-summary", tripId];
+
+  const expensesQuery = useQuery<{ expenses: TripExpense[] }>({
+    queryKey: expensesKey,
+    queryFn: async () => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/expenses`, { headers: getVoyageHeaders() });
+      if (!res.ok) throw new Error("Failed to fetch expenses");
+      return res.json();
+    },
+    enabled: !!tripId,
+  });
+
+  const summaryQuery = useQuery<ExpenseReconciliation>({
+    queryKey: summaryKey,
+    queryFn: async () => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/expenses/summary`, { headers: getVoyageHeaders() });
+      if (!res.ok) throw new Error("Failed to fetch expense summary");
+      return res.json();
+    },
+    enabled: !!tripId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: expensesKey });
+    queryClient.invalidateQueries({ queryKey: summaryKey });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (expense: NewExpense) => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/expenses`, {
+        method: "POST",
+        headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(expense),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to log expense");
+      }
+      return res.json() as Promise<{ success: boolean; expense: TripExpense }>;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Expense Not Saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (expenseId: number) => {
+      if (!tripId) throw new Error("No tripId");
+      const res = await fetch(`/api/trips/${tripId}/expenses/${expenseId}`, {
+        method: "DELETE",
+        headers: getVoyageHeaders(),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete expense");
+      }
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    expenses: expensesQuery.data?.expenses ?? [],
+    summary: summaryQuery.data ?? null,
+    isLoading: expensesQuery.isLoading || summaryQuery.isLoading,
+    addExpense: addMutation.mutate,
+    isAdding: addMutation.isPending,
+    deleteExpense: deleteMutation.mutate,
+  };
+}
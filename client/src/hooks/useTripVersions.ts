@@ -18,6 +18,7 @@ import type {
   VersionSource,
   TripVersionResponse,
 } from "@shared/schema";
+import { getVoyageHeaders } from "@/lib/voyageUid";
 
 // Re-export types for convenience
 export type { VersionSnapshot, VersionSummary, VersionSource, TripVersionResponse };
@@ -197,7 +198,7 @@ export function useTripVersions(tripId: number | null) {
 
       const res = await fetch(`/api/trips/${tripId}/versions`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
         body: JSON.stringify(args),
       });
 
@@ -229,7 +230,7 @@ export function useTripVersions(tripId: number | null) {
 
       const res = await fetch(`/api/trips/${tripId}/versions/${versionId}/restore`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
       });
 
       if (!res.ok) {
@@ -8,7 +8,7 @@
  * Completion state is UI-only (local storage or component state).
  */
 
-import type { VisaDetails, FeasibilityReport } from "@shared/schema";
+import type { VisaDetails, FeasibilityReport, StayLimitWindow, TravelerVisaCheck } from "@shared/schema";
 
 export type Priority = "urgent" | "soon" | "later";
 export type Category = "required" | "recommended";
@@ -21,6 +21,7 @@ export interface ActionItemDefinition {
   category: Category;
   type: string;
   url?: string;
+  traveler?: string; // Group trips: whose item this is (undefined = the whole trip)
 }
 
 /**
@@ -28,10 +29,13 @@ export interface ActionItemDefinition {
  * Returns both required (blocking) and recommended (nice-to-have) items.
  *
  * Required items are derived from:
+ * - passports (which passport to travel on, for travelers holding several)
+ * - group (per-traveler visas and documents; replaces the single visa item)
  * - visaDetails (if required && type !== 'visa_free')
  * - passportWarning (if present - future feature)
  * - vaccineRequirements (if present - future feature)
  * - entryRestrictions (if present - future feature)
+ * - stayLimits (cumulative allowance exceeded across the traveler's trips)
  *
  * Recommended items are static (flights, accommodation, insurance, etc.)
  */
@@ -45,9 +49,13 @@ export function buildActionItemsFromFeasibility(
   // REQUIRED ITEMS (blocking - affects eligibility)
   // =============================================
 
-  // 1. Visa application (if required)
+  // 0. Passport choice (travelers holding several passports)
+  items.push(...buildPassportChoiceActionItems(feasibilityReport));
+
+  // 1. Visa application (if required) - per traveler on group trips
   const visaDetails = report?.visaDetails as VisaDetails | undefined;
-  if (visaDetails?.required && visaDetails.type !== "visa_free") {
+  items.push(...buildTravelerActionItems(feasibilityReport));
+  if (!feasibilityReport?.group && visaDetails?.required && visaDetails.type !== "visa_free") {
     const isUrgent =
       visaDetails.timing?.urgency === "tight" ||
       visaDetails.timing?.urgency === "risky";
@@ -109,6 +117,9 @@ export function buildActionItemsFromFeasibility(
     });
   }
 
+  // 5. Stay limits exceeded across trips (HARD_BLOCKER)
+  items.push(...buildStayLimitActionItems(feasibilityReport));
+
   // =============================================
   // RECOMMENDED ITEMS (nice-to-have - improves trip)
   // =============================================
@@ -200,6 +211,154 @@ export function getRecommendedItems(
   );
 }
 
+/**
+ * Stay-limit zones this trip overstays, counting the traveler's other trips.
+ */
+export function getExceededStayLimits(
+  feasibilityReport: FeasibilityReport | null | undefined
+): StayLimitWindow[] {
+  return feasibilityReport?.stayLimits?.windows.filter((w) => w.exceeded) ?? [];
+}
+
+const VISA_TYPE_LABELS: Record<VisaDetails["type"], string> = {
+  visa_free: "visa-free entry",
+  visa_on_arrival: "visa on arrival",
+  e_visa: "e-visa",
+  embassy_visa: "embassy visa",
+  not_allowed: "entry",
+  requires_verification: "entry requirements",
+};
+
+const DEADLINE_PRIORITY: Record<NonNullable<TravelerVisaCheck["urgency"]>, Priority> = {
+  critical: "urgent",
+  urgent: "urgent",
+  normal: "soon",
+  relaxed: "later",
+};
+
+/**
+ * Group trips: each traveler's visas and minors' documents, labelled with
+ * whose they are. Visa-free entries need no item.
+ */
+export function buildTravelerActionItems(
+  feasibilityReport: FeasibilityReport | null | undefined
+): ActionItemDefinition[] {
+  const items: ActionItemDefinition[] = [];
+
+  for (const traveler of feasibilityReport?.group?.travelers ?? []) {
+    const prefix = `traveler_${traveler.travelerIndex}`;
+
+    for (const visa of traveler.visas) {
+      const id = `${prefix}_visa_${visa.country.toLowerCase().replace(/[^a-z]/g, "_")}`;
+      if (visa.type === "not_allowed") {
+        items.push({
+          id,
+          label: `Can't enter ${visa.country} on a ${traveler.passport} passport`,
+          description: "Another passport or destination is needed",
+          priority: "urgent",
+          category: "required",
+          type: "visa",
+          traveler: traveler.name,
+        });
+      } else if (visa.type === "visa_on_arrival") {
+        items.push({
+          id,
+          label: `Visa on arrival in ${visa.country}`,
+          description: visa.costPerPerson > 0 ? `Bring ${visa.costPerPerson} ${visa.currency} for the fee` : undefined,
+          priority: "later",
+          category: "required",
+          type: "visa",
+          traveler: traveler.name,
+        });
+      } else if (visa.type !== "visa_free") {
+        items.push({
+          id,
+          label: `Apply for ${visa.name || `${visa.country} ${VISA_TYPE_LABELS[visa.type]}`}`,
+          description: visa.applyByDate
+            ? `Apply by ${visa.applyByDate} (up to ${visa.processingDaysMax} days processing)`
+            : visa.type === "requires_verification"
+              ? `Check ${visa.country}'s rules for ${traveler.passport} passports`
+              : undefined,
+          priority: visa.urgency ? DEADLINE_PRIORITY[visa.urgency] : "soon",
+          category: "required",
+          type: "visa",
+          url: visa.applicationUrl,
+          traveler: traveler.name,
+        });
+      }
+    }
+
+    if (traveler.ageBand !== "adult") {
+      items.push({
+        id: `${prefix}_minor_documents`,
+        label: "Carry documents for a minor",
+        description: "Birth certificate, plus a consent letter from any parent not travelling",
+        priority: "soon",
+        category: "required",
+        type: "documents",
+        traveler: traveler.name,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Which passport to travel on, for travelers holding several - with what it
+ * saves over the next-best one.
+ */
+export function buildPassportChoiceActionItems(
+  feasibilityReport: FeasibilityReport | null | undefined
+): ActionItemDefinition[] {
+  const passports = feasibilityReport?.passports;
+  if (!passports) return [];
+
+  const chosen = passports.options.find((o) => o.passport === passports.chosen);
+  const other = passports.options.find((o) => o.passport !== passports.chosen);
+  const savings: string[] = [];
+  if (chosen && other) {
+    const days = other.processingDaysMax - chosen.processingDaysMax;
+    if (days > 0) savings.push(`${days} fewer processing days`);
+    const currency = other.currency ?? chosen.currency;
+    if (other.costDelta !== null && chosen.costDelta !== null && other.costDelta > chosen.costDelta && currency) {
+      savings.push(`${other.costDelta - chosen.costDelta} ${currency} less in visa fees`);
+    }
+  }
+
+  return [{
+    id: "passport_choice",
+    label: `Travel on your ${passports.chosen} passport`,
+    description: savings.length > 0
+      ? `Compared with your ${other!.passport} passport: ${savings.join(", ")}. Book flights with it too.`
+      : "Book flights and enter with the same passport.",
+    priority: "soon",
+    category: "required",
+    type: "passport",
+  }];
+}
+
+/**
+ * Required items for overstayed zones - one per zone, e.g. Schengen 90/180.
+ */
+export function buildStayLimitActionItems(
+  feasibilityReport: FeasibilityReport | null | undefined
+): ActionItemDefinition[] {
+  return getExceededStayLimits(feasibilityReport).map((window) => {
+    const others = window.otherTrips.length > 0
+      ? ` (${window.otherTrips.map((t) => `${t.days} days in ${t.destination}`).join(", ")} already count)`
+      : "";
+    return {
+      id: `stay_limit_${window.zone}`,
+      label: `Shorten your ${window.zoneLabel} stay by ${window.overstayDays} day${window.overstayDays === 1 ? "" : "s"}`,
+      description: `Limit is ${window.maxStay} days in any ${window.period}${others}`,
+      priority: "urgent",
+      category: "required",
+      type: "stay_limit",
+    };
+  });
+}
+
 /**
  * Check if a visa is required (blocking).
  * This is the primary blocker check used in production.
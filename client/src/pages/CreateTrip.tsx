@@ -3,13 +3,13 @@ import { useLocation, useSearch, Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion, AnimatePresence } from "framer-motion";
-import { insertTripSchema, type CreateTripRequest } from "@shared/schema";
+import { insertTripSchema, MAX_TRIP_LEGS, MAX_TRIP_TRAVELERS, type CreateTripRequest, type TripLeg, type TripTraveler } from "@shared/schema";
 import { useCreateTrip, useUpdateTrip } from "@/hooks/use-trips";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, Plane, Globe, Wallet, Users, ChevronDown, Search, Check, CalendarIcon, ArrowLeft, MapPin, ArrowRight, AlertCircle, Pencil } from "lucide-react";
+import { Loader2, Plane, Globe, Wallet, Users, ChevronDown, Search, Check, CalendarIcon, ArrowLeft, MapPin, ArrowRight, AlertCircle, Pencil, Plus, X } from "lucide-react";
 import { z } from "zod";
 import { format } from "date-fns";
 import { trackTripEvent } from "@/lib/analytics";
@@ -394,8 +394,8 @@ const COUNTRIES = [
 ];
 
 // Splitting the schema for steps
-const step1Schema = insertTripSchema.pick({ passport: true, residence: true });
-const step2Schema = insertTripSchema.pick({ origin: true, destination: true, dates: true });
+const step1Schema = insertTripSchema.pick({ passport: true, passports: true, residence: true });
+const step2Schema = insertTripSchema.pick({ origin: true, destination: true, dates: true, legs: true });
 // Travel style options with budget multipliers and visual details
 const TRAVEL_STYLES = [
   {
@@ -457,6 +457,7 @@ const step3Schema = z.object({
     if (val === "" || val === null || val === undefined || Number.isNaN(val)) return 0;
     return Number(val);
   }, z.number().min(0).default(0)),
+  travelers: insertTripSchema.shape.travelers,
 }).refine((data) => {
   // Only require budget >= 1 when travelStyle is 'custom'
   if (data.travelStyle === 'custom' && data.budget < 1) {
@@ -1242,9 +1243,13 @@ export default function CreateTrip() {
           }
           setFormData({
             passport: trip.passport || "",
+            passports: trip.passports ?? null,
+            travelers: trip.travelers ?? null,
             residence: trip.origin || "",
             origin: trip.origin || "",
-            destination: trip.destination || "",
+            // Multi-city trips store the route label in destination; edit the first stop instead
+            destination: trip.legs?.[0]?.destination || trip.destination || "",
+            legs: trip.legs ?? null,
             dates: trip.dates || "",
             budget: trip.budget,
             currency: trip.currency || "USD",
@@ -1614,6 +1619,7 @@ export default function CreateTrip() {
                   onSubmit={handleNext}
                   isLoading={isSubmitting || createTrip.isPending}
                   origin={(formData as any).origin}
+                  passport={(formData as any).passport}
                   destination={(formData as any).destination}
                   dates={(formData as any).dates}
                   isEditMode={isEditMode}
@@ -1643,8 +1649,12 @@ function Step1Form({ defaultValues, onSubmit, isEditMode, returnTo }: {
   });
 
   const passportValue = form.watch("passport");
+  const passportsValue = form.watch("passports");
   const residenceValue = form.watch("residence");
 
+  // Dual citizens: feasibility compares both and travels on the least-friction one
+  const otherPassport = passportsValue?.find((p) => p !== passportValue) ?? "";
+
   // Determine back button behavior based on context
   const getBackButton = () => {
     if (isEditMode && returnTo) {
@@ -1673,12 +1683,25 @@ function Step1Form({ defaultValues, onSubmit, isEditMode, returnTo }: {
         <Label htmlFor="passport">Nationality</Label>
         <CountrySelect
           value={passportValue}
-          onChange={(value) => form.setValue("passport", value)}
+          onChange={(value) => {
+            form.setValue("passport", value);
+            if (otherPassport) form.setValue("passports", [value, otherPassport]);
+          }}
           placeholder="Select your nationality..."
         />
         {form.formState.errors.passport && <p className="text-destructive text-sm">{form.formState.errors.passport.message}</p>}
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="otherPassport">Second Passport (Optional)</Label>
+        <CountrySelect
+          value={otherPassport}
+          onChange={(value) => form.setValue("passports", value ? [passportValue, value] : null)}
+          placeholder="Select another nationality..."
+        />
+        <p className="text-xs text-muted-foreground">We'll check both and plan with whichever needs less paperwork.</p>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="residence">Current Residence (Optional)</Label>
         <CountrySelect
@@ -1753,6 +1776,16 @@ function Step2Form({ defaultValues, onBack, onSubmit }: { defaultValues: Step2Da
   );
   const [dateModalOpen, setDateModalOpen] = useState(false);
 
+  // Multi-city: the destination above is the first stop, these are the rest
+  const [firstStopNights, setFirstStopNights] = useState(defaultValues?.legs?.[0]?.nights ?? 1);
+  const [extraStops, setExtraStops] = useState<TripLeg[]>(defaultValues?.legs?.slice(1) ?? []);
+  const [legsError, setLegsError] = useState<string | null>(null);
+
+  const updateStop = (index: number, patch: Partial<TripLeg>) => {
+    setExtraStops(stops => stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+    setLegsError(null);
+  };
+
   // Update form values when defaultValues change (e.g., from URL params or navigating back)
   useEffect(() => {
     if (defaultValues?.destination) {
@@ -1836,7 +1869,26 @@ function Step2Form({ defaultValues, onBack, onSubmit }: { defaultValues: Step2Da
     }
 
     setDateError(null);
-    onSubmit(data);
+
+    if (extraStops.length === 0) {
+      setLegsError(null);
+      onSubmit({ ...data, legs: null });
+      return;
+    }
+
+    const legs: TripLeg[] = [{ destination: data.destination, nights: firstStopNights }, ...extraStops];
+    if (legs.some(leg => !leg.destination.trim())) {
+      setLegsError("Please choose a city for every stop, or remove the empty ones.");
+      return;
+    }
+    const totalNights = legs.reduce((sum, leg) => sum + leg.nights, 0);
+    if (tripDuration > 0 && totalNights !== tripDuration - 1) {
+      setLegsError(`Your stops add up to ${totalNights} night${totalNights === 1 ? '' : 's'}, but a ${tripDuration}-day trip has ${tripDuration - 1}. Adjust the nights per city.`);
+      return;
+    }
+
+    setLegsError(null);
+    onSubmit({ ...data, legs });
   };
 
   // Handle date picker confirmation
@@ -1892,6 +1944,45 @@ function Step2Form({ defaultValues, onBack, onSubmit }: { defaultValues: Step2Da
           placeholder="Start typing a city (e.g. Paris, Tokyo)..."
         />
         {form.formState.errors.destination && <p className="text-destructive text-sm">{form.formState.errors.destination.message}</p>}
+        {extraStops.length > 0 && (
+          <NightsInput value={firstStopNights} onChange={(nights) => { setFirstStopNights(nights); setLegsError(null); }} />
+        )}
+
+        {extraStops.map((stop, index) => (
+          <div key={index} className="space-y-2 pt-2">
+            <div className="flex items-center justify-between">
+              <Label>Stop {index + 2}</Label>
+              <button
+                type="button"
+                onClick={() => { setExtraStops(stops => stops.filter((_, i) => i !== index)); setLegsError(null); }}
+                className="text-slate-400 hover:text-slate-600"
+                aria-label={`Remove stop ${index + 2}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <CityAutocomplete
+              value={stop.destination}
+              onChange={(value) => updateStop(index, { destination: value })}
+              placeholder="Next city (e.g. Kyoto, Rome)..."
+            />
+            <NightsInput value={stop.nights} onChange={(nights) => updateStop(index, { nights })} />
+          </div>
+        ))}
+
+        {extraStops.length < MAX_TRIP_LEGS - 1 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setExtraStops(stops => [...stops, { destination: "", nights: 1 }])}
+            className="px-0 text-primary hover:bg-transparent"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add another city
+          </Button>
+        )}
+        {legsError && <p className="text-destructive text-sm">{legsError}</p>}
       </div>
 
       <div className="space-y-2">
@@ -1947,9 +2038,87 @@ function Step2Form({ defaultValues, onBack, onSubmit }: { defaultValues: Step2Da
   );
 }
 
-function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destination, dates, isEditMode }: {
+function NightsInput({ value, onChange }: { value: number, onChange: (nights: number) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={1}
+        max={60}
+        value={value}
+        onChange={(e) => onChange(Math.max(1, Math.min(60, parseInt(e.target.value, 10) || 1)))}
+        className="w-20 h-9"
+      />
+      <span className="text-sm text-muted-foreground">night{value === 1 ? '' : 's'}</span>
+    </div>
+  );
+}
+
+/**
+ * Optional per-person roster for groups with mixed passports. When it's
+ * filled in, each traveler's visa is checked separately.
+ */
+function TravelerRoster({ value, defaultPassport, onChange }: {
+  value: TripTraveler[];
+  defaultPassport: string;
+  onChange: (travelers: TripTraveler[]) => void;
+}) {
+  const update = (index: number, patch: Partial<TripTraveler>) =>
+    onChange(value.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+
+  return (
+    <div className="space-y-2" data-testid="traveler-roster">
+      {value.map((traveler, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+          <Input
+            value={traveler.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder={`Traveler ${index + 1}`}
+            className="h-10"
+          />
+          <CountrySelect
+            value={traveler.passport}
+            onChange={(passport) => update(index, { passport })}
+            placeholder="Passport..."
+          />
+          <select
+            value={traveler.ageBand}
+            onChange={(e) => update(index, { ageBand: e.target.value as TripTraveler["ageBand"] })}
+            className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="adult">Adult</option>
+            <option value="child">Child (2-17)</option>
+            <option value="infant">Infant (0-2)</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            className="p-2 text-slate-400 hover:text-slate-600"
+            aria-label={`Remove traveler ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {value.length < MAX_TRIP_TRAVELERS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { name: "", passport: defaultPassport, ageBand: "adult" }])}
+          className="flex items-center gap-1.5 text-sm text-primary hover:underline"
+          data-testid="button-add-traveler"
+        >
+          <Plus className="h-4 w-4" />
+          {value.length === 0 ? "Add each traveler's passport (mixed nationalities)" : "Add traveler"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, passport, destination, dates, isEditMode }: {
   defaultValues: Step3Data & { currency?: string },
   origin: string,
+  passport?: string,
   onBack: () => void,
   onSubmit: (data: Step3Data & { currency: string }) => void,
   isLoading: boolean,
@@ -2054,6 +2223,17 @@ function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destina
     form.setValue("groupSize", totalTravelers);
   }, [adults, children, infants, totalTravelers, form]);
 
+  // With a roster, the headcounts follow it
+  const roster = form.watch("travelers") ?? [];
+  const handleRosterChange = (travelers: TripTraveler[]) => {
+    form.setValue("travelers", travelers.length > 0 ? travelers : null);
+    if (travelers.length === 0) return;
+    const count = (band: TripTraveler["ageBand"]) => travelers.filter((t) => t.ageBand === band).length;
+    form.setValue("adults", count("adult"));
+    form.setValue("children", count("child"));
+    form.setValue("infants", count("infant"));
+  };
+
   // Validate budget in real-time - ONLY for Custom budget (not Budget/Standard/Luxury)
   useEffect(() => {
     // Only validate when Custom is selected - AI handles Budget/Standard/Luxury automatically
@@ -2116,6 +2296,7 @@ function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destina
               min="1"
               max="20"
               className="h-11 text-center"
+              readOnly={roster.length > 0}
               {...form.register("adults", { valueAsNumber: true })}
             />
           </div>
@@ -2133,6 +2314,7 @@ function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destina
               max="20"
               placeholder="0"
               className="h-11 text-center bg-slate-50/50 border-dashed"
+              readOnly={roster.length > 0}
               {...form.register("children", { valueAsNumber: true })}
             />
           </div>
@@ -2150,6 +2332,7 @@ function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destina
               max="10"
               placeholder="0"
               className="h-11 text-center bg-slate-50/50 border-dashed"
+              readOnly={roster.length > 0}
               {...form.register("infants", { valueAsNumber: true })}
             />
           </div>
@@ -2157,6 +2340,13 @@ function Step3Form({ defaultValues, onBack, onSubmit, isLoading, origin, destina
 
         <p className="text-xs text-muted-foreground">Children and infants are optional. Add only if traveling with kids - they often get discounted rates.</p>
 
+        <TravelerRoster value={roster} defaultPassport={passport || ""} onChange={handleRosterChange} />
+        {form.formState.errors.travelers && (
+          <p className="text-destructive text-sm">
+            {form.formState.errors.travelers.message || "Each traveler needs a name and a passport"}
+          </p>
+        )}
+
         {/* Hidden field for groupSize */}
         <input type="hidden" {...form.register("groupSize", { valueAsNumber: true })} />
       </div>
@@ -10,6 +10,8 @@ import { ActionItemsChecklist } from "@/components/ActionItems";
 import { trackAlternativeClick, trackAlternativeImpression } from "@/lib/affiliate-links";
 import type { CertaintyScore, VisaDetails, EntryCosts, ActionItem, Alternative } from "@shared/schema";
 import { useState, useEffect } from "react";
+import { getVoyageHeaders } from "@/lib/voyageUid";
+import { getExceededStayLimits, buildStayLimitActionItems } from "@/lib/actionItems";
 
 // Currency symbol mapping
 const CURRENCY_SYMBOLS: Record<string, string> = {
@@ -91,10 +93,22 @@ function generateCertaintyScore(feasibilityReport: any): CertaintyScore | null {
 // NOTE: generateVisaDetails removed - server is now single source of truth
 // Visa details come from trip.feasibilityReport?.visaDetails
 
-function generateActionItems(visaDetails: VisaDetails | null, currencySymbol: string, destination: string): ActionItem[] {
+function generateActionItems(visaDetails: VisaDetails | null, currencySymbol: string, destination: string, feasibilityReport?: any): ActionItem[] {
   const items: ActionItem[] = [];
   let id = 1;
 
+  // Overstays come first - the trip can't happen as planned
+  for (const stayItem of buildStayLimitActionItems(feasibilityReport)) {
+    items.push({
+      id: `action-${id++}`,
+      title: stayItem.label,
+      description: stayItem.description || '',
+      priority: 'high',
+      dueInfo: 'Change dates or shorten the trip',
+      completed: false,
+    });
+  }
+
   if (visaDetails?.required) {
     items.push({
       id: `action-${id++}`,
@@ -168,6 +182,11 @@ function classifyFeasibility(
     hardBlockers.push(breakdown.safety?.reason || 'Active safety threat - travel not recommended');
   }
 
+  // Cumulative stay limit exceeded across the traveler's trips (e.g. Schengen 90/180)
+  for (const window of getExceededStayLimits(feasibilityReport)) {
+    hardBlockers.push(`${window.zoneLabel}: ${window.peakDaysUsed} days in ${window.period} with your other trips (limit ${window.maxStay})`);
+  }
+
   // === SOFT BLOCKERS (risky but possible) ===
 
   // Visa timing is tight or risky
@@ -471,7 +490,7 @@ export default function FeasibilityResults() {
     mutationFn: async () => {
       const res = await fetch(`/api/trips/${id}/feasibility/refresh`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
       });
       if (!res.ok) throw new Error('Failed to re-check feasibility');
       return res.json();
@@ -487,7 +506,7 @@ export default function FeasibilityResults() {
     mutationFn: async (options?: { riskOverride?: boolean }) => {
       const res = await fetch(`/api/trips/${id}/generate-itinerary`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({ riskOverride: options?.riskOverride || false }),
       });
       if (!res.ok) throw new Error('Failed to start itinerary generation');
@@ -590,7 +609,7 @@ export default function FeasibilityResults() {
   const certaintyScore = tripCertaintyScore;
   // Use server-provided visa details (single source of truth)
   const visaDetails = tripVisaDetails;
-  const actionItems = generateActionItems(visaDetails, currencySymbol, trip.destination);
+  const actionItems = generateActionItems(visaDetails, currencySymbol, trip.destination, trip.feasibilityReport);
 
   // Classify feasibility into tiered gate
   const feasibilityClassification = tripClassification!;
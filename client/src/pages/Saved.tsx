@@ -1,60 +1,36 @@
 import { Link } from "wouter";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Sidebar } from "@/components/Sidebar";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
 import {
   Bookmark,
   MapPin,
   Plus,
   Heart,
   Star,
-  Filter,
   Grid,
   List,
-  ExternalLink
+  ExternalLink,
+  CalendarPlus,
+  Pencil,
+  Loader2,
 } from "lucide-react";
-import { useState } from "react";
-
-// Mock saved places data
-const SAVED_PLACES = [
-  {
-    id: 1,
-    name: "Shibuya Crossing",
-    location: "Tokyo, Japan",
-    category: "Landmark",
-    image: "https://images.pexels.com/photos/2506923/pexels-photo-2506923.jpeg?auto=compress&cs=tinysrgb&w=600",
-    notes: "Must see at night for the full experience",
-    savedAt: new Date("2024-01-15"),
-  },
-  {
-    id: 2,
-    name: "Eiffel Tower",
-    location: "Paris, France",
-    category: "Landmark",
-    image: "https://images.pexels.com/photos/338515/pexels-photo-338515.jpeg?auto=compress&cs=tinysrgb&w=600",
-    notes: "Book sunset tickets in advance",
-    savedAt: new Date("2024-01-10"),
-  },
-  {
-    id: 3,
-    name: "Tanah Lot Temple",
-    location: "Bali, Indonesia",
-    category: "Temple",
-    image: "https://images.pexels.com/photos/2166559/pexels-photo-2166559.jpeg?auto=compress&cs=tinysrgb&w=600",
-    notes: "Best at sunset, arrive early",
-    savedAt: new Date("2024-01-05"),
-  },
-  {
-    id: 4,
-    name: "Colosseum",
-    location: "Rome, Italy",
-    category: "Historical",
-    image: "https://images.pexels.com/photos/532263/pexels-photo-532263.jpeg?auto=compress&cs=tinysrgb&w=600",
-    notes: "Get skip-the-line tickets",
-    savedAt: new Date("2024-01-01"),
-  },
-];
+import { useMemo, useState } from "react";
+import type { SavedPlace } from "@shared/schema";
+import { useSavedPlaces } from "@/hooks/useSavedPlaces";
+import { getVoyageHeaders } from "@/lib/voyageUid";
+import { getDestinationGradient } from "@/hooks/useDestinationImage";
 
+// Trip ideas are still a static sample - saved places come from the server
 const SAVED_TRIPS = [
   {
     id: 1,
@@ -77,6 +53,17 @@ const SAVED_TRIPS = [
 export default function Saved() {
   const [activeTab, setActiveTab] = useState<'places' | 'trips'>('places');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [showAddPlace, setShowAddPlace] = useState(false);
+  const [addingToTrip, setAddingToTrip] = useState<SavedPlace | null>(null);
+
+  const { places, isLoading, deletePlace } = useSavedPlaces();
+
+  const tags = useMemo(
+    () => Array.from(new Set(places.flatMap((p) => p.tags))).sort(),
+    [places]
+  );
+  const visiblePlaces = activeTag ? places.filter((p) => p.tags.includes(activeTag)) : places;
 
   return (
     <div className="min-h-screen bg-slate-50 flex">
@@ -106,7 +93,7 @@ export default function Saved() {
                 }`}
               >
                 <MapPin className="w-4 h-4 inline mr-2" />
-                Places ({SAVED_PLACES.length})
+                Places ({places.length})
               </button>
               <button
                 onClick={() => setActiveTab('trips')}
@@ -122,9 +109,14 @@ export default function Saved() {
             </div>
 
             <div className="flex items-center gap-2">
-              <Button variant="outline" className="rounded-xl border-slate-200">
-                <Filter className="w-4 h-4 mr-2" />
-                Filter
+              <Button
+                variant="outline"
+                className="rounded-xl border-slate-200"
+                onClick={() => setShowAddPlace(true)}
+                data-testid="button-save-place"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Save a place
               </Button>
               <div className="flex items-center border border-slate-200 rounded-xl overflow-hidden">
                 <button
@@ -142,23 +134,58 @@ export default function Saved() {
               </div>
             </div>
           </div>
+
+          {/* Tag filter */}
+          {activeTab === 'places' && tags.length > 0 && (
+            <div className="px-8 pb-4 flex flex-wrap gap-2">
+              {[null, ...tags].map((tag) => (
+                <button
+                  key={tag ?? 'all'}
+                  onClick={() => setActiveTag(tag)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    activeTag === tag
+                      ? 'bg-amber-100 text-amber-800'
+                      : 'bg-white border border-slate-200 text-slate-500 hover:border-slate-300'
+                  }`}
+                >
+                  {tag ? `#${tag}` : 'All'}
+                </button>
+              ))}
+            </div>
+          )}
         </header>
 
         {/* Content */}
         <div className="p-8">
           {activeTab === 'places' ? (
-            SAVED_PLACES.length === 0 ? (
+            isLoading ? (
+              <div className="flex justify-center py-20">
+                <Loader2 className="w-8 h-8 text-slate-400 animate-spin" />
+              </div>
+            ) : visiblePlaces.length === 0 ? (
               <EmptyState type="places" />
             ) : viewMode === 'grid' ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {SAVED_PLACES.map((place, index) => (
-                  <PlaceCard key={place.id} place={place} index={index} />
+                {visiblePlaces.map((place, index) => (
+                  <PlaceCard
+                    key={place.id}
+                    place={place}
+                    index={index}
+                    onRemove={() => deletePlace(place.id)}
+                    onAddToTrip={() => setAddingToTrip(place)}
+                  />
                 ))}
               </div>
             ) : (
               <div className="space-y-4">
-                {SAVED_PLACES.map((place, index) => (
-                  <PlaceListItem key={place.id} place={place} index={index} />
+                {visiblePlaces.map((place, index) => (
+                  <PlaceListItem
+                    key={place.id}
+                    place={place}
+                    index={index}
+                    onRemove={() => deletePlace(place.id)}
+                    onAddToTrip={() => setAddingToTrip(place)}
+                  />
                 ))}
               </div>
             )
@@ -175,11 +202,36 @@ export default function Saved() {
           )}
         </div>
       </main>
+
+      <AddPlaceDialog open={showAddPlace} onOpenChange={setShowAddPlace} />
+      <AddToTripDialog place={addingToTrip} onClose={() => setAddingToTrip(null)} />
     </div>
   );
 }
 
-function PlaceCard({ place, index }: { place: typeof SAVED_PLACES[0]; index: number }) {
+interface PlaceItemProps {
+  place: SavedPlace;
+  index: number;
+  onRemove: () => void;
+  onAddToTrip: () => void;
+}
+
+function getMapsUrl(place: SavedPlace): string {
+  if (place.googlePlaceId) {
+    return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.name)}&query_place_id=${place.googlePlaceId}`;
+  }
+  const query = place.lat !== null && place.lng !== null ? `${place.lat},${place.lng}` : `${place.name} ${place.city ?? ''}`;
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+}
+
+function formatCategory(category: string | null): string | null {
+  if (!category) return null;
+  return category.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function PlaceCard({ place, index, onRemove, onAddToTrip }: PlaceItemProps) {
+  const category = formatCategory(place.category);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -187,34 +239,54 @@ function PlaceCard({ place, index }: { place: typeof SAVED_PLACES[0]; index: num
       transition={{ delay: index * 0.05 }}
       className="group bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-lg transition-shadow"
     >
-      <div className="relative h-48">
-        <img
-          src={place.image}
-          alt={place.name}
-          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
-        />
-        <button className="absolute top-3 right-3 w-8 h-8 rounded-full bg-white/90 flex items-center justify-center text-rose-500 hover:bg-white transition-colors">
+      <div className="relative h-32" style={{ background: getDestinationGradient(place.city || place.name) }}>
+        <MapPin className="absolute inset-0 m-auto w-10 h-10 text-white/40" />
+        <button
+          onClick={onRemove}
+          title="Remove from saved"
+          className="absolute top-3 right-3 w-8 h-8 rounded-full bg-white/90 flex items-center justify-center text-rose-500 hover:bg-white transition-colors"
+        >
           <Heart className="w-4 h-4 fill-current" />
         </button>
-        <span className="absolute bottom-3 left-3 px-2 py-1 bg-white/90 rounded-full text-xs font-medium text-slate-700">
-          {place.category}
-        </span>
+        {category && (
+          <span className="absolute bottom-3 left-3 px-2 py-1 bg-white/90 rounded-full text-xs font-medium text-slate-700">
+            {category}
+          </span>
+        )}
       </div>
       <div className="p-4">
-        <h3 className="font-display font-semibold text-slate-900 mb-1">{place.name}</h3>
+        <div className="flex items-start justify-between gap-2 mb-1">
+          <h3 className="font-display font-semibold text-slate-900">{place.name}</h3>
+          {place.rating !== null && (
+            <span className="flex items-center gap-0.5 text-xs text-amber-600 shrink-0">
+              <Star className="w-3 h-3 fill-current" />
+              {place.rating.toFixed(1)}
+            </span>
+          )}
+        </div>
         <p className="text-sm text-slate-500 flex items-center gap-1">
           <MapPin className="w-3 h-3" />
-          {place.location}
+          {place.city || place.address || 'Location unknown'}
         </p>
-        {place.notes && (
-          <p className="text-xs text-slate-400 mt-2 line-clamp-2">{place.notes}</p>
-        )}
+        <PlaceNotes place={place} />
+        <PlaceTags tags={place.tags} />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onAddToTrip}
+          className="w-full mt-3 rounded-xl border-slate-200"
+        >
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Add to a trip day
+        </Button>
       </div>
     </motion.div>
   );
 }
 
-function PlaceListItem({ place, index }: { place: typeof SAVED_PLACES[0]; index: number }) {
+function PlaceListItem({ place, index, onRemove, onAddToTrip }: PlaceItemProps) {
+  const category = formatCategory(place.category);
+
   return (
     <motion.div
       initial={{ opacity: 0, x: -20 }}
@@ -222,38 +294,243 @@ function PlaceListItem({ place, index }: { place: typeof SAVED_PLACES[0]; index:
       transition={{ delay: index * 0.05 }}
       className="group flex items-center gap-4 p-4 bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow"
     >
-      <img
-        src={place.image}
-        alt={place.name}
-        className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
-      />
+      <div
+        className="w-20 h-20 rounded-xl flex-shrink-0 flex items-center justify-center"
+        style={{ background: getDestinationGradient(place.city || place.name) }}
+      >
+        <MapPin className="w-6 h-6 text-white/50" />
+      </div>
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <h3 className="font-display font-semibold text-slate-900">{place.name}</h3>
-          <span className="px-2 py-0.5 bg-slate-100 rounded-full text-xs text-slate-600">
-            {place.category}
-          </span>
+          {category && (
+            <span className="px-2 py-0.5 bg-slate-100 rounded-full text-xs text-slate-600">
+              {category}
+            </span>
+          )}
         </div>
         <p className="text-sm text-slate-500 flex items-center gap-1">
           <MapPin className="w-3 h-3" />
-          {place.location}
+          {place.address || place.city || 'Location unknown'}
         </p>
-        {place.notes && (
-          <p className="text-xs text-slate-400 mt-1">{place.notes}</p>
-        )}
+        <PlaceNotes place={place} />
+        <PlaceTags tags={place.tags} />
       </div>
       <div className="flex items-center gap-2">
-        <button className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 hover:text-rose-500 hover:bg-rose-50 transition-colors">
+        <button
+          onClick={onAddToTrip}
+          title="Add to a trip day"
+          className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <CalendarPlus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onRemove}
+          title="Remove from saved"
+          className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 hover:text-rose-500 hover:bg-rose-50 transition-colors"
+        >
           <Heart className="w-4 h-4 fill-current" />
         </button>
-        <button className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-colors">
+        <a
+          href={getMapsUrl(place)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-colors"
+        >
           <ExternalLink className="w-4 h-4" />
-        </button>
+        </a>
       </div>
     </motion.div>
   );
 }
 
+function PlaceTags({ tags }: { tags: string[] }) {
+  if (tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {tags.map((tag) => (
+        <span key={tag} className="px-1.5 py-0.5 bg-amber-50 rounded text-[11px] text-amber-700">
+          #{tag}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Notes and tags, editable in place
+ */
+function PlaceNotes({ place }: { place: SavedPlace }) {
+  const { updatePlace } = useSavedPlaces();
+  const [isEditing, setIsEditing] = useState(false);
+  const [notes, setNotes] = useState(place.notes ?? '');
+  const [tags, setTags] = useState(place.tags.join(', '));
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-start gap-1 mt-2">
+        <p className="text-xs text-slate-400 line-clamp-2 flex-1">{place.notes || 'No notes yet'}</p>
+        <button onClick={() => setIsEditing(true)} title="Edit notes and tags" className="text-slate-300 hover:text-slate-500">
+          <Pencil className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  const save = () => {
+    updatePlace(
+      { id: place.id, notes: notes.trim() || null, tags: parseTags(tags) },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  return (
+    <div className="space-y-1.5 mt-2">
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={2}
+        placeholder="Notes"
+        className="w-full rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700"
+      />
+      <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" className="h-7 text-xs" />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setIsEditing(false)} className="text-xs text-slate-400 hover:text-slate-600">Cancel</button>
+        <button onClick={save} className="text-xs font-medium text-slate-900">Save</button>
+      </div>
+    </div>
+  );
+}
+
+function parseTags(value: string): string[] {
+  return value.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+function AddPlaceDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { savePlace, isSaving } = useSavedPlaces();
+  const [query, setQuery] = useState('');
+  const [city, setCity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+
+  const handleSave = () => {
+    if (!query.trim()) return;
+    savePlace(
+      { query: query.trim(), city: city.trim() || null, notes: notes.trim() || null, tags: parseTags(tags) },
+      {
+        onSuccess: () => {
+          setQuery('');
+          setNotes('');
+          setTags('');
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save a place</DialogTitle>
+          <DialogDescription>
+            We'll look it up on the map so you can drop it into any trip later.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Place, e.g. Tanah Lot Temple" data-testid="input-place-query" />
+          <Input value={city} onChange={(e) => setCity(e.target.value)} placeholder="City or destination (helps find it)" />
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder="Notes, e.g. best at sunset"
+            className="w-full rounded-md border border-input px-3 py-2 text-sm"
+          />
+          <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" />
+          <Button onClick={handleSave} disabled={isSaving || !query.trim()} className="w-full bg-slate-900 hover:bg-slate-800 text-white">
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save place
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Trip summary from /api/my-trips (only what the picker needs)
+interface TripOption {
+  id: number;
+  destination: string;
+  dates: string;
+}
+
+function AddToTripDialog({ place, onClose }: { place: SavedPlace | null; onClose: () => void }) {
+  const { addToTrip, isAddingToTrip } = useSavedPlaces();
+  const [tripId, setTripId] = useState<number | null>(null);
+  const [dayNumber, setDayNumber] = useState('1');
+  const [time, setTime] = useState('');
+
+  const { data } = useQuery<{ trips: TripOption[] }>({
+    queryKey: ['/api/my-trips'],
+    queryFn: async () => {
+      const res = await fetch('/api/my-trips', { headers: getVoyageHeaders() });
+      if (!res.ok) return { trips: [] };
+      return res.json();
+    },
+    enabled: !!place,
+  });
+  const trips = data?.trips ?? [];
+  const selectedTripId = tripId ?? trips[0]?.id ?? null;
+
+  const handleAdd = () => {
+    if (!place || !selectedTripId) return;
+    addToTrip(
+      { placeId: place.id, tripId: selectedTripId, dayNumber: Number(dayNumber) || 1, time: time || undefined },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!place} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add {place?.name} to a trip</DialogTitle>
+          <DialogDescription>
+            It goes into the day's schedule and we re-check that the day still works.
+          </DialogDescription>
+        </DialogHeader>
+        {trips.length === 0 ? (
+          <p className="text-sm text-slate-500">You don't have any trips yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <select
+              value={selectedTripId ?? ''}
+              onChange={(e) => setTripId(Number(e.target.value))}
+              className="w-full rounded-md border border-input px-3 py-2 text-sm"
+            >
+              {trips.map((trip) => (
+                <option key={trip.id} value={trip.id}>
+                  {trip.destination} · {trip.dates}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <Input type="number" min="1" value={dayNumber} onChange={(e) => setDayNumber(e.target.value)} placeholder="Day" className="w-24" />
+              <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="flex-1" />
+            </div>
+            <p className="text-xs text-slate-400">Leave the time empty to add it after the day's last activity.</p>
+            <Button onClick={handleAdd} disabled={isAddingToTrip} className="w-full bg-slate-900 hover:bg-slate-800 text-white">
+              {isAddingToTrip && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add to Day {dayNumber || 1}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function TripIdeaCard({ trip, index }: { trip: typeof SAVED_TRIPS[0]; index: number }) {
   return (
     <motion.div
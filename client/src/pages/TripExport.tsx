@@ -21,6 +21,7 @@ import { useEffect, useState, useCallback, useRef, useMemo } from "react";
 import { useParams, useSearch } from "wouter";
 import { buildTripExportModel, type TripExportModel } from "@shared/exportModel";
 import { buildCertaintyBreakdown } from "@/lib/certaintyBreakdown";
+import { getVoyageHeaders } from "@/lib/voyageUid";
 
 // ============================================================================
 // HELPERS
@@ -257,6 +258,8 @@ export function TripExport() {
   const [loading, setLoading] = useState(true);
   const [printReady, setPrintReady] = useState(false);
   const [showPrintAgain, setShowPrintAgain] = useState(false);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
 
   // Parse version query param
   const versionId = (() => {
@@ -393,6 +396,31 @@ export function TripExport() {
     window.print();
   }, []);
 
+  // Subscription feed stays current as the itinerary changes (owner only)
+  const handleSubscribeCalendar = useCallback(async () => {
+    setCalendarError(null);
+    try {
+      const res = await fetch(`/api/trips/${id}/calendar/subscription`, {
+        method: "POST",
+        headers: getVoyageHeaders(),
+      });
+      if (!res.ok) {
+        throw new Error(res.status === 403 || res.status === 404
+          ? "Only the trip owner can create a calendar subscription"
+          : "Failed to create calendar subscription");
+      }
+      const { webcalUrl } = await res.json();
+      setCalendarFeedUrl(webcalUrl);
+      try {
+        await navigator.clipboard.writeText(webcalUrl);
+      } catch {
+        // Clipboard may be blocked; the URL is shown below
+      }
+    } catch (err) {
+      setCalendarError(err instanceof Error ? err.message : "Failed to create calendar subscription");
+    }
+  }, [id]);
+
   // Build certainty breakdown (memoized) - must be before early returns
   const certaintyBreakdown = useMemo(() => {
     if (!tripData) return null;
@@ -470,6 +498,26 @@ export function TripExport() {
           >
             {printReady ? "Print / Save PDF" : "Preparing..."}
           </button>
+          <a
+            href={`/api/trips/${id}/export.pdf`}
+            download
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 shadow-lg"
+          >
+            Download PDF
+          </a>
+          <a
+            href={`/api/trips/${id}/calendar.ics`}
+            download
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 shadow-lg"
+          >
+            Add to Calendar
+          </a>
+          <button
+            onClick={handleSubscribeCalendar}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 shadow-lg"
+          >
+            Subscribe
+          </button>
           <a
             href={`/trips/${id}/results-v1`}
             className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 shadow-lg"
@@ -477,6 +525,20 @@ export function TripExport() {
             Back to Trip
           </a>
         </div>
+        {calendarFeedUrl && (
+          <div className="max-w-sm bg-emerald-50 border border-emerald-200 rounded-lg px-3 py-2 text-sm text-emerald-800">
+            <p className="font-medium">Subscription link copied</p>
+            <p className="text-xs break-all mt-1">{calendarFeedUrl}</p>
+            <p className="text-xs text-emerald-700 mt-1">
+              Paste it into Google Calendar or Outlook ("Add calendar from URL"). It updates when the itinerary changes.
+            </p>
+          </div>
+        )}
+        {calendarError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-sm text-red-700">
+            {calendarError}
+          </div>
+        )}
         {/* Print again prompt after dialog closes/cancelled */}
         {showPrintAgain && (
           <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-sm">
@@ -661,6 +723,38 @@ export function TripExport() {
           </section>
         )}
 
+        {/* ================================================================ */}
+        {/* TRAVELERS (group roster) */}
+        {/* ================================================================ */}
+        {model.travelers.length > 0 && (
+          <section className="mb-8 avoid-break">
+            <h2 className="text-lg font-semibold text-gray-800 mb-3">Travelers</h2>
+            <div className="space-y-3">
+              {model.travelers.map((traveler, i) => (
+                <div key={i} className="bg-gray-50 rounded-lg p-4 text-sm">
+                  <p className="font-medium text-gray-800">
+                    {traveler.name}
+                    {traveler.ageBand !== "adult" && <span className="text-gray-500"> ({traveler.ageBand})</span>}
+                    <span className="text-gray-500 font-normal"> · {traveler.passport} passport</span>
+                  </p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {traveler.visas.map((visa) => (
+                      <span key={visa.country} className={`px-2 py-0.5 rounded text-xs ${getVisaStatusColor(visa.statusLabel)}`}>
+                        {visa.country}: {visa.statusLabel}{visa.applyBy ? ` · apply by ${visa.applyBy}` : ""}
+                      </span>
+                    ))}
+                  </div>
+                  <ul className="mt-2 space-y-1 text-gray-700">
+                    {traveler.documents.map((document) => (
+                      <li key={document}>• {document}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* ================================================================ */}
         {/* COST BREAKDOWN */}
         {/* ================================================================ */}
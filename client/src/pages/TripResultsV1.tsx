@@ -72,6 +72,7 @@ import { api } from "@shared/routes";
 import { useTripVersions } from "@/hooks/useTripVersions";
 
 import type { TripResponse, UserTripInput } from "@shared/schema";
+import { getVoyageHeaders } from "@/lib/voyageUid";
 
 // ============================================================================
 // UNDO CONTEXT
@@ -565,7 +566,7 @@ export default function TripResultsV1({ tripIdOverride, tripDataOverride, isDemo
     try {
       const res = await fetch(`/api/trips/${currentTripId}/applied-plans`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { ...getVoyageHeaders(), "Content-Type": "application/json" },
         body: JSON.stringify({
           changeId: plan.changeId,
           source: source || "edit_trip",
@@ -777,7 +778,7 @@ export default function TripResultsV1({ tripIdOverride, tripDataOverride, isDemo
     // Fire and forget - trigger the generation
     fetch(`/api/trips/${tripId}/generate-itinerary`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { ...getVoyageHeaders(), 'Content-Type': 'application/json' },
       body: JSON.stringify({}),
     }).then(res => {
       if (!res.ok) {
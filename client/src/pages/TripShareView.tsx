@@ -4,7 +4,7 @@
  * Public, read-only view of a shared trip.
  * Phase 3.6 - Share & Validate
  *
- * Route: /share/:tripId
+ * Route: /share/:token
  *
  * Features:
  * - No auth required (public endpoint)
@@ -12,6 +12,7 @@
  * - Clear "Shared Trip" indicator
  * - Prominent CTA: "Plan your own trip"
  * - Works in incognito
+ * - Respects the link's redactions (passport, budget, exact dates)
  */
 
 import { useParams, useLocation } from "wouter";
@@ -27,6 +28,7 @@ import {
   MapPin,
   Share2,
   CheckCircle,
+  EyeOff,
 } from "lucide-react";
 
 // Layout components (reused in read-only mode)
@@ -49,13 +51,13 @@ import {
   MapSkeleton,
 } from "@/components/results/ResultsSkeletons";
 
-import type { TripResponse } from "@shared/schema";
+import type { ShareRedaction, TripResponse } from "@shared/schema";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-// ShareableTrip matches the server response from /api/share/:id
+// ShareableTrip matches the server response from /api/share/:token
 type ShareableTrip = Pick<
   TripResponse,
   | "id"
@@ -76,7 +78,15 @@ type ShareableTrip = Pick<
   | "status"
   | "feasibilityStatus"
   | "createdAt"
->;
+> & {
+  redacted: ShareRedaction[];
+};
+
+const REDACTION_LABELS: Record<ShareRedaction, string> = {
+  passport: "passport and home details",
+  budget: "budget",
+  exactDates: "exact dates",
+};
 
 // ============================================================================
 // HELPERS
@@ -303,8 +313,8 @@ function ShareViewError({ message, onPlanOwn }: { message: string; onPlanOwn: ()
 // ============================================================================
 
 export default function TripShareView() {
-  const params = useParams<{ tripId: string }>();
-  const tripId = Number(params.tripId);
+  const params = useParams<{ token: string }>();
+  const token = params.token;
   const [, setLocation] = useLocation();
 
   // State for day card interactions
@@ -318,16 +328,16 @@ export default function TripShareView() {
     isLoading,
     error,
   } = useQuery<ShareableTrip>({
-    queryKey: ["share", tripId],
+    queryKey: ["share", token],
     queryFn: async () => {
-      const res = await fetch(`/api/share/${tripId}`);
+      const res = await fetch(`/api/share/${encodeURIComponent(token)}`);
       if (!res.ok) {
         const errData = await res.json().catch(() => ({}));
         throw new Error(errData.message || "Failed to load trip");
       }
       return res.json();
     },
-    enabled: !isNaN(tripId) && tripId > 0,
+    enabled: !!token,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
@@ -475,7 +485,7 @@ export default function TripShareView() {
           <div className="lg:col-span-7" data-section="day-card-list">
             {itinerary?.days && itinerary.days.length > 0 ? (
               <DayCardList
-                tripId={tripId}
+                tripId={trip.id}
                 itinerary={itinerary}
                 currency={trip.currency || "USD"}
                 tripStartDate={trip.dates || undefined}
@@ -534,6 +544,12 @@ export default function TripShareView() {
                       Created with VoyageAI. Plan your own personalized trip with AI-powered
                       feasibility analysis.
                     </p>
+                    {trip.redacted.length > 0 && (
+                      <p className="text-xs text-white/40 mt-2 flex items-center gap-1.5">
+                        <EyeOff className="w-3.5 h-3.5" />
+                        The owner hid the {trip.redacted.map((r) => REDACTION_LABELS[r]).join(", ")}.
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
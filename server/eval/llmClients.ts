@@ -0,0 +1,100 @@
+/**
+ * LLM Clients for Offline Evals
+ *
+ * OpenAI-shaped clients that implement only chat.completions.create - the
+ * one call the itinerary generators make. Injected via setAIClientOverride().
+ *
+ * - record: forwards to the real provider and stores each response
+ * - replay: answers from stored responses, keyed by a hash of the messages;
+ *   a changed prompt is a miss (re-record to evaluate the new prompt)
+ * - mock: deterministic synthetic days, for exercising the harness itself
+ */
+
+import type OpenAI from "openai";
+import {
+  asOpenAI,
+  completion,
+  promptPreview,
+  createRecordingClient,
+  createReplayClient,
+  loadRecordings,
+  saveRecordings,
+  recordingKey,
+  RecordingMissError,
+  type RecordedCompletion,
+  type RecordingStore,
+} from "../services/llmProviders";
+
+// Record/replay live with the providers (the "replay" provider uses the same store)
+export {
+  createRecordingClient,
+  createReplayClient,
+  loadRecordings,
+  saveRecordings,
+  recordingKey,
+  RecordingMissError,
+  type RecordedCompletion,
+  type RecordingStore,
+};
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+/**
+ * Deterministic day generator. Places activities around the day's city
+ * center so coordinate and destination checks have something to score.
+ */
+export function createMockClient(centers: Record<string, { lat: number; lng: number }>): OpenAI {
+  return asOpenAI(async (params) => {
+    const prompt = promptPreview(params);
+    const user = params.messages.find(m => m.role === "user");
+    const fullPrompt = typeof user?.content === "string" ? user.content : "";
+    const system = params.messages.find(m => m.role === "system");
+    const systemText = typeof system?.content === "string" ? system.content : "";
+
+    const dayNumber = parseInt(prompt.match(/Day (\d+)/)?.[1] || "1", 10);
+    const date = fullPrompt.match(/DATE: (\S+)/)?.[1] || "";
+    const city = systemText.match(/itinerary for (.+?)\. Return/)?.[1] || "Destination";
+    const center = centers[city] ?? { lat: 0, lng: 0 };
+    const cityName = city.split(",")[0].trim();
+    const offset = (i: number) => Math.round((dayNumber * 0.003 + i * 0.002) * 10000) / 10000;
+
+    const slots: Array<[string, string, "activity" | "meal", number, string]> = [
+      ["09:00", "Old Town Walk", "activity", 0, "2 hours"],
+      ["12:30", "Market Lunch", "meal", 15, "1 hour"],
+      ["14:30", "City Museum", "activity", 18, "2 hours"],
+      ["19:00", "Riverside Dinner", "meal", 30, "1.5 hours"],
+    ];
+
+    const content = JSON.stringify({
+      day: dayNumber,
+      date,
+      title: `${cityName} Day ${dayNumber}`,
+      activities: slots.map(([time, name, type, cost, duration], i) => ({
+        time,
+        name: `${cityName} ${name} ${dayNumber}`,
+        description: name,
+        type,
+        estimatedCost: cost,
+        duration,
+        location: `${cityName} center`,
+        coordinates: { lat: center.lat + offset(i), lng: center.lng + offset(i) },
+        transportMode: "walk",
+      })),
+      localFood: [{ name: `${cityName} Noodle Bar`, cuisine: "Local", priceRange: "$", estimatedCost: 10, mustTry: "House special" }],
+    });
+    return completion(params.model || "mock", content);
+  });
+}
+
+/**
+ * Wrap a client to observe raw response content (before parsing/dedupe)
+ */
+export function tapClient(client: OpenAI, onContent: (content: string) => void): OpenAI {
+  return asOpenAI(async (params) => {
+    const response = await client.chat.completions.create(params as any);
+    onContent((response as any).choices?.[0]?.message?.content ?? "");
+    return response;
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Eval Report
+ *
+ * JSON report (stored as the baseline), markdown rendering, and the diff
+ * against a baseline that decides whether a run regressed.
+ */
+
+import type { FixtureScore } from "./scoring";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EvalMode = "replay" | "record" | "mock";
+
+export interface EvalReport {
+  version: 1;
+  generatedAt: string;
+  mode: EvalMode;
+  model: string;
+  summary: {
+    fixtures: number;
+    meanScore: number;
+    minScore: number;
+    destinationMismatches: number;
+    dedupeCollisions: number;
+    invalidCoordinates: number;
+    overBudget: number;
+    logisticsErrors: number;
+  };
+  fixtures: FixtureScore[];
+}
+
+export interface EvalDiff {
+  meanScoreDelta: number;
+  regressions: string[];
+  improvements: string[];
+}
+
+/** Worse is higher */
+const BUDGET_SEVERITY: Record<string, number> = {
+  UNDER_BUDGET: 0,
+  APPROVED: 0,
+  NEAR_LIMIT: 1,
+  OVER_BUDGET: 2,
+};
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+export function buildReport(mode: EvalMode, model: string, fixtures: FixtureScore[]): EvalReport {
+  const scores = fixtures.map(f => f.score);
+  const sum = (pick: (f: FixtureScore) => number) => fixtures.reduce((total, f) => total + pick(f), 0);
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    mode,
+    model,
+    summary: {
+      fixtures: fixtures.length,
+      meanScore: scores.length ? Math.round((sum(f => f.score) / scores.length) * 10) / 10 : 0,
+      minScore: scores.length ? Math.min(...scores) : 0,
+      destinationMismatches: sum(f => f.destinationMismatches),
+      dedupeCollisions: sum(f => f.dedupeCollisions),
+      invalidCoordinates: sum(f => f.coordinates.invalid),
+      overBudget: fixtures.filter(f => f.budget.status === "OVER_BUDGET").length,
+      logisticsErrors: sum(f => f.logistics.errors),
+    },
+    fixtures,
+  };
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Compare a run to the baseline. A fixture regresses when its score drops by
+ * more than the tolerance or when a hard check (days, coordinates,
+ * destination, budget, logistics errors) gets worse at all.
+ */
+export function diffReports(baseline: EvalReport, current: EvalReport, scoreTolerance: number): EvalDiff {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const currentById = new Map(current.fixtures.map(f => [f.id, f]));
+
+  for (const before of baseline.fixtures) {
+    const after = currentById.get(before.id);
+    if (!after) {
+      regressions.push(`${before.id}: missing from this run`);
+      continue;
+    }
+
+    const scoreDelta = after.score - before.score;
+    if (scoreDelta < -scoreTolerance) {
+      regressions.push(`${before.id}: score ${before.score} → ${after.score}`);
+    } else if (scoreDelta > scoreTolerance) {
+      improvements.push(`${before.id}: score ${before.score} → ${after.score}`);
+    }
+
+    const worse = (label: string, b: number, a: number) => {
+      if (a > b) regressions.push(`${before.id}: ${label} ${b} → ${a}`);
+    };
+    worse("missing days", 0, Math.max(0, before.days - after.days));
+    worse("destination mismatches", before.destinationMismatches, after.destinationMismatches);
+    worse("invalid coordinates", before.coordinates.invalid, after.coordinates.invalid);
+    worse("logistics errors", before.logistics.errors, after.logistics.errors);
+    if ((BUDGET_SEVERITY[after.budget.status] ?? 0) > (BUDGET_SEVERITY[before.budget.status] ?? 0)) {
+      regressions.push(`${before.id}: budget ${before.budget.status} → ${after.budget.status}`);
+    }
+  }
+
+  return {
+    meanScoreDelta: Math.round((current.summary.meanScore - baseline.summary.meanScore) * 10) / 10,
+    regressions,
+    improvements,
+  };
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+export function renderMarkdown(report: EvalReport, diff: EvalDiff | null, baseline: EvalReport | null): string {
+  const s = report.summary;
+  const lines = [
+    `# Itinerary eval (${report.mode}, ${report.model})`,
+    "",
+    `Generated ${report.generatedAt}`,
+    "",
+    `**Mean score ${s.meanScore}** (min ${s.minScore}) across ${s.fixtures} fixtures · ` +
+      `${s.destinationMismatches} destination mismatches · ${s.dedupeCollisions} dedupe collisions · ` +
+      `${s.invalidCoordinates} invalid coordinates · ${s.overBudget} over budget · ${s.logisticsErrors} logistics errors`,
+    "",
+  ];
+
+  if (diff && baseline) {
+    lines.push(`## Against baseline (${baseline.generatedAt})`, "");
+    lines.push(`Mean score ${diff.meanScoreDelta >= 0 ? "+" : ""}${diff.meanScoreDelta}`, "");
+    if (diff.regressions.length > 0) {
+      lines.push("### Regressions", "", ...diff.regressions.map(r => `- ${r}`), "");
+    } else {
+      lines.push("No regressions.", "");
+    }
+    if (diff.improvements.length > 0) {
+      lines.push("### Improvements", "", ...diff.improvements.map(r => `- ${r}`), "");
+    }
+  } else {
+    lines.push("_No baseline for this mode - run with --update-baseline to store one._", "");
+  }
+
+  lines.push(
+    "## Fixtures",
+    "",
+    "| Fixture | Score | Days | Activities | Budget | Logistics (err/warn) | Dupes | Bad coords | Mismatches |",
+    "|---|---:|---:|---:|---|---|---:|---:|---:|",
+    ...report.fixtures.map(f =>
+      `| ${f.id} | ${f.score} | ${f.days} | ${f.activities} | ${f.budget.status} (${f.budget.deltaPercentage}%) | ` +
+      `${f.logistics.status} (${f.logistics.errors}/${f.logistics.warnings}) | ${f.dedupeCollisions} | ` +
+      `${f.coordinates.invalid} | ${f.destinationMismatches} |`
+    ),
+    "",
+  );
+
+  const withExamples = report.fixtures.filter(f => f.examples.length > 0);
+  if (withExamples.length > 0) {
+    lines.push("## Findings", "");
+    for (const f of withExamples) {
+      lines.push(`**${f.id}**`, "", ...f.examples.map(e => `- ${e}`), "");
+    }
+  }
+
+  return lines.join("\n");
+}
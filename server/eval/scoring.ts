@@ -0,0 +1,196 @@
+/**
+ * Itinerary Eval Scoring
+ *
+ * Scores one generated itinerary with the same deterministic checks the
+ * Director loop uses (budget, logistics, dedupe), plus coordinate sanity and
+ * destination-mismatch detection, and folds them into a 0-100 score.
+ */
+
+import {
+  dedupeActivities,
+  type ItineraryActivity,
+  type ItineraryDay,
+} from "../services/streamingItinerary";
+import { validateBudget, validateLogistics, type GroupProfile } from "../services/validators";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeoCenter {
+  lat: number;
+  lng: number;
+}
+
+/** Where each day should be: the city, its center and how far activities may stray */
+export interface DayExpectation {
+  city: string;
+  center: GeoCenter;
+  radiusKm: number;
+  /** Place names that mean the model drifted to another city */
+  otherCities: string[];
+}
+
+export interface FixtureScore {
+  id: string;
+  destination: string;
+  days: number;
+  activities: number;
+  budget: { status: string; totalEstimatedCost: number; deltaPercentage: number; flaggedDays: number };
+  logistics: { status: string; errors: number; warnings: number };
+  dedupeCollisions: number;
+  coordinates: { invalid: number; outsideRadius: number };
+  destinationMismatches: number;
+  /** A few offending activities, to make the report actionable */
+  examples: string[];
+  score: number;
+}
+
+/** Points lost per finding, and the cap per category */
+export const SCORE_PENALTIES = {
+  overBudget: 20,
+  nearBudgetLimit: 5,
+  logisticsError: { each: 10, max: 30 },
+  logisticsWarning: { each: 2, max: 10 },
+  dedupeCollision: { each: 5, max: 20 },
+  invalidCoordinate: { each: 5, max: 20 },
+  destinationMismatch: { each: 10, max: 30 },
+  missingDay: 15,
+};
+
+const MAX_EXAMPLES = 5;
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+export function distanceKm(a: GeoCenter, b: GeoCenter): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/** Missing, (0,0) "null island", or out of range */
+export function isInvalidCoordinate(coords: ItineraryActivity["coordinates"] | undefined): boolean {
+  if (!coords || typeof coords.lat !== "number" || typeof coords.lng !== "number") return true;
+  if (!Number.isFinite(coords.lat) || !Number.isFinite(coords.lng)) return true;
+  if (Math.abs(coords.lat) > 90 || Math.abs(coords.lng) > 180) return true;
+  return coords.lat === 0 && coords.lng === 0;
+}
+
+/**
+ * Replay the raw model output through dedupeActivities and count what it
+ * had to drop - repeats the prompt failed to prevent
+ */
+export function countDedupeCollisions(rawDays: ItineraryActivity[][], destination: string): number {
+  const used = new Set<string>();
+  let collisions = 0;
+  for (const activities of rawDays) {
+    const { activities: kept, newKeys } = dedupeActivities(activities.map(a => ({ ...a })), used, destination);
+    collisions += activities.length - kept.length;
+    newKeys.forEach(key => used.add(key));
+  }
+  return collisions;
+}
+
+export function parseRawActivities(content: string): ItineraryActivity[] {
+  try {
+    const parsed = JSON.parse(content);
+    return (parsed.activities || []).map((a: any) => ({
+      ...a,
+      name: a.name || "Activity",
+      time: a.time || "09:00",
+    }));
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+export function scoreItinerary(input: {
+  id: string;
+  destination: string;
+  expectedDays: number;
+  budgetUSD: number;
+  groupProfile: GroupProfile;
+  days: ItineraryDay[];
+  rawResponses: string[];
+  expectationForDay: (dayIndex: number) => DayExpectation;
+}): FixtureScore {
+  const { days } = input;
+  const examples: string[] = [];
+  const note = (text: string) => {
+    if (examples.length < MAX_EXAMPLES) examples.push(text);
+  };
+
+  const budget = validateBudget(days, input.budgetUSD, input.expectedDays);
+  const logistics = validateLogistics(days, input.groupProfile);
+  const dedupeCollisions = countDedupeCollisions(input.rawResponses.map(parseRawActivities), input.destination);
+
+  let invalid = 0;
+  let outsideRadius = 0;
+  let mismatches = 0;
+
+  days.forEach((day, dayIndex) => {
+    const expected = input.expectationForDay(dayIndex);
+    for (const activity of day.activities) {
+      const label = `Day ${day.day}: ${activity.name}`;
+
+      if (isInvalidCoordinate(activity.coordinates)) {
+        invalid++;
+        note(`${label} has invalid coordinates`);
+        continue;
+      }
+
+      const km = distanceKm(activity.coordinates, expected.center);
+      const text = `${activity.name} ${activity.location || ""}`.toLowerCase();
+      const namedCity = expected.otherCities.find(city => text.includes(city.toLowerCase()));
+
+      if (km > expected.radiusKm) outsideRadius++;
+      if (km > expected.radiusKm || namedCity) {
+        mismatches++;
+        note(namedCity
+          ? `${label} mentions ${namedCity} (expected ${expected.city})`
+          : `${label} is ${Math.round(km)} km from ${expected.city}`);
+      }
+    }
+  });
+
+  const capped = (count: number, rule: { each: number; max: number }) => Math.min(rule.max, count * rule.each);
+  const errors = logistics.errorCount;
+  const warnings = logistics.warningCount;
+
+  let penalty = 0;
+  if (budget.status === "OVER_BUDGET") penalty += SCORE_PENALTIES.overBudget;
+  if (budget.status === "NEAR_LIMIT") penalty += SCORE_PENALTIES.nearBudgetLimit;
+  penalty += capped(errors, SCORE_PENALTIES.logisticsError);
+  penalty += capped(warnings, SCORE_PENALTIES.logisticsWarning);
+  penalty += capped(dedupeCollisions, SCORE_PENALTIES.dedupeCollision);
+  penalty += capped(invalid, SCORE_PENALTIES.invalidCoordinate);
+  penalty += capped(mismatches, SCORE_PENALTIES.destinationMismatch);
+  penalty += Math.max(0, input.expectedDays - days.length) * SCORE_PENALTIES.missingDay;
+
+  return {
+    id: input.id,
+    destination: input.destination,
+    days: days.length,
+    activities: days.reduce((sum, d) => sum + d.activities.length, 0),
+    budget: {
+      status: budget.status,
+      totalEstimatedCost: Math.round(budget.totalEstimatedCost),
+      deltaPercentage: Math.round(budget.deltaPercentage * 1000) / 10,
+      flaggedDays: budget.flaggedDays.length,
+    },
+    logistics: { status: logistics.status, errors, warnings },
+    dedupeCollisions,
+    coordinates: { invalid, outsideRadius },
+    destinationMismatches: mismatches,
+    examples,
+    score: Math.max(0, 100 - penalty),
+  };
+}
@@ -116,6 +116,54 @@ app.use((req, res, next) => {
     async () => {
       log(`serving on port ${port}`);
 
+      // Sweep expired auth sessions and tokens (hourly)
+      try {
+        const { startSessionSweeper } = await import("./services/auth");
+        startSessionSweeper();
+      } catch (err) {
+        console.error("[Startup] Could not start session sweeper:", err);
+      }
+
+      // Process queued trip jobs; requeues jobs orphaned by a previous process
+      try {
+        const { startJobWorker } = await import("./services/jobQueue");
+        startJobWorker();
+      } catch (err) {
+        console.error("[Startup] Could not start job worker:", err);
+      }
+
+      // Deliver queued partner webhooks (B2B trips with a webhookUrl)
+      try {
+        const { startWebhookWorker } = await import("./services/partnerWebhooks");
+        startWebhookWorker();
+      } catch (err) {
+        console.error("[Startup] Could not start webhook worker:", err);
+      }
+
+      // Re-ingest knowledge sources past their refresh interval (hourly check)
+      try {
+        const { startKnowledgeRefreshScheduler } = await import("./services/knowledgeRefresh");
+        startKnowledgeRefreshScheduler();
+      } catch (err) {
+        console.error("[Startup] Could not start knowledge refresh scheduler:", err);
+      }
+
+      // Re-price active flight/hotel price alerts (every 6 hours)
+      try {
+        const { startPriceAlertScheduler } = await import("./services/priceAlertService");
+        startPriceAlertScheduler();
+      } catch (err) {
+        console.error("[Startup] Could not start price alert scheduler:", err);
+      }
+
+      // Proactive WhatsApp reminders, briefings and digests for opted-in users (every 30 minutes)
+      try {
+        const { startNotificationScheduler } = await import("./services/notificationScheduler");
+        startNotificationScheduler();
+      } catch (err) {
+        console.error("[Startup] Could not start notification scheduler:", err);
+      }
+
       // Check if Passport Index dataset needs updating (runs in background)
       try {
         const { checkAndUpdateIfStale } = await import("./services/passportIndexUpdater");
@@ -8,6 +8,7 @@ import { db } from '../db';
 import { apiKeys, users } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import crypto from 'crypto';
+import { recordApiKeyUsage } from '../services/apiKeyService';
 
 // Extend Express Request to include API context
 declare global {
@@ -34,6 +35,21 @@ export function generateApiKey(isTest: boolean = false): string {
   return `${prefix}${randomPart}`;
 }
 
+/**
+ * Hash stored in apiKeys.keyHash. Keys are 24 random bytes, so a plain
+ * SHA-256 (no salt/stretching) is enough and keeps lookups indexable.
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Display prefix stored alongside the hash, e.g. "sk_live_Ab3d"
+ */
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, key.indexOf('_', 3) + 5);
+}
+
 /**
  * Validate API key format
  */
@@ -91,7 +107,7 @@ export async function verifyApiKey(
     const [apiKeyRecord] = await db
       .select()
       .from(apiKeys)
-      .where(and(eq(apiKeys.key, key), eq(apiKeys.isActive, true)));
+      .where(and(eq(apiKeys.keyHash, hashApiKey(key)), eq(apiKeys.isActive, true)));
 
     if (!apiKeyRecord) {
       res.status(401).json({
@@ -161,6 +177,11 @@ export async function verifyApiKey(
       usageCount: currentUsage + 1,
     };
 
+    // Per-endpoint daily analytics, counted once the status code is known
+    res.on('finish', () => {
+      recordApiKeyUsage(apiKeyRecord.id, req.method, req.originalUrl, res.statusCode);
+    });
+
     next();
   } catch (error) {
     console.error('[API Auth] Error verifying API key:', error);
@@ -0,0 +1,142 @@
+/**
+ * Trip Access Middleware
+ * Resolves the caller's role on a trip (owner / editor / viewer) and
+ * enforces a minimum role on trip routes.
+ *
+ * Role resolution:
+ * - Owner: signed-in user matches trips.userId, or X-Voyage-UID matches trips.voyageUid
+ * - Legacy trips with neither userId nor voyageUid are adopted by the first caller
+ *   with an X-Voyage-UID, who becomes owner; everyone else gets viewer
+ * - Editor/Viewer: signed-in user has an accepted row in trip_collaborators
+ */
+
+import { type Request, type Response, type NextFunction } from 'express';
+import type { Trip, TripRole } from '@shared/schema';
+import { storage } from '../storage';
+import { validateSession, getSessionIdFromHeaders, type UserResponse } from '../services/auth';
+
+// Extend Express Request to include trip access context
+declare global {
+  namespace Express {
+    interface Request {
+      tripAccess?: {
+        trip: Trip;
+        role: TripRole;
+        user: UserResponse | null;
+        voyageUid: string | null;
+      };
+    }
+  }
+}
+
+const ROLE_LEVELS: Record<TripRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/**
+ * Check whether a role satisfies a minimum role
+ */
+export function hasTripRole(role: TripRole | null, minRole: TripRole): boolean {
+  if (!role) return false;
+  return ROLE_LEVELS[role] >= ROLE_LEVELS[minRole];
+}
+
+/**
+ * Resolve the signed-in user (if any) from the request
+ */
+export async function getRequestUser(req: Request): Promise<UserResponse | null> {
+  const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
+  if (!sessionId) return null;
+
+  const session = await validateSession(sessionId);
+  return session?.user ?? null;
+}
+
+/**
+ * Resolve who owns per-caller data (saved places): the signed-in user
+ * and/or the anonymous X-Voyage-UID. Null when there's neither.
+ */
+export async function getRequestOwner(req: Request): Promise<{ userId: number | null; voyageUid: string | null } | null> {
+  const user = await getRequestUser(req);
+  const voyageUid = (req.headers['x-voyage-uid'] as string | undefined) || null;
+  if (!user && !voyageUid) return null;
+  return { userId: user?.id ?? null, voyageUid };
+}
+
+/**
+ * Resolve the caller's role on a trip. Returns null when the caller has no access.
+ *
+ * Legacy trips with no owner at all are adopted by the first caller with an
+ * X-Voyage-UID (as getTripWithOwnership does); anyone else only gets to view them.
+ */
+export async function resolveTripRole(
+  trip: Trip,
+  user: UserResponse | null,
+  voyageUid: string | null
+): Promise<TripRole | null> {
+  if (user && trip.userId === user.id) return 'owner';
+  if (voyageUid && trip.voyageUid === voyageUid) return 'owner';
+
+  if (!trip.userId && !trip.voyageUid) {
+    if (!voyageUid) return 'viewer';
+
+    const adopted = await storage.adoptTrip(trip.id, voyageUid);
+    if (!adopted) return null; // Someone else adopted it first
+    if (user) await storage.adoptTrip(trip.id, voyageUid, user.id);
+    console.log(`[TripAccess] Trip ${trip.id} adopted by uid ${voyageUid.slice(0, 8)}...`);
+    return 'owner';
+  }
+
+  if (user) {
+    const collaborator = await storage.getAcceptedCollaborator(trip.id, user.id);
+    if (collaborator?.role === 'owner' || collaborator?.role === 'editor' || collaborator?.role === 'viewer') {
+      return collaborator.role;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Require a minimum trip role. Reads the trip id from `req.params[param]`
+ * and attaches `req.tripAccess` for downstream handlers.
+ */
+export function requireTripRole(minRole: TripRole, param: string = 'id') {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const tripId = parseInt(req.params[param], 10);
+    if (isNaN(tripId) || tripId <= 0) {
+      res.status(400).json({ error: 'invalid_trip_id', message: 'Invalid trip ID' });
+      return;
+    }
+
+    try {
+      const trip = await storage.getTrip(tripId);
+      if (!trip) {
+        res.status(404).json({ error: 'not_found', message: 'Trip not found' });
+        return;
+      }
+
+      const user = await getRequestUser(req);
+      const voyageUid = (req.headers['x-voyage-uid'] as string | undefined) || null;
+      const role = await resolveTripRole(trip, user, voyageUid);
+
+      if (!role) {
+        // Same response as a missing trip so ids can't be probed
+        res.status(404).json({ error: 'not_found', message: 'Trip not found' });
+        return;
+      }
+
+      if (!hasTripRole(role, minRole)) {
+        res.status(403).json({
+          error: 'forbidden',
+          message: `This action requires ${minRole} access. Your role: ${role}`,
+        });
+        return;
+      }
+
+      req.tripAccess = { trip, role, user, voyageUid };
+      next();
+    } catch (error) {
+      console.error('[TripAccess] Error resolving trip role:', error);
+      res.status(500).json({ error: 'internal_error', message: 'Failed to verify trip access.' });
+    }
+  };
+}
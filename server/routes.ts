@@ -7,6 +7,14 @@ import { z } from "zod";
 import OpenAI from "openai";
 import { FeasibilityReport, VisaDetails, FEASIBILITY_SCHEMA_VERSION } from "@shared/schema";
 import { getCorridorData, corridorToVisaDetails, generateEstimatedVisaDetails } from "./services/corridorData";
+import {
+  buildCoverageReport,
+  crossCheckCorridor,
+  diffCorridorVisa,
+  formatCorridorDiff,
+  loadCorridorFiles,
+  validateCorridor,
+} from "./services/corridorAuthoring";
 import { getAlternatives } from "./services/alternativesService";
 import { searchFlights, type FlightResult } from "./services/flightApi";
 import { searchHotels, type HotelResult } from "./services/hotelApi";
@@ -26,20 +34,26 @@ import templatesRouter from "./routes/templates";
 import packingListRouter from "./routes/packingList";
 import insuranceRouter from "./routes/insurance";
 import collaborationRouter from "./routes/collaboration";
+import expensesRouter from "./routes/expenses";
+import savedPlacesRouter from "./routes/savedPlaces";
 import weatherRouter from "./routes/weather";
 import subscriptionsRouter from "./routes/subscriptions";
 import webhooksRouter from "./routes/webhooks";
 import apiV1Router from "./routes/api/v1";
+import apiKeysRouter from "./routes/apiKeys";
 import changePlanRouter from "./routes/changePlan";
 import fixOptionsRouter from "./routes/fixOptions";
 import appliedPlansRouter from "./routes/appliedPlans";
 import versionsRouter from "./routes/versions";
+import calendarRouter from "./routes/calendar";
+import exportRouter from "./routes/export";
 import { knowledgeRouter } from "./routes/knowledge";
 import { mapboxRouter } from "./routes/mapbox";
 import scrapeRouter from "./routes/scrape";
 import placesRouter from "./routes/places";
 import socialImportRouter from "./routes/import";
 import conciergeRouter from "./routes/concierge";
+import { requireTripRole } from "./middleware/tripAccess";
 import { VisaFacts, computeVisaConfidence } from "@shared/knowledgeSchema";
 import { db } from "./db";
 import { knowledgeDocuments } from "@shared/knowledgeSchema";
@@ -94,7 +108,32 @@ import {
   getMaxSpeculativeDays,
   getSpeculativeStats,
 } from "./services/speculativeExecution";
+import {
+  registerJobHandler,
+  enqueueTripJob,
+  recordTripProgress,
+  getTripProgress,
+  WORKER_ID,
+} from "./services/jobQueue";
 import { ItineraryModifierService } from "./services/itineraryModifier";
+import {
+  getTripLegs,
+  getLegsNumDays,
+  formatLegRoute,
+  buildLegPlan,
+  formatLegPlanForPrompt,
+  applyLegFeasibility,
+  buildLegCostBreakdown,
+  usdGroupPricing,
+  type LegPlan,
+} from "./services/multiCityService";
+import { checkLegVisas } from "./services/legVisaService";
+import { applyStayLimits } from "./services/stayLimitService";
+import { runWhatIfSweep, whatIfSweepSchema, WhatIfSweepError } from "./services/whatIfSweep";
+import { comparePassports, getTripPassports } from "./services/passportChoice";
+import { checkGroupVisas, applyGroupFeasibility } from "./services/groupFeasibility";
+import { FALLBACK_RATES, getExchangeRates, convertFromUSD } from "./services/exchangeRates";
+import { emitTripWebhook, buildFeasibilityEventData, buildDayReadyEventData } from "./services/partnerWebhooks";
 
 // ============ FEASIBILITY ANALYTICS ============
 // Decision-quality metrics for validation
@@ -346,16 +385,7 @@ function getAnalyticsSummary() {
 // Usage: VisaService.getVisaFactsFromKnowledge(), VisaService.convertVisaFactsToVisaDetails()
 
 // ============ PROGRESS TRACKING SYSTEM ============
-// In-memory store for tracking trip processing progress
-interface TripProgress {
-  step: number;
-  message: string;
-  details?: string;
-  startedAt: number;
-  updatedAt: number;
-}
-
-const tripProgressStore = new Map<number, TripProgress>();
+// Progress is persisted on the trip's running job (see services/jobQueue.ts)
 
 // Progress step definitions
 const PROGRESS_STEPS = {
@@ -369,20 +399,7 @@ const PROGRESS_STEPS = {
 };
 
 function updateProgress(tripId: number, stepInfo: { step: number; message: string }, details?: string) {
-  const now = Date.now();
-  const existing = tripProgressStore.get(tripId);
-  tripProgressStore.set(tripId, {
-    step: stepInfo.step,
-    message: stepInfo.message,
-    details,
-    startedAt: existing?.startedAt || now,
-    updatedAt: now,
-  });
-}
-
-function clearProgress(tripId: number) {
-  // Keep completed status for a while so UI can show completion
-  setTimeout(() => tripProgressStore.delete(tripId), 30000);
+  recordTripProgress(tripId, stepInfo.step, stepInfo.message, details);
 }
 
 // ============ DESTINATION COORDINATES LOOKUP ============
@@ -645,54 +662,6 @@ const CURRENCY_SYMBOLS: Record<string, string> = {
   ZAR: 'R', TRY: '₺', RUB: '₽', PLN: 'zł', CZK: 'Kč', HUF: 'Ft'
 };
 
-// Fallback exchange rates from USD (used if API fails) - approximate rates
-const FALLBACK_RATES: Record<string, number> = {
-  USD: 1, EUR: 0.92, GBP: 0.79, JPY: 149.5, CNY: 7.24, INR: 83.5, AUD: 1.53, CAD: 1.36,
-  CHF: 0.88, KRW: 1320, SGD: 1.34, HKD: 7.82, NZD: 1.64, SEK: 10.5, NOK: 10.8, DKK: 6.9,
-  MXN: 17.2, BRL: 4.95, AED: 3.67, SAR: 3.75, THB: 35.5, MYR: 4.72, IDR: 15600, PHP: 55.8,
-  ZAR: 18.5, TRY: 32.5, RUB: 92, PLN: 4.0, CZK: 23.5, HUF: 360
-};
-
-// Cache for exchange rates (refreshed every hour)
-let exchangeRateCache: { rates: Record<string, number>; timestamp: number } | null = null;
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
-
-// Fetch live exchange rates from Frankfurter API (free, no API key)
-async function getExchangeRates(): Promise<Record<string, number>> {
-  // Return cached rates if still valid
-  if (exchangeRateCache && Date.now() - exchangeRateCache.timestamp < CACHE_DURATION) {
-    return exchangeRateCache.rates;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch('https://api.frankfurter.app/latest?from=USD', {
-      signal: controller.signal
-    });
-    clearTimeout(timeoutId);
-
-    if (response.ok) {
-      const data = await response.json();
-      const rates: Record<string, number> = { USD: 1, ...data.rates };
-      exchangeRateCache = { rates, timestamp: Date.now() };
-      console.log('[Currency] Fetched live exchange rates:', Object.keys(rates).length, 'currencies');
-      return rates;
-    }
-  } catch (error) {
-    console.error('[Currency] API error, using fallback rates:', error);
-  }
-
-  return FALLBACK_RATES;
-}
-
-// Sync version using cached rates (for use in loops)
-function convertFromUSD(amountUSD: number, targetCurrency: string, rates: Record<string, number>): number {
-  const rate = rates[targetCurrency] || FALLBACK_RATES[targetCurrency] || 1;
-  return Math.round(amountUSD * rate);
-}
-
 // Transport functions moved to server/services/transportService.ts
 // Import: import * as TransportService from "./services/transportService";
 // Usage: TransportService.getSmartTransportRecommendations()
@@ -1739,9 +1708,32 @@ async function processFeasibilityOnly(tripId: number, input: any) {
   console.log(`[Stage1] Starting feasibility check for trip ${tripId}`);
   updateProgress(tripId, PROGRESS_STEPS.STARTING, "Checking if your trip is possible...");
 
+  // Multi-city: the route is the destination; visa rules are checked per stop below
+  const legs = getTripLegs(input);
+  if (legs) {
+    input = { ...input, destination: formatLegRoute(legs) };
+  }
+
   try {
+    // ============ PASSPORT CHOICE: travel on the least-friction passport ============
+    // The held passports and the pin live on the trip, not the job payload
+    const storedTrip = await storage.getTrip(tripId);
+    const passportComparison = storedTrip
+      ? comparePassports({ ...input, passports: storedTrip.passports, passportPinned: storedTrip.passportPinned })
+      : null;
+    if (passportComparison && !passportComparison.pinned && passportComparison.recommended !== input.passport) {
+      console.log(`[Stage1] Trip ${tripId}: switching passport ${input.passport} → ${passportComparison.recommended}`);
+      await storage.setTripPassport(tripId, passportComparison.recommended, false);
+      input = { ...input, passport: passportComparison.recommended };
+      passportComparison.chosen = passportComparison.recommended;
+    }
+
+    // ============ GROUP ROSTER: visa checks for every traveler, worst case wins ============
+    const group = storedTrip ? checkGroupVisas({ ...input, travelers: storedTrip.travelers }) : null;
+
     // ============ CACHE CHECK - Instant return if cached ============
-    const cachedReport = getCachedFeasibility(input.passport, input.destination);
+    // Multi-city reports depend on nights per stop, so they aren't cached by route
+    const cachedReport = legs ? null : getCachedFeasibility(input.passport, input.destination);
     if (cachedReport) {
       console.log(`[Stage1] CACHE HIT for ${input.passport} → ${input.destination} (${Date.now() - startTime}ms)`);
 
@@ -1750,10 +1742,24 @@ async function processFeasibilityOnly(tripId: number, input: any) {
       cachedReport.generatedAt = now.toISOString();
       cachedReport.expiresAt = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString();
 
-      await storage.updateTripFeasibility(tripId, cachedReport.overall, cachedReport);
+      // Stay limits, passport choice and the roster are specific to these travelers - apply to a copy, never to the cache
+      const stayLimits = await TripService.checkTripStayLimits(tripId);
+      const report = stayLimits || passportComparison || group ? structuredClone(cachedReport) : cachedReport;
+      if (stayLimits) {
+        applyStayLimits(report, stayLimits);
+      }
+      if (passportComparison) {
+        report.passports = passportComparison;
+      }
+      if (group) {
+        applyGroupFeasibility(report, group);
+      }
+
+      await storage.updateTripFeasibility(tripId, report.overall, report);
+      await emitTripWebhook(tripId, 'trip.feasibility.completed', buildFeasibilityEventData(tripId, report));
 
       // Track analytics
-      trackFeasibilityVerdict(cachedReport.overall, cachedReport.score, input.passport, input.destination);
+      trackFeasibilityVerdict(report.overall, report.score, input.passport, input.destination);
 
       // Fetch destination image (non-blocking)
       fetchAndStoreDestinationImage(tripId, input.destination).catch(err => {
@@ -1762,17 +1768,15 @@ async function processFeasibilityOnly(tripId: number, input: any) {
 
       // ============ SPECULATIVE EXECUTION ============
       // If high score, start generating itinerary immediately in background
-      if (shouldTriggerSpeculative(cachedReport.overall, cachedReport.score)) {
-        console.log(`[Stage1] Triggering SPECULATIVE execution for trip ${tripId} (score: ${cachedReport.score})`);
+      if (shouldTriggerSpeculative(report.overall, report.score)) {
+        console.log(`[Stage1] Triggering SPECULATIVE execution for trip ${tripId} (score: ${report.score})`);
         startSpeculativeJob(tripId);
-        // Fire and forget - don't await
-        generateItineraryForTrip(tripId).catch(err => {
-          console.error(`[Speculative] Error for trip ${tripId}:`, err);
+        enqueueTripJob(tripId, 'itinerary').catch(err => {
+          console.error(`[Speculative] Failed to queue itinerary for trip ${tripId}:`, err);
         });
       }
 
       updateProgress(tripId, { step: 2, message: "Feasibility check complete (cached)" }, "Ready for your decision");
-      clearProgress(tripId);
       return; // EARLY RETURN - cache hit!
     }
 
@@ -1783,7 +1787,7 @@ async function processFeasibilityOnly(tripId: number, input: any) {
       if (tripDuration > 60) {
         console.log(`[Stage1] Trip ${tripId} rejected: ${tripDuration} days is too long`);
         const now = new Date().toISOString();
-        await storage.updateTripFeasibility(tripId, "no", {
+        const tooLongReport: FeasibilityReport = {
           schemaVersion: FEASIBILITY_SCHEMA_VERSION,
           overall: "no",
           score: 0,
@@ -1795,15 +1799,15 @@ async function processFeasibilityOnly(tripId: number, input: any) {
           },
           summary: `A ${tripDuration}-day trip is too long for detailed planning. Please plan trips of 60 days or less.`,
           generatedAt: now,
-        });
-        clearProgress(tripId);
+        };
+        await storage.updateTripFeasibility(tripId, "no", tooLongReport);
+        await emitTripWebhook(tripId, 'trip.feasibility.completed', buildFeasibilityEventData(tripId, tooLongReport));
         return;
       }
     }
 
     if (!openai) {
       console.log(`[Stage1] No AI provider, cannot check feasibility`);
-      clearProgress(tripId);
       return;
     }
 
@@ -1844,10 +1848,12 @@ async function processFeasibilityOnly(tripId: number, input: any) {
     };
 
     const passportCode = passportCodeMap[input.passport.toLowerCase()] || input.passport.toUpperCase().slice(0, 2);
+    // Multi-city trips: the main visa details describe the first stop (point of entry)
+    const primaryDestination = legs ? legs[0].destination : input.destination;
     // Use comprehensive country code extraction that handles "City, Country" format
-    const destCode = getVisaCountryCode(input.destination) ||
-                     destCodeMap[input.destination.toLowerCase().split(",")[0].trim()] ||
-                     input.destination.toUpperCase().slice(0, 2);
+    const destCode = getVisaCountryCode(primaryDestination) ||
+                     destCodeMap[primaryDestination.toLowerCase().split(",")[0].trim()] ||
+                     primaryDestination.toUpperCase().slice(0, 2);
 
     try {
       ragVisaFacts = await VisaService.getVisaFactsFromKnowledge(passportCode, destCode);
@@ -1938,10 +1944,10 @@ Return JSON:
     }
 
     // Extract destination country from destination string (e.g., "Tokyo, Japan" -> "Japan")
-    const destinationParts = input.destination.split(',');
+    const destinationParts = primaryDestination.split(',');
     const destinationCountry = destinationParts.length > 1
       ? destinationParts[destinationParts.length - 1].trim()
-      : input.destination;
+      : primaryDestination;
 
     let visaDetails: VisaDetails | null = null;
 
@@ -2024,12 +2030,40 @@ Return JSON:
       console.log(`[Stage1] Score adjusted: ${originalScore} → ${report.score} (confidence: ${confidence})`);
     }
 
+    // ============ MULTI-CITY: per-stop visa, re-entry and Schengen checks ============
+    if (legs) {
+      applyLegFeasibility(report, await checkLegVisas(input.passport, legs, dates?.startDate));
+      console.log(`[Stage1] Checked ${legs.length} stops for trip ${tripId}: ${report.overall}`);
+    }
+
+    // ============ STAY LIMITS: cumulative allowances across the traveler's trips ============
+    // Cached copy is taken first - stay limits are specific to this traveler
+    const cacheableReport = legs ? null : structuredClone(report);
+    if (passportComparison) {
+      report.passports = passportComparison;
+    }
+    if (group) {
+      applyGroupFeasibility(report, group);
+      console.log(`[Stage1] Checked ${group.travelers.length} travelers for trip ${tripId}: ${group.worstStatus}`);
+    }
+    const stayLimits = await TripService.checkTripStayLimits(tripId);
+    if (stayLimits) {
+      applyStayLimits(report, stayLimits);
+      const exceeded = stayLimits.windows.filter(w => w.exceeded).map(w => w.zoneLabel);
+      if (exceeded.length > 0) {
+        console.log(`[Stage1] Trip ${tripId} exceeds stay limits: ${exceeded.join(', ')}`);
+      }
+    }
+
     await storage.updateTripFeasibility(tripId, report.overall, report);
+    await emitTripWebhook(tripId, 'trip.feasibility.completed', buildFeasibilityEventData(tripId, report));
     const elapsedMs = Date.now() - startTime;
     console.log(`[Stage1] Feasibility: ${report.overall} (score: ${report.score}) in ${elapsedMs}ms`);
 
     // ============ CACHE WRITE - Store for future instant hits ============
-    cacheFeasibility(input.passport, input.destination, report);
+    if (cacheableReport) {
+      cacheFeasibility(input.passport, input.destination, cacheableReport);
+    }
 
     // Track analytics
     trackFeasibilityVerdict(report.overall, report.score, input.passport, input.destination);
@@ -2045,37 +2079,39 @@ Return JSON:
     if (shouldTriggerSpeculative(report.overall, report.score)) {
       console.log(`[Stage1] Triggering SPECULATIVE execution for trip ${tripId} (score: ${report.score})`);
       startSpeculativeJob(tripId);
-      // Fire and forget - don't await, let it run in background
-      generateItineraryForTrip(tripId).catch(err => {
-        console.error(`[Speculative] Error for trip ${tripId}:`, err);
+      enqueueTripJob(tripId, 'itinerary').catch(err => {
+        console.error(`[Speculative] Failed to queue itinerary for trip ${tripId}:`, err);
       });
     }
 
     // Stage 1 complete - feasibility is ready
     updateProgress(tripId, { step: 2, message: "Feasibility check complete" }, "Ready for your decision");
-    clearProgress(tripId);
 
   } catch (error) {
     console.error(`[Stage1] Error checking feasibility for trip ${tripId}:`, error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const now = new Date().toISOString();
-    await storage.updateTripFeasibility(tripId, "error", {
-      schemaVersion: FEASIBILITY_SCHEMA_VERSION,
-      overall: "warning",
-      score: 50,
-      breakdown: {
-        accessibility: { status: "accessible", reason: "Could not verify accessibility" },
-        visa: { status: "issue", reason: "Could not verify visa requirements - please check manually" },
-        budget: { status: "ok", estimatedCost: 0, reason: "Budget analysis unavailable" },
-        safety: { status: "safe", reason: "Could not verify safety - please check travel advisories" }
-      },
-      summary: "We couldn't fully analyze this trip. Please verify visa and safety requirements before booking.",
-      generatedAt: now,
-    }, errorMessage);
-    clearProgress(tripId);
+    throw error; // Job queue retries, then calls markFeasibilityFailed
   }
 }
 
+// Last attempt failed: store a cautious fallback report so the trip doesn't sit in 'pending'
+async function markFeasibilityFailed(tripId: number, errorMessage: string) {
+  const now = new Date().toISOString();
+  await storage.updateTripFeasibility(tripId, "error", {
+    schemaVersion: FEASIBILITY_SCHEMA_VERSION,
+    overall: "warning",
+    score: 50,
+    breakdown: {
+      accessibility: { status: "accessible", reason: "Could not verify accessibility" },
+      visa: { status: "issue", reason: "Could not verify visa requirements - please check manually" },
+      budget: { status: "ok", estimatedCost: 0, reason: "Budget analysis unavailable" },
+      safety: { status: "safe", reason: "Could not verify safety - please check travel advisories" }
+    },
+    summary: "We couldn't fully analyze this trip. Please verify visa and safety requirements before booking.",
+    generatedAt: now,
+  }, errorMessage);
+  await emitTripWebhook(tripId, 'trip.failed', { stage: 'feasibility', error: errorMessage });
+}
+
 // ============================================================================
 // TWO-STAGE PROCESSING: Stage 2 - Generate Itinerary (Called on user action)
 // ============================================================================
@@ -2119,6 +2155,7 @@ async function generateItineraryForTrip(tripId: number, options?: { riskOverride
       infants: trip.infants,
       travelStyle: trip.travelStyle || 'standard',
       residence: trip.residence,
+      legs: trip.legs,
     };
 
     // Now call the original background processor but skip feasibility (already done)
@@ -2127,6 +2164,7 @@ async function generateItineraryForTrip(tripId: number, options?: { riskOverride
 
   } catch (error) {
     console.error(`[Stage2] Error generating itinerary for trip ${tripId}:`, error);
+    throw error;
   }
 }
 
@@ -2158,7 +2196,6 @@ async function processTripInBackground(tripId: number, input: any, skipFeasibili
           generatedAt: now,
         });
         updateProgress(tripId, { step: -1, message: "Trip too long" }, `${tripDuration} days exceeds 60-day limit`);
-        clearProgress(tripId);
         return;
       }
     }
@@ -2166,7 +2203,6 @@ async function processTripInBackground(tripId: number, input: any, skipFeasibili
     if (!openai) {
       console.log(`[Background] No AI provider, skipping analysis`);
       updateProgress(tripId, PROGRESS_STEPS.COMPLETE, "No AI configured");
-      clearProgress(tripId);
       return;
     }
 
@@ -2316,7 +2352,8 @@ Return JSON:
 
     // Pre-calculate dates and trip parameters BEFORE parallel execution
     // (dates already parsed above for duration validation)
-    const numDays = dates ? Math.ceil((new Date(dates.endDate).getTime() - new Date(dates.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1 : 7;
+    const tripLegs = getTripLegs(input);
+    const numDays = dates ? Math.ceil((new Date(dates.endDate).getTime() - new Date(dates.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1 : tripLegs ? getLegsNumDays(tripLegs) : 7;
     const numNights = Math.max(numDays - 1, 1);
     const departureDate = dates?.startDate || new Date().toISOString().split('T')[0];
     const returnDate = dates?.endDate || new Date(Date.now() + numDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
@@ -2326,6 +2363,12 @@ Return JSON:
     const budgetTier = input.travelStyle === 'luxury' ? 'luxury' :
                        input.travelStyle === 'standard' ? 'standard' : 'budget';
 
+    // Multi-city: which days are spent where, and the transfers between stops
+    const legPlan = tripLegs
+      ? await buildLegPlan(tripLegs, { startDate: departureDate, budget: input.budget, currency, groupSize: input.groupSize, travelStyle: budgetTier })
+      : null;
+    const legPlanPrompt = legPlan ? `\n\n${formatLegPlanForPrompt(legPlan)}` : '';
+
     // SPECULATIVE: Start transport recommendation early (lightweight, fast)
     const transportRecPromise = TransportService.getSmartTransportRecommendations(
       originCity || 'Unknown',
@@ -2423,7 +2466,6 @@ Return JSON:
     if (report.overall === "no") {
       console.log(`[Background] Trip NOT FEASIBLE: ${report.summary}`);
       updateProgress(tripId, PROGRESS_STEPS.COMPLETE, "Trip not feasible - see details");
-      clearProgress(tripId);
       console.log(`[Background] Trip ${tripId} completed (infeasible) in ${Date.now() - startTime}ms`);
       return;
     }
@@ -2437,7 +2479,7 @@ Return JSON:
       }
 
       // Check cache first for itinerary
-      const cachedItinerary = getCachedItinerary(input.destination, departureDate, numDays);
+      const cachedItinerary = legPlan ? null : getCachedItinerary(input.destination, departureDate, numDays);
 
       // Log transport info (already fetched in parallel above)
       const userTravelStyle = input.travelStyle as 'budget' | 'standard' | 'luxury' | null;
@@ -2559,7 +2601,7 @@ LONG TRIP GUIDANCE (${numDays} days):
           const itineraryPrompt = `Create a realistic ${numDays}-day ${input.destination} travel itinerary for ${input.groupSize} traveler(s).
 
 TRAVEL STYLE: ${budgetTier.toUpperCase()}
-${travelStyleGuide}${budgetConstraint}
+${travelStyleGuide}${budgetConstraint}${legPlanPrompt}
 
 OUTPUT FORMAT (JSON):
 {"days":[{
@@ -2766,7 +2808,7 @@ A|19:00|Welcome Dinner|Local cuisine|meal|25|2h|Restaurant Name|26.84|80.91
 D|2|2026-02-21|Exploration
 A|09:00|Temple Visit|Historic temple tour|activity|15|2h|Temple Name|26.86|80.93
 
-Include 3-4 activities per day. Use REAL coordinates for ${input.destination}.
+Include 3-4 activities per day. Use REAL coordinates for ${input.destination}.${legPlanPrompt}
 Style: ${input.travelStyle || 'standard'}. Currency: ${currency}.
 Return ONLY the compact format, no JSON, no markdown.`;
 
@@ -2937,6 +2979,7 @@ Return JSON: {"attractions": [{"name": "Place name", "lat": 0.0, "lng": 0.0, "ty
             // Track completed chunks and all days
             const completedChunks = new Map<number, any[]>(); // chunkIndex -> days
             let chunksCompleted = 0;
+            let daysAnnounced = 0; // Contiguous days already sent as trip.itinerary.day_ready
             let firstDayTime: number | null = null;
             const startParallel = Date.now();
 
@@ -2967,7 +3010,7 @@ CRITICAL CONTEXT:
 - This chunk: Days ${startDay}-${endDay} (${chunkDays} days starting ${chunkDateStr})
 - ${phaseNote}
 - Travel style: ${budgetTier.toUpperCase()}
-- Local transport: ${localTransport}
+- Local transport: ${localTransport}${legPlanPrompt}
 
 OUTPUT FORMAT (JSON):
 {"days":[{
@@ -3042,6 +3085,12 @@ ${budgetTier === 'budget' ? 'Focus on FREE attractions, street food, public tran
                     await storage.updateTripItinerary(tripId, { days: partialDays });
                     console.log(`[Chunked] 💾 Persisted ${partialDays.length}/${numDays} days to DB`);
 
+                    const newDays = partialDays.slice(daysAnnounced);
+                    daysAnnounced = Math.max(daysAnnounced, partialDays.length);
+                    for (const day of newDays) {
+                      await emitTripWebhook(tripId, 'trip.itinerary.day_ready', buildDayReadyEventData(tripId, day, numDays));
+                    }
+
                     // Update progress with days count
                     updateProgress(tripId, { step: 4, message: "Creating itinerary" },
                       `${partialDays.length}/${numDays} days ready (${chunksCompleted}/${numChunks} batches)`);
@@ -3162,7 +3211,7 @@ ${budgetTier === 'budget' ? 'Focus on FREE attractions, street food, public tran
           }
 
           // Cache the result for future use
-          if (result.days?.length >= 5) {
+          if (result.days?.length >= 5 && !legPlan) {
             cacheItinerary(input.destination, result);
           }
 
@@ -3490,7 +3539,11 @@ ${budgetTier === 'budget' ? 'Focus on FREE attractions, street food, public tran
         }
 
         // Minimal intercity/misc estimates - AI includes most transport costs in the itinerary
-        const intercityEstimate = 0; // AI already includes intercity transport in itinerary
+        // Single destination: AI already includes intercity transport in itinerary.
+        // Multi-city: transfers between stops from transportService.
+        const intercityEstimate = legPlan
+          ? Math.round(convertFromUSD(legPlan.transfers.reduce((sum, t) => sum + t.costUSD, 0), currency, exchangeRates))
+          : 0;
         const miscTotal = 0; // Avoid adding arbitrary padding - trust AI's comprehensive costs
 
         const originDisplay = input.origin || 'Your city';
@@ -3694,7 +3747,12 @@ Include 2-3 apps per mode and 2-3 mobile options. Use REAL apps and URLs for ${d
             options: transportRec.intraCityTransport.options,
             note: transportRec.intraCityTransport.note
           },
-          intercityTransport: { total: intercityEstimate, note: numDays > 4 ? "Day trip transportation" : "Not applicable" },
+          intercityTransport: {
+            total: intercityEstimate,
+            note: legPlan
+              ? legPlan.transfers.map(t => `${t.mode} to ${t.to.split(',')[0]}`).join(', ')
+              : numDays > 4 ? "Day trip transportation" : "Not applicable",
+          },
           misc: { total: miscTotal, note: "Souvenirs, tips, unexpected expenses" },
           grandTotal,
           perPerson: Math.round(grandTotal / input.groupSize),
@@ -3705,6 +3763,19 @@ Include 2-3 apps per mode and 2-3 mobile options. Use REAL apps and URLs for ${d
           // Cheapest mobile/SIM plans for visitors
           mobilePlans: bookingInfo.mobilePlans,
         };
+
+        // Multi-city: what each stop costs (activity/food costs are already group totals in local currency)
+        if (legPlan) {
+          itinerary.costBreakdown.legs = buildLegCostBreakdown(itinerary.days, legPlan, {
+            activityCost: (a) => a.estimatedCost || 0,
+            foodCost: (f) => f.totalCost || 0,
+            transferCost: (t) => convertFromUSD(t.costUSD, currency, exchangeRates),
+          });
+        }
+      }
+
+      if (legPlan) {
+        itinerary.legPlan = legPlan;
       }
 
       // Add risk override flag and risk-aware modifications if user proceeded despite warnings
@@ -3754,6 +3825,10 @@ Include 2-3 apps per mode and 2-3 mobile options. Use REAL apps and URLs for ${d
       }
 
       await storage.updateTripItinerary(tripId, itinerary);
+      await emitTripWebhook(tripId, 'trip.itinerary.completed', {
+        totalDays: itinerary.days?.length ?? 0,
+        _links: { trip: `/api/v1/trips/${tripId}` },
+      });
 
       // Sync feasibility report with actual calculated costs
       // ONLY update budget status for custom budget trips - for Budget/Comfort/Luxury travel styles,
@@ -3808,21 +3883,66 @@ Include 2-3 apps per mode and 2-3 mobile options. Use REAL apps and URLs for ${d
 
     console.log(`[Background] Trip ${tripId} completed in ${Date.now() - startTime}ms`);
     updateProgress(tripId, PROGRESS_STEPS.COMPLETE, "Your trip is ready!");
-    clearProgress(tripId);
 
   } catch (error) {
     console.error(`[Background] Error processing trip ${tripId}:`, error);
-    updateProgress(tripId, { step: -1, message: "Error processing trip" }, String(error));
-    clearProgress(tripId);
-    // Trip stays in pending state, frontend will show appropriate message
+    // Rethrow so the job queue can retry; trip stays in pending state meanwhile
+    throw error;
   }
 }
 
+// ============================================================================
+// JOB HANDLERS - Durable queue for the two processing stages (services/jobQueue.ts)
+// ============================================================================
+function registerTripJobHandlers() {
+  registerJobHandler('feasibility', {
+    handler: async (job) => {
+      await processFeasibilityOnly(job.tripId, job.payload as any);
+    },
+    onDead: async (job, error) => {
+      await markFeasibilityFailed(job.tripId, error);
+    },
+  });
+
+  registerJobHandler('itinerary', {
+    handler: async (job) => {
+      const trip = await storage.getTrip(job.tripId);
+      if (!trip || trip.itinerary) {
+        return; // Deleted, or already generated (e.g. by the streaming endpoint)
+      }
+
+      // Hold the same lock the streaming endpoint uses, owned by this worker so
+      // orphan recovery can release it if the process dies mid-generation
+      const lock = await acquireItineraryLock(job.tripId, WORKER_ID);
+      if (!lock.acquired) {
+        console.log(`[Stage2] Trip ${job.tripId} is already generating elsewhere, skipping job ${job.id}`);
+        return;
+      }
+
+      const lockCtx = createLockContext(job.tripId, WORKER_ID);
+      let finalStatus: 'complete' | 'idle' = 'idle';
+      try {
+        const payload = (job.payload || {}) as { riskOverride?: boolean };
+        await generateItineraryForTrip(job.tripId, { riskOverride: payload.riskOverride === true });
+        finalStatus = 'complete';
+      } finally {
+        cleanupLockContext(lockCtx);
+        await releaseItineraryLock(job.tripId, WORKER_ID, finalStatus);
+      }
+    },
+    onDead: async (job, error) => {
+      await emitTripWebhook(job.tripId, 'trip.failed', { stage: 'itinerary', error });
+    },
+  });
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
 
+  registerTripJobHandlers();
+
   // Add cookie parser for session management
   app.use(cookieParser());
 
@@ -3845,14 +3965,19 @@ export async function registerRoutes(
   app.use('/api/packing-list', packingListRouter);
   app.use('/api/insurance', insuranceRouter);
   app.use('/api/trips', collaborationRouter);
+  app.use('/api/trips', expensesRouter);
+  app.use('/api/saved-places', savedPlacesRouter);
   app.use('/api/weather', weatherRouter);
   app.use('/api/subscriptions', subscriptionsRouter);
   app.use('/api/webhooks', webhooksRouter);
   app.use('/api/v1', apiV1Router);
+  app.use('/api/api-keys', apiKeysRouter);
   app.use("/api", changePlanRouter);
   app.use("/api", fixOptionsRouter);
   app.use("/api", appliedPlansRouter);
   app.use("/api", versionsRouter);
+  app.use("/api", calendarRouter);
+  app.use("/api", exportRouter);
   app.use("/api/knowledge", knowledgeRouter);
   app.use("/api/mapbox", mapboxRouter);
   app.use("/api/scrape", scrapeRouter);
@@ -3909,8 +4034,8 @@ export async function registerRoutes(
       res.status(201).json(result.trip);
 
       // Run feasibility check in background
-      processFeasibilityOnly(result.trip.id, input).catch(err => {
-        console.error('Feasibility check failed:', err);
+      enqueueTripJob(result.trip.id, 'feasibility', input).catch(err => {
+        console.error('Failed to queue feasibility check:', err);
       });
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -3923,13 +4048,14 @@ export async function registerRoutes(
   // ============================================================================
   // UPDATE TRIP - Modify existing trip (Edit mode)
   // ============================================================================
-  app.put('/api/trips/:id', async (req, res) => {
+  app.put('/api/trips/:id', requireTripRole('editor'), async (req, res) => {
     try {
       const tripId = Number(req.params.id);
-      const input = api.trips.create.input.parse(req.body);
-      const voyageUid = req.headers['x-voyage-uid'] as string | undefined;
+      // Ownership and template fields are dropped - an editor can't take over the trip
+      const input = api.trips.update.input.parse(req.body);
 
-      const result = await TripService.updateTrip(tripId, input as TripService.CreateTripInput, voyageUid);
+      // Role already enforced by requireTripRole - editors may not share the owner's voyageUid
+      const result = await TripService.updateTrip(tripId, input as TripService.CreateTripInput);
       if (!result.trip) {
         const status = result.error === 'Trip not found' ? 404 : result.error === 'Not authorized to edit this trip' ? 403 : 400;
         return res.status(status).json({ message: result.error, field: result.field });
@@ -3938,8 +4064,8 @@ export async function registerRoutes(
       res.json(result.trip);
 
       // Run feasibility check in background
-      processFeasibilityOnly(tripId, input).catch(err => {
-        console.error('Feasibility check failed after update:', err);
+      enqueueTripJob(tripId, 'feasibility', input).catch(err => {
+        console.error('Failed to queue feasibility check after update:', err);
       });
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -3981,18 +4107,61 @@ export async function registerRoutes(
     res.json(result.trip);
   });
 
-  // ============================================================================
-  // DELETE TRIP - Permanently removes a trip and its associated data
-  // ============================================================================
-  app.delete('/api/trips/:id', async (req, res) => {
+  /**
+   * GET /api/trips/:id/stay-limits
+   * Days used and remaining per visa zone, counting the traveler's other trips.
+   * Computed fresh (the stored feasibility report goes stale as trips change).
+   */
+  app.get('/api/trips/:id/stay-limits', async (req, res) => {
     const tripId = Number(req.params.id);
     const voyageUid = req.headers['x-voyage-uid'] as string | undefined;
 
-    if (isNaN(tripId) || tripId <= 0) {
-      return res.status(400).json({ message: 'Invalid trip ID' });
+    try {
+      const result = await TripService.getTripWithOwnership(tripId, voyageUid);
+      if (!result.authorized || !result.trip) {
+        return res.status(404).json({ message: 'Trip not found' });
+      }
+
+      const stayLimits = await TripService.checkTripStayLimits(tripId);
+      res.json(stayLimits ?? { checkedAt: new Date().toISOString(), windows: [] });
+    } catch (err) {
+      console.error('[StayLimits] Error:', err);
+      res.status(500).json({ message: 'Failed to check stay limits' });
     }
+  });
 
-    const result = await TripService.deleteTripWithOwnership(tripId, voyageUid);
+  /**
+   * POST /api/trips/:id/what-if
+   * Ranked feasibility matrix across start dates, passports and trip lengths.
+   * Deterministic checks only (no LLM), so a full sweep returns in one request.
+   */
+  app.post('/api/trips/:id/what-if', requireTripRole('viewer'), async (req, res) => {
+    const validation = whatIfSweepSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid sweep', errors: validation.error.errors });
+    }
+
+    try {
+      const { trip } = req.tripAccess!;
+      const otherTrips = await storage.listTripsByOwner({ userId: trip.userId, voyageUid: trip.voyageUid });
+      res.json(runWhatIfSweep(trip, otherTrips, validation.data));
+    } catch (err) {
+      if (err instanceof WhatIfSweepError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error('[WhatIf] Error:', err);
+      res.status(500).json({ message: 'Failed to run what-if sweep' });
+    }
+  });
+
+  // ============================================================================
+  // DELETE TRIP - Permanently removes a trip and its associated data
+  // ============================================================================
+  app.delete('/api/trips/:id', requireTripRole('owner'), async (req, res) => {
+    const tripId = Number(req.params.id);
+
+    // Ownership already enforced by requireTripRole (owner may be signed in from another device)
+    const result = await TripService.deleteTripWithOwnership(tripId);
     if (!result.success) {
       const status = result.error === 'Trip not found' ? 404 : result.error === 'Not authorized to delete this trip' ? 403 : 500;
       return res.status(status).json({ message: result.error });
@@ -4003,21 +4172,16 @@ export async function registerRoutes(
 
   // ============================================================================
   // PUBLIC SHARE ENDPOINT - Returns trip data without ownership check
-  // Used for view-only shared links (Phase 3.6)
+  // Used for view-only shared links (Phase 3.6). Links are minted by the owner
+  // (POST /api/trips/:id/share) and carry their own redactions.
   // ============================================================================
-  app.get('/api/share/:id', async (req, res) => {
-    const tripId = Number(req.params.id);
-
-    if (isNaN(tripId) || tripId <= 0) {
-      return res.status(400).json({ message: 'Invalid trip ID' });
-    }
-
-    const shareableTrip = await TripService.getTripForShare(tripId);
+  app.get('/api/share/:token', async (req, res) => {
+    const shareableTrip = await TripService.getTripForShare(req.params.token);
     if (!shareableTrip) {
-      return res.status(404).json({ message: 'Trip not found' });
+      return res.status(404).json({ message: 'This share link doesn\'t exist, has expired or was revoked' });
     }
 
-    console.log(`[ShareView] Trip ${tripId} viewed via share link`);
+    console.log(`[ShareView] Trip ${shareableTrip.id} viewed via share link`);
     res.json(shareableTrip);
   });
 
@@ -4049,8 +4213,8 @@ export async function registerRoutes(
     }
   });
 
-  // DEBUG: Seed trip with demo data (for testing export)
-  app.post('/api/debug/seed-trip/:id', async (req, res) => {
+  // DEBUG: Seed trip with demo data (for testing export) - overwrites the plan, so owner only
+  app.post('/api/debug/seed-trip/:id', requireTripRole('owner'), async (req, res) => {
     const tripId = Number(req.params.id);
     try {
       // Update trip with demo data
@@ -4068,7 +4232,7 @@ export async function registerRoutes(
   // Progress endpoint - returns real-time processing status
   app.get('/api/trips/:id/progress', async (req, res) => {
     const tripId = Number(req.params.id);
-    const progress = tripProgressStore.get(tripId);
+    const progress = await getTripProgress(tripId);
 
     if (progress) {
       const elapsed = Math.round((Date.now() - progress.startedAt) / 1000);
@@ -4139,7 +4303,7 @@ export async function registerRoutes(
   // ============================================================================
   const STALE_PENDING_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes - if pending longer, consider stale
 
-  app.post('/api/trips/:id/feasibility/refresh', async (req, res) => {
+  app.post('/api/trips/:id/feasibility/refresh', requireTripRole('editor'), async (req, res) => {
     try {
       const tripId = Number(req.params.id);
       const trip = await storage.getTrip(tripId);
@@ -4166,6 +4330,7 @@ export async function registerRoutes(
       // Build input object from existing trip data
       const input = {
         passport: trip.passport,
+        passports: trip.passports,
         residence: trip.passport, // Default to passport if no separate residence
         origin: trip.origin,
         destination: trip.destination,
@@ -4190,8 +4355,8 @@ export async function registerRoutes(
       });
 
       // Run feasibility check in background
-      processFeasibilityOnly(tripId, input).catch(err => {
-        console.error('Feasibility re-check failed:', err);
+      enqueueTripJob(tripId, 'feasibility', input).catch(err => {
+        console.error('Failed to queue feasibility re-check:', err);
       });
 
     } catch (err) {
@@ -4200,6 +4365,54 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * PUT /api/trips/:id/passport
+   * Travel on one of the traveler's other passports ({ passport }), or let
+   * feasibility pick the least-friction one again ({ passport: null }).
+   * Re-runs feasibility, so action items and exports follow the choice.
+   */
+  app.put('/api/trips/:id/passport', requireTripRole('editor'), async (req, res) => {
+    const validation = z.object({ passport: z.string().trim().min(1).nullable() }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'passport must be a passport name or null' });
+    }
+
+    try {
+      const trip = req.tripAccess!.trip;
+      const { passport } = validation.data;
+      const held = getTripPassports(trip);
+      const chosen = passport === null ? trip.passport : held.find(p => p.toLowerCase() === passport.toLowerCase());
+      if (!chosen) {
+        return res.status(400).json({ message: `${passport} isn't one of this trip's passports (${held.join(', ')})` });
+      }
+
+      await storage.setTripPassport(trip.id, chosen, passport !== null);
+      const updated = await storage.setTripFeasibilityPending(trip.id);
+      res.json(updated);
+
+      enqueueTripJob(trip.id, 'feasibility', {
+        passport: chosen,
+        residence: trip.residence,
+        origin: trip.origin,
+        destination: trip.destination,
+        legs: trip.legs,
+        dates: trip.dates,
+        budget: trip.budget,
+        currency: trip.currency,
+        groupSize: trip.groupSize,
+        adults: trip.adults,
+        children: trip.children,
+        infants: trip.infants,
+        travelStyle: trip.travelStyle,
+      }).catch(err => {
+        console.error('Failed to queue feasibility check after passport change:', err);
+      });
+    } catch (err) {
+      console.error('[Passport] Error:', err);
+      res.status(500).json({ message: 'Failed to change passport' });
+    }
+  });
+
   // ============================================================================
   // ALTERNATIVES: Get alternative destinations when trip hits HARD_BLOCKER
   // ============================================================================
@@ -4229,7 +4442,7 @@ export async function registerRoutes(
   // ============================================================================
   // STAGE 2: Generate Itinerary (triggered by user after reviewing feasibility)
   // ============================================================================
-  app.post('/api/trips/:id/generate-itinerary', async (req, res) => {
+  app.post('/api/trips/:id/generate-itinerary', requireTripRole('editor'), async (req, res) => {
     try {
       const tripId = Number(req.params.id);
       const { riskOverride = false } = req.body || {};
@@ -4279,9 +4492,9 @@ export async function registerRoutes(
         riskOverride
       });
 
-      // Fire and forget - generate itinerary with risk override flag
-      generateItineraryForTrip(tripId, { riskOverride }).catch(err => {
-        console.error(`[Stage2] Error generating itinerary for trip ${tripId}:`, err);
+      // Queue itinerary generation with risk override flag
+      enqueueTripJob(tripId, 'itinerary', { riskOverride }).catch(err => {
+        console.error(`[Stage2] Failed to queue itinerary for trip ${tripId}:`, err);
       });
 
     } catch (error) {
@@ -4299,7 +4512,7 @@ export async function registerRoutes(
   // - REDUCE_BUDGET: Cost analyzer with AI-powered swaps
   // - SPECIFIC_EDIT: Surgical LLM edits for semantic changes
 
-  app.post('/api/trips/:id/modify', async (req, res) => {
+  app.post('/api/trips/:id/modify', requireTripRole('editor'), async (req, res) => {
     try {
       const tripId = Number(req.params.id);
       const { prompt } = req.body;
@@ -4424,6 +4637,11 @@ export async function registerRoutes(
         numDays = Math.max(1, Math.ceil((endDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1);
       }
 
+      const tripLegs = getTripLegs(trip);
+      if (!dateMatch && tripLegs) {
+        numDays = getLegsNumDays(tripLegs);
+      }
+
       // Parse Last-Event-ID for resume support (browser auto-sends this on reconnect)
       const lastEventDayIndex = parseLastEventId(req);
       if (lastEventDayIndex >= 0) {
@@ -4554,6 +4772,17 @@ export async function registerRoutes(
       try {
         lockCtx = createLockContext(tripId, lockOwner);
 
+        // Multi-city: reuse the plan persisted with partial days so a resume keeps the same stops
+        const legPlan: LegPlan | undefined = tripLegs
+          ? ((trip.itinerary as any)?.legPlan ?? await buildLegPlan(tripLegs, {
+              startDate,
+              budget: trip.budget,
+              currency: trip.currency || 'USD',
+              groupSize: trip.groupSize || 2,
+              travelStyle: trip.travelStyle,
+            }))
+          : undefined;
+
         // Build streaming input
         const streamInput: StreamingItineraryInput = {
           tripId,
@@ -4565,7 +4794,8 @@ export async function registerRoutes(
           currency: trip.currency || 'USD',
           groupSize: trip.groupSize || 2,
           passport: trip.passport,
-          origin: trip.origin ?? undefined
+          origin: trip.origin ?? undefined,
+          legPlan,
         };
 
         console.log(`[StreamAPI] Starting streaming generation for trip ${tripId}: ${numDays} days in ${trip.destination} (lock: ${lockOwner.slice(0, 8)})`);
@@ -4596,7 +4826,12 @@ export async function registerRoutes(
               status: allDays.length >= numDays ? 'complete' : 'generating'
             } as any);
             // Also update itinerary separately
-            await storage.updateTripItinerary(tripId, { days: allDays });
+            await storage.updateTripItinerary(tripId, legPlan ? {
+              days: allDays,
+              legPlan,
+              legCosts: { currency: 'USD', legs: buildLegCostBreakdown(allDays, legPlan, usdGroupPricing(streamInput.groupSize)) },
+            } : { days: allDays });
+            await emitTripWebhook(tripId, 'trip.itinerary.day_ready', buildDayReadyEventData(tripId, day, numDays));
           } catch (e) {
             console.error(`[StreamAPI] Failed to persist day ${day.day}:`, e);
           }
@@ -4618,6 +4853,10 @@ export async function registerRoutes(
         // Mark trip as complete and release lock
         await storage.updateTrip(tripId, { status: 'complete' });
         await releaseItineraryLock(tripId, lockOwner, "complete");
+        await emitTripWebhook(tripId, 'trip.itinerary.completed', {
+          totalDays: numDays,
+          _links: { trip: `/api/v1/trips/${tripId}` },
+        });
 
         res.end();
 
@@ -4750,6 +4989,53 @@ export async function registerRoutes(
     }
   });
 
+  // ============ CURATED CORRIDOR AUTHORING ============
+  // Admin view of the curated corridor files; same checks as server/scripts/corridors.ts
+
+  // Schema and Passport Index issues per file, plus coverage
+  app.get('/api/corridors/report', requireAdminToken, async (_req, res) => {
+    try {
+      const files = loadCorridorFiles();
+      const corridors = files.flatMap(file => (file.data ? [file.data] : []));
+
+      res.json({
+        timestamp: new Date().toISOString(),
+        files: files.map(file => ({
+          fileName: file.fileName,
+          corridor: file.data?.corridor ?? null,
+          lastVerified: file.data?.lastVerified ?? null,
+          issues: [...file.issues, ...(file.data ? crossCheckCorridor(file.data) : [])],
+        })),
+        coverage: buildCoverageReport(corridors),
+      });
+    } catch (error) {
+      console.error('[API] Corridor report error:', error);
+      res.status(500).json({ error: 'Failed to build corridor report' });
+    }
+  });
+
+  // Check a draft corridor file before it's committed; diffs it against the
+  // curated corridor it would replace, if any
+  app.post('/api/corridors/check', requireAdminToken, async (req, res) => {
+    try {
+      const { data, issues } = validateCorridor(req.body);
+      if (!data) {
+        return res.status(400).json({ valid: false, issues });
+      }
+
+      const current = getCorridorData(data.corridor.passport, data.corridor.destination);
+      res.json({
+        valid: true,
+        issues: crossCheckCorridor(data),
+        changes: current ? diffCorridorVisa(current, data) : null,
+        diff: current ? formatCorridorDiff(current, data) : null,
+      });
+    } catch (error) {
+      console.error('[API] Corridor check error:', error);
+      res.status(500).json({ error: 'Failed to check corridor' });
+    }
+  });
+
   // ============ TRIP EVENTS ANALYTICS ============
   // Generic trip page events for funnel analysis
 
@@ -4,26 +4,13 @@
  */
 
 import { Router, type Request, type Response } from 'express';
-import { z } from 'zod';
 import { requirePermission } from '../../../middleware/apiAuth';
 import { fetchVisaRequirements } from '../../../services/visaApiService';
 import { getSmartTransportRecommendations } from '../../../services/transportService';
+import { feasibilityCheckSchema } from './schemas';
 
 const router = Router();
 
-// Validation schema for quick feasibility check
-const feasibilityCheckSchema = z.object({
-  origin: z.string().min(1, 'Origin is required'),
-  destination: z.string().min(1, 'Destination is required'),
-  passport: z.string().min(1, 'Passport/nationality is required'),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
-  budget: z.number().positive('Budget must be positive'),
-  currency: z.string().length(3).default('USD'),
-  travelers: z.number().int().min(1).default(1),
-  travelStyle: z.enum(['budget', 'standard', 'luxury']).default('standard'),
-});
-
 /**
  * POST /api/v1/feasibility/check
  * Quick feasibility check without creating a persistent trip
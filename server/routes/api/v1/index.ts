@@ -8,16 +8,33 @@ import { verifyApiKey, requirePermission, requireTier } from '../../../middlewar
 import tripsRouter from './trips';
 import feasibilityRouter from './feasibility';
 import visaRouter from './visa';
+import webhooksRouter from './webhooks';
+import { getEndpointIndex, getOpenApiDocument } from './openapi';
 
 const router = Router();
 
-// Apply API key authentication to all v1 routes
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 document (public, so tooling can fetch it without a key)
+ */
+router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(getOpenApiDocument());
+});
+
+// Apply API key authentication to all other v1 routes
 router.use(verifyApiKey);
 
-// Mount sub-routers
-router.use('/trips', tripsRouter);
-router.use('/feasibility', feasibilityRouter);
-router.use('/visa', visaRouter);
+// Sub-routers by mount path (also read by the OpenAPI contract test)
+export const v1Routers: Record<string, Router> = {
+  '/trips': tripsRouter,
+  '/feasibility': feasibilityRouter,
+  '/visa': visaRouter,
+  '/webhooks': webhooksRouter,
+};
+
+for (const [path, subRouter] of Object.entries(v1Routers)) {
+  router.use(path, subRouter);
+}
 
 /**
  * GET /api/v1
@@ -27,21 +44,8 @@ router.get('/', (req: Request, res: Response) => {
   res.json({
     name: 'VoyageAI API',
     version: 'v1',
-    documentation: 'https://docs.voyageai.com/api/v1',
-    endpoints: {
-      trips: {
-        'POST /trips': 'Create a new trip',
-        'GET /trips/:id': 'Get trip details',
-        'GET /trips/:id/feasibility': 'Get feasibility report',
-        'GET /trips/:id/itinerary/stream': 'Stream itinerary generation (SSE)',
-      },
-      feasibility: {
-        'POST /feasibility/check': 'Quick feasibility check without creating a trip',
-      },
-      visa: {
-        'GET /visa/lookup': 'Get visa requirements',
-      },
-    },
+    documentation: '/api/v1/openapi.json',
+    endpoints: getEndpointIndex(),
     tier: req.apiKey?.tier || 'unknown',
     rateLimit: {
       limit: req.apiKey?.rateLimit || 0,
@@ -0,0 +1,187 @@
+/**
+ * Contract tests for the v1 OpenAPI document
+ *
+ * Run with: npx vitest run server/routes/api/v1/openapi.test.ts
+ *
+ * Fails when a v1 route is added or removed without updating V1_OPERATIONS,
+ * or when a route's zod schema and the published spec disagree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z, type AnyZodObject, type ZodTypeAny } from 'zod';
+import * as openapi from './openapi';
+import { createTripSchema, feasibilityCheckSchema, visaLookupSchema } from './schemas';
+import { STREAM_EVENT_TYPES } from '../../../services/streamEvents';
+
+const V1_DIR = path.dirname(fileURLToPath(import.meta.url));
+const doc = openapi.buildOpenApiDocument();
+
+/**
+ * "METHOD /path" for every route a v1 route file declares. Read from the
+ * source, since loading the routers would open the database.
+ */
+function routesOf(file: string, prefix = ''): string[] {
+  const source = fs.readFileSync(path.join(V1_DIR, file), 'utf-8');
+  return [...source.matchAll(/router\.(get|post|put|patch|delete)\(\s*'([^']+)'/g)].map(([, method, route]) => {
+    const routePath = `${prefix}${route}`.replace(/\/$/, '') || '/';
+    return `${method.toUpperCase()} ${routePath}`;
+  });
+}
+
+/** Sub-router files by mount path, from the v1Routers map in index.ts */
+function mountedRouters(): Array<[string, string]> {
+  const source = fs.readFileSync(path.join(V1_DIR, 'index.ts'), 'utf-8');
+  const files = new Map([...source.matchAll(/import (\w+) from '\.\/(\w+)';/g)].map(([, name, file]) => [name, `${file}.ts`]));
+  const map = source.match(/v1Routers[^{]*\{([^}]*)\}/)![1];
+  return [...map.matchAll(/'([^']+)':\s*(\w+)/g)].map(([, mount, name]) => [mount, files.get(name)!]);
+}
+
+function operation(method: string, route: string) {
+  return doc.paths[openapi.toOpenApiPath(route)]?.[method];
+}
+
+/** A valid value for a JSON schema, built from the spec alone */
+function sampleFor(schema: Record<string, any>): unknown {
+  if ('default' in schema) return schema.default;
+  if (schema.enum) return schema.enum[0];
+  if (schema.pattern === '^\\d{4}-\\d{2}-\\d{2}$') return '2027-03-01';
+  if (schema.format === 'uri') return 'https://partner.example.com/hooks';
+
+  switch (schema.type) {
+    case 'string':
+      return 'x'.repeat(schema.minLength ?? 1);
+    case 'integer':
+    case 'number':
+      return Math.max(schema.minimum ?? 1, (schema.exclusiveMinimum ?? 0) + 1);
+    case 'boolean':
+      return true;
+    case 'array':
+      return [sampleFor(schema.items)];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFor(value as Record<string, any>)])
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * The spec and the zod schema agree on fields, required fields, enums and
+ * defaults, and a body built only from the spec passes validation
+ */
+function expectMatchesZod(spec: Record<string, any>, schema: AnyZodObject) {
+  const shape = schema.shape as Record<string, ZodTypeAny>;
+
+  expect(Object.keys(spec.properties).sort()).toEqual(Object.keys(shape).sort());
+  expect([...(spec.required ?? [])].sort()).toEqual(
+    Object.keys(shape).filter(key => !shape[key].isOptional()).sort()
+  );
+
+  for (const [key, field] of Object.entries(shape)) {
+    expect(spec.properties[key], key).toEqual(openapi.zodToJsonSchema(field));
+  }
+
+  const sample = sampleFor(spec) as Record<string, unknown>;
+  expect(schema.safeParse(sample).success).toBe(true);
+
+  for (const key of spec.required ?? []) {
+    const { [key]: _removed, ...rest } = sample;
+    expect(schema.safeParse(rest).success, `missing ${key}`).toBe(false);
+  }
+}
+
+describe('OpenAPI document', () => {
+  it('is an OpenAPI 3.1 document with both API key schemes', () => {
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.servers).toEqual([{ url: '/api/v1' }]);
+    expect(doc.components.securitySchemes.bearerAuth).toMatchObject({ type: 'http', scheme: 'bearer' });
+    expect(doc.components.securitySchemes.apiKeyHeader).toMatchObject({ type: 'apiKey', in: 'header', name: 'X-API-Key' });
+    expect(doc.security).toEqual([{ bearerAuth: [] }, { apiKeyHeader: [] }]);
+  });
+
+  it('documents exactly the routes the v1 router serves', () => {
+    const mounts = mountedRouters();
+    expect(mounts.map(([mount]) => mount)).toEqual(['/trips', '/feasibility', '/visa', '/webhooks']);
+
+    const served = [
+      ...routesOf('index.ts'),
+      ...mounts.flatMap(([mount, file]) => routesOf(file, mount)),
+    ].sort();
+    const documented = openapi.V1_OPERATIONS.map(op => `${op.method.toUpperCase()} ${op.path}`).sort();
+
+    expect(documented).toEqual(served);
+
+    const specOperations = Object.entries(doc.paths)
+      .flatMap(([path, methods]) => Object.keys(methods as object).map(method => `${method.toUpperCase()} ${path}`))
+      .sort();
+    expect(specOperations).toEqual(documented.map(openapi.toOpenApiPath).sort());
+  });
+
+  it('only serves the spec itself without an API key', () => {
+    const publicOps = openapi.V1_OPERATIONS.filter(op => op.authenticated === false).map(op => op.path);
+    expect(publicOps).toEqual(['/openapi.json']);
+    expect(operation('get', '/openapi.json').security).toEqual([]);
+    expect(operation('get', '/trips/:id').responses['401']).toBeDefined();
+    expect(operation('get', '/trips/:id').responses['403']).toBeDefined();
+  });
+
+  it('resolves every $ref to a component', () => {
+    const refs = JSON.stringify(doc).match(/"#\/components\/schemas\/[^"]+"/g) ?? [];
+    for (const ref of refs) {
+      const name = JSON.parse(ref).split('/').pop();
+      expect(doc.components.schemas[name], ref).toBeDefined();
+    }
+  });
+});
+
+describe('request schemas', () => {
+  it('POST /trips body matches createTripSchema', () => {
+    expectMatchesZod(operation('post', '/trips').requestBody.content['application/json'].schema, createTripSchema);
+  });
+
+  it('POST /feasibility/check body matches feasibilityCheckSchema', () => {
+    expectMatchesZod(operation('post', '/feasibility/check').requestBody.content['application/json'].schema, feasibilityCheckSchema);
+  });
+
+  it('GET /visa/lookup query parameters match visaLookupSchema', () => {
+    const params = operation('get', '/visa/lookup').parameters.filter((p: any) => p.in === 'query');
+
+    expectMatchesZod({
+      type: 'object',
+      properties: Object.fromEntries(params.map((p: any) => [p.name, p.schema])),
+      required: params.filter((p: any) => p.required).map((p: any) => p.name),
+    }, visaLookupSchema);
+  });
+
+  it('publishes route schemas with their constraints', () => {
+    const body = operation('post', '/trips').requestBody.content['application/json'].schema;
+    expect(body.properties.budget).toEqual({ type: 'number', exclusiveMinimum: 0 });
+    expect(body.properties.travelStyle).toEqual({ type: 'string', enum: ['budget', 'moderate', 'luxury'], default: 'moderate' });
+    expect(body.properties.webhookUrl).toEqual({ type: 'string', format: 'uri' });
+    expect(body.properties.currency).toEqual({ type: 'string', minLength: 3, maxLength: 3, default: 'USD' });
+  });
+});
+
+describe('stream events', () => {
+  it('documents every StreamEvent event and nothing else', () => {
+    const streamEvent = doc.components.schemas.StreamEvent;
+    expect(Object.keys(openapi.STREAM_EVENT_DATA).sort()).toEqual([...STREAM_EVENT_TYPES].sort());
+    expect(Object.keys(streamEvent.discriminator.mapping).sort()).toEqual([...STREAM_EVENT_TYPES].sort());
+    expect(streamEvent.oneOf).toHaveLength(STREAM_EVENT_TYPES.length);
+  });
+
+  it('is the response of the itinerary stream endpoint', () => {
+    const response = operation('get', '/trips/:id/itinerary/stream').responses['200'];
+    expect(response.content['text/event-stream'].schema).toEqual({ $ref: '#/components/schemas/StreamEvent' });
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('rejects zod types it cannot describe', () => {
+    expect(() => openapi.zodToJsonSchema(z.bigint())).toThrow(/Unsupported zod type/);
+  });
+});
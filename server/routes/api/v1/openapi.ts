@@ -0,0 +1,628 @@
+/**
+ * B2B API v1 - OpenAPI Document
+ * OpenAPI 3.1 spec served at GET /api/v1/openapi.json
+ *
+ * Request bodies and query parameters are generated from the same zod schemas
+ * the routes validate with, so the spec can't describe fields a route doesn't
+ * accept. Every v1 route must have an entry in V1_OPERATIONS; the contract
+ * test (openapi.test.ts) fails when routes, schemas and spec drift apart.
+ */
+
+import { z, type AnyZodObject, type ZodTypeAny } from 'zod';
+import { zodToJsonSchema, type JsonSchema } from '../../../utils/zodToJsonSchema';
+import type { StreamEventType } from '../../../services/streamEvents';
+import { createTripSchema, feasibilityCheckSchema, visaLookupSchema } from './schemas';
+
+export { zodToJsonSchema, type JsonSchema };
+
+// ============================================================================
+// SHARED SCHEMAS
+// ============================================================================
+
+const linksSchema = z.record(z.string());
+
+const errorSchema = z.object({
+  error: z.enum(['unauthorized', 'forbidden', 'not_found', 'rate_limit_exceeded', 'internal_error']),
+  message: z.string(),
+});
+
+const validationErrorSchema = z.object({
+  error: z.literal('validation_error'),
+  message: z.string(),
+  details: z.array(z.object({
+    code: z.string(),
+    path: z.array(z.union([z.string(), z.number()])),
+    message: z.string(),
+  })).optional(),
+});
+
+// ============================================================================
+// SSE STREAM EVENTS (StreamEvent in services/streamEvents.ts)
+// ============================================================================
+
+const activitySchema = z.object({
+  time: z.string(),
+  name: z.string(),
+  description: z.string(),
+  type: z.enum(['activity', 'meal', 'transport', 'lodging']),
+  estimatedCost: z.number(),
+  duration: z.string(),
+  location: z.string(),
+  coordinates: z.object({ lat: z.number(), lng: z.number() }),
+  transportMode: z.string().optional(),
+  costVerification: z.object({
+    source: z.enum(['rag_knowledge', 'api_estimate', 'ai_estimate', 'user_input']),
+    confidence: z.enum(['high', 'medium', 'low']),
+    lastVerified: z.string().optional(),
+    citation: z.string().optional(),
+  }).optional(),
+  placeDetails: z.record(z.any()).optional(),
+});
+
+const itineraryDaySchema = z.object({
+  day: z.number().int(),
+  date: z.string(),
+  title: z.string(),
+  activities: z.array(activitySchema),
+  localFood: z.array(z.object({
+    name: z.string(),
+    cuisine: z.string(),
+    priceRange: z.string(),
+    estimatedCost: z.number(),
+    mustTry: z.string(),
+    address: z.string().optional(),
+  })).optional(),
+});
+
+const legSchema = z.object({
+  legIndex: z.number().int(),
+  destination: z.string(),
+  nights: z.number().int(),
+  startDay: z.number().int().describe('0-based itinerary day the traveler arrives at this stop'),
+  endDay: z.number().int(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+});
+
+const transferSchema = z.object({
+  fromLegIndex: z.number().int(),
+  toLegIndex: z.number().int(),
+  from: z.string(),
+  to: z.string(),
+  dayIndex: z.number().int(),
+  date: z.string().optional(),
+  mode: z.string(),
+  durationHours: z.number(),
+  costUSD: z.number().describe('Whole group, USD'),
+  note: z.string(),
+});
+
+/** Payload (`data`) of each SSE event, keyed by event name */
+export const STREAM_EVENT_DATA = {
+  meta: z.object({
+    tripId: z.number().int(),
+    destination: z.string(),
+    totalDays: z.number().int(),
+    startDate: z.string(),
+    resumedFrom: z.number().int().optional().describe('Days already generated when resuming'),
+    legs: z.array(legSchema).optional().describe('Multi-city trips only'),
+    transfers: z.array(transferSchema).optional().describe('Multi-city trips only'),
+  }),
+  leg: legSchema.extend({
+    transfer: transferSchema.nullable(),
+  }).describe('Multi-city trips: sent before the first day at each stop'),
+  day: z.object({
+    dayIndex: z.number().int(),
+    day: itineraryDaySchema,
+    refined: z.boolean().optional(),
+    iteration: z.number().int().optional(),
+    cached: z.boolean().optional(),
+  }),
+  progress: z.object({
+    currentDay: z.number().int(),
+    totalDays: z.number().int(),
+    percent: z.number().int().min(0).max(100),
+    message: z.string(),
+  }),
+  done: z.object({
+    tripId: z.number().int(),
+    totalDays: z.number().int(),
+    totalActivities: z.number().int(),
+    generationTimeMs: z.number().optional(),
+    itinerary: z.object({ days: z.array(itineraryDaySchema) }),
+    complete: z.boolean(),
+    validation: z.object({
+      budgetVerified: z.boolean(),
+      logisticsVerified: z.boolean(),
+      totalIterations: z.number().int(),
+      refinedDays: z.array(z.number().int()),
+      logs: z.array(z.string()),
+      ragVerification: z.record(z.any()).optional(),
+    }).optional(),
+    legCosts: z.object({
+      currency: z.string(),
+      legs: z.array(z.record(z.any())),
+    }).optional(),
+  }),
+  error: z.object({
+    message: z.string(),
+    recoverable: z.boolean(),
+    dayIndex: z.number().int().optional(),
+    budgetType: z.string().optional(),
+    partialDays: z.number().int().optional(),
+  }),
+  validation: z.object({
+    iteration: z.number().int(),
+    status: z.string(),
+    budgetVerified: z.boolean(),
+    logisticsVerified: z.boolean(),
+    flaggedDays: z.array(z.number().int()),
+    logs: z.array(z.string()),
+  }),
+  refinement: z.object({
+    iteration: z.number().int(),
+    daysToRefine: z.array(z.number().int()),
+    budgetIssues: z.array(z.string()),
+    logisticsIssues: z.array(z.string()),
+  }),
+} satisfies Record<StreamEventType, ZodTypeAny>;
+
+function streamEventComponentName(event: string): string {
+  return `Stream${event.charAt(0).toUpperCase()}${event.slice(1)}Event`;
+}
+
+// ============================================================================
+// RESPONSE SCHEMAS
+// ============================================================================
+
+const tripSummarySchema = z.object({
+  id: z.number().int(),
+  origin: z.string(),
+  destination: z.string(),
+  dates: z.string(),
+  groupSize: z.number().int(),
+  budget: z.number(),
+  currency: z.string(),
+  travelStyle: z.string(),
+  feasibilityStatus: z.string(),
+  createdAt: z.string(),
+});
+
+const webhookDeliverySchema = z.object({
+  id: z.number().int(),
+  eventId: z.string(),
+  event: z.enum(['trip.feasibility.completed', 'trip.itinerary.day_ready', 'trip.itinerary.completed', 'trip.failed']),
+  tripId: z.number().int(),
+  url: z.string(),
+  status: z.enum(['pending', 'delivered', 'failed']),
+  attempts: z.number().int(),
+  maxAttempts: z.number().int(),
+  nextAttemptAt: z.string().nullable(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  lastDurationMs: z.number().int().nullable(),
+  replayOf: z.number().int().nullable(),
+  deliveredAt: z.string().nullable(),
+  createdAt: z.string(),
+  payload: z.record(z.any()).optional().describe('Only on GET /webhooks/deliveries/{id}'),
+  _links: linksSchema,
+});
+
+const RESPONSE_SCHEMAS = {
+  ApiInfo: z.object({
+    name: z.string(),
+    version: z.string(),
+    documentation: z.string(),
+    endpoints: z.record(z.record(z.string())),
+    tier: z.string(),
+    rateLimit: z.object({ limit: z.number().int(), used: z.number().int(), remaining: z.number().int() }),
+  }),
+  Health: z.object({
+    status: z.literal('ok'),
+    timestamp: z.string(),
+    apiVersion: z.string(),
+  }),
+  TripCreated: z.object({
+    id: z.number().int(),
+    status: z.literal('created'),
+    message: z.string(),
+    trip: tripSummarySchema,
+    clientReference: z.string().nullable(),
+    webhook: z.object({ url: z.string(), events: z.array(z.string()) }).nullable(),
+    _links: linksSchema,
+  }),
+  Trip: z.object({
+    id: z.number().int(),
+    origin: z.string(),
+    destination: z.string(),
+    passport: z.string(),
+    dates: z.string(),
+    groupSize: z.number().int(),
+    adults: z.number().int(),
+    children: z.number().int(),
+    infants: z.number().int(),
+    budget: z.number(),
+    currency: z.string(),
+    travelStyle: z.string(),
+    interests: z.array(z.string()).nullable(),
+    feasibilityStatus: z.string(),
+    feasibility: z.record(z.any()).nullable(),
+    visa: z.record(z.any()).nullable(),
+    costs: z.record(z.any()).nullable(),
+    itinerary: z.object({ totalDays: z.number().int(), days: z.array(itineraryDaySchema) }).nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    _links: linksSchema,
+  }),
+  TripFeasibility: z.object({
+    tripId: z.number().int(),
+    status: z.string(),
+    verdict: z.string(),
+    certaintyScore: z.number(),
+    summary: z.string().optional(),
+    breakdown: z.record(z.record(z.any())),
+    actionItems: z.array(z.any()),
+    _links: linksSchema,
+  }),
+  FeasibilityPending: z.object({
+    status: z.literal('pending'),
+    message: z.string(),
+    estimatedCompletion: z.string(),
+  }),
+  FeasibilityCheckResult: z.object({
+    verdict: z.enum(['go', 'possible', 'difficult']),
+    certaintyScore: z.number().int().min(0).max(100),
+    summary: z.string(),
+    details: z.object({
+      tripDuration: z.string(),
+      daysUntilTravel: z.number().int(),
+      budgetPerDayPerPerson: z.number(),
+      currency: z.string(),
+    }),
+    visa: z.object({
+      type: z.string(),
+      visaName: z.string().optional(),
+      risk: z.enum(['low', 'medium', 'high']),
+      blocked: z.boolean(),
+      duration: z.string().optional(),
+      passportValidity: z.string().optional(),
+    }),
+    budget: z.object({
+      status: z.enum(['comfortable', 'tight', 'insufficient']),
+      total: z.number(),
+      perDayPerPerson: z.number(),
+    }),
+    transport: z.record(z.any()),
+    blockers: z.array(z.string()),
+    warnings: z.array(z.string()),
+  }),
+  VisaLookup: z.object({
+    passport: z.object({ country: z.string(), code: z.string().nullable() }),
+    destination: z.object({ country: z.string(), code: z.string().nullable() }),
+    visa: z.object({
+      type: z.string(),
+      required: z.boolean(),
+      details: z.record(z.any()).optional(),
+    }),
+    passportIndex: z.object({
+      status: z.string(),
+      statusLabel: z.string(),
+      stayDuration: z.number().int().nullable(),
+    }).optional(),
+    guidance: z.object({ recommendation: z.string(), applyEarly: z.string().optional() }),
+  }),
+  VisaCountries: z.record(z.any()),
+  WebhookSecret: z.object({
+    secret: z.string(),
+    signatureHeader: z.string(),
+    scheme: z.string(),
+  }),
+  WebhookDelivery: webhookDeliverySchema,
+  WebhookDeliveryList: z.object({
+    deliveries: z.array(webhookDeliverySchema),
+    count: z.number().int(),
+  }),
+};
+
+type ResponseSchemaName = keyof typeof RESPONSE_SCHEMAS;
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+interface OperationResponse {
+  description: string;
+  /** Component schema name; omitted for responses without a JSON body */
+  schema?: ResponseSchemaName | 'Error' | 'ValidationError' | 'StreamEvent';
+  contentType?: 'application/json' | 'application/pdf' | 'text/event-stream';
+}
+
+export interface V1Operation {
+  method: 'get' | 'post';
+  /** Express-style path relative to /api/v1 (e.g. /trips/:id) */
+  path: string;
+  tag: 'API' | 'Trips' | 'Feasibility' | 'Visa' | 'Webhooks';
+  summary: string;
+  /** API key permission the route checks; null when any valid key will do */
+  permission: 'read' | 'write' | null;
+  /** False only for the spec itself, which is served without a key */
+  authenticated?: boolean;
+  body?: ZodTypeAny;
+  query?: AnyZodObject;
+  responses: Record<number, OperationResponse>;
+}
+
+const invalidId: OperationResponse = { description: 'Invalid ID', schema: 'ValidationError' };
+const tripNotFound: OperationResponse = { description: 'Trip not found', schema: 'Error' };
+const deliveryNotFound: OperationResponse = { description: 'Delivery not found', schema: 'Error' };
+
+/**
+ * Every route mounted under /api/v1. The GET /api/v1 endpoint list is
+ * derived from this, as is the OpenAPI document.
+ */
+export const V1_OPERATIONS: V1Operation[] = [
+  {
+    method: 'get', path: '/', tag: 'API', permission: null,
+    summary: 'API info and capabilities',
+    responses: { 200: { description: 'API info', schema: 'ApiInfo' } },
+  },
+  {
+    method: 'get', path: '/health', tag: 'API', permission: null,
+    summary: 'API health check',
+    responses: { 200: { description: 'API is up', schema: 'Health' } },
+  },
+  {
+    method: 'get', path: '/openapi.json', tag: 'API', permission: null, authenticated: false,
+    summary: 'This OpenAPI document',
+    responses: { 200: { description: 'OpenAPI 3.1 document' } },
+  },
+  {
+    method: 'post', path: '/trips', tag: 'Trips', permission: 'write',
+    summary: 'Create a new trip',
+    body: createTripSchema,
+    responses: {
+      201: { description: 'Trip created; feasibility analysis is queued', schema: 'TripCreated' },
+      400: { description: 'Invalid request body', schema: 'ValidationError' },
+    },
+  },
+  {
+    method: 'get', path: '/trips/:id', tag: 'Trips', permission: 'read',
+    summary: 'Get trip details',
+    responses: { 200: { description: 'Trip', schema: 'Trip' }, 400: invalidId, 404: tripNotFound },
+  },
+  {
+    method: 'get', path: '/trips/:id/feasibility', tag: 'Trips', permission: 'read',
+    summary: 'Get feasibility report',
+    responses: {
+      200: { description: 'Feasibility report', schema: 'TripFeasibility' },
+      202: { description: 'Analysis still in progress', schema: 'FeasibilityPending' },
+      400: invalidId,
+      404: tripNotFound,
+    },
+  },
+  {
+    method: 'get', path: '/trips/:id/itinerary/stream', tag: 'Trips', permission: 'read',
+    summary: 'Stream itinerary generation (SSE)',
+    responses: {
+      200: {
+        description: 'Server-sent events. This endpoint currently answers with a `redirect` event pointing at '
+          + '/api/trips/{id}/itinerary/stream, which emits the StreamEvent events described here.',
+        schema: 'StreamEvent',
+        contentType: 'text/event-stream',
+      },
+    },
+  },
+  {
+    method: 'get', path: '/trips/:id/export.pdf', tag: 'Trips', permission: 'read',
+    summary: 'Download trip report PDF',
+    responses: {
+      200: { description: 'Trip report', contentType: 'application/pdf' },
+      400: invalidId,
+      404: tripNotFound,
+    },
+  },
+  {
+    method: 'post', path: '/feasibility/check', tag: 'Feasibility', permission: 'read',
+    summary: 'Quick feasibility check without creating a trip',
+    body: feasibilityCheckSchema,
+    responses: {
+      200: { description: 'Feasibility verdict', schema: 'FeasibilityCheckResult' },
+      400: { description: 'Invalid request body or date range', schema: 'ValidationError' },
+    },
+  },
+  {
+    method: 'get', path: '/visa/lookup', tag: 'Visa', permission: 'read',
+    summary: 'Get visa requirements',
+    query: visaLookupSchema,
+    responses: {
+      200: { description: 'Visa requirements', schema: 'VisaLookup' },
+      400: { description: 'Invalid query parameters', schema: 'ValidationError' },
+      404: { description: 'No visa information for this corridor', schema: 'Error' },
+    },
+  },
+  {
+    method: 'get', path: '/visa/countries', tag: 'Visa', permission: 'read',
+    summary: 'List countries available for visa lookups',
+    responses: { 200: { description: 'Passport countries and popular destinations', schema: 'VisaCountries' } },
+  },
+  {
+    method: 'get', path: '/webhooks/secret', tag: 'Webhooks', permission: 'write',
+    summary: 'Get the webhook signing secret',
+    responses: { 200: { description: 'Signing secret and scheme', schema: 'WebhookSecret' } },
+  },
+  {
+    method: 'post', path: '/webhooks/secret/rotate', tag: 'Webhooks', permission: 'write',
+    summary: 'Rotate the webhook signing secret',
+    responses: { 200: { description: 'New signing secret', schema: 'WebhookSecret' } },
+  },
+  {
+    method: 'get', path: '/webhooks/deliveries', tag: 'Webhooks', permission: 'read',
+    summary: 'List webhook deliveries',
+    query: z.object({
+      tripId: z.number().int().optional(),
+      status: z.enum(['pending', 'delivered', 'failed']).optional(),
+      limit: z.number().int().min(1).optional(),
+    }),
+    responses: {
+      200: { description: 'Deliveries, newest first', schema: 'WebhookDeliveryList' },
+      400: { description: 'Invalid filter', schema: 'ValidationError' },
+    },
+  },
+  {
+    method: 'get', path: '/webhooks/deliveries/:id', tag: 'Webhooks', permission: 'read',
+    summary: 'Get a webhook delivery and its payload',
+    responses: { 200: { description: 'Delivery', schema: 'WebhookDelivery' }, 400: invalidId, 404: deliveryNotFound },
+  },
+  {
+    method: 'post', path: '/webhooks/deliveries/:id/replay', tag: 'Webhooks', permission: 'write',
+    summary: 'Re-send a webhook delivery',
+    responses: { 202: { description: 'Replay queued as a new delivery', schema: 'WebhookDelivery' }, 400: invalidId, 404: deliveryNotFound },
+  },
+];
+
+/**
+ * Endpoint list for GET /api/v1, grouped by tag: { trips: { 'POST /trips': summary } }
+ */
+export function getEndpointIndex(): Record<string, Record<string, string>> {
+  const index: Record<string, Record<string, string>> = {};
+  for (const op of V1_OPERATIONS) {
+    if (op.tag === 'API') continue;
+    const group = (index[op.tag.toLowerCase()] ??= {});
+    group[`${op.method.toUpperCase()} ${op.path}`] = op.summary;
+  }
+  return index;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/** Express path → OpenAPI path: /trips/:id → /trips/{id} */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function componentRef(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function buildOperation(op: V1Operation): JsonSchema {
+  const parameters: JsonSchema[] = [];
+
+  for (const [, name] of Array.from(op.path.matchAll(/:(\w+)/g))) {
+    parameters.push({ name, in: 'path', required: true, schema: { type: 'integer' } });
+  }
+  if (op.query) {
+    for (const [name, field] of Object.entries(op.query.shape as Record<string, ZodTypeAny>)) {
+      parameters.push({ name, in: 'query', required: !field.isOptional(), schema: zodToJsonSchema(field) });
+    }
+  }
+
+  const responses: Record<string, JsonSchema> = {};
+  const allResponses: Record<number, OperationResponse> = { ...op.responses };
+  if (op.authenticated !== false) {
+    allResponses[401] = { description: 'Missing, invalid or expired API key', schema: 'Error' };
+    allResponses[429] = { description: 'Daily rate limit exceeded', schema: 'Error' };
+    allResponses[500] = { description: 'Internal error', schema: 'Error' };
+  }
+  if (op.permission) {
+    allResponses[403] = { description: `API key lacks the "${op.permission}" permission`, schema: 'Error' };
+  }
+
+  for (const [status, response] of Object.entries(allResponses)) {
+    const contentType = response.contentType ?? 'application/json';
+    const schema = response.schema
+      ? componentRef(response.schema)
+      : contentType === 'application/pdf'
+        ? { type: 'string', format: 'binary' }
+        : { type: 'object' };
+    responses[status] = { description: response.description, content: { [contentType]: { schema } } };
+  }
+
+  return {
+    operationId: `${op.method}${toOpenApiPath(op.path).replace(/[^a-zA-Z0-9]+(\w)?/g, (_, c: string | undefined) => (c ?? '').toUpperCase())}`,
+    tags: [op.tag],
+    summary: op.summary,
+    ...(op.permission ? { 'x-required-permission': op.permission } : {}),
+    ...(op.authenticated === false ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(op.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: zodToJsonSchema(op.body) } },
+      },
+    } : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {
+    Error: zodToJsonSchema(errorSchema),
+    ValidationError: zodToJsonSchema(validationErrorSchema),
+  };
+  for (const [name, schema] of Object.entries(RESPONSE_SCHEMAS)) {
+    schemas[name] = zodToJsonSchema(schema);
+  }
+
+  const eventNames = Object.keys(STREAM_EVENT_DATA) as StreamEventType[];
+  for (const event of eventNames) {
+    schemas[streamEventComponentName(event)] = {
+      type: 'object',
+      properties: {
+        event: { const: event },
+        id: { type: 'string', description: 'SSE event id, usable as Last-Event-ID to resume' },
+        data: zodToJsonSchema(STREAM_EVENT_DATA[event]),
+      },
+      required: ['event', 'data'],
+    };
+  }
+  schemas.StreamEvent = {
+    description: 'One server-sent event: `event:` is the event name and `data:` its JSON payload',
+    oneOf: eventNames.map(event => componentRef(streamEventComponentName(event))),
+    discriminator: {
+      propertyName: 'event',
+      mapping: Object.fromEntries(eventNames.map(event => [event, `#/components/schemas/${streamEventComponentName(event)}`])),
+    },
+  };
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const op of V1_OPERATIONS) {
+    const path = toOpenApiPath(op.path);
+    (paths[path] ??= {})[op.method] = buildOperation(op);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'VoyageAI API',
+      version: 'v1',
+      description: 'RESTful API for travel partners and agencies. Send your API key as a Bearer token or in the X-API-Key header.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    tags: [
+      { name: 'API' },
+      { name: 'Trips' },
+      { name: 'Feasibility' },
+      { name: 'Visa' },
+      { name: 'Webhooks' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer sk_live_...' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas,
+    },
+  };
+}
+
+let cachedDocument: JsonSchema | null = null;
+
+/** The document never changes at runtime, so it's built once */
+export function getOpenApiDocument(): JsonSchema {
+  cachedDocument ??= buildOpenApiDocument();
+  return cachedDocument;
+}
@@ -0,0 +1,50 @@
+/**
+ * B2B API v1 - Request Schemas
+ * Validation for v1 request bodies and queries, kept apart from the route
+ * handlers so the OpenAPI document can be built from them without the db
+ */
+
+import { z } from 'zod';
+import { checkWebhookUrl } from '../../../services/webhookDelivery';
+
+// Validation schema for trip creation
+export const createTripSchema = z.object({
+  origin: z.string().min(1, 'Origin is required'),
+  destination: z.string().min(1, 'Destination is required'),
+  passport: z.string().min(1, 'Passport/nationality is required'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
+  budget: z.number().positive('Budget must be positive'),
+  currency: z.string().length(3).default('USD'),
+  adults: z.number().int().min(1).default(1),
+  children: z.number().int().min(0).default(0),
+  infants: z.number().int().min(0).default(0),
+  travelStyle: z.enum(['budget', 'moderate', 'luxury']).default('moderate'),
+  interests: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+  // API-specific fields
+  clientReference: z.string().optional(), // Partner's reference ID
+  webhookUrl: z.string().url().superRefine((url, ctx) => {
+    const problem = checkWebhookUrl(url);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+  }).optional(), // Webhook for async updates (https, public host)
+});
+
+// Validation schema for quick feasibility check
+export const feasibilityCheckSchema = z.object({
+  origin: z.string().min(1, 'Origin is required'),
+  destination: z.string().min(1, 'Destination is required'),
+  passport: z.string().min(1, 'Passport/nationality is required'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
+  budget: z.number().positive('Budget must be positive'),
+  currency: z.string().length(3).default('USD'),
+  travelers: z.number().int().min(1).default(1),
+  travelStyle: z.enum(['budget', 'standard', 'luxury']).default('standard'),
+});
+
+// Validation schema for visa lookup
+export const visaLookupSchema = z.object({
+  passport: z.string().min(1, 'Passport country is required'),
+  destination: z.string().min(1, 'Destination is required'),
+});
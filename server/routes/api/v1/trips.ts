@@ -4,35 +4,19 @@
  */
 
 import { Router, type Request, type Response } from 'express';
-import { z } from 'zod';
 import { db } from '../../../db';
 import { trips, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { requirePermission, requireTier } from '../../../middleware/apiAuth';
 import { storage } from '../../../storage';
+import { renderTripPdfForTrip } from '../../../services/tripPdf';
+import { enqueueTripJob } from '../../../services/jobQueue';
+import { registerTripWebhook } from '../../../services/partnerWebhooks';
+import { assertWebhookTarget, WebhookTargetError } from '../../../services/webhookDelivery';
+import { createTripSchema } from './schemas';
 
 const router = Router();
 
-// Validation schema for trip creation
-const createTripSchema = z.object({
-  origin: z.string().min(1, 'Origin is required'),
-  destination: z.string().min(1, 'Destination is required'),
-  passport: z.string().min(1, 'Passport/nationality is required'),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
-  budget: z.number().positive('Budget must be positive'),
-  currency: z.string().length(3).default('USD'),
-  adults: z.number().int().min(1).default(1),
-  children: z.number().int().min(0).default(0),
-  infants: z.number().int().min(0).default(0),
-  travelStyle: z.enum(['budget', 'moderate', 'luxury']).default('moderate'),
-  interests: z.array(z.string()).optional(),
-  notes: z.string().optional(),
-  // API-specific fields
-  clientReference: z.string().optional(), // Partner's reference ID
-  webhookUrl: z.string().url().optional(), // Webhook for async updates
-});
-
 /**
  * POST /api/v1/trips
  * Create a new trip
@@ -51,11 +35,24 @@ router.post('/', requirePermission('write'), async (req: Request, res: Response)
 
     const data = validation.data;
 
+    // Resolve the webhook host now so an internal target fails the request, not every delivery
+    if (data.webhookUrl) {
+      try {
+        await assertWebhookTarget(data.webhookUrl);
+      } catch (err) {
+        if (!(err instanceof WebhookTargetError)) throw err;
+        return res.status(400).json({
+          error: 'validation_error',
+          message: err.message,
+        });
+      }
+    }
+
     // Calculate group size
     const groupSize = data.adults + data.children + data.infants;
 
     // Create trip via storage layer (uses same logic as main app)
-    const trip = await storage.createTrip({
+    const tripInput = {
       origin: data.origin,
       destination: data.destination,
       passport: data.passport,
@@ -70,10 +67,19 @@ router.post('/', requirePermission('write'), async (req: Request, res: Response)
       interests: data.interests || [],
       // Store API context in voyage UID
       voyageUid: `api_${req.apiKey?.userId}_${Date.now()}`,
-    });
+    };
+    const trip = await storage.createTrip(tripInput);
 
-    // Note: Feasibility analysis is triggered asynchronously
-    // Partners can poll GET /trips/:id or use webhook
+    // Registered before the feasibility job is queued so no event is missed
+    if (data.webhookUrl) {
+      await registerTripWebhook(trip.id, req.apiKey!.id, data.webhookUrl, data.clientReference);
+    }
+
+    // Feasibility runs on the job queue; partners poll GET /trips/:id or get
+    // trip.feasibility.completed on their webhook
+    enqueueTripJob(trip.id, 'feasibility', tripInput).catch(err => {
+      console.error(`[API v1] Failed to queue feasibility for trip ${trip.id}:`, err);
+    });
 
     res.status(201).json({
       id: trip.id,
@@ -91,10 +97,20 @@ router.post('/', requirePermission('write'), async (req: Request, res: Response)
         feasibilityStatus: trip.feasibilityStatus,
         createdAt: trip.createdAt,
       },
+      clientReference: data.clientReference ?? null,
+      webhook: data.webhookUrl ? {
+        url: data.webhookUrl,
+        events: ['trip.feasibility.completed', 'trip.itinerary.day_ready', 'trip.itinerary.completed', 'trip.failed'],
+      } : null,
       _links: {
         self: `/api/v1/trips/${trip.id}`,
         feasibility: `/api/v1/trips/${trip.id}/feasibility`,
         stream: `/api/v1/trips/${trip.id}/itinerary/stream`,
+        pdf: `/api/v1/trips/${trip.id}/export.pdf`,
+        ...(data.webhookUrl ? {
+          webhookDeliveries: `/api/v1/webhooks/deliveries?tripId=${trip.id}`,
+          webhookSecret: '/api/v1/webhooks/secret',
+        } : {}),
       },
     });
   } catch (error) {
@@ -272,6 +288,45 @@ router.get('/:id/feasibility', requirePermission('read'), async (req: Request, r
   }
 });
 
+/**
+ * GET /api/v1/trips/:id/export.pdf
+ * Trip report as a PDF (same layout as the in-app export)
+ */
+router.get('/:id/export.pdf', requirePermission('read'), async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id, 10);
+
+    if (isNaN(tripId)) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid trip ID',
+      });
+    }
+
+    const trip = await storage.getTrip(tripId);
+
+    if (!trip) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Trip not found',
+      });
+    }
+
+    const pdf = await renderTripPdfForTrip(trip, process.env.APP_URL);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${trip.id}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error('[API v1] Export PDF error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to render PDF',
+    });
+  }
+});
+
 /**
  * GET /api/v1/trips/:id/itinerary/stream
  * Stream itinerary generation (SSE)
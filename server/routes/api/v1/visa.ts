@@ -4,19 +4,13 @@
  */
 
 import { Router, type Request, type Response } from 'express';
-import { z } from 'zod';
 import { requirePermission } from '../../../middleware/apiAuth';
 import { fetchVisaRequirements, getCountryCode } from '../../../services/visaApiService';
 import { lookupVisa } from '../../../services/passportIndexService';
+import { visaLookupSchema } from './schemas';
 
 const router = Router();
 
-// Validation schema for visa lookup
-const visaLookupSchema = z.object({
-  passport: z.string().min(1, 'Passport country is required'),
-  destination: z.string().min(1, 'Destination is required'),
-});
-
 /**
  * GET /api/v1/visa/lookup
  * Get visa requirements for a passport/destination combination
@@ -0,0 +1,190 @@
+/**
+ * B2B API v1 - Webhooks Routes
+ * Signing secret, delivery log and replay for partner webhooks
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@shared/schema';
+import { requirePermission } from '../../../middleware/apiAuth';
+import {
+  ensureWebhookSecret,
+  rotateWebhookSecret,
+  listWebhookDeliveries,
+  getWebhookDelivery,
+  replayWebhookDelivery,
+} from '../../../services/partnerWebhooks';
+import { SIGNATURE_HEADER } from '../../../services/webhookDelivery';
+
+const router = Router();
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+function serializeDelivery(delivery: WebhookDelivery, includePayload = false) {
+  return {
+    id: delivery.id,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    tripId: delivery.tripId,
+    url: delivery.url,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    maxAttempts: delivery.maxAttempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt : null,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    lastDurationMs: delivery.lastDurationMs,
+    replayOf: delivery.replayOf,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+    ...(includePayload ? { payload: delivery.payload } : {}),
+    _links: {
+      self: `/api/v1/webhooks/deliveries/${delivery.id}`,
+      replay: `/api/v1/webhooks/deliveries/${delivery.id}/replay`,
+    },
+  };
+}
+
+function signingInfo(secret: string) {
+  return {
+    secret,
+    signatureHeader: SIGNATURE_HEADER,
+    scheme: 't=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>',
+  };
+}
+
+/**
+ * GET /api/v1/webhooks/secret
+ * Signing secret for this API key's webhook deliveries (created on first use)
+ */
+router.get('/secret', requirePermission('write'), async (req: Request, res: Response) => {
+  try {
+    const secret = await ensureWebhookSecret(req.apiKey!.id);
+    res.json(signingInfo(secret));
+  } catch (error) {
+    console.error('[API v1] Get webhook secret error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get webhook secret',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/secret/rotate
+ * Replace the signing secret; pending retries are signed with the new one
+ */
+router.post('/secret/rotate', requirePermission('write'), async (req: Request, res: Response) => {
+  try {
+    const secret = await rotateWebhookSecret(req.apiKey!.id);
+    res.json(signingInfo(secret));
+  } catch (error) {
+    console.error('[API v1] Rotate webhook secret error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to rotate webhook secret',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/deliveries
+ * Delivery log for this API key, newest first (?tripId=&status=&limit=)
+ */
+router.get('/deliveries', requirePermission('read'), async (req: Request, res: Response) => {
+  try {
+    const tripId = req.query.tripId !== undefined ? parseInt(String(req.query.tripId), 10) : undefined;
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+
+    if ((tripId !== undefined && isNaN(tripId)) || (limit !== undefined && (isNaN(limit) || limit < 1))) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'tripId and limit must be positive integers',
+      });
+    }
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+      });
+    }
+
+    const deliveries = await listWebhookDeliveries(req.apiKey!.id, { tripId, status, limit });
+    res.json({
+      deliveries: deliveries.map(d => serializeDelivery(d)),
+      count: deliveries.length,
+    });
+  } catch (error) {
+    console.error('[API v1] List webhook deliveries error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list webhook deliveries',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/deliveries/:id
+ * One delivery, including the payload that was sent
+ */
+router.get('/deliveries/:id', requirePermission('read'), async (req: Request, res: Response) => {
+  try {
+    const deliveryId = parseInt(req.params.id, 10);
+    if (isNaN(deliveryId)) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid delivery ID',
+      });
+    }
+
+    const delivery = await getWebhookDelivery(req.apiKey!.id, deliveryId);
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Delivery not found',
+      });
+    }
+
+    res.json(serializeDelivery(delivery, true));
+  } catch (error) {
+    console.error('[API v1] Get webhook delivery error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get webhook delivery',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/deliveries/:id/replay
+ * Send the event again as a new delivery (same event id, fresh retries)
+ */
+router.post('/deliveries/:id/replay', requirePermission('write'), async (req: Request, res: Response) => {
+  try {
+    const deliveryId = parseInt(req.params.id, 10);
+    if (isNaN(deliveryId)) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid delivery ID',
+      });
+    }
+
+    const replay = await replayWebhookDelivery(req.apiKey!.id, deliveryId);
+    if (!replay) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Delivery not found',
+      });
+    }
+
+    res.status(202).json(serializeDelivery(replay));
+  } catch (error) {
+    console.error('[API v1] Replay webhook delivery error:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to replay webhook delivery',
+    });
+  }
+});
+
+export default router;
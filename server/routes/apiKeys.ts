@@ -0,0 +1,205 @@
+/**
+ * API Keys Routes
+ * Self-service B2B API key management (Business plan)
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import type { ApiKey } from '@shared/schema';
+import { validateSession, getSessionIdFromHeaders, type UserResponse } from '../services/auth';
+import {
+  API_KEY_PERMISSIONS,
+  ApiKeyLimitError,
+  canManageApiKeys,
+  createApiKey,
+  getApiKeyUsage,
+  getOwnedApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from '../services/apiKeyService';
+
+const router = Router();
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  permissions: z.array(z.enum(API_KEY_PERMISSIONS)).min(1).optional(),
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+  test: z.boolean().optional(),
+});
+
+/**
+ * Resolve the signed-in user and check they're on a plan with API access.
+ * Sends the error response and returns null otherwise.
+ */
+async function requireApiKeyOwner(req: Request, res: Response): Promise<UserResponse | null> {
+  const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
+  const session = sessionId ? await validateSession(sessionId) : null;
+
+  if (!session) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+
+  if (!canManageApiKeys(session.user.subscriptionTier)) {
+    res.status(403).json({
+      error: 'API access requires the Business plan',
+      upgradeUrl: '/pricing',
+    });
+    return null;
+  }
+
+  return session.user;
+}
+
+function sanitizeKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    description: apiKey.description,
+    prefix: apiKey.keyPrefix,
+    permissions: apiKey.permissions,
+    tier: apiKey.tier,
+    rateLimit: apiKey.rateLimit,
+    isActive: apiKey.isActive,
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    rotatedAt: apiKey.rotatedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+function parseKeyId(req: Request, res: Response): number | null {
+  const apiKeyId = parseInt(req.params.id, 10);
+  if (isNaN(apiKeyId)) {
+    res.status(400).json({ error: 'Invalid API key ID' });
+    return null;
+  }
+  return apiKeyId;
+}
+
+/**
+ * GET /api/api-keys
+ * List the current user's API keys (prefixes only, never the secret)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = await requireApiKeyOwner(req, res);
+    if (!user) return;
+
+    const keys = await listApiKeys(user.id);
+    res.json({ keys: keys.map(sanitizeKey) });
+  } catch (err) {
+    console.error('[API Keys] List error:', err);
+    res.status(500).json({ error: 'Failed to list API keys' });
+  }
+});
+
+/**
+ * POST /api/api-keys
+ * Create a key. The full key is in the response and cannot be retrieved again.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = await requireApiKeyOwner(req, res);
+    if (!user) return;
+
+    const data = createKeySchema.parse(req.body);
+    const { apiKey, key } = await createApiKey(user.id, data);
+
+    res.status(201).json({
+      key,
+      apiKey: sanitizeKey(apiKey),
+      message: 'Store this key securely - it will not be shown again.',
+    });
+  } catch (err: any) {
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+    if (err instanceof ApiKeyLimitError) {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error('[API Keys] Create error:', err);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * POST /api/api-keys/:id/rotate
+ * Issue a new secret for an active key; the old one stops working immediately
+ */
+router.post('/:id/rotate', async (req: Request, res: Response) => {
+  try {
+    const user = await requireApiKeyOwner(req, res);
+    if (!user) return;
+    const apiKeyId = parseKeyId(req, res);
+    if (apiKeyId === null) return;
+
+    const rotated = await rotateApiKey(user.id, apiKeyId);
+    if (!rotated) {
+      return res.status(404).json({ error: 'Active API key not found' });
+    }
+
+    res.json({
+      key: rotated.key,
+      apiKey: sanitizeKey(rotated.apiKey),
+      message: 'Store this key securely - it will not be shown again.',
+    });
+  } catch (err) {
+    console.error('[API Keys] Rotate error:', err);
+    res.status(500).json({ error: 'Failed to rotate API key' });
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke a key (kept for its usage history)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = await requireApiKeyOwner(req, res);
+    if (!user) return;
+    const apiKeyId = parseKeyId(req, res);
+    if (apiKeyId === null) return;
+
+    const revoked = await revokeApiKey(user.id, apiKeyId);
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.json({ success: true, apiKey: sanitizeKey(revoked) });
+  } catch (err) {
+    console.error('[API Keys] Revoke error:', err);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+/**
+ * GET /api/api-keys/:id/usage?days=30
+ * Daily request counts per endpoint and daily quota consumption
+ */
+router.get('/:id/usage', async (req: Request, res: Response) => {
+  try {
+    const user = await requireApiKeyOwner(req, res);
+    if (!user) return;
+    const apiKeyId = parseKeyId(req, res);
+    if (apiKeyId === null) return;
+
+    const apiKey = await getOwnedApiKey(user.id, apiKeyId);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const days = parseInt(String(req.query.days ?? '30'), 10);
+    const usage = await getApiKeyUsage(apiKey, isNaN(days) ? 30 : days);
+
+    res.json({ apiKey: sanitizeKey(apiKey), usage });
+  } catch (err) {
+    console.error('[API Keys] Usage error:', err);
+    res.status(500).json({ error: 'Failed to get API key usage' });
+  }
+});
+
+export default router;
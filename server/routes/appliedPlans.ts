@@ -13,6 +13,7 @@ import express from "express";
 import { db } from "../db";
 import { tripAppliedPlans } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
+import { requireTripRole } from "../middleware/tripAccess";
 
 const router: Router = express.Router();
 
@@ -22,11 +23,8 @@ const MAX_PAYLOAD_SIZE = 50_000;
 // ---------------------------------------------------------------------------
 // POST /api/trips/:tripId/applied-plans - Store applied plan
 // ---------------------------------------------------------------------------
-router.post("/trips/:tripId/applied-plans", async (req: Request, res: Response) => {
-  const tripId = parseInt(req.params.tripId, 10);
-  if (isNaN(tripId)) {
-    return res.status(400).json({ ok: false, error: "Invalid tripId" });
-  }
+router.post("/trips/:tripId/applied-plans", requireTripRole("editor", "tripId"), async (req: Request, res: Response) => {
+  const tripId = req.tripAccess!.trip.id;
 
   const { changeId, source, planSummary } = req.body || {};
 
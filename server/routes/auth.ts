@@ -12,6 +12,7 @@ import {
   login,
   validateSession,
   invalidateSession,
+  invalidateAllUserSessions,
   getSessionIdFromHeaders,
   createEmailVerificationToken,
   verifyEmail,
@@ -20,6 +21,7 @@ import {
   getUserById,
   updateUser,
   googleAuth,
+  adoptAnonymousTrips,
   type UserResponse,
   type SessionInfo,
 } from '../services/auth';
@@ -35,6 +37,19 @@ const SESSION_COOKIE_OPTIONS = {
   path: '/',
 };
 
+/**
+ * Link the caller's anonymous trips (X-Voyage-UID) to their account.
+ * Never fails the auth request - adoption is best-effort.
+ */
+async function adoptTripsForSession(req: Request, session: SessionInfo): Promise<void> {
+  const voyageUid = req.headers['x-voyage-uid'] as string | undefined;
+  try {
+    await adoptAnonymousTrips(session.user.id, voyageUid);
+  } catch (err) {
+    console.error('[Auth] Trip adoption failed:', err);
+  }
+}
+
 /**
  * POST /api/auth/register
  * Create a new user account
@@ -61,6 +76,8 @@ router.post('/register', async (req: Request, res: Response) => {
       return res.status(500).json({ error: 'Failed to create session' });
     }
 
+    await adoptTripsForSession(req, session);
+
     // Create email verification token
     const verifyToken = await createEmailVerificationToken(user.id);
     console.log(`[Auth] Verification token for ${user.email}: ${verifyToken}`);
@@ -108,6 +125,8 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ error: result.error || 'Invalid credentials' });
     }
 
+    await adoptTripsForSession(req, result.session);
+
     // Set session cookie
     res.cookie('session', result.session.id, SESSION_COOKIE_OPTIONS);
 
@@ -147,6 +166,35 @@ router.post('/logout', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/logout-all
+ * Invalidate every session for the current user (log out all devices)
+ */
+router.post('/logout-all', async (req: Request, res: Response) => {
+  try {
+    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
+
+    if (!sessionId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const session = await validateSession(sessionId);
+
+    if (!session) {
+      res.clearCookie('session', { path: '/' });
+      return res.status(401).json({ error: 'Session expired' });
+    }
+
+    const count = await invalidateAllUserSessions(session.user.id);
+
+    res.clearCookie('session', { path: '/' });
+    res.json({ success: true, sessionsInvalidated: count });
+  } catch (err) {
+    console.error('[Auth] Logout all error:', err);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
 /**
  * GET /api/auth/me
  * Get current authenticated user
@@ -322,6 +370,8 @@ router.post('/google', async (req: Request, res: Response) => {
       return res.status(500).json({ error: 'Google auth failed' });
     }
 
+    await adoptTripsForSession(req, result.session);
+
     res.cookie('session', result.session.id, SESSION_COOKIE_OPTIONS);
 
     res.json({
@@ -0,0 +1,130 @@
+/**
+ * Calendar Routes
+ * iCalendar (.ics) export and tokenized subscription feeds for itineraries
+ *
+ * GET    /api/trips/:id/calendar.ics             - One-off .ics download
+ * POST   /api/trips/:id/calendar/subscription    - Create (or return) the feed URL
+ * DELETE /api/trips/:id/calendar/subscription    - Revoke the feed URL
+ * GET    /api/calendar/:token.ics                - Read-only subscription feed
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { randomBytes } from 'crypto';
+import type { Trip } from '@shared/schema';
+import { storage } from '../storage';
+import { requireTripRole } from '../middleware/tripAccess';
+import { getTripWithOwnership } from '../services/tripService';
+import { buildCalendarForTrip } from '../services/calendarExport';
+
+const router = Router();
+
+function getBaseUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+function getFeedUrls(req: Request, token: string): { url: string; webcalUrl: string } {
+  const url = `${getBaseUrl(req)}/api/calendar/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') };
+}
+
+function calendarFilename(trip: Trip): string {
+  const slug = trip.destination
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${slug || 'trip'}-${trip.id}.ics`;
+}
+
+function sendCalendar(res: Response, body: string, filename: string, disposition: 'attachment' | 'inline'): void {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-cache');
+  res.send(body);
+}
+
+/**
+ * GET /api/trips/:id/calendar.ics
+ * Download the itinerary as an .ics file (same access rules as GET /api/trips/:id)
+ */
+router.get('/trips/:id/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ error: 'Invalid trip ID' });
+    }
+
+    const voyageUid = req.headers['x-voyage-uid'] as string | undefined;
+    const result = await getTripWithOwnership(tripId, voyageUid);
+    if (!result.authorized || !result.trip) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+
+    const trip = result.trip;
+    sendCalendar(res, buildCalendarForTrip(trip, getBaseUrl(req)), calendarFilename(trip), 'attachment');
+  } catch (err) {
+    console.error('[Calendar] Export error:', err);
+    res.status(500).json({ error: 'Failed to export calendar' });
+  }
+});
+
+/**
+ * POST /api/trips/:id/calendar/subscription
+ * Create the subscription feed for a trip, or return the existing one
+ */
+router.post('/trips/:id/calendar/subscription', requireTripRole('owner'), async (req: Request, res: Response) => {
+  try {
+    let trip = req.tripAccess!.trip;
+
+    if (!trip.calendarToken) {
+      const updated = await storage.setTripCalendarToken(trip.id, randomBytes(24).toString('base64url'));
+      if (!updated?.calendarToken) {
+        return res.status(500).json({ error: 'Failed to create calendar subscription' });
+      }
+      trip = updated;
+      console.log(`[Calendar] Subscription feed created for trip ${trip.id}`);
+    }
+
+    res.json({ success: true, ...getFeedUrls(req, trip.calendarToken!) });
+  } catch (err) {
+    console.error('[Calendar] Subscription create error:', err);
+    res.status(500).json({ error: 'Failed to create calendar subscription' });
+  }
+});
+
+/**
+ * DELETE /api/trips/:id/calendar/subscription
+ * Revoke the subscription feed; subscribed calendars stop updating
+ */
+router.delete('/trips/:id/calendar/subscription', requireTripRole('owner'), async (req: Request, res: Response) => {
+  try {
+    await storage.setTripCalendarToken(req.tripAccess!.trip.id, null);
+    console.log(`[Calendar] Subscription feed revoked for trip ${req.tripAccess!.trip.id}`);
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[Calendar] Subscription revoke error:', err);
+    res.status(500).json({ error: 'Failed to revoke calendar subscription' });
+  }
+});
+
+/**
+ * GET /api/calendar/:token.ics
+ * Read-only subscription feed. Rendered on every request so it always
+ * reflects the latest itinerary.
+ */
+router.get('/calendar/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const trip = await storage.getTripByCalendarToken(req.params.token);
+    if (!trip) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    sendCalendar(res, buildCalendarForTrip(trip, getBaseUrl(req), true), calendarFilename(trip), 'inline');
+  } catch (err) {
+    console.error('[Calendar] Feed error:', err);
+    res.status(500).json({ error: 'Failed to load calendar' });
+  }
+});
+
+export default router;
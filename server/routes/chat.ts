@@ -5,19 +5,21 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import type { ChatAuthor } from '@shared/schema';
 import { storage } from '../storage';
+import { requireTripRole } from '../middleware/tripAccess';
 import {
   processChat,
   getChatHistory,
+  ChatHistoryCursorError,
   clearChatHistory,
-  getOrCreateSession,
-  getNearbyAttractions,
   applyPendingChanges,
   rejectPendingChanges,
   getPendingChanges,
   getCachedItinerary,
   deduplicateItinerary,
 } from '../services/agentChat';
+import { getNearbyAttractions } from '../services/agentChatTools';
 
 const router = Router();
 
@@ -26,12 +28,28 @@ const chatMessageSchema = z.object({
   message: z.string().min(1).max(2000),
 });
 
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  before: z.string().max(100).optional(),
+});
+
+/**
+ * Attribute a chat message or decision to the caller (set by requireTripRole)
+ */
+function chatAuthor(req: Request): ChatAuthor {
+  const { user, role } = req.tripAccess!;
+  if (user) {
+    return { userId: user.id, name: user.name || user.email.split('@')[0] };
+  }
+  return { userId: null, name: role === 'owner' ? 'Trip owner' : 'Guest' };
+}
+
 /**
  * POST /api/trips/:id/chat
  * Send a message to the trip assistant
  * Returns proposed changes for user confirmation (does NOT auto-apply)
  */
-router.post('/:id/chat', async (req: Request, res: Response) => {
+router.post('/:id/chat', requireTripRole('editor'), async (req: Request, res: Response) => {
   try {
     const tripId = parseInt(req.params.id);
     const { message } = chatMessageSchema.parse(req.body);
@@ -45,7 +63,7 @@ router.post('/:id/chat', async (req: Request, res: Response) => {
     console.log(`[Chat] Processing message for trip ${tripId}: "${message.substring(0, 50)}..."`);
 
     // Process chat with agentic AI (does NOT auto-apply changes)
-    const response = await processChat(tripId, message);
+    const response = await processChat(tripId, message, chatAuthor(req));
 
     // Return response with pending changes for user confirmation
     res.json({
@@ -76,7 +94,7 @@ router.post('/:id/chat', async (req: Request, res: Response) => {
  * POST /api/trips/:id/chat/confirm
  * Confirm and apply pending changes
  */
-router.post('/:id/chat/confirm', async (req: Request, res: Response) => {
+router.post('/:id/chat/confirm', requireTripRole('editor'), async (req: Request, res: Response) => {
   try {
     const tripId = parseInt(req.params.id);
     const { changeId } = req.body;
@@ -85,19 +103,19 @@ router.post('/:id/chat/confirm', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'changeId is required' });
     }
 
-    // Verify the pending change belongs to this trip
-    const pending = getPendingChanges(changeId);
-    if (!pending || pending.tripId !== tripId) {
+    // Verify the pending change belongs to this trip and hasn't been answered yet
+    const pending = await getPendingChanges(tripId, changeId);
+    if (!pending) {
       return res.status(404).json({ error: 'Pending changes not found or expired' });
     }
 
     console.log(`[Chat] Applying confirmed changes ${changeId} for trip ${tripId}`);
 
     // Apply the changes
-    const result = await applyPendingChanges(changeId);
+    const result = await applyPendingChanges(tripId, changeId, chatAuthor(req));
 
     if (!result.success) {
-      return res.status(500).json({ error: result.error });
+      return res.status(result.conflict ? 409 : 500).json({ error: result.error });
     }
 
     // Fetch fresh trip data
@@ -176,12 +194,13 @@ router.post('/:id/chat/confirm', async (req: Request, res: Response) => {
  * POST /api/trips/:id/chat/reject
  * Reject/cancel pending changes
  */
-router.post('/:id/chat/reject', async (req: Request, res: Response) => {
+router.post('/:id/chat/reject', requireTripRole('editor'), async (req: Request, res: Response) => {
   try {
+    const tripId = parseInt(req.params.id);
     const { changeId } = req.body;
 
     if (changeId) {
-      rejectPendingChanges(changeId);
+      await rejectPendingChanges(tripId, changeId, chatAuthor(req));
     }
 
     res.json({ success: true, message: 'Changes cancelled' });
@@ -193,22 +212,24 @@ router.post('/:id/chat/reject', async (req: Request, res: Response) => {
 
 /**
  * GET /api/trips/:id/chat
- * Get chat history for a trip
+ * Get a page of the trip's chat history (?limit=&before=<nextCursor>), with
+ * who wrote each message, proposal outcomes and the latest pending proposal
  */
-router.get('/:id/chat', async (req: Request, res: Response) => {
+router.get('/:id/chat', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
-
-    // Verify trip exists
-    const trip = await storage.getTrip(tripId);
-    if (!trip) {
-      return res.status(404).json({ error: 'Trip not found' });
-    }
+    const { trip } = req.tripAccess!;
+    const { limit, before } = historyQuerySchema.parse(req.query);
 
-    const messages = await getChatHistory(tripId);
+    const history = await getChatHistory(trip.id, { limit, before });
 
     res.json({
-      messages,
+      messages: history.messages,
+      hasMore: history.hasMore,
+      nextCursor: history.nextCursor,
+      pendingChanges: history.pendingChanges ? {
+        id: history.pendingChanges.id,
+        preview: history.pendingChanges.preview,
+      } : null,
       tripContext: {
         destination: trip.destination,
         dates: trip.dates,
@@ -217,21 +238,29 @@ router.get('/:id/chat', async (req: Request, res: Response) => {
         travelers: trip.groupSize,
       },
     });
-  } catch (err) {
+  } catch (err: any) {
     console.error('[Chat] Get history error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+    if (err instanceof ChatHistoryCursorError) {
+      return res.status(400).json({ error: err.message });
+    }
+
     res.status(500).json({ error: 'Failed to get chat history' });
   }
 });
 
 /**
  * DELETE /api/trips/:id/chat
- * Clear chat history for a trip
+ * Clear chat history for a trip (owner only - it's shared with collaborators)
  */
-router.delete('/:id/chat', async (req: Request, res: Response) => {
+router.delete('/:id/chat', requireTripRole('owner'), async (req: Request, res: Response) => {
   try {
     const tripId = parseInt(req.params.id);
 
-    clearChatHistory(tripId);
+    await clearChatHistory(tripId);
 
     res.json({ success: true });
   } catch (err) {
@@ -301,7 +330,7 @@ router.get('/:id/nearby', async (req: Request, res: Response) => {
  * POST /api/trips/:id/chat/quick-action
  * Execute a quick action (add activity, etc.)
  */
-router.post('/:id/chat/quick-action', async (req: Request, res: Response) => {
+router.post('/:id/chat/quick-action', requireTripRole('editor'), async (req: Request, res: Response) => {
   try {
     const tripId = parseInt(req.params.id);
     const { action, data } = req.body;
@@ -431,7 +460,7 @@ router.get('/:id/budget-breakdown', async (req: Request, res: Response) => {
  * POST /api/trips/:id/cleanup-duplicates
  * Remove duplicate activities from the trip itinerary
  */
-router.post('/:id/cleanup-duplicates', async (req: Request, res: Response) => {
+router.post('/:id/cleanup-duplicates', requireTripRole('editor'), async (req: Request, res: Response) => {
   try {
     const tripId = parseInt(req.params.id);
 
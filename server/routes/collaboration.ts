@@ -5,56 +5,15 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import { randomBytes } from 'crypto';
+import { SHARE_REDACTIONS, type TripCollaborator, type TripComment, type TripShareLink } from '@shared/schema';
 import { storage } from '../storage';
-import { validateSession, getSessionIdFromHeaders } from '../services/auth';
+import { isShareLinkActive } from '../services/shareLinks';
+import { getRequestUser, requireTripRole } from '../middleware/tripAccess';
 import { queueEmail } from '../services/email';
 
 const router = Router();
 
-// In-memory storage for collaborations
-interface TripCollaborator {
-  id: number;
-  tripId: number;
-  email: string;
-  userId?: number;
-  role: 'owner' | 'editor' | 'viewer';
-  inviteToken?: string;
-  inviteStatus: 'pending' | 'accepted' | 'declined';
-  invitedAt: Date;
-  acceptedAt?: Date;
-}
-
-interface TripComment {
-  id: number;
-  tripId: number;
-  userId?: number;
-  authorName: string;
-  authorEmail: string;
-  content: string;
-  dayNumber?: number;
-  activityId?: string;
-  createdAt: Date;
-  updatedAt?: Date;
-}
-
-interface TripVote {
-  id: number;
-  tripId: number;
-  userId?: number;
-  voterEmail: string;
-  itemType: 'activity' | 'accommodation' | 'restaurant';
-  itemId: string;
-  vote: 'up' | 'down';
-  createdAt: Date;
-}
-
-const collaborators = new Map<number, TripCollaborator>();
-const comments = new Map<number, TripComment>();
-const votes = new Map<number, TripVote>();
-let collaboratorIdCounter = 1;
-let commentIdCounter = 1;
-let voteIdCounter = 1;
-
 // Validation schemas
 const inviteSchema = z.object({
   tripId: z.number(),
@@ -66,14 +25,19 @@ const inviteSchema = z.object({
 const commentSchema = z.object({
   tripId: z.number(),
   content: z.string().min(1).max(1000),
-  dayNumber: z.number().optional(),
-  activityId: z.string().optional(),
+  dayNumber: z.number().int().optional(),
+  activityIndex: z.number().int().min(0).optional(),
+});
+
+const shareSchema = z.object({
+  redact: z.array(z.enum(SHARE_REDACTIONS)).default([]),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(30), // null = never
 });
 
 const voteSchema = z.object({
   tripId: z.number(),
-  itemType: z.enum(['activity', 'accommodation', 'restaurant']),
-  itemId: z.string(),
+  dayNumber: z.number().int(),
+  activityIndex: z.number().int().min(0),
   vote: z.enum(['up', 'down']),
 });
 
@@ -81,21 +45,14 @@ const voteSchema = z.object({
  * POST /api/trips/:id/collaborators
  * Invite a collaborator to a trip
  */
-router.post('/:id/collaborators', async (req: Request, res: Response) => {
+router.post('/:id/collaborators', requireTripRole('owner'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const { trip } = req.tripAccess!;
+    const tripId = trip.id;
     const data = inviteSchema.parse({ ...req.body, tripId });
 
-    // Verify trip exists
-    const trip = await storage.getTrip(tripId);
-    if (!trip) {
-      return res.status(404).json({ error: 'Trip not found' });
-    }
-
     // Check for existing invitation
-    const existing = Array.from(collaborators.values()).find(
-      c => c.tripId === tripId && c.email === data.email
-    );
+    const existing = await storage.getCollaboratorByEmail(tripId, data.email);
 
     if (existing) {
       return res.status(400).json({ error: 'User already invited' });
@@ -105,17 +62,12 @@ router.post('/:id/collaborators', async (req: Request, res: Response) => {
     const inviteToken = generateInviteToken();
 
     // Create collaborator record
-    const collaborator: TripCollaborator = {
-      id: collaboratorIdCounter++,
+    const collaborator = await storage.createCollaborator({
       tripId,
       email: data.email,
       role: data.role,
       inviteToken,
-      inviteStatus: 'pending',
-      invitedAt: new Date(),
-    };
-
-    collaborators.set(collaborator.id, collaborator);
+    });
 
     // Send invitation email
     const inviteUrl = `${process.env.APP_URL || 'http://localhost:3000'}/trips/${tripId}/join?token=${inviteToken}`;
@@ -158,15 +110,14 @@ router.post('/:id/collaborators', async (req: Request, res: Response) => {
  * GET /api/trips/:id/collaborators
  * Get all collaborators for a trip
  */
-router.get('/:id/collaborators', async (req: Request, res: Response) => {
+router.get('/:id/collaborators', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const { trip, role } = req.tripAccess!;
 
-    const tripCollaborators = Array.from(collaborators.values())
-      .filter(c => c.tripId === tripId)
+    const tripCollaborators = (await storage.listCollaborators(trip.id))
       .map(sanitizeCollaborator);
 
-    res.json({ collaborators: tripCollaborators });
+    res.json({ collaborators: tripCollaborators, role });
   } catch (err) {
     console.error('[Collaboration] Get collaborators error:', err);
     res.status(500).json({ error: 'Failed to get collaborators' });
@@ -186,33 +137,31 @@ router.post('/:id/join', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invite token required' });
     }
 
-    // Find invitation by token
-    const collaborator = Array.from(collaborators.values()).find(
-      c => c.tripId === tripId && c.inviteToken === token
-    );
+    // Roles are resolved through the user account, so joining requires sign-in
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to join this trip' });
+    }
+
+    // Find invitation by token (tokens are cleared once accepted)
+    const collaborator = await storage.getCollaboratorByInviteToken(tripId, token);
 
     if (!collaborator) {
       return res.status(404).json({ error: 'Invalid or expired invitation' });
     }
 
-    if (collaborator.inviteStatus === 'accepted') {
+    if (collaborator.acceptedAt) {
       return res.status(400).json({ error: 'Invitation already accepted' });
     }
 
-    // Accept invitation
-    collaborator.inviteStatus = 'accepted';
-    collaborator.acceptedAt = new Date();
-    collaborator.inviteToken = undefined; // Clear token after use
-
-    // Link to user account if authenticated
-    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
-    if (sessionId) {
-      const session = await validateSession(sessionId);
-      if (session) {
-        collaborator.userId = session.user.id;
-      }
+    // The link alone isn't enough: it must be the invited account that accepts
+    if (collaborator.email?.toLowerCase() !== user.email.toLowerCase()) {
+      return res.status(403).json({ error: 'This invitation was sent to a different email address' });
     }
 
+    // Accept invitation and link to user account
+    await storage.acceptCollaborator(collaborator.id, user.id);
+
     console.log(`[Collaboration] ${collaborator.email} joined trip ${tripId}`);
 
     res.json({
@@ -230,18 +179,18 @@ router.post('/:id/join', async (req: Request, res: Response) => {
  * DELETE /api/trips/:id/collaborators/:collaboratorId
  * Remove a collaborator
  */
-router.delete('/:id/collaborators/:collaboratorId', async (req: Request, res: Response) => {
+router.delete('/:id/collaborators/:collaboratorId', requireTripRole('owner'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const tripId = req.tripAccess!.trip.id;
     const collaboratorId = parseInt(req.params.collaboratorId);
 
-    const collaborator = collaborators.get(collaboratorId);
+    const collaborator = await storage.getCollaborator(collaboratorId);
 
     if (!collaborator || collaborator.tripId !== tripId) {
       return res.status(404).json({ error: 'Collaborator not found' });
     }
 
-    collaborators.delete(collaboratorId);
+    await storage.deleteCollaborator(collaboratorId);
 
     console.log(`[Collaboration] Removed collaborator ${collaboratorId} from trip ${tripId}`);
 
@@ -256,38 +205,26 @@ router.delete('/:id/collaborators/:collaboratorId', async (req: Request, res: Re
  * POST /api/trips/:id/comments
  * Add a comment to a trip
  */
-router.post('/:id/comments', async (req: Request, res: Response) => {
+router.post('/:id/comments', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const { trip, user, voyageUid } = req.tripAccess!;
+    const tripId = trip.id;
     const data = commentSchema.parse({ ...req.body, tripId });
 
-    // Get author info
-    let authorName = 'Anonymous';
-    let authorEmail = 'anonymous@example.com';
+    // Author is the signed-in user, or the anonymous owner
+    const authorName = user ? (user.name || user.email.split('@')[0]) : 'Trip owner';
 
-    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
-    if (sessionId) {
-      const session = await validateSession(sessionId);
-      if (session) {
-        authorName = session.user.name || session.user.email.split('@')[0];
-        authorEmail = session.user.email;
-      }
-    }
-
-    const comment: TripComment = {
-      id: commentIdCounter++,
+    const comment = await storage.createComment({
       tripId,
+      userId: user?.id ?? null,
+      voyageUid: user ? null : voyageUid,
       authorName,
-      authorEmail,
       content: data.content,
-      dayNumber: data.dayNumber,
-      activityId: data.activityId,
-      createdAt: new Date(),
-    };
-
-    comments.set(comment.id, comment);
+      dayIndex: data.dayNumber ?? null,
+      activityIndex: data.activityIndex ?? null,
+    });
 
-    console.log(`[Collaboration] New comment on trip ${tripId} by ${authorEmail}`);
+    console.log(`[Collaboration] New comment on trip ${tripId} by ${user ? `user ${user.id}` : 'anonymous owner'}`);
 
     res.json({
       success: true,
@@ -308,20 +245,13 @@ router.post('/:id/comments', async (req: Request, res: Response) => {
  * GET /api/trips/:id/comments
  * Get all comments for a trip
  */
-router.get('/:id/comments', async (req: Request, res: Response) => {
+router.get('/:id/comments', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const tripId = req.tripAccess!.trip.id;
     const dayNumber = req.query.day ? parseInt(req.query.day as string) : undefined;
 
-    let tripComments = Array.from(comments.values())
-      .filter(c => c.tripId === tripId);
-
-    if (dayNumber !== undefined) {
-      tripComments = tripComments.filter(c => c.dayNumber === dayNumber);
-    }
-
-    // Sort by newest first
-    tripComments.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    // Newest first
+    const tripComments = await storage.listComments(tripId, dayNumber);
 
     res.json({
       comments: tripComments.map(sanitizeComment),
@@ -336,27 +266,26 @@ router.get('/:id/comments', async (req: Request, res: Response) => {
  * DELETE /api/trips/:id/comments/:commentId
  * Delete a comment
  */
-router.delete('/:id/comments/:commentId', async (req: Request, res: Response) => {
+router.delete('/:id/comments/:commentId', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const { trip, role, user, voyageUid } = req.tripAccess!;
     const commentId = parseInt(req.params.commentId);
 
-    const comment = comments.get(commentId);
+    const comment = await storage.getComment(commentId);
 
-    if (!comment || comment.tripId !== tripId) {
+    if (!comment || comment.tripId !== trip.id) {
       return res.status(404).json({ error: 'Comment not found' });
     }
 
-    // Verify ownership
-    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
-    if (sessionId) {
-      const session = await validateSession(sessionId);
-      if (session && comment.authorEmail !== session.user.email) {
-        return res.status(403).json({ error: 'Not authorized to delete this comment' });
-      }
+    // Authors can delete their own comments; owners can moderate any comment
+    const isAuthor = user
+      ? comment.userId === user.id
+      : !!voyageUid && comment.voyageUid === voyageUid;
+    if (!isAuthor && role !== 'owner') {
+      return res.status(403).json({ error: 'Not authorized to delete this comment' });
     }
 
-    comments.delete(commentId);
+    await storage.deleteComment(commentId);
 
     res.json({ success: true });
   } catch (err) {
@@ -369,55 +298,26 @@ router.delete('/:id/comments/:commentId', async (req: Request, res: Response) =>
  * POST /api/trips/:id/votes
  * Vote on an activity/item
  */
-router.post('/:id/votes', async (req: Request, res: Response) => {
+router.post('/:id/votes', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
+    const { trip, user, voyageUid } = req.tripAccess!;
+    const tripId = trip.id;
     const data = voteSchema.parse({ ...req.body, tripId });
 
-    // Get voter info
-    let voterEmail = 'anonymous@example.com';
-
-    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
-    if (sessionId) {
-      const session = await validateSession(sessionId);
-      if (session) {
-        voterEmail = session.user.email;
-      }
-    }
-
-    // Check for existing vote
-    const existing = Array.from(votes.values()).find(
-      v => v.tripId === tripId &&
-           v.itemId === data.itemId &&
-           v.voterEmail === voterEmail
-    );
-
-    if (existing) {
-      // Update existing vote
-      existing.vote = data.vote;
-      return res.json({
-        success: true,
-        vote: existing,
-        updated: true,
-      });
-    }
-
-    // Create new vote
-    const vote: TripVote = {
-      id: voteIdCounter++,
+    // One vote per voter per activity - re-voting updates the existing row
+    const { vote, updated } = await storage.upsertVote({
       tripId,
-      voterEmail,
-      itemType: data.itemType,
-      itemId: data.itemId,
+      userId: user?.id ?? null,
+      voyageUid: user ? null : voyageUid,
+      dayIndex: data.dayNumber,
+      activityIndex: data.activityIndex,
       vote: data.vote,
-      createdAt: new Date(),
-    };
-
-    votes.set(vote.id, vote);
+    });
 
     res.json({
       success: true,
       vote,
+      ...(updated ? { updated: true } : {}),
     });
   } catch (err: any) {
     console.error('[Collaboration] Vote error:', err);
@@ -434,21 +334,21 @@ router.post('/:id/votes', async (req: Request, res: Response) => {
  * GET /api/trips/:id/votes
  * Get vote counts for a trip
  */
-router.get('/:id/votes', async (req: Request, res: Response) => {
+router.get('/:id/votes', requireTripRole('viewer'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
-
-    const tripVotes = Array.from(votes.values())
-      .filter(v => v.tripId === tripId);
+    const tripVotes = await storage.listVotes(req.tripAccess!.trip.id);
 
-    // Aggregate votes by item
+    // Aggregate votes by activity, keyed "day-activityIndex"
     const voteCounts: Record<string, { up: number; down: number }> = {};
 
     for (const vote of tripVotes) {
-      if (!voteCounts[vote.itemId]) {
-        voteCounts[vote.itemId] = { up: 0, down: 0 };
+      const key = `${vote.dayIndex}-${vote.activityIndex}`;
+      if (!voteCounts[key]) {
+        voteCounts[key] = { up: 0, down: 0 };
+      }
+      if (vote.vote === 'up' || vote.vote === 'down') {
+        voteCounts[key][vote.vote]++;
       }
-      voteCounts[vote.itemId][vote.vote]++;
     }
 
     res.json({
@@ -463,37 +363,76 @@ router.get('/:id/votes', async (req: Request, res: Response) => {
 
 /**
  * POST /api/trips/:id/share
- * Generate a shareable link
+ * Create a read-only share link, optionally hiding some fields and expiring
  */
-router.post('/:id/share', async (req: Request, res: Response) => {
+router.post('/:id/share', requireTripRole('owner'), async (req: Request, res: Response) => {
   try {
-    const tripId = parseInt(req.params.id);
-    const { role = 'viewer' } = req.body;
+    const tripId = req.tripAccess!.trip.id;
+    const data = shareSchema.parse(req.body ?? {});
 
-    // Verify trip exists
-    const trip = await storage.getTrip(tripId);
-    if (!trip) {
-      return res.status(404).json({ error: 'Trip not found' });
-    }
+    const link = await storage.createShareLink({
+      tripId,
+      token: randomBytes(24).toString('base64url'),
+      redact: Array.from(new Set(data.redact)),
+      expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    console.log(`[Collaboration] Share link ${link.id} created for trip ${tripId} (hides: ${link.redact.join(', ') || 'nothing'})`);
 
-    // Generate share token
-    const shareToken = generateShareToken();
+    res.json({
+      success: true,
+      shareUrl: getShareUrl(req, link.token),
+      link: sanitizeShareLink(link),
+    });
+  } catch (err: any) {
+    console.error('[Collaboration] Share error:', err);
 
-    // Store share link (in production, save to database)
-    // For now, we'll encode the info in the URL
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
 
-    const shareUrl = `${process.env.APP_URL || 'http://localhost:3000'}/trips/${tripId}/view?share=${shareToken}&role=${role}`;
+    res.status(500).json({ error: 'Failed to generate share link' });
+  }
+});
 
-    console.log(`[Collaboration] Generated share link for trip ${tripId}`);
+/**
+ * GET /api/trips/:id/share-links
+ * Share links for a trip with their view counts, including revoked ones
+ */
+router.get('/:id/share-links', requireTripRole('owner'), async (req: Request, res: Response) => {
+  try {
+    const links = await storage.listShareLinks(req.tripAccess!.trip.id);
 
     res.json({
-      success: true,
-      shareUrl,
-      expiresIn: '7 days',
+      links: links.map(link => ({ ...sanitizeShareLink(link), shareUrl: getShareUrl(req, link.token) })),
     });
   } catch (err) {
-    console.error('[Collaboration] Share error:', err);
-    res.status(500).json({ error: 'Failed to generate share link' });
+    console.error('[Collaboration] Get share links error:', err);
+    res.status(500).json({ error: 'Failed to get share links' });
+  }
+});
+
+/**
+ * DELETE /api/trips/:id/share-links/:linkId
+ * Revoke a share link; it stops working immediately
+ */
+router.delete('/:id/share-links/:linkId', requireTripRole('owner'), async (req: Request, res: Response) => {
+  try {
+    const tripId = req.tripAccess!.trip.id;
+    const linkId = parseInt(req.params.linkId);
+
+    const links = await storage.listShareLinks(tripId);
+    if (!links.some(link => link.id === linkId)) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+
+    await storage.revokeShareLink(linkId);
+    console.log(`[Collaboration] Share link ${linkId} revoked for trip ${tripId}`);
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[Collaboration] Revoke share link error:', err);
+    res.status(500).json({ error: 'Failed to revoke share link' });
   }
 });
 
@@ -508,23 +447,38 @@ function generateInviteToken(): string {
   return token;
 }
 
-function generateShareToken(): string {
-  const chars = 'abcdefghijkmnopqrstuvwxyz23456789';
-  let token = '';
-  for (let i = 0; i < 12; i++) {
-    token += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return token;
+function getShareUrl(req: Request, token: string): string {
+  return `${process.env.APP_URL || `${req.protocol}://${req.get('host')}`}/share/${token}`;
 }
 
-function sanitizeCollaborator(c: TripCollaborator): Omit<TripCollaborator, 'inviteToken'> {
+function sanitizeCollaborator(c: TripCollaborator) {
   const { inviteToken, ...rest } = c;
-  return rest;
+  return {
+    ...rest,
+    inviteStatus: c.acceptedAt ? 'accepted' as const : 'pending' as const,
+  };
+}
+
+function sanitizeShareLink(link: TripShareLink) {
+  const { token, ...rest } = link;
+  return {
+    ...rest,
+    status: link.revokedAt ? 'revoked' as const : isShareLinkActive(link) ? 'active' as const : 'expired' as const,
+  };
 }
 
-function sanitizeComment(c: TripComment): Omit<TripComment, 'authorEmail'> & { authorEmail?: string } {
-  // Only include email for the comment author when authenticated
-  return c;
+function sanitizeComment(c: TripComment) {
+  // voyageUid identifies an anonymous author - never expose it
+  return {
+    id: c.id,
+    tripId: c.tripId,
+    userId: c.userId,
+    authorName: c.authorName || 'Anonymous',
+    content: c.content,
+    dayNumber: c.dayIndex ?? undefined,
+    activityIndex: c.activityIndex ?? undefined,
+    createdAt: c.createdAt,
+  };
 }
 
 export default router;
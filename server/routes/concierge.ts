@@ -5,17 +5,33 @@
  * - POST /api/concierge/webhook - Receive incoming WhatsApp messages
  * - POST /api/concierge/status - Receive message status callbacks
  * - GET /api/concierge/status - Check service availability
+ * - GET/PUT/DELETE /api/concierge/notifications - Proactive notification opt-in
+ *   (the number is verified by replying to the webhook with a one-time code)
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { NOTIFICATION_KINDS, type NotificationPreferences } from '@shared/schema';
 import { getAIClient, isAIConfigured } from '../services/aiClientFactory';
 import {
   handleIncomingMessage,
   isConciergeConfigured,
+  isLocalTransport,
+  getLocalOutbox,
+  verifyTwilioWebhook,
   type WhatsAppMessage,
   type ConciergeHandlerDeps,
 } from '../services/conciergeService';
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  deleteNotificationPreferences,
+  confirmWhatsAppNumber,
+  runNotificationChecks,
+} from '../services/notificationScheduler';
+import { isValidTimezone } from '../services/notificationPlanner';
 import { lookupVisa } from '../services/passportIndexService';
+import { getRequestUser } from '../middleware/tripAccess';
 
 const router = Router();
 
@@ -39,21 +55,121 @@ router.get('/status', (req: Request, res: Response) => {
   res.json({
     available: configured && aiConfigured,
     whatsapp: configured,
+    transport: isLocalTransport() ? 'local' : 'twilio',
     ai: aiConfigured,
     features: configured ? [
       'Trip status queries',
       'Visa information',
       'Cost estimates',
       'Change requests (routed to web app)',
+      'Proactive notifications',
     ] : [],
     comingSoon: [
-      'Proactive notifications',
       'Rich media responses',
       'Multi-language support',
     ],
   });
 });
 
+// ============================================================================
+// PROACTIVE NOTIFICATIONS - OPT-IN
+// ============================================================================
+
+const hourSchema = z.number().int().min(0).max(23);
+
+const preferencesSchema = z.object({
+  whatsappNumber: z.string().trim().regex(/^\+[1-9]\d{6,14}$/, 'WhatsApp number must be in international format, e.g. +14155550123'),
+  optedIn: z.boolean(),
+  kinds: z.array(z.enum(NOTIFICATION_KINDS)).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown time zone').optional(),
+  quietHoursStart: hourSchema.optional(),
+  quietHoursEnd: hourSchema.optional(),
+});
+
+/**
+ * Preferences as the user sees them: verification state without the code
+ */
+function serializePreferences(prefs: NotificationPreferences | null) {
+  if (!prefs) return null;
+  const { verificationCodeHash, verificationExpiresAt, ...rest } = prefs;
+  return {
+    ...rest,
+    verified: prefs.verifiedAt !== null,
+    verificationPending: verificationCodeHash !== null && verificationExpiresAt !== null && verificationExpiresAt > new Date(),
+  };
+}
+
+/**
+ * GET /api/concierge/notifications
+ * The signed-in user's notification preferences (null until they opt in)
+ */
+router.get('/notifications', async (req: Request, res: Response) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to manage notifications' });
+    }
+
+    const preferences = await getNotificationPreferences(user.id);
+    res.json({ preferences: serializePreferences(preferences), kinds: NOTIFICATION_KINDS });
+  } catch (err) {
+    console.error('[Concierge] Get notification preferences error:', err);
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+/**
+ * PUT /api/concierge/notifications
+ * Opt in or out, and choose which messages to get and when to stay quiet.
+ * Opting in with a new number texts it a code and stays off until the
+ * number replies with it.
+ */
+router.put('/notifications', async (req: Request, res: Response) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to manage notifications' });
+    }
+
+    const input = preferencesSchema.parse(req.body);
+    const { preferences, codeSent } = await saveNotificationPreferences(user.id, input);
+
+    if (codeSent === false) {
+      return res.status(502).json({ error: 'Could not send a verification code to that WhatsApp number' });
+    }
+
+    const state = preferences.optedIn ? 'opted in to' : input.optedIn ? 'is verifying a number for' : 'paused';
+    console.log(`[Concierge] User #${user.id} ${state} notifications`);
+    res.json({ success: true, preferences: serializePreferences(preferences) });
+  } catch (err: any) {
+    console.error('[Concierge] Save notification preferences error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+    res.status(500).json({ error: 'Failed to save notification preferences' });
+  }
+});
+
+/**
+ * DELETE /api/concierge/notifications
+ * Opt out and forget the WhatsApp number
+ */
+router.delete('/notifications', async (req: Request, res: Response) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to manage notifications' });
+    }
+
+    await deleteNotificationPreferences(user.id);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[Concierge] Delete notification preferences error:', err);
+    res.status(500).json({ error: 'Failed to delete notification preferences' });
+  }
+});
+
 // ============================================================================
 // WEBHOOK - INCOMING MESSAGES
 // ============================================================================
@@ -67,6 +183,8 @@ router.get('/status', (req: Request, res: Response) => {
  * - Body: message text
  * - MessageSid: unique message ID
  * - AccountSid: your Twilio account ID
+ *
+ * Requests must carry a valid X-Twilio-Signature (except with CONCIERGE_TRANSPORT=local).
  */
 router.post('/webhook', async (req: Request, res: Response) => {
   try {
@@ -86,15 +204,31 @@ router.post('/webhook', async (req: Request, res: Response) => {
       return res.status(200).send('OK');
     }
 
-    // Validate AccountSid matches configured account (security)
-    const expectedAccountSid = process.env.TWILIO_ACCOUNT_SID;
-    if (expectedAccountSid && message.AccountSid !== expectedAccountSid) {
-      console.warn('[Concierge] AccountSid mismatch - potential spoofed request');
-      return res.status(200).send('OK');
+    // Only Twilio can sign with our auth token - anything else is forged
+    if (!verifyTwilioWebhook(req.get('X-Twilio-Signature'), webhookUrl(req), req.body)) {
+      console.warn('[Concierge] Invalid X-Twilio-Signature - rejecting webhook');
+      return res.status(403).send('Forbidden');
     }
 
     console.log(`[Concierge] Received message from ${message.From}: ${message.Body.substring(0, 50)}...`);
 
+    // A reply with the one-time code from PUT /notifications verifies the number
+    const code = message.Body.trim().match(/^\d{6}$/)?.[0];
+    if (code) {
+      const confirmed = await confirmWhatsAppNumber(message.From.replace(/^whatsapp:/, ''), code);
+      if (confirmed?.outcome === 'verified') {
+        console.log(`[Concierge] User #${confirmed.preferences.userId} verified their number and opted in to notifications`);
+        return sendTwiml(res, 'Number verified - trip notifications are on. You can change or pause them in the app any time.');
+      }
+      if (confirmed?.outcome === 'locked') {
+        console.warn(`[Concierge] Too many wrong codes for user #${confirmed.preferences.userId} - code dropped`);
+        return sendTwiml(res, 'Too many wrong codes. Turn notifications on again in the app to get a new one.');
+      }
+      if (confirmed?.outcome === 'wrong_code') {
+        return sendTwiml(res, "That code didn't match. Reply with the latest code we sent you.");
+      }
+    }
+
     // Set up handler dependencies
     // Note: In production, these would connect to actual storage/services
     const { openai, model } = getAI();
@@ -136,15 +270,7 @@ router.post('/webhook', async (req: Request, res: Response) => {
     // Process message and get response
     const response = await handleIncomingMessage(message, deps);
 
-    // Respond with TwiML
-    // Twilio expects a TwiML response to send the reply
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Message>${escapeXml(response.text)}</Message>
-</Response>`;
-
-    res.set('Content-Type', 'text/xml');
-    res.status(200).send(twiml);
+    sendTwiml(res, response.text);
 
   } catch (error) {
     console.error('[Concierge] Webhook error:', error);
@@ -191,6 +317,29 @@ router.post('/status-callback', (req: Request, res: Response) => {
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * The URL Twilio called, which its signature covers. TWILIO_WEBHOOK_URL
+ * overrides it when a proxy rewrites the host or path.
+ */
+function webhookUrl(req: Request): string {
+  if (process.env.TWILIO_WEBHOOK_URL) return process.env.TWILIO_WEBHOOK_URL;
+  const protocol = req.get('X-Forwarded-Proto')?.split(',')[0].trim() || req.protocol;
+  return `${protocol}://${req.get('host')}${req.originalUrl}`;
+}
+
+/**
+ * Reply to an incoming message with TwiML, which Twilio sends back as WhatsApp
+ */
+function sendTwiml(res: Response, text: string): void {
+  const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>${escapeXml(text)}</Message>
+</Response>`;
+
+  res.set('Content-Type', 'text/xml');
+  res.status(200).send(twiml);
+}
+
 /**
  * Escape XML special characters for TwiML
  */
@@ -245,6 +394,52 @@ router.post('/send', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// NOTIFICATION RUN & LOCAL OUTBOX (For Testing)
+// ============================================================================
+
+/**
+ * POST /api/concierge/notifications/run
+ * Run the notification checks now, optionally as of another time (development only)
+ *
+ * Body:
+ * - at: ISO timestamp to run as (defaults to now)
+ */
+router.post('/notifications/run', async (req: Request, res: Response) => {
+  if (process.env.NODE_ENV === 'production') {
+    return res.status(403).json({ error: 'Manual runs only available in development' });
+  }
+
+  const at = req.body?.at ? new Date(req.body.at) : new Date();
+  if (isNaN(at.getTime())) {
+    return res.status(400).json({ error: 'at must be an ISO timestamp' });
+  }
+
+  try {
+    const summary = await runNotificationChecks(at);
+    res.json({ at: at.toISOString(), summary });
+  } catch (error) {
+    console.error('[Concierge] Notification run error:', error);
+    res.status(500).json({ error: 'Notification run failed' });
+  }
+});
+
+/**
+ * GET /api/concierge/outbox
+ * Messages captured by the local transport (CONCIERGE_TRANSPORT=local)
+ *
+ * Query:
+ * - to: only messages to this number
+ */
+router.get('/outbox', (req: Request, res: Response) => {
+  if (!isLocalTransport()) {
+    return res.status(404).json({ error: 'Outbox only available with the local transport' });
+  }
+
+  const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+  res.json({ messages: getLocalOutbox(to) });
+});
+
 // ============================================================================
 // SIMULATION ENDPOINT (For Testing)
 // ============================================================================
@@ -0,0 +1,126 @@
+/**
+ * Expense Routes
+ * Log what the trip actually costs and compare it with the plan
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { EXPENSE_CATEGORIES } from '@shared/schema';
+import { storage } from '../storage';
+import { requireTripRole } from '../middleware/tripAccess';
+import { getExchangeRates } from '../services/exchangeRates';
+import { convertExpense, reconcileExpenses, ExpenseError } from '../services/expenseService';
+
+const router = Router();
+
+// Validation schema
+const expenseSchema = z.object({
+  amount: z.number().positive().max(10_000_000),
+  currency: z.string().trim().length(3).transform(c => c.toUpperCase()).optional(),
+  category: z.enum(EXPENSE_CATEGORIES),
+  dayNumber: z.number().int().min(1).nullish(),
+  activityIndex: z.number().int().min(0).nullish(),
+  payer: z.string().trim().max(80).nullish(),
+  note: z.string().trim().max(500).nullish(),
+});
+
+/**
+ * GET /api/trips/:id/expenses
+ * All logged expenses, by day
+ */
+router.get('/:id/expenses', requireTripRole('viewer'), async (req: Request, res: Response) => {
+  try {
+    const expenses = await storage.listExpenses(req.tripAccess!.trip.id);
+    res.json({ expenses });
+  } catch (err) {
+    console.error('[Expenses] List error:', err);
+    res.status(500).json({ error: 'Failed to get expenses' });
+  }
+});
+
+/**
+ * POST /api/trips/:id/expenses
+ * Log an expense; it's converted to the trip's budget currency at today's rate
+ */
+router.post('/:id/expenses', requireTripRole('editor'), async (req: Request, res: Response) => {
+  try {
+    const { trip, user } = req.tripAccess!;
+    const data = expenseSchema.parse(req.body);
+    if (data.activityIndex != null && data.dayNumber == null) {
+      return res.status(400).json({ error: 'An activity link needs a day' });
+    }
+
+    const tripCurrency = trip.currency || 'USD';
+    const currency = data.currency ?? tripCurrency;
+    const { tripAmount, exchangeRate } = convertExpense(data.amount, currency, tripCurrency, await getExchangeRates());
+
+    const expense = await storage.createExpense({
+      tripId: trip.id,
+      userId: user?.id ?? null,
+      amount: data.amount,
+      currency,
+      tripAmount,
+      exchangeRate,
+      category: data.category,
+      dayNumber: data.dayNumber ?? null,
+      activityIndex: data.activityIndex ?? null,
+      payer: data.payer || null,
+      note: data.note || null,
+    });
+
+    console.log(`[Expenses] Logged ${data.amount} ${currency} (${data.category}) on trip ${trip.id}`);
+
+    res.json({ success: true, expense });
+  } catch (err: any) {
+    console.error('[Expenses] Create error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+    if (err instanceof ExpenseError) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    res.status(500).json({ error: 'Failed to log expense' });
+  }
+});
+
+/**
+ * DELETE /api/trips/:id/expenses/:expenseId
+ * Remove a logged expense
+ */
+router.delete('/:id/expenses/:expenseId', requireTripRole('editor'), async (req: Request, res: Response) => {
+  try {
+    const { trip } = req.tripAccess!;
+    const expense = await storage.getExpense(parseInt(req.params.expenseId));
+
+    if (!expense || expense.tripId !== trip.id) {
+      return res.status(404).json({ error: 'Expense not found' });
+    }
+
+    await storage.deleteExpense(expense.id);
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[Expenses] Delete error:', err);
+    res.status(500).json({ error: 'Failed to delete expense' });
+  }
+});
+
+/**
+ * GET /api/trips/:id/expenses/summary
+ * Budget vs actual per day and category, with a forecast for the rest of the trip
+ */
+router.get('/:id/expenses/summary', requireTripRole('viewer'), async (req: Request, res: Response) => {
+  try {
+    const { trip } = req.tripAccess!;
+    const expenses = await storage.listExpenses(trip.id);
+
+    res.json(reconcileExpenses(trip, expenses));
+  } catch (err) {
+    console.error('[Expenses] Summary error:', err);
+    res.status(500).json({ error: 'Failed to reconcile expenses' });
+  }
+});
+
+export default router;
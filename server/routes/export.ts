@@ -0,0 +1,44 @@
+/**
+ * Trip Export Routes
+ * Server-rendered PDF of the trip report (see services/tripPdf.ts)
+ *
+ * GET /api/trips/:id/export.pdf - Download the trip report as a PDF
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { getTripWithOwnership } from '../services/tripService';
+import { renderTripPdfForTrip } from '../services/tripPdf';
+
+const router = Router();
+
+/**
+ * GET /api/trips/:id/export.pdf
+ * Render the trip report (same access rules as GET /api/trips/:id)
+ */
+router.get('/trips/:id/export.pdf', async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ error: 'Invalid trip ID' });
+    }
+
+    const voyageUid = req.headers['x-voyage-uid'] as string | undefined;
+    const result = await getTripWithOwnership(tripId, voyageUid);
+    if (!result.authorized || !result.trip) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+
+    const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+    const pdf = await renderTripPdfForTrip(result.trip, baseUrl);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${tripId}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (err) {
+    console.error('[Export] PDF render error:', err);
+    res.status(500).json({ error: 'Failed to render PDF' });
+  }
+});
+
+export default router;
@@ -5,6 +5,7 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import type { SavedPlace } from '@shared/schema';
 import { getAIClient, isAIConfigured } from '../services/aiClientFactory';
 import {
   importFromUrl,
@@ -13,6 +14,8 @@ import {
   validateUrl,
   type SocialImportResult,
 } from '../services/socialImportService';
+import { saveImportedPlaces } from '../services/savedPlacesService';
+import { getRequestOwner } from '../middleware/tripAccess';
 
 const router = Router();
 
@@ -117,7 +120,11 @@ router.post('/url', async (req: Request, res: Response) => {
       return res.status(422).json(result);
     }
 
-    res.json(result);
+    // Imported places land in the caller's saved places library
+    const owner = await getRequestOwner(req);
+    const savedPlaces = owner ? await saveImportedPlaces(result, owner) : [];
+
+    res.json({ ...result, savedPlaces });
   } catch (error) {
     console.error('[Import] Error:', error);
     res.status(500).json({
@@ -161,11 +168,20 @@ router.post('/batch', async (req: Request, res: Response) => {
     const successful = results.filter(r => r.success);
     const failed = results.filter(r => !r.success);
 
+    const owner = await getRequestOwner(req);
+    const savedPlaces: SavedPlace[] = [];
+    if (owner) {
+      for (const result of successful) {
+        savedPlaces.push(...await saveImportedPlaces(result, owner));
+      }
+    }
+
     res.json({
       total: urls.length,
       successful: successful.length,
       failed: failed.length,
       results,
+      savedPlaces,
     });
   } catch (error) {
     console.error('[Import] Batch error:', error);
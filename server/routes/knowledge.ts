@@ -11,16 +11,20 @@
  */
 
 import { Router } from "express";
-import { eq, and, or, inArray, sql, desc } from "drizzle-orm";
+import { eq, and, or, sql, desc } from "drizzle-orm";
 import { cosineDistance, gt, lt } from "drizzle-orm";
 import { db } from "../db";
 import {
   knowledgeDocuments,
+  knowledgeDocumentVersions,
   knowledgeSources,
   EMBEDDING_DIM,
   validateEmbeddingDimension,
   computeVisaConfidence,
-  type KnowledgeSearchResult,
+  KNOWLEDGE_SOURCE_TYPES,
+  KNOWLEDGE_SEARCH_MODES,
+  KNOWLEDGE_RERANKERS,
+  type KnowledgeSourceType,
   type KnowledgeCitation,
   type KnowledgeQueryParams,
   type KnowledgeQueryResponse,
@@ -30,6 +34,9 @@ import {
   type VisaCitation,
 } from "../../shared/knowledgeSchema";
 import { generateEmbedding, getEmbeddingServiceStatus } from "../services/embeddings";
+import { ingestKnowledgeDocument } from "../services/knowledgeIngest";
+import { isKnowledgeSourceDue, refreshKnowledgeSource } from "../services/knowledgeRefresh";
+import { searchKnowledge } from "../services/knowledgeSearch";
 import {
   knowledgeSearchRateLimiter,
   visaLookupRateLimiter,
@@ -45,89 +52,40 @@ export const knowledgeRouter = Router();
 /**
  * POST /api/knowledge/search
  *
- * Semantic search over the knowledge base.
- * Returns relevant documents with similarity scores and citations.
+ * Hybrid search over the knowledge base: vector similarity and full-text
+ * ranking fused with reciprocal rank fusion, optionally reranked.
+ * Filters: sourceTypes, fromCountry/toCountry, verifiedWithinDays.
+ * Returns relevant documents with scores and citations.
  * Rate limited: 60/min per IP
  */
 knowledgeRouter.post("/search", knowledgeSearchRateLimiter, async (req, res) => {
   try {
-    const {
-      query,
-      fromCountry,
-      toCountry,
-      sourceTypes,
-      limit = 5,
-      minSimilarity = 0.7,
-    } = req.body as KnowledgeQueryParams;
+    const params = req.body as KnowledgeQueryParams;
+    const { query, sourceTypes, mode, rerank, verifiedWithinDays } = params;
 
     if (!query || typeof query !== "string") {
       return res.status(400).json({ error: "Query is required" });
     }
-
-    // Generate embedding for the query
-    const embeddingResult = await generateEmbedding(query);
-    const queryEmbedding = embeddingResult.embedding;
-
-    // Build filter conditions
-    const conditions: any[] = [];
-
-    if (fromCountry) {
-      conditions.push(eq(knowledgeDocuments.fromCountry, fromCountry.toUpperCase()));
+    if (sourceTypes && (!Array.isArray(sourceTypes) ||
+        sourceTypes.some(t => !KNOWLEDGE_SOURCE_TYPES.includes(t as KnowledgeSourceType)))) {
+      return res.status(400).json({
+        error: `sourceTypes must be drawn from: ${KNOWLEDGE_SOURCE_TYPES.join(", ")}`,
+      });
     }
-
-    if (toCountry) {
-      conditions.push(eq(knowledgeDocuments.toCountry, toCountry.toUpperCase()));
+    if (mode && !KNOWLEDGE_SEARCH_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${KNOWLEDGE_SEARCH_MODES.join(", ")}` });
     }
-
-    if (sourceTypes && sourceTypes.length > 0) {
-      conditions.push(inArray(knowledgeDocuments.sourceType, sourceTypes));
+    if (rerank && !KNOWLEDGE_RERANKERS.includes(rerank)) {
+      return res.status(400).json({ error: `rerank must be one of: ${KNOWLEDGE_RERANKERS.join(", ")}` });
+    }
+    if (verifiedWithinDays !== undefined && !(typeof verifiedWithinDays === "number" && verifiedWithinDays > 0)) {
+      return res.status(400).json({ error: "verifiedWithinDays must be a positive number" });
     }
 
-    // Build the vector similarity query using cosineDistance
-    // Note: cosineDistance returns distance (0 = identical), we want similarity (1 = identical)
-    const similarity = sql<number>`1 - (${cosineDistance(knowledgeDocuments.embedding, queryEmbedding)})`;
-
-    // Execute the search query
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    const results = await db
-      .select({
-        id: knowledgeDocuments.id,
-        sourceId: knowledgeDocuments.sourceId,
-        sourceType: knowledgeDocuments.sourceType,
-        title: knowledgeDocuments.title,
-        content: knowledgeDocuments.content,
-        fromCountry: knowledgeDocuments.fromCountry,
-        toCountry: knowledgeDocuments.toCountry,
-        sourceUrl: knowledgeDocuments.sourceUrl,
-        sourceName: knowledgeDocuments.sourceName,
-        lastVerified: knowledgeDocuments.lastVerified,
-        similarity,
-      })
-      .from(knowledgeDocuments)
-      .where(whereClause)
-      .orderBy(desc(similarity))
-      .limit(limit);
-
-    // Filter by minimum similarity (post-query since we can't use computed column in WHERE easily)
-    const filteredResults: KnowledgeSearchResult[] = results
-      .filter((r: typeof results[number]) => r.similarity >= minSimilarity)
-      .map((r: typeof results[number]) => ({
-        id: r.id,
-        sourceId: r.sourceId,
-        sourceType: r.sourceType,
-        title: r.title,
-        content: r.content,
-        fromCountry: r.fromCountry,
-        toCountry: r.toCountry,
-        sourceUrl: r.sourceUrl,
-        sourceName: r.sourceName,
-        lastVerified: r.lastVerified,
-        similarity: r.similarity,
-      }));
+    const outcome = await searchKnowledge(params);
 
     // Generate citations from results
-    const citations: KnowledgeCitation[] = filteredResults.map(r => ({
+    const citations: KnowledgeCitation[] = outcome.results.map(r => ({
       sourceId: r.sourceId,
       sourceName: r.sourceName || "Unknown source",
       sourceUrl: r.sourceUrl,
@@ -137,9 +95,11 @@ knowledgeRouter.post("/search", knowledgeSearchRateLimiter, async (req, res) =>
     }));
 
     const response: KnowledgeQueryResponse = {
-      results: filteredResults,
+      results: outcome.results,
       citations,
-      queryEmbedding: process.env.NODE_ENV === "development" ? queryEmbedding : undefined,
+      mode: outcome.mode,
+      reranker: outcome.reranker,
+      queryEmbedding: process.env.NODE_ENV === "development" ? outcome.queryEmbedding ?? undefined : undefined,
     };
 
     res.json(response);
@@ -183,29 +143,21 @@ knowledgeRouter.post("/ingest", productionAdminOnly, async (req, res) => {
       });
     }
 
-    // Generate embedding for the content
-    const embeddingResult = await generateEmbedding(content);
-
-    // Insert the document
-    const [inserted] = await db
-      .insert(knowledgeDocuments)
-      .values({
-        sourceId,
-        sourceType,
-        title,
-        content,
-        fromCountry: fromCountry?.toUpperCase() || null,
-        toCountry: toCountry?.toUpperCase() || null,
-        sourceUrl: sourceUrl || null,
-        sourceName: sourceName || null,
-        lastVerified: new Date(),
-        metadata: metadata || null,
-        embedding: embeddingResult.embedding,
-      })
-      .returning({ id: knowledgeDocuments.id });
+    // Embed and store
+    const { id, embedding: embeddingResult } = await ingestKnowledgeDocument({
+      sourceId,
+      sourceType,
+      title,
+      content,
+      fromCountry,
+      toCountry,
+      sourceUrl,
+      sourceName,
+      metadata,
+    });
 
     res.status(201).json({
-      id: inserted.id,
+      id,
       embeddingSource: embeddingResult.source,
       embeddingModel: embeddingResult.model,
       embeddingDimension: embeddingResult.dimension,
@@ -260,26 +212,9 @@ knowledgeRouter.post("/ingest/batch", productionAdminOnly, async (req, res) => {
           continue;
         }
 
-        const embeddingResult = await generateEmbedding(doc.content);
-
-        const [inserted] = await db
-          .insert(knowledgeDocuments)
-          .values({
-            sourceId: doc.sourceId,
-            sourceType: doc.sourceType,
-            title: doc.title,
-            content: doc.content,
-            fromCountry: doc.fromCountry?.toUpperCase() || null,
-            toCountry: doc.toCountry?.toUpperCase() || null,
-            sourceUrl: doc.sourceUrl || null,
-            sourceName: doc.sourceName || null,
-            lastVerified: new Date(),
-            metadata: doc.metadata || null,
-            embedding: embeddingResult.embedding,
-          })
-          .returning({ id: knowledgeDocuments.id });
-
-        results.push({ id: inserted.id, sourceId: doc.sourceId });
+        const { id } = await ingestKnowledgeDocument(doc);
+
+        results.push({ id, sourceId: doc.sourceId });
       } catch (error) {
         errors.push({
           sourceId: doc.sourceId || "unknown",
@@ -444,6 +379,147 @@ knowledgeRouter.get("/documents", async (req, res) => {
   }
 });
 
+// ============================================================================
+// SOURCE REFRESH ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/knowledge/sources
+ *
+ * List refreshable sources with their refresh state.
+ */
+knowledgeRouter.get("/sources", async (_req, res) => {
+  try {
+    const sources = await db
+      .select()
+      .from(knowledgeSources)
+      .orderBy(knowledgeSources.sourceId);
+
+    const now = new Date();
+    res.json({
+      sources: sources.map((source: typeof sources[number]) => ({
+        ...source,
+        due: isKnowledgeSourceDue(source, now),
+      })),
+    });
+  } catch (error) {
+    console.error("[Knowledge] List sources error:", error);
+    res.status(500).json({
+      error: "Failed to list sources",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * POST /api/knowledge/sources
+ *
+ * Register (or update) a source for scheduled refresh. Its page is fetched,
+ * chunked and ingested on the next scheduler run.
+ * PROTECTED: Requires X-Admin-Token header in production.
+ */
+knowledgeRouter.post("/sources", productionAdminOnly, async (req, res) => {
+  try {
+    const {
+      sourceId,
+      sourceType,
+      name,
+      url,
+      fromCountry,
+      toCountry,
+      refreshIntervalDays,
+    } = req.body;
+
+    if (!sourceId || !sourceType || !name || !url) {
+      return res.status(400).json({
+        error: "Missing required fields: sourceId, sourceType, name, url",
+      });
+    }
+    if (refreshIntervalDays !== undefined && (!Number.isInteger(refreshIntervalDays) || refreshIntervalDays < 1)) {
+      return res.status(400).json({ error: "refreshIntervalDays must be a positive integer" });
+    }
+
+    const values: NewKnowledgeSource = {
+      sourceId,
+      sourceType,
+      name,
+      url,
+      fromCountry: fromCountry?.toUpperCase() || null,
+      toCountry: toCountry?.toUpperCase() || null,
+      refreshIntervalDays: refreshIntervalDays ?? 30,
+    };
+
+    const [source] = await db
+      .insert(knowledgeSources)
+      .values(values)
+      .onConflictDoUpdate({
+        target: knowledgeSources.sourceId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    res.status(201).json({ source });
+  } catch (error) {
+    console.error("[Knowledge] Register source error:", error);
+    res.status(500).json({
+      error: "Failed to register source",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * POST /api/knowledge/sources/:sourceId/refresh
+ *
+ * Re-fetch a source now, regardless of its interval.
+ * PROTECTED: Requires X-Admin-Token header in production.
+ */
+knowledgeRouter.post("/sources/:sourceId/refresh", productionAdminOnly, async (req, res) => {
+  try {
+    const [source] = await db
+      .select()
+      .from(knowledgeSources)
+      .where(eq(knowledgeSources.sourceId, req.params.sourceId))
+      .limit(1);
+
+    if (!source) {
+      return res.status(404).json({ error: "Source not found" });
+    }
+
+    const result = await refreshKnowledgeSource(source);
+    res.json(result);
+  } catch (error) {
+    console.error("[Knowledge] Refresh source error:", error);
+    res.status(500).json({
+      error: "Refresh failed",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/sources/:sourceId/versions
+ *
+ * Prior content of this source's chunks, newest first (audit trail).
+ */
+knowledgeRouter.get("/sources/:sourceId/versions", async (req, res) => {
+  try {
+    const versions = await db
+      .select()
+      .from(knowledgeDocumentVersions)
+      .where(eq(knowledgeDocumentVersions.parentSourceId, req.params.sourceId))
+      .orderBy(desc(knowledgeDocumentVersions.archivedAt), desc(knowledgeDocumentVersions.id));
+
+    res.json({ sourceId: req.params.sourceId, versions });
+  } catch (error) {
+    console.error("[Knowledge] List versions error:", error);
+    res.status(500).json({
+      error: "Failed to list versions",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 // ============================================================================
 // VISA-SPECIFIC ENDPOINT
 // ============================================================================
@@ -5,35 +5,21 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import type { PriceAlert } from '@shared/schema';
 import { validateSession, getSessionIdFromHeaders } from '../services/auth';
-import { sendPriceAlertEmail } from '../services/email';
+import {
+  createOrUpdateAlert,
+  listAlerts,
+  getAlert,
+  deactivateAlert,
+  getPriceHistory,
+  getAlertStats,
+  checkAllAlerts,
+} from '../services/priceAlertService';
+import { requireAdminToken } from '../middleware/rateLimiter';
 
 const router = Router();
 
-// In-memory storage for price alerts (use database in production)
-interface PriceAlert {
-  id: number;
-  tripId: number;
-  userId?: number;
-  email: string;
-  type: 'flight' | 'hotel';
-  destination: string;
-  origin: string;
-  dates: string;
-  initialPrice: number;
-  currentPrice: number;
-  targetPrice: number;
-  currency: string;
-  isActive: boolean;
-  lastChecked: Date;
-  lastAlertSent?: Date;
-  createdAt: Date;
-  priceHistory: Array<{ price: number; timestamp: Date }>;
-}
-
-const priceAlerts = new Map<number, PriceAlert>();
-let alertIdCounter = 1;
-
 // Validation schema
 const createAlertSchema = z.object({
   tripId: z.number(),
@@ -41,8 +27,10 @@ const createAlertSchema = z.object({
   destination: z.string(),
   origin: z.string().optional(),
   dates: z.string(),
+  adults: z.number().int().min(1).max(20).optional(),
   currentPrice: z.number(),
   targetPrice: z.number().min(1),
+  alertThreshold: z.number().min(1).max(90).optional(),
   currency: z.string().default('USD'),
   email: z.string().email(),
 });
@@ -64,54 +52,16 @@ router.post('/', async (req: Request, res: Response) => {
       userId = session?.user.id;
     }
 
-    // Check for existing alert with same params
-    const existing = Array.from(priceAlerts.values()).find(
-      a => a.email === data.email &&
-           a.tripId === data.tripId &&
-           a.type === data.type &&
-           a.isActive
-    );
-
-    if (existing) {
-      // Update existing alert
-      existing.targetPrice = data.targetPrice;
-      existing.lastChecked = new Date();
-
-      return res.json({
-        success: true,
-        alert: sanitizeAlert(existing),
-        message: 'Price alert updated',
-      });
-    }
+    const { alert, created } = await createOrUpdateAlert({ ...data, userId });
 
-    // Create new alert
-    const alert: PriceAlert = {
-      id: alertIdCounter++,
-      tripId: data.tripId,
-      userId,
-      email: data.email,
-      type: data.type,
-      destination: data.destination,
-      origin: data.origin || '',
-      dates: data.dates,
-      initialPrice: data.currentPrice,
-      currentPrice: data.currentPrice,
-      targetPrice: data.targetPrice,
-      currency: data.currency,
-      isActive: true,
-      lastChecked: new Date(),
-      createdAt: new Date(),
-      priceHistory: [{ price: data.currentPrice, timestamp: new Date() }],
-    };
-
-    priceAlerts.set(alert.id, alert);
-
-    console.log(`[Price Alerts] Created alert #${alert.id} for ${data.email}: ${data.type} to ${data.destination} at ${data.currency}${data.targetPrice}`);
+    if (created) {
+      console.log(`[Price Alerts] Created alert #${alert.id} for ${data.email}: ${data.type} to ${data.destination} at ${data.currency}${data.targetPrice}`);
+    }
 
     res.json({
       success: true,
       alert: sanitizeAlert(alert),
-      message: 'Price alert created successfully',
+      message: created ? 'Price alert created successfully' : 'Price alert updated',
     });
   } catch (err: any) {
     console.error('[Price Alerts] Create error:', err);
@@ -138,12 +88,10 @@ router.get('/', async (req: Request, res: Response) => {
     if (sessionId) {
       const session = await validateSession(sessionId);
       if (session) {
-        alerts = Array.from(priceAlerts.values())
-          .filter(a => a.userId === session.user.id || a.email === session.user.email);
+        alerts = await listAlerts({ userId: session.user.id, email: session.user.email });
       }
     } else if (email) {
-      alerts = Array.from(priceAlerts.values())
-        .filter(a => a.email === email);
+      alerts = await listAlerts({ email });
     }
 
     res.json({
@@ -162,7 +110,7 @@ router.get('/', async (req: Request, res: Response) => {
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     const alertId = parseInt(req.params.id);
-    const alert = priceAlerts.get(alertId);
+    const alert = isNaN(alertId) ? null : await getAlert(alertId);
 
     if (!alert) {
       return res.status(404).json({ error: 'Alert not found' });
@@ -175,6 +123,40 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/price-alerts/:id/history
+ * Price history for charting
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const alertId = parseInt(req.params.id);
+    const alert = isNaN(alertId) ? null : await getAlert(alertId);
+
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    if (!(await canManageAlert(req, alert))) {
+      return res.status(403).json({ error: 'Not authorized' });
+    }
+
+    res.json({
+      alertId: alert.id,
+      type: alert.type,
+      currency: alert.currency,
+      initialPrice: alert.initialPrice,
+      currentPrice: alert.currentPrice,
+      lowestPrice: alert.lowestPrice,
+      targetPrice: alert.targetPrice,
+      lastChecked: alert.lastChecked,
+      history: getPriceHistory(alert),
+    });
+  } catch (err) {
+    console.error('[Price Alerts] History error:', err);
+    res.status(500).json({ error: 'Failed to get price history' });
+  }
+});
+
 /**
  * DELETE /api/price-alerts/:id
  * Delete/deactivate an alert
@@ -182,23 +164,18 @@ router.get('/:id', async (req: Request, res: Response) => {
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
     const alertId = parseInt(req.params.id);
-    const alert = priceAlerts.get(alertId);
+    const alert = isNaN(alertId) ? null : await getAlert(alertId);
 
     if (!alert) {
       return res.status(404).json({ error: 'Alert not found' });
     }
 
-    // Verify ownership
-    const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
-    if (sessionId) {
-      const session = await validateSession(sessionId);
-      if (session && alert.userId !== session.user.id && alert.email !== session.user.email) {
-        return res.status(403).json({ error: 'Not authorized' });
-      }
+    if (!(await canManageAlert(req, alert))) {
+      return res.status(403).json({ error: 'Not authorized' });
     }
 
     // Soft delete - just deactivate
-    alert.isActive = false;
+    await deactivateAlert(alertId);
 
     console.log(`[Price Alerts] Deactivated alert #${alertId}`);
 
@@ -211,60 +188,15 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
 /**
  * POST /api/price-alerts/check
- * Trigger price check for all active alerts (called by cron job)
+ * Re-price all active alerts now (admin only - the scheduler also runs this periodically)
  */
-router.post('/check', async (req: Request, res: Response) => {
+router.post('/check', requireAdminToken, async (req: Request, res: Response) => {
   try {
-    const activeAlerts = Array.from(priceAlerts.values()).filter(a => a.isActive);
-
-    console.log(`[Price Alerts] Checking ${activeAlerts.length} active alerts...`);
-
-    let updatedCount = 0;
-    let alertsSent = 0;
-
-    for (const alert of activeAlerts) {
-      // In production, fetch actual prices from flight/hotel APIs
-      // For now, simulate price changes
-      const priceChange = (Math.random() - 0.5) * 0.1; // -5% to +5%
-      const newPrice = Math.round(alert.currentPrice * (1 + priceChange));
-
-      if (newPrice !== alert.currentPrice) {
-        alert.currentPrice = newPrice;
-        alert.priceHistory.push({ price: newPrice, timestamp: new Date() });
-        alert.lastChecked = new Date();
-        updatedCount++;
-
-        // Check if price dropped below target
-        if (newPrice <= alert.targetPrice) {
-          const percentDrop = Math.round(((alert.initialPrice - newPrice) / alert.initialPrice) * 100);
-
-          // Don't spam - only send if we haven't sent in last 24 hours
-          const lastSent = alert.lastAlertSent?.getTime() || 0;
-          const hoursSinceLastAlert = (Date.now() - lastSent) / (1000 * 60 * 60);
-
-          if (hoursSinceLastAlert >= 24) {
-            sendPriceAlertEmail(alert.email, {
-              destination: alert.destination,
-              type: alert.type,
-              originalPrice: alert.initialPrice,
-              currentPrice: newPrice,
-              currency: alert.currency,
-              percentDrop,
-            });
-
-            alert.lastAlertSent = new Date();
-            alertsSent++;
-            console.log(`[Price Alerts] Alert sent to ${alert.email}: ${alert.type} to ${alert.destination} dropped to ${alert.currency}${newPrice}`);
-          }
-        }
-      }
-    }
+    const summary = await checkAllAlerts();
 
     res.json({
       success: true,
-      checked: activeAlerts.length,
-      updated: updatedCount,
-      alertsSent,
+      ...summary,
     });
   } catch (err) {
     console.error('[Price Alerts] Check error:', err);
@@ -277,24 +209,27 @@ router.post('/check', async (req: Request, res: Response) => {
  */
 router.get('/stats/summary', async (req: Request, res: Response) => {
   try {
-    const allAlerts = Array.from(priceAlerts.values());
-
-    res.json({
-      total: allAlerts.length,
-      active: allAlerts.filter(a => a.isActive).length,
-      byType: {
-        flight: allAlerts.filter(a => a.type === 'flight').length,
-        hotel: allAlerts.filter(a => a.type === 'hotel').length,
-      },
-    });
+    res.json(await getAlertStats());
   } catch (err) {
     console.error('[Price Alerts] Stats error:', err);
     res.status(500).json({ error: 'Failed to get stats' });
   }
 });
 
+/**
+ * Whether the caller owns an alert. Alerts made while signed in belong to
+ * that account (or its email); anonymous alerts are reachable by id.
+ */
+async function canManageAlert(req: Request, alert: PriceAlert): Promise<boolean> {
+  const sessionId = getSessionIdFromHeaders(req.headers as Record<string, string | string[] | undefined>);
+  const session = sessionId ? await validateSession(sessionId) : null;
+
+  if (!session) return !alert.userId;
+  return alert.userId === session.user.id || alert.email === session.user.email;
+}
+
 // Helper to remove sensitive data
-function sanitizeAlert(alert: PriceAlert): Omit<PriceAlert, 'email' | 'priceHistory'> & { email?: string } {
+function sanitizeAlert(alert: PriceAlert): Omit<PriceAlert, 'priceHistory'> {
   const { priceHistory, ...rest } = alert;
   return rest;
 }
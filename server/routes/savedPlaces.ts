@@ -0,0 +1,191 @@
+/**
+ * Saved Places Routes
+ * The caller's library of places (by account or X-Voyage-UID) and adding
+ * them to a trip's itinerary
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import type { SavedPlace } from '@shared/schema';
+import { storage } from '../storage';
+import { getRequestUser, getRequestOwner, resolveTripRole, hasTripRole } from '../middleware/tripAccess';
+import { savePlace, ownsPlace, type PlaceOwner } from '../services/savedPlacesService';
+import { addPlaceToDay, SavedPlaceError } from '../services/savedPlaceItinerary';
+
+const router = Router();
+
+// Validation schemas
+const tagsSchema = z.array(z.string().trim().min(1).max(40)).max(20);
+
+const createPlaceSchema = z.object({
+  query: z.string().trim().min(1, 'Place name is required').max(200),
+  city: z.string().trim().max(120).nullish(),
+  notes: z.string().trim().max(1000).nullish(),
+  tags: tagsSchema.optional(),
+});
+
+const updatePlaceSchema = z.object({
+  notes: z.string().trim().max(1000).nullish(),
+  tags: tagsSchema.optional(),
+});
+
+const addToTripSchema = z.object({
+  tripId: z.number().int().positive(),
+  dayNumber: z.number().int().min(1),
+  time: z.string().regex(/^\d{1,2}:\d{2}$/, 'Time must be HH:MM').optional(),
+  duration: z.string().trim().max(40).optional(),
+  estimatedCost: z.number().min(0).optional(),
+});
+
+/**
+ * Load a place the caller owns (404 otherwise, so ids can't be probed)
+ */
+async function getOwnedPlace(req: Request, owner: PlaceOwner): Promise<SavedPlace | null> {
+  const placeId = parseInt(req.params.placeId);
+  if (isNaN(placeId)) return null;
+  const place = await storage.getSavedPlace(placeId);
+  return place && ownsPlace(place, owner) ? place : null;
+}
+
+/**
+ * GET /api/saved-places
+ * The caller's saved places, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const owner = await getRequestOwner(req);
+    const places = owner ? await storage.listSavedPlaces(owner) : [];
+    res.json({ places });
+  } catch (err) {
+    console.error('[SavedPlaces] List error:', err);
+    res.status(500).json({ error: 'Failed to get saved places' });
+  }
+});
+
+/**
+ * POST /api/saved-places
+ * Resolve a place by name (Mapbox + Google Places) and save it
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const owner = await getRequestOwner(req);
+    if (!owner) {
+      return res.status(401).json({ error: 'Sign in or enable local trips to save places' });
+    }
+
+    const data = createPlaceSchema.parse(req.body);
+    const place = await savePlace(owner, data);
+
+    console.log(`[SavedPlaces] Saved "${place.name}"${place.lat === null ? ' (unresolved)' : ''}`);
+    res.json({ success: true, place });
+  } catch (err: any) {
+    console.error('[SavedPlaces] Create error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+
+    res.status(500).json({ error: 'Failed to save place' });
+  }
+});
+
+/**
+ * PATCH /api/saved-places/:placeId
+ * Update a place's notes and tags
+ */
+router.patch('/:placeId', async (req: Request, res: Response) => {
+  try {
+    const owner = await getRequestOwner(req);
+    const place = owner ? await getOwnedPlace(req, owner) : null;
+    if (!place) {
+      return res.status(404).json({ error: 'Place not found' });
+    }
+
+    const updates = updatePlaceSchema.parse(req.body);
+    const updated = await storage.updateSavedPlace(place.id, {
+      ...(updates.notes !== undefined && { notes: updates.notes }),
+      ...(updates.tags && { tags: Array.from(new Set(updates.tags.map(t => t.toLowerCase()))) }),
+    });
+
+    res.json({ success: true, place: updated });
+  } catch (err: any) {
+    console.error('[SavedPlaces] Update error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+
+    res.status(500).json({ error: 'Failed to update place' });
+  }
+});
+
+/**
+ * DELETE /api/saved-places/:placeId
+ * Remove a place from the library (itineraries it was added to keep it)
+ */
+router.delete('/:placeId', async (req: Request, res: Response) => {
+  try {
+    const owner = await getRequestOwner(req);
+    const place = owner ? await getOwnedPlace(req, owner) : null;
+    if (!place) {
+      return res.status(404).json({ error: 'Place not found' });
+    }
+
+    await storage.deleteSavedPlace(place.id);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[SavedPlaces] Delete error:', err);
+    res.status(500).json({ error: 'Failed to delete place' });
+  }
+});
+
+/**
+ * POST /api/saved-places/:placeId/add-to-trip
+ * Insert the place into day N of a trip (editor access) and return that
+ * day's re-validated logistics
+ */
+router.post('/:placeId/add-to-trip', async (req: Request, res: Response) => {
+  try {
+    const owner = await getRequestOwner(req);
+    const place = owner ? await getOwnedPlace(req, owner) : null;
+    if (!place) {
+      return res.status(404).json({ error: 'Place not found' });
+    }
+
+    const { tripId, dayNumber, ...options } = addToTripSchema.parse(req.body);
+
+    const trip = await storage.getTrip(tripId);
+    const user = await getRequestUser(req);
+    const role = trip ? await resolveTripRole(trip, user, owner!.voyageUid) : null;
+    if (!trip || !role) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+    if (!hasTripRole(role, 'editor')) {
+      return res.status(403).json({ error: `This action requires editor access. Your role: ${role}` });
+    }
+
+    const result = addPlaceToDay(trip, place, dayNumber, options);
+    await storage.updateTripItinerary(trip.id, result.itinerary);
+
+    console.log(`[SavedPlaces] Added "${place.name}" to trip ${trip.id} day ${dayNumber}: ${result.logistics.status}`);
+    res.json({
+      success: true,
+      message: `Added "${place.name}" to Day ${dayNumber}`,
+      activity: result.activity,
+      logistics: result.logistics,
+    });
+  } catch (err: any) {
+    console.error('[SavedPlaces] Add to trip error:', err);
+
+    if (err.name === 'ZodError') {
+      return res.status(400).json({ error: err.errors[0]?.message || 'Invalid input' });
+    }
+    if (err instanceof SavedPlaceError) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    res.status(500).json({ error: 'Failed to add place to trip' });
+  }
+});
+
+export default router;
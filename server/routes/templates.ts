@@ -7,6 +7,7 @@ import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
 import { validateSession, getSessionIdFromHeaders } from '../services/auth';
+import { resolveTripRole } from '../middleware/tripAccess';
 
 const router = Router();
 
@@ -341,6 +342,13 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Trip not found' });
     }
 
+    // Only the trip owner can publish it as a template
+    const voyageUid = (req.headers['x-voyage-uid'] as string | undefined) || null;
+    const role = await resolveTripRole(trip, session.user, voyageUid);
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the trip owner can create a template from it' });
+    }
+
     // Create template (in production, save to database)
     const newTemplate = {
       id: Date.now(),
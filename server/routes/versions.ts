@@ -16,6 +16,7 @@ import { db } from "../db";
 import { tripVersions, trips } from "@shared/schema";
 import type { VersionSnapshot, VersionSummary, VersionSource, TripVersionResponse } from "@shared/schema";
 import { eq, and, desc, isNotNull } from "drizzle-orm";
+import { requireTripRole } from "../middleware/tripAccess";
 
 const router: Router = express.Router();
 
@@ -46,17 +47,8 @@ async function checkTripOwnership(tripId: number, req: Request): Promise<{ allow
 // ---------------------------------------------------------------------------
 // POST /api/trips/:tripId/versions - Create or upsert a version
 // ---------------------------------------------------------------------------
-router.post("/trips/:tripId/versions", async (req: Request, res: Response) => {
-  const tripId = parseInt(req.params.tripId, 10);
-  if (isNaN(tripId)) {
-    return res.status(400).json({ ok: false, error: "Invalid tripId" });
-  }
-
-  // Ownership check
-  const { allowed } = await checkTripOwnership(tripId, req);
-  if (!allowed) {
-    return res.status(404).json({ ok: false, error: "Trip not found" });
-  }
+router.post("/trips/:tripId/versions", requireTripRole("editor", "tripId"), async (req: Request, res: Response) => {
+  const tripId = req.tripAccess!.trip.id;
 
   const { source, changeId, label, snapshot, summary } = req.body || {};
 
@@ -292,18 +284,12 @@ router.get("/trips/:tripId/versions/:versionId", async (req: Request, res: Respo
 // ---------------------------------------------------------------------------
 // POST /api/trips/:tripId/versions/:versionId/restore - Restore a version
 // ---------------------------------------------------------------------------
-router.post("/trips/:tripId/versions/:versionId/restore", async (req: Request, res: Response) => {
-  const tripId = parseInt(req.params.tripId, 10);
+router.post("/trips/:tripId/versions/:versionId/restore", requireTripRole("editor", "tripId"), async (req: Request, res: Response) => {
+  const tripId = req.tripAccess!.trip.id;
   const versionId = parseInt(req.params.versionId, 10);
 
-  if (isNaN(tripId) || isNaN(versionId)) {
-    return res.status(400).json({ ok: false, error: "Invalid tripId or versionId" });
-  }
-
-  // Ownership check
-  const { allowed } = await checkTripOwnership(tripId, req);
-  if (!allowed) {
-    return res.status(404).json({ ok: false, error: "Trip not found" });
+  if (isNaN(versionId)) {
+    return res.status(400).json({ ok: false, error: "Invalid versionId" });
   }
 
   try {
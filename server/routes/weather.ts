@@ -5,6 +5,7 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import { CITY_CLIMATES, findCityKey, getSeasonalOffset, generateForecast } from '../services/weatherService';
 
 const router = Router();
 
@@ -19,52 +20,6 @@ const forecastSchema = z.object({
   endDate: z.string().optional(),
 });
 
-interface WeatherDay {
-  date: string;
-  tempHigh: number;
-  tempLow: number;
-  condition: 'sunny' | 'cloudy' | 'rainy' | 'stormy' | 'snowy' | 'foggy';
-  humidity: number;
-  precipitation: number;
-  windSpeed: number;
-  uvIndex: number;
-  description: string;
-}
-
-interface WeatherForecast {
-  destination: string;
-  timezone: string;
-  currentTemp?: number;
-  currentCondition?: string;
-  days: WeatherDay[];
-  packingTips: string[];
-  bestTimeToVisit: string;
-}
-
-// City climate data for simulation
-const CITY_CLIMATES: Record<string, {
-  avgTemp: number;
-  tempRange: number;
-  rainChance: number;
-  climate: string;
-}> = {
-  'paris': { avgTemp: 15, tempRange: 15, rainChance: 0.3, climate: 'temperate' },
-  'tokyo': { avgTemp: 16, tempRange: 20, rainChance: 0.35, climate: 'temperate' },
-  'bali': { avgTemp: 28, tempRange: 5, rainChance: 0.4, climate: 'tropical' },
-  'maldives': { avgTemp: 30, tempRange: 3, rainChance: 0.35, climate: 'tropical' },
-  'rome': { avgTemp: 18, tempRange: 18, rainChance: 0.25, climate: 'mediterranean' },
-  'new york': { avgTemp: 13, tempRange: 25, rainChance: 0.3, climate: 'continental' },
-  'london': { avgTemp: 12, tempRange: 12, rainChance: 0.45, climate: 'oceanic' },
-  'bangkok': { avgTemp: 32, tempRange: 5, rainChance: 0.5, climate: 'tropical' },
-  'sydney': { avgTemp: 22, tempRange: 12, rainChance: 0.25, climate: 'temperate' },
-  'dubai': { avgTemp: 33, tempRange: 15, rainChance: 0.05, climate: 'desert' },
-  'iceland': { avgTemp: 5, tempRange: 15, rainChance: 0.4, climate: 'subarctic' },
-  'hawaii': { avgTemp: 26, tempRange: 6, rainChance: 0.35, climate: 'tropical' },
-  'singapore': { avgTemp: 31, tempRange: 3, rainChance: 0.45, climate: 'tropical' },
-  'barcelona': { avgTemp: 19, tempRange: 14, rainChance: 0.2, climate: 'mediterranean' },
-  'amsterdam': { avgTemp: 11, tempRange: 14, rainChance: 0.4, climate: 'oceanic' },
-};
-
 /**
  * GET /api/weather/forecast
  * Get weather forecast for a destination
@@ -249,143 +204,6 @@ router.get('/alerts', async (req: Request, res: Response) => {
 
 // Helper functions
 
-function findCityKey(destination: string): string {
-  const lower = destination.toLowerCase();
-  for (const city of Object.keys(CITY_CLIMATES)) {
-    if (lower.includes(city)) return city;
-  }
-  return 'default';
-}
-
-function getSeasonalOffset(month: number): number {
-  // Simple seasonal adjustment (Northern Hemisphere bias)
-  const offsets = [-10, -8, -3, 3, 8, 12, 14, 13, 8, 3, -3, -8];
-  return offsets[month] || 0;
-}
-
-function generateForecast(
-  destination: string,
-  startDate?: string,
-  endDate?: string
-): WeatherForecast {
-  const cityKey = findCityKey(destination);
-  const climate = CITY_CLIMATES[cityKey] || {
-    avgTemp: 20,
-    tempRange: 15,
-    rainChance: 0.3,
-    climate: 'temperate',
-  };
-
-  const start = startDate ? new Date(startDate) : new Date();
-  const end = endDate ? new Date(endDate) : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
-  const days: WeatherDay[] = [];
-
-  let current = new Date(start);
-  while (current <= end) {
-    const seasonalOffset = getSeasonalOffset(current.getMonth());
-    const dailyVariation = (Math.random() - 0.5) * 8;
-    const tempHigh = Math.round(climate.avgTemp + climate.tempRange / 2 + seasonalOffset + dailyVariation);
-    const tempLow = Math.round(climate.avgTemp - climate.tempRange / 2 + seasonalOffset + dailyVariation);
-
-    const isRainy = Math.random() < climate.rainChance;
-    const condition = determineCondition(isRainy, tempHigh);
-
-    days.push({
-      date: current.toISOString().split('T')[0],
-      tempHigh,
-      tempLow,
-      condition,
-      humidity: Math.round(40 + climate.rainChance * 40 + Math.random() * 20),
-      precipitation: isRainy ? Math.round(Math.random() * 30) : 0,
-      windSpeed: Math.round(5 + Math.random() * 20),
-      uvIndex: Math.round(3 + Math.random() * 7),
-      description: getConditionDescription(condition, tempHigh),
-    });
-
-    current = new Date(current.getTime() + 24 * 60 * 60 * 1000);
-  }
-
-  return {
-    destination,
-    timezone: 'Local Time',
-    currentTemp: days[0]?.tempHigh,
-    currentCondition: days[0]?.condition,
-    days,
-    packingTips: getPackingTips(climate.climate, days),
-    bestTimeToVisit: getBestTimeToVisit(climate.climate),
-  };
-}
-
-function determineCondition(
-  isRainy: boolean,
-  temp: number
-): WeatherDay['condition'] {
-  if (isRainy) {
-    if (temp < 2) return 'snowy';
-    if (Math.random() < 0.2) return 'stormy';
-    return 'rainy';
-  }
-  if (Math.random() < 0.3) return 'cloudy';
-  if (Math.random() < 0.1) return 'foggy';
-  return 'sunny';
-}
-
-function getConditionDescription(condition: string, temp: number): string {
-  const descriptions: Record<string, string[]> = {
-    sunny: ['Clear skies', 'Bright and sunny', 'Perfect weather', 'Beautiful day'],
-    cloudy: ['Partly cloudy', 'Overcast', 'Cloud cover expected', 'Mostly cloudy'],
-    rainy: ['Showers likely', 'Rain expected', 'Bring an umbrella', 'Wet conditions'],
-    stormy: ['Thunderstorms possible', 'Severe weather alert', 'Stay indoors if possible'],
-    snowy: ['Snow expected', 'Winter conditions', 'Bundle up', 'Possible snow accumulation'],
-    foggy: ['Morning fog', 'Low visibility', 'Foggy conditions', 'Mist expected'],
-  };
-
-  const options = descriptions[condition] || ['Variable conditions'];
-  return options[Math.floor(Math.random() * options.length)];
-}
-
-function getPackingTips(climate: string, days: WeatherDay[]): string[] {
-  const tips: string[] = [];
-
-  const hasRain = days.some(d => d.condition === 'rainy' || d.condition === 'stormy');
-  const hasCold = days.some(d => d.tempLow < 10);
-  const hasHot = days.some(d => d.tempHigh > 30);
-  const hasSnow = days.some(d => d.condition === 'snowy');
-
-  if (hasRain) tips.push('Pack a waterproof jacket and umbrella');
-  if (hasCold) tips.push('Bring warm layers and a jacket');
-  if (hasHot) tips.push('Pack light, breathable clothing');
-  if (hasSnow) tips.push('Bring warm boots and winter gear');
-
-  if (climate === 'tropical') {
-    tips.push('Pack sunscreen SPF 50+');
-    tips.push('Bring insect repellent');
-  } else if (climate === 'desert') {
-    tips.push('Stay hydrated - bring a water bottle');
-    tips.push('Pack a hat and sunglasses');
-  }
-
-  if (tips.length === 0) {
-    tips.push('Pack versatile, layerable clothing');
-  }
-
-  return tips.slice(0, 4);
-}
-
-function getBestTimeToVisit(climate: string): string {
-  const recommendations: Record<string, string> = {
-    tropical: 'December to April (dry season)',
-    temperate: 'May to September (warm months)',
-    mediterranean: 'April to October (warm and dry)',
-    continental: 'May to September (summer)',
-    oceanic: 'June to August (warmest)',
-    desert: 'October to April (cooler months)',
-    subarctic: 'June to August (midnight sun)',
-  };
-
-  return recommendations[climate] || 'Spring and Fall for mild weather';
-}
-
 function getMonthRecommendation(month: number, climate: string): string {
   const monthIdx = month - 1;
   const peakMonths: Record<string, number[]> = {
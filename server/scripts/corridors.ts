@@ -0,0 +1,177 @@
+/**
+ * Curated Corridor Authoring CLI
+ *
+ * Checks corridor files in server/data/corridors before they're merged.
+ *
+ * Run with: npx tsx server/scripts/corridors.ts <command> [options]
+ *
+ *   validate [files...]           schema-validate corridor files (default: all)
+ *   check [files...]              validate + cross-check against passport-index.csv;
+ *                                 exits 1 on schema errors or contradictions
+ *   coverage [--passport P]       curated routes by passport and destination; with
+ *                                 --passport, the destinations P still needs a visa
+ *                                 for that have no corridor
+ *   diff [files...] [--against REF]
+ *                                 visa fee / processing time changes against a git
+ *                                 revision (default HEAD); default: every corridor file
+ *   diff --from OLD.json NEW.json compare two files directly
+ *   schema                        regenerate server/data/corridor.schema.json
+ */
+
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { CORRIDOR_DIR } from "../services/corridorData";
+import { buildCorridorJsonSchema } from "../services/corridorSchema";
+import {
+  buildCoverageReport,
+  crossCheckCorridor,
+  findUncoveredDestinations,
+  formatCorridorDiff,
+  loadCorridorFiles,
+  readCorridorFile,
+  validateCorridor,
+  type CorridorFile,
+  type CorridorIssue,
+} from "../services/corridorAuthoring";
+
+const SCHEMA_PATH = path.join(CORRIDOR_DIR, "..", "corridor.schema.json");
+
+function parseArgs(argv: string[]) {
+  const [command = "help", ...rest] = argv;
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i].startsWith("--")) {
+      options[rest[i].slice(2)] = rest[i + 1];
+      i++;
+    } else {
+      positional.push(rest[i]);
+    }
+  }
+  return { command, positional, options };
+}
+
+/** Corridor files named on the command line (a bare name means one in CORRIDOR_DIR), or all of them */
+function selectFiles(names: string[]): CorridorFile[] {
+  if (names.length === 0) return loadCorridorFiles();
+  return names.map(name => readCorridorFile(fs.existsSync(name) ? name : path.join(CORRIDOR_DIR, name)));
+}
+
+function printIssues(fileName: string, issues: CorridorIssue[]) {
+  const mark = issues.some(issue => issue.severity !== "warning") ? "✗" : "✓";
+  console.log(`${mark} ${fileName}`);
+  for (const issue of issues) {
+    console.log(`    ${issue.severity.padEnd(13)} ${issue.path ? `${issue.path}: ` : ""}${issue.message}`);
+  }
+}
+
+function validate(names: string[], crossCheck: boolean): number {
+  let failed = 0;
+  for (const file of selectFiles(names)) {
+    const issues = [...file.issues, ...(crossCheck && file.data ? crossCheckCorridor(file.data) : [])];
+    printIssues(file.fileName, issues);
+    if (issues.some(issue => issue.severity !== "warning")) failed++;
+  }
+  console.log(failed > 0 ? `\n${failed} file(s) need attention` : "\nAll corridor files OK");
+  return failed > 0 ? 1 : 0;
+}
+
+function coverage(passport: string | undefined): number {
+  const corridors = loadCorridorFiles().flatMap(file => (file.data ? [file.data] : []));
+  const report = buildCoverageReport(corridors);
+
+  console.log(`${report.corridors} corridors covering ${report.routesCovered} of ${report.routesInIndex.toLocaleString("en-US")} Passport Index routes\n`);
+  console.log("By passport:");
+  for (const row of report.byPassport) {
+    console.log(`  ${row.passport} (${row.passportCode}): ${row.routesCovered}/${row.routesInIndex} destinations - ${row.destinations.join(", ")}`);
+  }
+  console.log("\nBy destination:");
+  for (const row of report.byDestination) {
+    console.log(`  ${row.destination}: ${row.passports.join(", ")}`);
+  }
+
+  if (passport) {
+    const uncovered = findUncoveredDestinations(passport, corridors);
+    console.log(`\n${uncovered.length} destinations needing a visa for ${passport} passports without a corridor:`);
+    for (const entry of uncovered) {
+      console.log(`  ${entry.destination} (${entry.status})`);
+    }
+  }
+  return 0;
+}
+
+/** A corridor file as of a git revision, or null if it didn't exist there */
+function readFromGit(ref: string, fileName: string): unknown | null {
+  try {
+    const content = execFileSync("git", ["show", `${ref}:./${fileName}`], {
+      cwd: CORRIDOR_DIR,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function diff(names: string[], options: Record<string, string>): number {
+  if (options.from) {
+    const before = readCorridorFile(options.from);
+    const after = selectFiles(names.slice(0, 1))[0];
+    if (!before.data || !after?.data) {
+      console.error("Both files must be valid corridors (run `validate` first)");
+      return 1;
+    }
+    console.log(formatCorridorDiff(before.data, after.data));
+    return 0;
+  }
+
+  const ref = options.against ?? "HEAD";
+  for (const file of selectFiles(names)) {
+    if (!file.data) {
+      console.log(`${file.fileName}: invalid, skipped (run \`validate\` first)\n`);
+      continue;
+    }
+    const previous = readFromGit(ref, file.fileName);
+    if (previous === null) {
+      console.log(`${file.fileName}: new corridor (not in ${ref})\n`);
+      continue;
+    }
+    const before = validateCorridor(previous).data;
+    if (!before) {
+      console.log(`${file.fileName}: version in ${ref} doesn't match the current schema, skipped\n`);
+      continue;
+    }
+    console.log(`${formatCorridorDiff(before, file.data)}\n`);
+  }
+  return 0;
+}
+
+function writeSchema(): number {
+  fs.writeFileSync(SCHEMA_PATH, `${JSON.stringify(buildCorridorJsonSchema(), null, 2)}\n`);
+  console.log(`Wrote ${path.relative(process.cwd(), SCHEMA_PATH)}`);
+  return 0;
+}
+
+function main(): number {
+  const { command, positional, options } = parseArgs(process.argv.slice(2));
+
+  switch (command) {
+    case "validate":
+      return validate(positional, false);
+    case "check":
+      return validate(positional, true);
+    case "coverage":
+      return coverage(options.passport);
+    case "diff":
+      return diff(positional, options);
+    case "schema":
+      return writeSchema();
+    default:
+      console.log("Usage: npx tsx server/scripts/corridors.ts <validate|check|coverage|diff|schema> [options]");
+      return command === "help" ? 0 : 1;
+  }
+}
+
+process.exit(main());
@@ -0,0 +1,310 @@
+/**
+ * Itinerary Eval Runner
+ *
+ * Generates an itinerary for every fixture in server/eval/fixtures/trips.json
+ * with the streaming day generator, scores it, writes a JSON + markdown report
+ * and diffs it against the stored baseline for the mode. Exits 1 on regressions.
+ *
+ * Run with: npx tsx server/scripts/evalItineraries.ts [options]
+ *
+ *   --mode replay|record|mock  replay (default): recorded responses, no network
+ *                              record: live model via aiClientFactory, saves responses
+ *                              mock: synthetic responses, checks the harness itself
+ *   --upstream mock            record from the mock generator instead of a live model
+ *                              (seeds recordings without an API key)
+ *   --update-baseline          store this run as the baseline for the mode
+ *   --only id1,id2             run a subset of fixtures
+ *   --tolerance N              score drop allowed before a fixture regresses (default 5)
+ *   --no-fail                  report regressions and recording misses without failing
+ *
+ * After changing a prompt: record, review the report, then --update-baseline.
+ * The committed recordings were seeded with --upstream mock; re-record against
+ * a live model to evaluate real output.
+ */
+
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type OpenAI from "openai";
+import type { TripLeg } from "@shared/schema";
+import {
+  loadRecordings,
+  saveRecordings,
+  createRecordingClient,
+  createReplayClient,
+  createMockClient,
+  tapClient,
+  RecordingMissError,
+} from "../eval/llmClients";
+import type { DayExpectation, GeoCenter, FixtureScore } from "../eval/scoring";
+import { buildReport, diffReports, renderMarkdown, type EvalMode, type EvalReport } from "../eval/report";
+import type { GroupProfile } from "../services/validators";
+import type { ItineraryDay, StreamingItineraryInput } from "../services/streamingItinerary";
+import type { LegPlan } from "../services/multiCityService";
+
+const __filename = fileURLToPath(import.meta.url);
+const EVAL_DIR = path.join(path.dirname(__filename), "..", "eval");
+const FIXTURES_PATH = path.join(EVAL_DIR, "fixtures", "trips.json");
+const RECORDINGS_PATH = path.join(EVAL_DIR, "recordings.json");
+const BASELINES_DIR = path.join(EVAL_DIR, "baselines");
+const OUT_DIR = path.join(EVAL_DIR, "out");
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+interface EvalFixture {
+  id: string;
+  destination?: string;
+  startDate: string;
+  numDays?: number;
+  travelStyle: string;
+  /** USD, whole trip */
+  budget: number;
+  groupSize: number;
+  passport: string;
+  center?: GeoCenter;
+  radiusKm?: number;
+  otherCities?: string[];
+  groupProfile?: GroupProfile;
+  legs?: Array<TripLeg & { center: GeoCenter; radiusKm: number }>;
+  transfers?: Array<{ mode: string; durationHours: number; costUSD: number; note?: string }>;
+}
+
+function cityName(destination: string): string {
+  return destination.split(",")[0].trim();
+}
+
+// ============================================================================
+// ARGS
+// ============================================================================
+
+function parseArgs(argv: string[]) {
+  const value = (flag: string) => {
+    const i = argv.indexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const mode = (value("--mode") || "replay") as EvalMode;
+  if (!["replay", "record", "mock"].includes(mode)) {
+    throw new Error(`Unknown --mode "${mode}" (expected replay, record or mock)`);
+  }
+  const upstream = value("--upstream");
+  if (upstream !== undefined && (upstream !== "mock" || mode !== "record")) {
+    throw new Error(`--upstream only supports "mock", with --mode record`);
+  }
+  return {
+    mode,
+    upstream,
+    updateBaseline: argv.includes("--update-baseline"),
+    only: value("--only")?.split(",").map(s => s.trim()).filter(Boolean),
+    tolerance: Number(value("--tolerance") ?? 5),
+    noFail: argv.includes("--no-fail"),
+  };
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Generator modules (and scoring, via dedupeActivities) open a Postgres pool
+  // on import - lazily, nothing is queried here; a placeholder URL keeps the
+  // eval runnable offline
+  process.env.DATABASE_URL ||= "postgresql://eval@localhost:5432/eval-offline";
+
+  const { setAIClientOverride, getAIClient } = await import("../services/aiClientFactory");
+  const { generateSingleDay, summarizeDay } = await import("../services/streamingItinerary");
+  const { buildLegSchedule, formatLegRoute, getLegsNumDays } = await import("../services/multiCityService");
+  const { scoreItinerary } = await import("../eval/scoring");
+
+  const allFixtures: EvalFixture[] = JSON.parse(fs.readFileSync(FIXTURES_PATH, "utf-8"));
+  const fixtures = args.only ? allFixtures.filter(f => args.only!.includes(f.id)) : allFixtures;
+
+  const centers: Record<string, GeoCenter> = {};
+  for (const f of allFixtures) {
+    if (f.destination && f.center) centers[f.destination] = f.center;
+    for (const leg of f.legs ?? []) centers[leg.destination] = leg.center;
+  }
+
+  // Inject the eval client for every tier
+  const recordings = loadRecordings(RECORDINGS_PATH);
+  if (args.mode === "record" && args.upstream === "mock") {
+    setAIClientOverride(() => ({ openai: createRecordingClient(createMockClient(centers), recordings), model: "mock" }));
+  } else if (args.mode === "record") {
+    setAIClientOverride((tier, resolve) => {
+      const real = resolve(tier);
+      return { openai: createRecordingClient(real.openai, recordings), model: real.model };
+    });
+  } else if (args.mode === "replay") {
+    const recordedModel = Object.values(recordings.recordings)[0]?.model || "replay";
+    setAIClientOverride(() => ({ openai: createReplayClient(recordings), model: recordedModel }));
+  } else {
+    setAIClientOverride(() => ({ openai: createMockClient(centers), model: "mock" }));
+  }
+
+  const { openai, model } = getAIClient("premium");
+  console.log(`[Eval] ${fixtures.length} fixtures, mode=${args.mode}, model=${model}`);
+
+  const scores: FixtureScore[] = [];
+  let misses = 0;
+
+  for (const fixture of fixtures) {
+    const legs = fixture.legs?.map(({ destination, nights }) => ({ destination, nights }));
+    const destination = legs ? formatLegRoute(legs) : fixture.destination!;
+    const numDays = legs ? getLegsNumDays(legs) : fixture.numDays!;
+
+    const legPlan: LegPlan | undefined = legs
+      ? (() => {
+          const schedule = buildLegSchedule(legs, fixture.startDate);
+          return {
+            legs: schedule,
+            numDays,
+            transfers: schedule.slice(1).map((leg, i) => ({
+              fromLegIndex: leg.legIndex - 1,
+              toLegIndex: leg.legIndex,
+              from: schedule[leg.legIndex - 1].destination,
+              to: leg.destination,
+              dayIndex: leg.startDay,
+              date: leg.startDate,
+              mode: fixture.transfers?.[i]?.mode ?? "train",
+              durationHours: fixture.transfers?.[i]?.durationHours ?? 2,
+              costUSD: fixture.transfers?.[i]?.costUSD ?? 0,
+              note: fixture.transfers?.[i]?.note ?? "",
+            })),
+          };
+        })()
+      : undefined;
+
+    const groupProfile: GroupProfile = fixture.groupProfile ?? {
+      hasToddler: false,
+      hasElderly: false,
+      hasMobilityIssues: false,
+      groupSize: fixture.groupSize,
+    };
+
+    const input: StreamingItineraryInput = {
+      tripId: 0,
+      destination,
+      startDate: fixture.startDate,
+      numDays,
+      travelStyle: fixture.travelStyle,
+      budget: fixture.budget,
+      currency: "USD",
+      groupSize: fixture.groupSize,
+      passport: fixture.passport,
+      groupProfile,
+      legPlan,
+    };
+
+    const rawResponses: string[] = [];
+    const tapped: OpenAI = tapClient(openai, content => rawResponses.push(content));
+    const days: ItineraryDay[] = [];
+    const summaries: string[] = [];
+    const usedKeys = new Set<string>();
+
+    for (let i = 0; i < numDays; i++) {
+      try {
+        const day = await generateSingleDay(tapped, model, input, i, summaries, usedKeys);
+        if (day) {
+          days.push(day);
+          summaries.push(summarizeDay(day));
+        }
+      } catch (err) {
+        if (err instanceof RecordingMissError) {
+          misses++;
+          console.warn(`[Eval] ${fixture.id} day ${i + 1}: ${err.message}`);
+        } else {
+          console.error(`[Eval] ${fixture.id} day ${i + 1} failed:`, err);
+        }
+      }
+    }
+
+    const expectationForDay = (dayIndex: number): DayExpectation => {
+      if (legPlan && fixture.legs) {
+        const leg = legPlan.legs.find(l => dayIndex >= l.startDay && dayIndex < l.endDay) ?? legPlan.legs[legPlan.legs.length - 1];
+        const spec = fixture.legs[leg.legIndex];
+        return {
+          city: leg.destination,
+          center: spec.center,
+          radiusKm: spec.radiusKm,
+          otherCities: [
+            ...(fixture.otherCities ?? []),
+            ...fixture.legs.filter((_, i) => i !== leg.legIndex).map(l => cityName(l.destination)),
+          ],
+        };
+      }
+      return {
+        city: destination,
+        center: fixture.center!,
+        radiusKm: fixture.radiusKm ?? 50,
+        otherCities: fixture.otherCities ?? [],
+      };
+    };
+
+    const score = scoreItinerary({
+      id: fixture.id,
+      destination,
+      expectedDays: numDays,
+      budgetUSD: fixture.budget,
+      groupProfile,
+      days,
+      rawResponses,
+      expectationForDay,
+    });
+    scores.push(score);
+    console.log(`[Eval] ${fixture.id}: ${score.score}/100 (${score.days}/${numDays} days)`);
+  }
+
+  if (args.mode === "record") {
+    saveRecordings(RECORDINGS_PATH, recordings);
+    console.log(`[Eval] Saved ${Object.keys(recordings.recordings).length} recordings`);
+  }
+
+  // Record and replay runs of the same prompts are the same outputs - one baseline
+  const baselineMode: EvalMode = args.mode === "mock" ? "mock" : "replay";
+  const baselinePath = path.join(BASELINES_DIR, `${baselineMode}.json`);
+  const report = buildReport(args.mode, model, scores);
+  const baseline: EvalReport | null = fs.existsSync(baselinePath)
+    ? JSON.parse(fs.readFileSync(baselinePath, "utf-8"))
+    : null;
+  const diff = baseline ? diffReports(baseline, report, args.tolerance) : null;
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(OUT_DIR, "report.json"), JSON.stringify(report, null, 2) + "\n");
+  const markdown = renderMarkdown(report, diff, baseline);
+  fs.writeFileSync(path.join(OUT_DIR, "report.md"), markdown);
+  console.log(`\n${markdown}`);
+
+  if (args.updateBaseline && misses > 0) {
+    console.error(`[Eval] ${misses} day(s) had no recording - not updating the baseline from a partial run`);
+    return 1;
+  }
+  if (args.updateBaseline) {
+    fs.mkdirSync(BASELINES_DIR, { recursive: true });
+    fs.writeFileSync(baselinePath, JSON.stringify(report, null, 2) + "\n");
+    console.log(`[Eval] Baseline updated: ${path.relative(process.cwd(), baselinePath)}`);
+    return 0;
+  }
+
+  // A miss means the prompt under test was never evaluated - not a pass
+  let failed = false;
+  if (misses > 0) {
+    console.error(`[Eval] ${misses} day(s) had no recording - prompts changed since the last --mode record`);
+    failed = true;
+  }
+  if (diff && diff.regressions.length > 0) {
+    console.error(`[Eval] ${diff.regressions.length} regression(s) against baseline`);
+    failed = true;
+  }
+  return failed && !args.noFail ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error("[Eval] Failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,127 @@
+/**
+ * Knowledge Search Recall Eval
+ *
+ * Runs the labelled queries in server/eval/fixtures/knowledgeQueries.json
+ * through knowledge search with each retrieval setup and prints recall@k and
+ * MRR side by side. "vector" is the pre-hybrid behaviour, so the table shows
+ * recall before and after.
+ *
+ * Needs a database seeded with server/scripts/seedKnowledge.ts.
+ *
+ * Run with: npx tsx server/scripts/evalKnowledgeSearch.ts [options]
+ *
+ *   --min-similarity N   vector similarity floor (default 0.7, the search default)
+ *   --verbose            print the top results of every query
+ */
+
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { KnowledgeQueryParams } from "../../shared/knowledgeSchema";
+import { pool } from "../db";
+import { searchKnowledge } from "../services/knowledgeSearch";
+
+const __filename = fileURLToPath(import.meta.url);
+const QUERIES_PATH = path.join(path.dirname(__filename), "..", "eval", "fixtures", "knowledgeQueries.json");
+
+const K_VALUES = [1, 3, 5];
+
+interface LabelledQuery {
+  id: string;
+  query: string;
+  /** knowledge_documents.source_id values a good search returns */
+  relevant: string[];
+  filters?: Pick<KnowledgeQueryParams, "fromCountry" | "toCountry" | "sourceTypes" | "verifiedWithinDays">;
+}
+
+interface SearchSetup {
+  name: string;
+  params: Pick<KnowledgeQueryParams, "mode" | "rerank">;
+}
+
+const SETUPS: SearchSetup[] = [
+  { name: "vector (before)", params: { mode: "vector" } },
+  { name: "keyword", params: { mode: "keyword" } },
+  { name: "hybrid", params: { mode: "hybrid" } },
+  { name: "hybrid + heuristic", params: { mode: "hybrid", rerank: "heuristic" } },
+  ...(process.env.KNOWLEDGE_RERANK_URL
+    ? [{ name: "hybrid + cross-encoder", params: { mode: "hybrid", rerank: "cross-encoder" } } as SearchSetup]
+    : []),
+];
+
+function parseArgs(argv: string[]) {
+  const minIndex = argv.indexOf("--min-similarity");
+  return {
+    minSimilarity: minIndex >= 0 ? parseFloat(argv[minIndex + 1]) : 0.7,
+    verbose: argv.includes("--verbose"),
+  };
+}
+
+/** Share of relevant documents found in the top k */
+function recallAt(k: number, ranked: string[], relevant: string[]): number {
+  const top = new Set(ranked.slice(0, k));
+  return relevant.filter(id => top.has(id)).length / relevant.length;
+}
+
+/** 1 / rank of the first relevant document, 0 if none was returned */
+function reciprocalRank(ranked: string[], relevant: string[]): number {
+  const index = ranked.findIndex(id => relevant.includes(id));
+  return index >= 0 ? 1 / (index + 1) : 0;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const queries = JSON.parse(fs.readFileSync(QUERIES_PATH, "utf-8")) as LabelledQuery[];
+  const maxK = Math.max(...K_VALUES);
+
+  console.log(`[KnowledgeEval] ${queries.length} queries, minSimilarity ${args.minSimilarity}\n`);
+
+  const rows: string[] = [];
+  for (const setup of SETUPS) {
+    const recall = new Map(K_VALUES.map(k => [k, 0]));
+    let mrr = 0;
+    const misses: string[] = [];
+
+    for (const q of queries) {
+      const { results, reranker } = await searchKnowledge({
+        query: q.query,
+        limit: maxK,
+        minSimilarity: args.minSimilarity,
+        ...q.filters,
+        ...setup.params,
+      });
+      const ranked = results.map(r => r.sourceId);
+
+      for (const k of K_VALUES) {
+        recall.set(k, recall.get(k)! + recallAt(k, ranked, q.relevant));
+      }
+      mrr += reciprocalRank(ranked, q.relevant);
+      if (recallAt(maxK, ranked, q.relevant) < 1) misses.push(q.id);
+
+      if (args.verbose) {
+        console.log(`  [${setup.name}${reranker !== "none" ? `/${reranker}` : ""}] ${q.id}: ${ranked.join(", ") || "(none)"}`);
+      }
+    }
+
+    rows.push([
+      setup.name,
+      ...K_VALUES.map(k => (recall.get(k)! / queries.length).toFixed(2)),
+      (mrr / queries.length).toFixed(2),
+      misses.join(", ") || "-",
+    ].join(" | "));
+  }
+
+  console.log(`| setup | ${K_VALUES.map(k => `recall@${k}`).join(" | ")} | MRR | incomplete at @${maxK} |`);
+  console.log(`|${" --- |".repeat(K_VALUES.length + 3)}`);
+  for (const row of rows) {
+    console.log(`| ${row} |`);
+  }
+}
+
+main()
+  .then(() => pool.end())
+  .catch(err => {
+    console.error("[KnowledgeEval] Failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,51 @@
+/**
+ * Hash Existing API Keys
+ *
+ * One-off migration from plaintext api_keys.key to key_hash + key_prefix.
+ * Run once BEFORE `npm run db:push` (push would otherwise drop the key column
+ * and every existing key with it). Existing keys keep working afterwards.
+ *
+ * Run with: npx tsx server/scripts/hashApiKeys.ts
+ */
+
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { hashApiKey, getApiKeyPrefix } from "../middleware/apiAuth";
+
+async function main() {
+  const columns = await db.execute<{ column_name: string }>(sql`
+    SELECT column_name FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'key'
+  `);
+  if (columns.rows.length === 0) {
+    console.log("[HashApiKeys] api_keys.key not found - nothing to migrate");
+    return;
+  }
+
+  await db.execute(sql`ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_hash text`);
+  await db.execute(sql`ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix text`);
+
+  const rows = await db.execute<{ id: number; key: string }>(sql`
+    SELECT id, key FROM api_keys WHERE key IS NOT NULL AND key_hash IS NULL
+  `);
+
+  for (const row of rows.rows) {
+    await db.execute(sql`
+      UPDATE api_keys
+      SET key_hash = ${hashApiKey(row.key)}, key_prefix = ${getApiKeyPrefix(row.key)}
+      WHERE id = ${row.id}
+    `);
+  }
+  console.log(`[HashApiKeys] Hashed ${rows.rows.length} keys`);
+
+  await db.execute(sql`ALTER TABLE api_keys DROP COLUMN key`);
+  console.log("[HashApiKeys] Dropped plaintext api_keys.key - now run npm run db:push");
+}
+
+main()
+  .then(() => pool.end())
+  .catch(err => {
+    console.error("[HashApiKeys] Failed:", err);
+    process.exit(1);
+  });
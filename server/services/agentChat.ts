@@ -1,21 +1,36 @@
 /**
  * Agentic Chat Service
- * Intelligent assistant that remembers context and can update trips
+ * Intelligent assistant that remembers context and can update trips.
+ * Changes are proposed through function calling (see agentChatTools.ts) and
+ * held as pending changes until the user confirms them.
  */
 
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionToolMessageParam,
+} from 'openai/resources/chat/completions';
+import type { Trip, ChatAuthor, ChatMessageRecord, ChatProposal, ChatProposalStatus } from '@shared/schema';
 import { storage } from '../storage';
 import { fetchDestinationImage } from './unsplashService';
 import { BoundedMap } from '../utils/boundedMap';
 import { getAIClient } from './aiClientFactory';
-
-// Chat session memory - stores conversation context per trip
-interface ChatSession {
-visaStatus: any;
-  tripId: number;
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
-  tripContext: TripContext;
-  lastUpdated: Date;
-}
+import {
+  AGENT_CHAT_TOOLS,
+  LOOKUP_TOOLS,
+  ChatToolError,
+  toChatAction,
+  applyChatAction,
+  executeLookupTool,
+  type ChatAction,
+  type ChatDiffEntry,
+  type ChatDraft,
+} from './agentChatTools';
+
+const MAX_ITERATIONS = 5; // Maximum tool-calling rounds per message
+const MAX_TOOL_CALLS_PER_ROUND = 6;
+
+const HISTORY_FOR_MODEL = 20; // Messages of history sent with each request (~10 exchanges)
+const DEFAULT_HISTORY_PAGE = 50;
 
 interface TripContext {
   destination: string;
@@ -36,11 +51,6 @@ interface TripContext {
   hotels?: any[];
 }
 
-interface ChatAction {
-  type: 'none' | 'add_activity' | 'remove_activity' | 'update_activity' | 'change_dates' | 'update_budget' | 'add_day' | 'remove_day' | 'reorder_days';
-  data?: any;
-}
-
 interface ChatResponse {
   message: string;
   actions: ChatAction[];
@@ -56,6 +66,7 @@ interface PendingChanges {
   preview: {
     description: string;
     items: string[];
+    diff: ChatDiffEntry[];
     estimatedCostChange: number;
   };
   createdAt: Date;
@@ -100,81 +111,6 @@ async function hydrateActivityImage(
   return activity;
 }
 
-// ============================================================================
-// JSON PARSING
-// ============================================================================
-
-// Safe JSON parser for AI responses that may be malformed
-function safeParseActionJson(text: string): any | null {
-  if (!text || text.trim() === '') return null;
-
-  try {
-    return JSON.parse(text);
-  } catch {
-    // Try to repair common JSON issues from AI responses
-    let repaired = text.trim();
-
-    // Remove trailing comma before closing brackets
-    repaired = repaired.replace(/,\s*\}/g, '}');
-    repaired = repaired.replace(/,\s*\]/g, ']');
-
-    // Fix missing quotes around property names
-    repaired = repaired.replace(/(\{|,)\s*(\w+)\s*:/g, '$1"$2":');
-
-    // Fix single quotes to double quotes
-    repaired = repaired.replace(/'/g, '"');
-
-    // Remove trailing incomplete content
-    repaired = repaired.replace(/,\s*"[^"]*$/, ''); // incomplete property
-    repaired = repaired.replace(/:\s*"[^"]*$/, ': ""'); // incomplete string value
-    repaired = repaired.replace(/:\s*-?\d+\.?\d*$/, ': 0'); // incomplete number
-
-    // Balance brackets
-    const openBraces = (repaired.match(/\{/g) || []).length;
-    const closeBraces = (repaired.match(/\}/g) || []).length;
-    const openBrackets = (repaired.match(/\[/g) || []).length;
-    const closeBrackets = (repaired.match(/\]/g) || []).length;
-
-    for (let i = 0; i < openBrackets - closeBrackets; i++) repaired += ']';
-    for (let i = 0; i < openBraces - closeBraces; i++) repaired += '}';
-
-    try {
-      return JSON.parse(repaired);
-    } catch {
-      // Last resort: try to extract just the essential fields
-      try {
-        // For activity actions, try to extract key fields
-        const dayMatch = text.match(/"dayNumber"\s*:\s*(\d+)/);
-        const nameMatch = text.match(/"name"\s*:\s*"([^"]+)"/);
-        const timeMatch = text.match(/"time"\s*:\s*"([^"]+)"/);
-        const costMatch = text.match(/"cost"\s*:\s*(\d+)/);
-
-        if (dayMatch && nameMatch) {
-          return {
-            dayNumber: parseInt(dayMatch[1]),
-            activity: {
-              name: nameMatch[1],
-              time: timeMatch ? timeMatch[1] : "12:00",
-              cost: costMatch ? parseInt(costMatch[1]) : 0,
-              type: "activity",
-              description: nameMatch[1]
-            }
-          };
-        }
-      } catch {}
-
-      console.error('[AgentChat] JSON repair failed for:', text.substring(0, 200));
-      return null;
-    }
-  }
-}
-
-// In-memory session storage (bounded to prevent memory leaks; use Redis in production)
-const chatSessions = new BoundedMap<number, ChatSession>({ maxSize: 200, ttlMs: 2 * 60 * 60 * 1000 }); // 2h TTL
-
-// Pending changes cache - stores proposed changes awaiting user confirmation
-const pendingChangesCache = new BoundedMap<string, PendingChanges>({ maxSize: 200, ttlMs: 30 * 60 * 1000 }); // 30min TTL
-
 // Cached itinerary for fast updates
 const itineraryCache = new BoundedMap<number, { itinerary: any; cachedAt: Date }>({ maxSize: 200, ttlMs: 60 * 60 * 1000 }); // 1h TTL
 
@@ -193,32 +129,6 @@ export function getCachedItinerary(tripId: number): any | null {
   return cached?.itinerary || null;
 }
 
-/**
- * Get or create chat session for a trip
- */
-export async function getOrCreateSession(tripId: number): Promise<ChatSession> {
-  let session = chatSessions.get(tripId);
-
-  if (!session) {
-    const trip = await storage.getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
-
-    session = {
-      tripId,
-      messages: [],
-      tripContext: extractTripContext(trip),
-      lastUpdated: new Date(),
-      visaStatus: (trip.feasibilityReport as any)?.breakdown?.visa,
-    };
-
-    chatSessions.set(tripId, session);
-  }
-
-  return session;
-}
-
 /**
  * Extract context from trip for AI
  */
@@ -258,9 +168,9 @@ function buildSystemPrompt(context: TripContext): string {
       const cost = a.cost || a.estimatedCost || 0;
       totalItineraryCost += cost;
       activitiesCount++;
-      return `  - ${a.name} (${currencySymbol}${cost})`;
+      return `  - ${a.time || 'TBD'} ${a.name} [${a.type || 'activity'}] (${currencySymbol}${cost})`;
     }).join('\n') || '  (no activities)';
-    return `Day ${idx + 1}: ${day.title}\n${activities}`;
+    return `Day ${day.day ?? idx + 1}: ${day.title}${day.pace ? ` (${day.pace} pace)` : ''}\n${activities}`;
   }).join('\n\n') || 'No itinerary yet';
 
   const budgetBreakdown = context.feasibilityReport?.breakdown?.budget;
@@ -292,177 +202,31 @@ ${itinerarySummary}
 ${costBreakdown ? `
 Cost Categories:
 - Activities: ${currencySymbol}${costBreakdown.activities?.total || 0}
-- Accommodation: ${currencySymbol}${costBreakdown.accommodation?.total || 0}
+- Accommodation: ${currencySymbol}${costBreakdown.accommodation?.total || 0}${costBreakdown.accommodation?.hotelName ? ` (${costBreakdown.accommodation.hotelName}, ${currencySymbol}${costBreakdown.accommodation.perNight}/night)` : ''}
 - Flights/Transport: ${currencySymbol}${costBreakdown.flights?.total || 0}
 - Food (estimated): ${currencySymbol}${costBreakdown.food?.total || 0}` : ''}
 
-## YOUR CAPABILITIES
-You can help users with:
-1. **Suggest attractions** - Recommend nearby places, restaurants, activities
-2. **Update itinerary** - Add, remove, or modify activities (ALWAYS include cost!)
-3. **Adjust schedule** - Change activity order, swap days
-4. **Budget advice** - Suggest cost-effective alternatives, show budget breakdown
-5. **Local tips** - Provide insider knowledge about the destination
-6. **Answer questions** - About visa, weather, culture, transportation
+## YOUR TOOLS
+Change the trip only through tools - never describe a change as done. Every change tool call becomes a proposal the user reviews and confirms, so:
+1. Call one tool per change (add_activity, move_activity, swap_activities, remove_activity, set_day_pace, change_hotel, update_budget)
+2. Refer to existing activities by the exact name shown in the itinerary above
+3. If a tool returns an error, fix the arguments or explain the problem to the user
+4. Use find_nearby_places before adding a place you haven't seen in the itinerary, and get_visa_facts for any visa or entry question
+5. After proposing, tell the user what you proposed and the cost impact, and that they can apply or dismiss it
 
 ## CRITICAL: COST TRACKING
-When adding ANY activity, you MUST include a realistic cost estimate:
-- Free attractions: cost: 0
+When adding ANY activity, give a realistic cost for the whole group in ${context.currency} (${currencySymbol}):
+- Free attractions: 0
 - Museum/attraction entries: ${currencySymbol}10-50 per person
 - Tours/experiences: ${currencySymbol}30-150 per person
 - Restaurant meals: ${currencySymbol}15-80 per person
 - Transportation: ${currencySymbol}5-50
 
-If user asks to "update budget breakdown" or check their spending, summarize the current costs and how changes will affect the budget.
-
-## RESPONSE FORMAT
-When the user asks you to make changes, respond with:
-1. A friendly confirmation of what you'll do
-2. The cost impact (e.g., "This will add ${currencySymbol}XX to your trip")
-3. The specific changes in a structured format
-
-When suggesting changes, use this format:
-[ACTION: action_type]
-{json_data}
-[/ACTION]
-
-Action types:
-- ADD_ACTIVITY: {"dayNumber": 1, "activity": {"name": "...", "time": "10:00", "duration": "2 hours", "cost": 50, "type": "activity", "description": "...", "location": {"lat": 0, "lng": 0, "address": "..."}}}
-- REMOVE_ACTIVITY: {"dayNumber": 1, "activityIndex": 0}
-- UPDATE_ACTIVITY: {"dayNumber": 1, "activityIndex": 0, "updates": {...}}
-- REORDER_ACTIVITIES: {"dayNumber": 1, "newOrder": [2, 0, 1]}
-- UPDATE_DAY_TITLE: {"dayNumber": 1, "title": "New Title"}
-
-IMPORTANT RULES:
-1. ALL activities MUST have a "cost" field with a realistic ${context.currency} amount
-2. Include "type": "activity" for attractions, "type": "meal" for food, "type": "transport" for travel
-3. Always mention how changes affect the total budget
-4. Currency is ${context.currency} (${currencySymbol}) - do not use other currencies
+If the user asks to check their spending, summarize the current costs and how proposed changes would affect the budget. Currency is ${context.currency} (${currencySymbol}) - do not use other currencies.
 
 Be conversational and helpful while being precise about changes and costs.`;
 }
 
-/**
- * Parse AI response for actions
- */
-function parseActions(response: string): { cleanMessage: string; actions: ChatAction[] } {
-  const actions: ChatAction[] = [];
-  let cleanMessage = response;
-
-  // Track which parts of the response have been processed to avoid duplicates
-  const processedRanges: Array<{ start: number; end: number }> = [];
-
-  // Helper to check if a range overlaps with already processed ranges
-  const isOverlapping = (start: number, end: number): boolean => {
-    return processedRanges.some(range =>
-      (start >= range.start && start < range.end) ||
-      (end > range.start && end <= range.end) ||
-      (start <= range.start && end >= range.end)
-    );
-  };
-
-  // Helper to map action type string to ChatAction type
-  const mapActionType = (actionType: string): ChatAction['type'] => {
-    switch (actionType.toLowerCase()) {
-      case 'add_activity': return 'add_activity';
-      case 'remove_activity': return 'remove_activity';
-      case 'update_activity': return 'update_activity';
-      case 'reorder_activities': return 'reorder_days';
-      case 'update_day_title': return 'update_activity';
-      default: return 'none';
-    }
-  };
-
-  // Helper to generate a unique key for an action to detect duplicates
-  const getActionKey = (type: string, data: any): string => {
-    if (type === 'add_activity' && data?.activity?.name) {
-      return `add_${data.dayNumber}_${data.activity.name.toLowerCase().trim()}`;
-    }
-    if (type === 'remove_activity') {
-      return `remove_${data?.dayNumber}_${data?.activityIndex}`;
-    }
-    return `${type}_${JSON.stringify(data)}`;
-  };
-
-  const seenActionKeys = new Set<string>();
-
-  let match;
-
-  // First try with closing tags: [ACTION: type]...[/ACTION]
-  const actionRegexWithClose = /\[ACTION:\s*(\w+)\]\s*([\s\S]*?)\s*\[\/ACTION\]/gi;
-
-  while ((match = actionRegexWithClose.exec(response)) !== null) {
-    const matchStart = match.index;
-    const matchEnd = match.index + match[0].length;
-
-    // Skip if this range was already processed
-    if (isOverlapping(matchStart, matchEnd)) continue;
-
-    const actionType = match[1];
-    const actionDataStr = match[2].trim();
-
-    const actionData = safeParseActionJson(actionDataStr);
-    if (actionData) {
-      const mappedType = mapActionType(actionType);
-      if (mappedType !== 'none') {
-        const actionKey = getActionKey(mappedType, actionData);
-
-        // Skip if we've already seen this exact action
-        if (!seenActionKeys.has(actionKey)) {
-          seenActionKeys.add(actionKey);
-          actions.push({ type: mappedType, data: actionData });
-          processedRanges.push({ start: matchStart, end: matchEnd });
-          cleanMessage = cleanMessage.replace(match[0], '');
-          console.log(`[AgentChat] Parsed action (with close): ${actionType}`);
-        } else {
-          console.log(`[AgentChat] Skipping duplicate action: ${actionKey}`);
-        }
-      }
-    } else {
-      console.warn('[AgentChat] Could not parse action JSON (with close tag), skipping');
-    }
-  }
-
-  // Also try without closing tags: [ACTION: TYPE]\n{json}
-  const actionRegexNoClose = /\[ACTION:\s*(\w+)\]\s*\n\s*(\{[\s\S]*?\})/gi;
-
-  while ((match = actionRegexNoClose.exec(response)) !== null) {
-    const matchStart = match.index;
-    const matchEnd = match.index + match[0].length;
-
-    // Skip if this range was already processed by the first regex
-    if (isOverlapping(matchStart, matchEnd)) continue;
-
-    const actionType = match[1];
-    const actionDataStr = match[2].trim();
-
-    const actionData = safeParseActionJson(actionDataStr);
-    if (actionData) {
-      const mappedType = mapActionType(actionType);
-      if (mappedType !== 'none') {
-        const actionKey = getActionKey(mappedType, actionData);
-
-        // Skip if we've already seen this exact action
-        if (!seenActionKeys.has(actionKey)) {
-          seenActionKeys.add(actionKey);
-          actions.push({ type: mappedType, data: actionData });
-          processedRanges.push({ start: matchStart, end: matchEnd });
-          cleanMessage = cleanMessage.replace(match[0], '').trim();
-          console.log(`[AgentChat] Parsed action (no close): ${actionType}`);
-        } else {
-          console.log(`[AgentChat] Skipping duplicate action: ${actionKey}`);
-        }
-      }
-    } else {
-      console.warn('[AgentChat] Could not parse action data, skipping');
-    }
-  }
-
-  console.log(`[AgentChat] Parsed ${actions.length} unique actions from response`);
-
-  return { cleanMessage, actions };
-}
-
 /**
  * Deduplicate activities within an itinerary
  * Removes duplicate activities based on name similarity
@@ -527,127 +291,52 @@ export function deduplicateItinerary(itinerary: any): { itinerary: any; removedC
 }
 
 /**
- * Apply actions to update the trip
+ * Apply confirmed actions to the trip as it is now. Throws ChatToolError
+ * when an action no longer fits (e.g. the activity was removed meanwhile).
  */
-async function applyActions(tripId: number, actions: ChatAction[], context: TripContext): Promise<any> {
-  if (actions.length === 0) return null;
-
-  let itinerary = JSON.parse(JSON.stringify(context.itinerary || { days: [] }));
-  let totalCostChange = 0;
-
+async function applyActions(trip: Trip, actions: ChatAction[]): Promise<{
+  itinerary: any;
+  budget: number;
+  costChange: number;
+  totalItineraryCost: number;
+}> {
   // First, deduplicate any existing duplicates in the itinerary
-  const { itinerary: cleanedItinerary, removedCount } = deduplicateItinerary(itinerary);
-  itinerary = cleanedItinerary;
+  const { itinerary, removedCount } = deduplicateItinerary(JSON.parse(JSON.stringify(trip.itinerary || { days: [] })));
   if (removedCount > 0) {
     console.log(`[AgentChat] Cleaned up ${removedCount} existing duplicate(s) before applying new actions`);
   }
 
-  for (const action of actions) {
-    switch (action.type) {
-      case 'add_activity': {
-        const { dayNumber, activity } = action.data;
-        const dayIndex = dayNumber - 1;
-
-        if (itinerary.days[dayIndex]) {
-          if (!itinerary.days[dayIndex].activities) {
-            itinerary.days[dayIndex].activities = [];
-          }
-
-          // Check for duplicate activity - compare by name (case-insensitive) and time
-          const activityName = (activity.name || activity.description || '').toLowerCase().trim();
-          const activityTime = activity.time || '';
-
-          const isDuplicate = itinerary.days[dayIndex].activities.some((existing: any) => {
-            const existingName = (existing.name || existing.description || '').toLowerCase().trim();
-            const existingTime = existing.time || '';
-
-            // Consider duplicate if same name OR (same name prefix and same time)
-            if (existingName === activityName) return true;
-            if (activityTime && existingTime === activityTime &&
-                (existingName.includes(activityName) || activityName.includes(existingName))) {
-              return true;
-            }
-            return false;
-          });
-
-          if (isDuplicate) {
-            console.log(`[AgentChat] Skipping duplicate activity "${activity.name}" in Day ${dayNumber}`);
-          } else {
-            // Generate unique ID for activity
-            activity.id = `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-            // Hydrate activity with image before adding (non-blocking)
-            const hydratedActivity = await hydrateActivityImage(activity, context.destination);
-            itinerary.days[dayIndex].activities.push(hydratedActivity);
-            totalCostChange += hydratedActivity.cost || 0;
-
-            console.log(`[AgentChat] Added activity "${hydratedActivity.name}" to Day ${dayNumber}`);
-          }
-        }
-        break;
-      }
-
-      case 'remove_activity': {
-        const { dayNumber, activityIndex } = action.data;
-        const dayIndex = dayNumber - 1;
-
-        if (itinerary.days[dayIndex]?.activities?.[activityIndex]) {
-          const removed = itinerary.days[dayIndex].activities.splice(activityIndex, 1)[0];
-          totalCostChange -= removed.cost || 0;
-
-          console.log(`[AgentChat] Removed activity from Day ${dayNumber}`);
-        }
-        break;
-      }
-
-      case 'update_activity': {
-        const { dayNumber, activityIndex, updates, title } = action.data;
-        const dayIndex = dayNumber - 1;
-
-        // Update day title
-        if (title && itinerary.days[dayIndex]) {
-          itinerary.days[dayIndex].title = title;
-          console.log(`[AgentChat] Updated Day ${dayNumber} title to "${title}"`);
-        }
-
-        // Update specific activity
-        if (activityIndex !== undefined && itinerary.days[dayIndex]?.activities?.[activityIndex]) {
-          const oldCost = itinerary.days[dayIndex].activities[activityIndex].cost || 0;
-          Object.assign(itinerary.days[dayIndex].activities[activityIndex], updates);
-          const newCost = itinerary.days[dayIndex].activities[activityIndex].cost || 0;
-          totalCostChange += (newCost - oldCost);
+  let draft: ChatDraft = { itinerary, budget: trip.budget };
+  let totalCostChange = 0;
 
-          console.log(`[AgentChat] Updated activity in Day ${dayNumber}`);
+  for (const action of actions) {
+    const toApply: ChatAction = action.type === 'add_activity'
+      ? {
+          ...action,
+          activity: await hydrateActivityImage(
+            { ...action.activity, id: `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` },
+            trip.destination
+          ),
         }
-        break;
-      }
-
-      case 'reorder_days': {
-        const { dayNumber, newOrder } = action.data;
-        const dayIndex = dayNumber - 1;
+      : action;
 
-        if (itinerary.days[dayIndex]?.activities && newOrder) {
-          const activities = itinerary.days[dayIndex].activities;
-          const reordered = newOrder.map((idx: number) => activities[idx]).filter(Boolean);
-          itinerary.days[dayIndex].activities = reordered;
-
-          console.log(`[AgentChat] Reordered activities in Day ${dayNumber}`);
-        }
-        break;
-      }
-    }
+    const result = applyChatAction(draft, toApply);
+    draft = result.draft;
+    totalCostChange += result.diff.costChange;
+    console.log(`[AgentChat] Applied: ${result.diff.summary}`);
   }
 
-  // Save updated itinerary
-  await storage.updateTripItinerary(tripId, itinerary);
-
-  // Recalculate total costs
-  const totalItineraryCost = calculateItineraryCost(itinerary);
+  // Save updated itinerary (and budget, when the user changed it)
+  await storage.updateTripItinerary(trip.id, draft.itinerary);
+  if (draft.budget !== trip.budget) {
+    await storage.updateTrip(trip.id, { budget: draft.budget });
+  }
 
   return {
-    itinerary,
+    itinerary: draft.itinerary,
+    budget: draft.budget,
     costChange: totalCostChange,
-    totalItineraryCost,
+    totalItineraryCost: calculateItineraryCost(draft.itinerary),
   };
 }
 
@@ -659,7 +348,7 @@ function calculateItineraryCost(itinerary: any): number {
 
   return itinerary.days.reduce((total: number, day: any) => {
     const dayCost = day.activities?.reduce((dayTotal: number, activity: any) => {
-      return dayTotal + (activity.cost || 0);
+      return dayTotal + (activity.cost || activity.estimatedCost || 0);
     }, 0) || 0;
     return total + dayCost;
   }, 0);
@@ -667,78 +356,158 @@ function calculateItineraryCost(itinerary: any): number {
 
 /**
  * Main chat function - process user message
- * Does NOT auto-apply changes - proposes them for user confirmation
+ * Runs a function-calling loop: lookup tools answer directly, change tools
+ * are applied to a draft and collected as pending changes. Does NOT
+ * auto-apply changes - proposes them for user confirmation. The exchange
+ * (and any proposal) is saved to the trip's conversation.
  */
 export async function processChat(
   tripId: number,
-  userMessage: string
+  userMessage: string,
+  author: ChatAuthor | null = null
 ): Promise<ChatResponse> {
   try {
-    // Get session with context
-    const session = await getOrCreateSession(tripId);
-
-    // Refresh trip context and cache itinerary
     const trip = await storage.getTrip(tripId);
-    if (trip) {
-      session.tripContext = extractTripContext(trip);
-      cacheItinerary(tripId, trip.itinerary);
+    if (!trip) {
+      throw new Error('Trip not found');
     }
+    cacheItinerary(tripId, trip.itinerary);
+    const context = extractTripContext(trip);
+    const conversation = await storage.getTripConversation(tripId);
 
-    // Build messages for AI
-    const systemPrompt = buildSystemPrompt(session.tripContext);
-
-    // Keep more message history for better context retention (20 messages = ~10 exchanges)
     // The system prompt already contains full trip context, so we don't need unlimited history
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-      { role: 'system', content: systemPrompt },
-      ...session.messages.slice(-20), // Keep last 20 messages for better context
+    const history = (conversation?.messages ?? []).slice(-HISTORY_FOR_MODEL);
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: buildSystemPrompt(context) },
+      ...history.map(m => ({ role: m.role, content: m.content })),
       { role: 'user', content: userMessage },
     ];
 
-    // Call AI
+    // Proposals are applied to a draft so each tool call sees the earlier ones
+    let draft: ChatDraft = { itinerary: context.itinerary || { days: [] }, budget: context.budget };
+    const actions: ChatAction[] = [];
+    const diff: ChatDiffEntry[] = [];
+    const lookupContext = {
+      destination: context.destination,
+      passport: context.passport,
+      feasibilityReport: context.feasibilityReport,
+      itinerary: context.itinerary,
+    };
+
     const { openai, model } = getAIClient('premium');
-    const completion = await openai.chat.completions.create({
-      model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 2000,
-    });
+    let reply = '';
+
+    for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration++) {
+      const completion = await openai.chat.completions.create({
+        model,
+        messages,
+        tools: AGENT_CHAT_TOOLS,
+        tool_choice: iteration === MAX_ITERATIONS ? 'none' : 'auto', // Force a reply on the last round
+        temperature: 0.5,
+        max_tokens: 2000,
+      });
+
+      const message = completion.choices[0]?.message;
+      if (message?.content) {
+        reply = message.content;
+      }
+      if (!message?.tool_calls || message.tool_calls.length === 0) {
+        break;
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.tool_calls,
+      });
+
+      // Sequential on purpose: every proposal builds on the draft left by the previous one
+      for (let i = 0; i < message.tool_calls.length; i++) {
+        const toolCall = message.tool_calls[i];
+        // Access function properties - OpenAI SDK types vary by version
+        const fn = (toolCall as any).function;
+        const toolName: string = fn?.name || 'unknown';
+        const args = parseToolArguments(fn?.arguments);
+        let result: string;
+
+        if (i >= MAX_TOOL_CALLS_PER_ROUND) {
+          // Every tool call still needs an answer or the next request is rejected
+          result = JSON.stringify({ error: 'Too many tool calls at once; repeat this one in your next turn' });
+        } else if (LOOKUP_TOOLS.has(toolName)) {
+          result = await executeLookupTool(toolName, args, lookupContext);
+        } else {
+          try {
+            const action = toChatAction(toolName, args);
+            const applied = applyChatAction(draft, action);
+            draft = applied.draft;
+            actions.push(action);
+            diff.push(applied.diff);
+            result = JSON.stringify({
+              proposed: applied.diff.summary,
+              before: applied.diff.before,
+              after: applied.diff.after,
+              costChange: applied.diff.costChange,
+              status: 'awaiting user confirmation',
+            });
+          } catch (error) {
+            if (!(error instanceof ChatToolError)) throw error;
+            console.warn(`[AgentChat] Rejected ${toolName}: ${error.message}`);
+            result = JSON.stringify({ error: error.message });
+          }
+        }
 
-    const aiResponse = completion.choices[0]?.message?.content || '';
+        const toolMessage: ChatCompletionToolMessageParam = {
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: result,
+        };
+        messages.push(toolMessage);
+      }
+    }
 
-    // Parse response for actions
-    const { cleanMessage, actions } = parseActions(aiResponse);
+    if (!reply) {
+      reply = actions.length > 0
+        ? `I've prepared ${actions.length} change${actions.length > 1 ? 's' : ''} for you to review.`
+        : "Sorry, I couldn't work that out. Could you rephrase what you'd like to change?";
+    }
 
     // DON'T auto-apply - create pending changes for user confirmation
     let pendingChanges: PendingChanges | undefined;
     if (actions.length > 0) {
       const changeId = `change_${tripId}_${Date.now()}`;
-      const preview = generateChangePreview(actions, session.tripContext);
 
       pendingChanges = {
         id: changeId,
         tripId,
         actions,
-        preview,
+        preview: generateChangePreview(diff),
         createdAt: new Date(),
       };
 
-      // Store pending changes
-      pendingChangesCache.set(changeId, pendingChanges);
-
       console.log(`[AgentChat] Created pending changes ${changeId} with ${actions.length} action(s)`);
     }
 
-    // Save to conversation history
-    session.messages.push({ role: 'user', content: userMessage });
-    session.messages.push({ role: 'assistant', content: cleanMessage });
-    session.lastUpdated = new Date();
+    // Save the exchange; the proposal rides on the assistant message until it's resolved
+    const now = new Date().toISOString();
+    await storage.appendConversationMessages(tripId, [
+      { id: newMessageId(), role: 'user', content: userMessage, timestamp: now, author },
+      {
+        id: newMessageId(),
+        role: 'assistant',
+        content: reply,
+        timestamp: now,
+        author: null,
+        ...(pendingChanges && {
+          proposal: { id: pendingChanges.id, actions, preview: pendingChanges.preview, status: 'pending' as const },
+        }),
+      },
+    ], author?.userId ?? null);
 
     // Generate quick suggestions based on context
-    const suggestions = generateSuggestions(session.tripContext, userMessage);
+    const suggestions = generateSuggestions(context, userMessage);
 
     return {
-      message: cleanMessage,
+      message: reply,
       actions,
       suggestions,
       pendingChanges,
@@ -752,68 +521,72 @@ export async function processChat(
 }
 
 /**
- * Generate human-readable preview of proposed changes
+ * Tool arguments arrive as a JSON string; malformed JSON becomes an empty
+ * object so the schema check reports what's missing
  */
-function generateChangePreview(actions: ChatAction[], context: TripContext): PendingChanges['preview'] {
-  const items: string[] = [];
-  let costChange = 0;
-  const currencySymbol = getCurrencySymbol(context.currency);
-
-  for (const action of actions) {
-    switch (action.type) {
-      case 'add_activity':
-        const activity = action.data?.activity;
-        if (activity) {
-          items.push(`Add "${activity.name}" to Day ${action.data.dayNumber} at ${activity.time || 'TBD'}`);
-          costChange += activity.cost || 0;
-        }
-        break;
-      case 'remove_activity':
-        items.push(`Remove activity from Day ${action.data?.dayNumber}`);
-        break;
-      case 'update_activity':
-        items.push(`Update activity in Day ${action.data?.dayNumber}`);
-        break;
-      case 'reorder_days':
-        items.push(`Reorder activities in Day ${action.data?.dayNumber}`);
-        break;
-    }
+function parseToolArguments(raw: string | undefined): Record<string, any> {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
   }
+}
+
+/**
+ * Generate human-readable preview of proposed changes
+ */
+function generateChangePreview(diff: ChatDiffEntry[]): PendingChanges['preview'] {
+  const items = diff.map(entry => entry.summary);
 
   return {
-    description: items.length === 1 ? items[0] : `${items.length} changes to your itinerary`,
+    description: items.length === 1 ? items[0] : `${items.length} changes to your trip`,
     items,
-    estimatedCostChange: costChange,
+    diff,
+    estimatedCostChange: diff.reduce((sum, entry) => sum + entry.costChange, 0),
   };
 }
 
 /**
- * Apply pending changes after user confirmation
+ * Apply pending changes after user confirmation. The proposal is claimed
+ * (pending -> applying) before anything runs, so a concurrent reject or a
+ * second confirm - on any instance - finds it taken. The actions are then
+ * replayed against the trip as it is now; `conflict` is recorded when they
+ * no longer fit or applying fails.
  */
-export async function applyPendingChanges(changeId: string): Promise<{ success: boolean; updatedTrip?: any; error?: string }> {
-  const pending = pendingChangesCache.get(changeId);
-
+export async function applyPendingChanges(
+  tripId: number,
+  changeId: string,
+  resolvedBy: ChatAuthor | null = null
+): Promise<{ success: boolean; updatedTrip?: any; error?: string; conflict?: boolean }> {
+  const pending = await getPendingChanges(tripId, changeId);
   if (!pending) {
-    return { success: false, error: 'Changes expired or not found. Please try again.' };
+    return { success: false, error: 'Changes already handled or not found. Please try again.' };
   }
 
-  try {
-    const session = await getOrCreateSession(pending.tripId);
-    const updatedTrip = await applyActions(pending.tripId, pending.actions, session.tripContext);
+  const trip = await storage.getTrip(tripId);
+  if (!trip) {
+    return { success: false, error: 'Trip not found' };
+  }
 
-    // Update session context with new itinerary
-    if (updatedTrip?.itinerary) {
-      session.tripContext.itinerary = updatedTrip.itinerary;
-      cacheItinerary(pending.tripId, updatedTrip.itinerary);
-    }
+  if (!await resolveProposal(tripId, changeId, 'applying', resolvedBy)) {
+    return { success: false, conflict: true, error: 'These changes were already accepted or dismissed.' };
+  }
 
-    // Remove from pending cache
-    pendingChangesCache.delete(changeId);
+  try {
+    const updatedTrip = await applyActions(trip, pending.actions);
+    cacheItinerary(tripId, updatedTrip.itinerary);
+    await resolveProposal(tripId, changeId, 'applied', resolvedBy, 'applying');
 
     console.log(`[AgentChat] Applied pending changes ${changeId}`);
 
     return { success: true, updatedTrip };
   } catch (error) {
+    await resolveProposal(tripId, changeId, 'conflict', resolvedBy, 'applying').catch(err => {
+      console.error('[AgentChat] Failed to record conflict:', err);
+    });
+    if (error instanceof ChatToolError) {
+      return { success: false, conflict: true, error: `The trip changed since this was proposed: ${error.message}` };
+    }
     console.error('[AgentChat] Error applying changes:', error);
     return { success: false, error: 'Failed to apply changes' };
   }
@@ -822,16 +595,54 @@ export async function applyPendingChanges(changeId: string): Promise<{ success:
 /**
  * Reject/cancel pending changes
  */
-export function rejectPendingChanges(changeId: string): void {
-  pendingChangesCache.delete(changeId);
-  console.log(`[AgentChat] Rejected pending changes ${changeId}`);
+export async function rejectPendingChanges(tripId: number, changeId: string, resolvedBy: ChatAuthor | null = null): Promise<void> {
+  if (await resolveProposal(tripId, changeId, 'rejected', resolvedBy)) {
+    console.log(`[AgentChat] Rejected pending changes ${changeId}`);
+  }
 }
 
 /**
- * Get pending changes by ID
+ * Get a trip's still-pending proposal by ID
  */
-export function getPendingChanges(changeId: string): PendingChanges | undefined {
-  return pendingChangesCache.get(changeId);
+export async function getPendingChanges(tripId: number, changeId: string): Promise<PendingChanges | undefined> {
+  const conversation = await storage.getTripConversation(tripId);
+  const message = conversation?.messages.find(m => m.proposal?.id === changeId);
+  if (!message?.proposal || message.proposal.status !== 'pending') return undefined;
+
+  return toPendingChanges(tripId, message);
+}
+
+/**
+ * Move a proposal on from `fromStatus` (pending unless it was claimed for
+ * applying). Returns false when it was missing or already moved on.
+ */
+async function resolveProposal(
+  tripId: number,
+  changeId: string,
+  status: Exclude<ChatProposalStatus, 'pending'>,
+  resolvedBy: ChatAuthor | null,
+  fromStatus: 'pending' | 'applying' = 'pending'
+): Promise<boolean> {
+  return storage.resolveConversationProposal(tripId, changeId, {
+    status,
+    resolvedAt: new Date().toISOString(),
+    resolvedBy,
+  }, fromStatus);
+}
+
+function toPendingChanges(tripId: number, message: ChatMessageRecord): PendingChanges {
+  const proposal = message.proposal!;
+  return {
+    id: proposal.id,
+    tripId,
+    actions: proposal.actions as ChatAction[],
+    preview: proposal.preview as PendingChanges['preview'],
+    createdAt: new Date(message.timestamp),
+  };
+}
+
+function newMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
@@ -865,8 +676,11 @@ function generateSuggestions(context: TripContext, lastMessage: string): string[
  * Fallback response when AI fails
  */
 async function generateFallbackResponse(tripId: number, userMessage: string): Promise<ChatResponse> {
-  const session = await getOrCreateSession(tripId);
-  const context = session.tripContext;
+  const trip = await storage.getTrip(tripId);
+  if (!trip) {
+    throw new Error('Trip not found');
+  }
+  const context = extractTripContext(trip);
   const currencySymbol = getCurrencySymbol(context.currency);
   const lowerMessage = userMessage.toLowerCase();
 
@@ -951,26 +765,63 @@ async function generateFallbackResponse(tripId: number, userMessage: string): Pr
   };
 }
 
+/** A stored message as clients see it (proposal actions stay server-side) */
+export type ChatHistoryMessage = Omit<ChatMessageRecord, 'proposal'> & {
+  proposal?: Omit<ChatProposal, 'actions'>;
+};
+
 /**
- * Get chat history for a trip
+ * Thrown for a `before` cursor that isn't a message in this trip's history
  */
-export async function getChatHistory(tripId: number): Promise<Array<{ role: string; content: string; timestamp?: Date }>> {
-  const session = chatSessions.get(tripId);
-  if (!session) {
-    return [];
+export class ChatHistoryCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Unknown history cursor: ${cursor}`);
+    this.name = 'ChatHistoryCursorError';
   }
+}
+
+/**
+ * Get a page of a trip's chat history, oldest first. `before` is a message
+ * id from a previous page's `nextCursor`; without it the latest page is returned.
+ */
+export async function getChatHistory(
+  tripId: number,
+  options: { limit?: number; before?: string } = {}
+): Promise<{
+  messages: ChatHistoryMessage[];
+  hasMore: boolean;
+  nextCursor: string | null;
+  pendingChanges: PendingChanges | null;
+}> {
+  const conversation = await storage.getTripConversation(tripId);
+  const all = conversation?.messages ?? [];
+  const limit = options.limit ?? DEFAULT_HISTORY_PAGE;
+
+  const beforeIndex = options.before ? all.findIndex(m => m.id === options.before) : -1;
+  if (options.before && beforeIndex === -1) throw new ChatHistoryCursorError(options.before);
+  const end = beforeIndex === -1 ? all.length : beforeIndex;
+  const start = Math.max(0, end - limit);
+  const page = all.slice(start, end);
+
+  // The newest proposal still awaiting an answer, so a returning user can act on it
+  const latestPending = [...all].reverse().find(m => m.proposal?.status === 'pending');
 
-  return session.messages.map(msg => ({
-    role: msg.role,
-    content: msg.content,
-  }));
+  return {
+    messages: page.map(({ proposal, ...message }) => ({
+      ...message,
+      ...(proposal && { proposal: { id: proposal.id, preview: proposal.preview, status: proposal.status, resolvedAt: proposal.resolvedAt, resolvedBy: proposal.resolvedBy } }),
+    })),
+    hasMore: start > 0,
+    nextCursor: start > 0 ? page[0].id : null,
+    pendingChanges: latestPending ? toPendingChanges(tripId, latestPending) : null,
+  };
 }
 
 /**
  * Clear chat history for a trip
  */
-export function clearChatHistory(tripId: number): void {
-  chatSessions.delete(tripId);
+export async function clearChatHistory(tripId: number): Promise<void> {
+  await storage.deleteTripConversation(tripId);
 }
 
 /**
@@ -985,40 +836,3 @@ function getCurrencySymbol(currency: string): string {
   };
   return symbols[currency] || currency + ' ';
 }
-
-/**
- * Get nearby attractions for a location
- */
-export function getNearbyAttractions(destination: string, category?: string): any[] {
-  // This would connect to a real API in production
-  // For now, return curated suggestions based on destination
-  const attractions: Record<string, any[]> = {
-    'tokyo': [
-      { name: 'Senso-ji Temple', category: 'temple', cost: 0, lat: 35.7148, lng: 139.7967 },
-      { name: 'teamLab Borderless', category: 'museum', cost: 30, lat: 35.6264, lng: 139.7839 },
-      { name: 'Tsukiji Outer Market', category: 'food', cost: 20, lat: 35.6654, lng: 139.7707 },
-      { name: 'Shibuya Crossing', category: 'landmark', cost: 0, lat: 35.6595, lng: 139.7004 },
-    ],
-    'paris': [
-      { name: 'Eiffel Tower', category: 'landmark', cost: 25, lat: 48.8584, lng: 2.2945 },
-      { name: 'Louvre Museum', category: 'museum', cost: 17, lat: 48.8606, lng: 2.3376 },
-      { name: 'Montmartre', category: 'neighborhood', cost: 0, lat: 48.8867, lng: 2.3431 },
-      { name: 'Seine River Cruise', category: 'tour', cost: 15, lat: 48.8566, lng: 2.3522 },
-    ],
-    'bali': [
-      { name: 'Tegallalang Rice Terraces', category: 'nature', cost: 5, lat: -8.4312, lng: 115.2792 },
-      { name: 'Uluwatu Temple', category: 'temple', cost: 10, lat: -8.8291, lng: 115.0849 },
-      { name: 'Ubud Monkey Forest', category: 'nature', cost: 8, lat: -8.5185, lng: 115.2588 },
-      { name: 'Seminyak Beach', category: 'beach', cost: 0, lat: -8.6913, lng: 115.1576 },
-    ],
-  };
-
-  const destKey = destination.toLowerCase().split(',')[0].trim();
-  let results = attractions[destKey] || [];
-
-  if (category) {
-    results = results.filter(a => a.category === category);
-  }
-
-  return results;
-}
@@ -0,0 +1,73 @@
+/**
+ * Tests for the trip chat tools
+ *
+ * Run with: npx vitest run server/services/agentChatTools.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toChatAction, applyChatAction, ChatToolError, type ChatDraft } from './agentChatTools';
+
+function activity(time: string, name: string, type = 'activity', estimatedCost = 20) {
+  return { time, name, description: name, type, estimatedCost, duration: '2h', location: '', coordinates: { lat: 35.68, lng: 139.76 } };
+}
+
+const draft: ChatDraft = {
+  budget: 3000,
+  itinerary: {
+    days: [
+      {
+        day: 1, date: '2026-04-01', title: 'Asakusa',
+        activities: [
+          activity('08:00', 'Breakfast', 'meal', 15),
+          activity('09:00', 'Senso-ji Temple', 'activity', 0),
+          activity('11:00', 'Tokyo Skytree'),
+          activity('14:00', 'Sumida River Cruise'),
+          activity('17:00', 'Kappabashi Street'),
+        ],
+      },
+      { day: 2, date: '2026-04-02', title: 'Shibuya', activities: [activity('10:00', 'Meiji Shrine', 'activity', 0)] },
+    ],
+    costBreakdown: { accommodation: { hotelName: 'Hotel Gracery', perNight: 180, nights: 3, total: 540 } },
+  },
+};
+
+describe('toChatAction', () => {
+  it('types tool arguments and rejects ones that do not fit the schema', () => {
+    expect(toChatAction('move_activity', { from_day: 1, activity_name: 'Tokyo Skytree', to_day: 2, time: '9:30' }))
+      .toEqual({ type: 'move_activity', fromDay: 1, activityName: 'Tokyo Skytree', toDay: 2, time: '09:30' });
+    expect(() => toChatAction('set_day_pace', { day: 1, pace: 'frantic' })).toThrow(ChatToolError);
+    expect(() => toChatAction('book_flight', {})).toThrow(ChatToolError);
+  });
+});
+
+describe('applyChatAction', () => {
+  it('moves an activity and reports where it was and where it goes', () => {
+    const { draft: next, diff } = applyChatAction(draft, { type: 'move_activity', fromDay: 1, activityName: 'skytree', toDay: 2, time: '09:00' });
+
+    expect(next.itinerary.days[1].activities.map((a: any) => a.name)).toEqual(['Tokyo Skytree', 'Meiji Shrine']);
+    expect(diff).toMatchObject({ before: 'Day 1 11:00 Tokyo Skytree', after: 'Day 2 09:00 Tokyo Skytree', costChange: 0 });
+
+    // The input draft is not mutated
+    expect(draft.itinerary.days[0].activities).toHaveLength(5);
+  });
+
+  it('trims sights (not meals) to reach a relaxed pace and prices the change', () => {
+    const { draft: next, diff } = applyChatAction(draft, { type: 'set_day_pace', day: 1, pace: 'relaxed' });
+
+    expect(next.itinerary.days[0].pace).toBe('relaxed');
+    expect(next.itinerary.days[0].activities.map((a: any) => a.name)).toEqual(['Breakfast', 'Senso-ji Temple', 'Tokyo Skytree']);
+    expect(diff.costChange).toBe(-40);
+  });
+
+  it('reprices every night when the hotel changes', () => {
+    const { draft: next, diff } = applyChatAction(draft, { type: 'change_hotel', hotelName: 'Park Hyatt', pricePerNight: 600 });
+
+    expect(next.itinerary.costBreakdown.accommodation).toMatchObject({ hotelName: 'Park Hyatt', total: 1800 });
+    expect(diff.costChange).toBe(1260);
+  });
+
+  it('explains which activities exist when a name does not match', () => {
+    expect(() => applyChatAction(draft, { type: 'remove_activity', day: 2, activityName: 'Shibuya Sky' }))
+      .toThrow(/Activities that day: "Meiji Shrine"/);
+  });
+});
@@ -7,18 +7,37 @@
  *   fast      – Cheap extraction (classification, scraping, import)    → gpt-4o-mini
  *   auxiliary  – Low-stakes conversational (concierge)                  → gpt-4o-mini
  *
- * Env var cascade:
+ * Env var cascade (when no provider chain is configured):
  *   OPENAI_API_KEY          → primary (GPT-4o / GPT-4o-mini)
  *   DEEPSEEK_API_KEY        → legacy fallback (deepseek-chat)
  *
- * Model env overrides:
+ * Provider chains (see llmProviders.ts for the providers):
+ *   AI_PROVIDER            default chain for every tier, e.g. "ollama,openai"
+ *   AI_<TIER>_PROVIDER     per-tier chain, e.g. AI_FAST_PROVIDER="ollama:llama3.1:8b,openai"
+ *   Entries are provider[:model]; unconfigured providers are skipped and a
+ *   failed call moves on to the next entry.
+ *
+ * Model env overrides (first entry of the chain):
  *   AI_PREMIUM_MODEL   (default: gpt-4o)
  *   AI_STANDARD_MODEL  (default: gpt-4o)
  *   AI_FAST_MODEL      (default: gpt-4o-mini)
  *   AI_AUXILIARY_MODEL  (default: gpt-4o-mini)
+ *
+ * Offline runs (eval harness) inject a recorded/mock client with setAIClientOverride().
  */
 
-import OpenAI from 'openai';
+import type OpenAI from 'openai';
+import {
+  PROVIDERS,
+  PROVIDER_NAMES,
+  isProviderName,
+  asOpenAI,
+  createRecordingClient,
+  getReplayStore,
+  isReplayRecording,
+  saveRecordings,
+  type ProviderName,
+} from './llmProviders';
 
 // ============================================================================
 // TYPES
@@ -31,81 +50,112 @@ export interface AIClient {
   model: string;
 }
 
-// ============================================================================
-// DEFAULTS
-// ============================================================================
-
-const TIER_DEFAULTS: Record<AITier, string> = {
-  premium: 'gpt-4o',
-  standard: 'gpt-4o',
-  fast: 'gpt-4o-mini',
-  auxiliary: 'gpt-4o-mini',
-};
-
-const DEEPSEEK_FALLBACK_MODEL = 'deepseek-chat';
-const DEEPSEEK_BASE_URL = 'https://api.deepseek.com';
+/**
+ * Replaces the configured provider. Receives the normal resolver so a
+ * recorder can wrap the real client.
+ */
+export type AIClientOverride = (tier: AITier, resolve: (tier: AITier) => AIClient) => AIClient;
 
 // ============================================================================
-// SINGLETON CACHE (one OpenAI instance per unique baseURL)
+// PROVIDER CHAINS
 // ============================================================================
 
-const clientCache = new Map<string, OpenAI>();
-
-function getOrCreateOpenAI(apiKey: string, baseURL?: string): OpenAI {
-  const cacheKey = `${apiKey.slice(0, 8)}:${baseURL ?? 'default'}`;
-  let client = clientCache.get(cacheKey);
-  if (!client) {
-    client = new OpenAI({ apiKey, baseURL });
-    clientCache.set(cacheKey, client);
-  }
-  return client;
+interface ChainLink {
+  provider: ProviderName;
+  openai: OpenAI;
+  model: string;
 }
 
-// ============================================================================
-// PROVIDER DETECTION
-// ============================================================================
+/** Legacy detection order when no chain is configured; first configured wins */
+const LEGACY_DETECTION_ORDER: ProviderName[] = ['openai', 'deepseek', 'replit'];
 
-interface ProviderConfig {
-  apiKey: string;
-  baseURL?: string;
-  isDeepSeek: boolean;
+/**
+ * Parse "ollama:llama3.1:8b, openai" into provider/model pairs. Only the
+ * first colon separates the provider, since Ollama tags contain colons.
+ */
+function parseChain(spec: string): Array<{ provider: ProviderName; model?: string }> {
+  return spec.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const sep = entry.indexOf(':');
+    const name = (sep === -1 ? entry : entry.slice(0, sep)).toLowerCase();
+    if (!isProviderName(name)) {
+      throw new Error(`[AIClientFactory] Unknown AI provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+    return { provider: name, model: sep === -1 ? undefined : entry.slice(sep + 1) || undefined };
+  });
 }
 
-function detectProvider(): ProviderConfig | null {
-  // Priority 1: OpenAI key → use OpenAI API (no baseURL override)
-  if (process.env.OPENAI_API_KEY) {
-    return {
-      apiKey: process.env.OPENAI_API_KEY,
-      baseURL: undefined,  // default OpenAI endpoint
-      isDeepSeek: false,
-    };
+function resolveChain(tier: AITier): ChainLink[] {
+  const spec = process.env[`AI_${tier.toUpperCase()}_PROVIDER`] || process.env.AI_PROVIDER;
+  const entries: Array<{ provider: ProviderName; model?: string }> = spec
+    ? parseChain(spec)
+    : LEGACY_DETECTION_ORDER.filter(name => PROVIDERS[name].isConfigured()).slice(0, 1).map(provider => ({ provider }));
+
+  const tierModel = process.env[`AI_${tier.toUpperCase()}_MODEL`];
+  const links: ChainLink[] = [];
+
+  for (const entry of entries) {
+    const provider = PROVIDERS[entry.provider];
+    if (!provider.isConfigured()) continue;
+    links.push({
+      provider: entry.provider,
+      openai: provider.createClient(),
+      model: entry.model || (links.length === 0 && tierModel) || provider.defaultModel(tier),
+    });
   }
 
-  // Priority 2: DeepSeek key → use DeepSeek API
-  if (process.env.DEEPSEEK_API_KEY) {
-    return {
-      apiKey: process.env.DEEPSEEK_API_KEY,
-      baseURL: DEEPSEEK_BASE_URL,
-      isDeepSeek: true,
-    };
+  // Record-through: whatever answers after a replay miss is saved for next time
+  const replayIndex = links.findIndex(link => link.provider === 'replay');
+  if (replayIndex !== -1 && isReplayRecording()) {
+    const { filePath, store } = getReplayStore();
+    for (const link of links.slice(replayIndex + 1)) {
+      link.openai = createRecordingClient(link.openai, store, () => saveRecordings(filePath, store));
+    }
   }
 
-  // Priority 3: Legacy Replit OpenAI integration
-  if (process.env.AI_INTEGRATIONS_OPENAI_API_KEY) {
-    return {
-      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-      isDeepSeek: false,
-    };
-  }
+  return links;
+}
 
-  return null;
+/**
+ * One client over the whole chain: each call tries the links in order.
+ * Callers pass back the model getAIClient() returned, which is swapped for
+ * each link's own model.
+ */
+function createFallbackClient(tier: AITier, links: ChainLink[]): OpenAI {
+  return asOpenAI(async (params) => {
+    let lastError: unknown;
+    for (let i = 0; i < links.length; i++) {
+      const link = links[i];
+      try {
+        const model = params.model === links[0].model ? link.model : params.model;
+        return await link.openai.chat.completions.create({ ...params, model } as any);
+      } catch (error) {
+        lastError = error;
+        if (i < links.length - 1) {
+          console.warn(
+            `[AIClientFactory] ${tier} provider ${i + 1}/${links.length} failed, falling back:`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+      }
+    }
+    throw lastError;
+  });
 }
 
 // ============================================================================
 // PUBLIC API
 // ============================================================================
 
+let clientOverride: AIClientOverride | null = null;
+
+/**
+ * Inject a client for every tier (null restores the configured provider).
+ * Modules that cache a client at import time must be imported after this.
+ */
+export function setAIClientOverride(override: AIClientOverride | null): void {
+  clientOverride = override;
+}
+
 /**
  * Get an OpenAI client + model string for the given tier.
  *
@@ -113,43 +163,40 @@ function detectProvider(): ProviderConfig | null {
  * If only DEEPSEEK_API_KEY is set, all tiers fall back to deepseek-chat.
  */
 export function getAIClient(tier: AITier = 'premium'): AIClient {
-  const provider = detectProvider();
-  if (!provider) {
+  return clientOverride ? clientOverride(tier, resolveProviderClient) : resolveProviderClient(tier);
+}
+
+function resolveProviderClient(tier: AITier): AIClient {
+  const links = resolveChain(tier);
+  if (links.length === 0) {
     throw new Error(
-      '[AIClientFactory] No AI API key configured. Set OPENAI_API_KEY or DEEPSEEK_API_KEY.'
+      '[AIClientFactory] No AI API key configured. Set OPENAI_API_KEY or DEEPSEEK_API_KEY, or AI_PROVIDER=ollama.'
     );
   }
 
-  // Resolve model for this tier
-  const envKey = `AI_${tier.toUpperCase()}_MODEL`;
-  let model: string;
-
-  if (provider.isDeepSeek) {
-    // DeepSeek mode: all tiers use deepseek-chat (or env override)
-    model = process.env[envKey] || DEEPSEEK_FALLBACK_MODEL;
-  } else {
-    // OpenAI mode: use tier-specific model
-    model = process.env[envKey] || TIER_DEFAULTS[tier];
+  if (links.length === 1) {
+    return { openai: links[0].openai, model: links[0].model };
   }
-
-  const openai = getOrCreateOpenAI(provider.apiKey, provider.baseURL);
-
-  return { openai, model };
+  return { openai: createFallbackClient(tier, links), model: links[0].model };
 }
 
 /**
  * Check if any AI provider is configured.
  */
 export function isAIConfigured(): boolean {
-  return detectProvider() !== null;
+  if (clientOverride !== null) return true;
+  try {
+    return resolveChain('premium').length > 0;
+  } catch {
+    return false;
+  }
 }
 
 /**
  * Log that AI is configured (no provider/model names exposed).
  */
 export function logAIConfig(): void {
-  const provider = detectProvider();
-  if (!provider) {
+  if (!isAIConfigured()) {
     console.log('[AIClientFactory] No AI provider configured');
     return;
   }
@@ -0,0 +1,267 @@
+/**
+ * API Key Service
+ *
+ * Self-service B2B API keys for Business-plan users: create, list, rotate,
+ * revoke, plus per-key, per-endpoint daily usage.
+ *
+ * - Only a SHA-256 hash and a display prefix are stored; the full key is
+ *   returned once, by create and rotate
+ * - Usage is counted per UTC day in api_key_usage (one upserted row per
+ *   key/day/endpoint), recorded after each API response
+ */
+
+import { db } from "../db";
+import { apiKeys, apiKeyUsage, SUBSCRIPTION_TIERS, type ApiKey } from "@shared/schema";
+import { and, asc, eq, gte, sql } from "drizzle-orm";
+import { generateApiKey, hashApiKey, getApiKeyPrefix } from "../middleware/apiAuth";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const API_KEY_CONFIG = {
+  maxActiveKeysPerUser: 10,
+  defaultRateLimit: 10_000, // Requests per day for Business keys
+  defaultPermissions: ['read', 'write'],
+  maxUsageDays: 90,
+};
+
+export const API_KEY_PERMISSIONS = ['read', 'write'] as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateApiKeyInput {
+  name: string;
+  description?: string;
+  permissions?: string[];
+  expiresInDays?: number;
+  test?: boolean;
+}
+
+export interface ApiKeyUsageDay {
+  day: string;
+  requests: number;
+  errors: number;
+  quota: number;
+  quotaUsedPercent: number;
+  endpoints: Array<{ endpoint: string; requests: number; errors: number }>;
+}
+
+export interface ApiKeyUsageReport {
+  apiKeyId: number;
+  from: string;
+  to: string;
+  totalRequests: number;
+  totalErrors: number;
+  days: ApiKeyUsageDay[];
+  endpoints: Array<{ endpoint: string; requests: number; errors: number }>;
+}
+
+export class ApiKeyLimitError extends Error {
+  constructor(limit: number) {
+    super(`You can have at most ${limit} active API keys. Revoke one to create another.`);
+    this.name = "ApiKeyLimitError";
+  }
+}
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/**
+ * Key management is a Business-plan feature (SUBSCRIPTION_TIERS apiAccess)
+ */
+export function canManageApiKeys(subscriptionTier: string | null | undefined): boolean {
+  const tier = SUBSCRIPTION_TIERS[(subscriptionTier || 'free') as keyof typeof SUBSCRIPTION_TIERS];
+  return !!tier && 'apiAccess' in tier.features && tier.features.apiAccess === true;
+}
+
+// ============================================================================
+// KEY LIFECYCLE
+// ============================================================================
+
+export async function listApiKeys(userId: number): Promise<ApiKey[]> {
+  return db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(asc(apiKeys.createdAt));
+}
+
+export async function getOwnedApiKey(userId: number, apiKeyId: number): Promise<ApiKey | null> {
+  const [key] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.userId, userId)))
+    .limit(1);
+  return key ?? null;
+}
+
+/**
+ * Create a key. Returns the stored row and the plaintext key (shown once).
+ */
+export async function createApiKey(userId: number, input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), eq(apiKeys.isActive, true)));
+
+  if (count >= API_KEY_CONFIG.maxActiveKeysPerUser) {
+    throw new ApiKeyLimitError(API_KEY_CONFIG.maxActiveKeysPerUser);
+  }
+
+  const key = generateApiKey(input.test === true);
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      userId,
+      keyHash: hashApiKey(key),
+      keyPrefix: getApiKeyPrefix(key),
+      name: input.name,
+      description: input.description ?? null,
+      permissions: input.permissions ?? API_KEY_CONFIG.defaultPermissions,
+      rateLimit: API_KEY_CONFIG.defaultRateLimit,
+      tier: 'business',
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    })
+    .returning();
+
+  console.log(`[API Keys] Created key ${apiKey.id} (${apiKey.keyPrefix}…) for user ${userId}`);
+  return { apiKey, key };
+}
+
+/**
+ * Replace the secret of an active key. The old key stops working
+ * immediately; name, permissions, limits and usage history are kept.
+ */
+export async function rotateApiKey(userId: number, apiKeyId: number): Promise<{ apiKey: ApiKey; key: string } | null> {
+  const existing = await getOwnedApiKey(userId, apiKeyId);
+  if (!existing || !existing.isActive) return null;
+
+  const key = generateApiKey(existing.keyPrefix.startsWith('sk_test_'));
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({
+      keyHash: hashApiKey(key),
+      keyPrefix: getApiKeyPrefix(key),
+      rotatedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.userId, userId)))
+    .returning();
+
+  console.log(`[API Keys] Rotated key ${apiKeyId} for user ${userId}`);
+  return { apiKey, key };
+}
+
+export async function revokeApiKey(userId: number, apiKeyId: number): Promise<ApiKey | null> {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ isActive: false, revokedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.userId, userId)))
+    .returning();
+
+  if (apiKey) {
+    console.log(`[API Keys] Revoked key ${apiKeyId} for user ${userId}`);
+  }
+  return apiKey ?? null;
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Route-shaped endpoint name, so ids don't split the counts:
+ * GET /api/v1/trips/123/feasibility?x=1 → "GET /api/v1/trips/:id/feasibility"
+ */
+export function normalizeEndpoint(method: string, url: string): string {
+  const path = url.split('?')[0].replace(/\/+$/, '') || '/';
+  return `${method.toUpperCase()} ${path.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+/**
+ * Count one request. Fire-and-forget: analytics must never fail a request.
+ */
+export function recordApiKeyUsage(apiKeyId: number, method: string, url: string, statusCode: number): void {
+  const isError = statusCode >= 400 ? 1 : 0;
+  db.insert(apiKeyUsage)
+    .values({
+      apiKeyId,
+      day: utcDay(new Date()),
+      endpoint: normalizeEndpoint(method, url),
+      requestCount: 1,
+      errorCount: isError,
+    })
+    .onConflictDoUpdate({
+      target: [apiKeyUsage.apiKeyId, apiKeyUsage.day, apiKeyUsage.endpoint],
+      set: {
+        requestCount: sql`${apiKeyUsage.requestCount} + 1`,
+        errorCount: sql`${apiKeyUsage.errorCount} + ${isError}`,
+        updatedAt: new Date(),
+      },
+    })
+    .catch(err => {
+      console.error(`[API Keys] Failed to record usage for key ${apiKeyId}:`, err);
+    });
+}
+
+/**
+ * Daily request counts for the last `days` days (including today, zero-filled),
+ * with quota consumption against the key's daily rate limit
+ */
+export async function getApiKeyUsage(apiKey: ApiKey, days: number): Promise<ApiKeyUsageReport> {
+  const span = Math.min(Math.max(1, days), API_KEY_CONFIG.maxUsageDays);
+  const today = new Date();
+  const fromDate = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (span - 1)));
+  const from = utcDay(fromDate);
+  const to = utcDay(today);
+  const quota = apiKey.rateLimit || 1000;
+
+  const rows = await db
+    .select()
+    .from(apiKeyUsage)
+    .where(and(eq(apiKeyUsage.apiKeyId, apiKey.id), gte(apiKeyUsage.day, from)))
+    .orderBy(asc(apiKeyUsage.day), asc(apiKeyUsage.endpoint));
+
+  const byDay = new Map<string, ApiKeyUsageDay>();
+  for (let i = 0; i < span; i++) {
+    const day = utcDay(new Date(fromDate.getTime() + i * 24 * 60 * 60 * 1000));
+    byDay.set(day, { day, requests: 0, errors: 0, quota, quotaUsedPercent: 0, endpoints: [] });
+  }
+
+  const byEndpoint = new Map<string, { endpoint: string; requests: number; errors: number }>();
+  for (const row of rows) {
+    const day = byDay.get(row.day);
+    if (!day) continue;
+    day.requests += row.requestCount;
+    day.errors += row.errorCount;
+    day.endpoints.push({ endpoint: row.endpoint, requests: row.requestCount, errors: row.errorCount });
+
+    const total = byEndpoint.get(row.endpoint) ?? { endpoint: row.endpoint, requests: 0, errors: 0 };
+    total.requests += row.requestCount;
+    total.errors += row.errorCount;
+    byEndpoint.set(row.endpoint, total);
+  }
+
+  const dayList = Array.from(byDay.values());
+  for (const day of dayList) {
+    day.quotaUsedPercent = Math.round((day.requests / quota) * 1000) / 10;
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    from,
+    to,
+    totalRequests: dayList.reduce((sum, d) => sum + d.requests, 0),
+    totalErrors: dayList.reduce((sum, d) => sum + d.errors, 0),
+    days: dayList,
+    endpoints: Array.from(byEndpoint.values()).sort((a, b) => b.requests - a.requests),
+  };
+}
@@ -5,6 +5,10 @@
 
 import { randomBytes, createHash } from 'crypto';
 import { z } from 'zod';
+import { eq, lt } from 'drizzle-orm';
+import { users, sessions, emailVerificationTokens, passwordResetTokens, type User } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
 
 // ============================================================================
 // CONFIGURATION
@@ -14,6 +18,8 @@ const AUTH_CONFIG = {
   sessionDuration: 30 * 24 * 60 * 60 * 1000, // 30 days
   passwordMinLength: 8,
   tokenExpiry: 24 * 60 * 60 * 1000, // 24 hours for email verification/reset tokens
+  sweepInterval: 60 * 60 * 1000, // Delete expired sessions/tokens hourly
+  maxAdoptedTrips: 50, // Anonymous trips linked to an account on login
 };
 
 // ============================================================================
@@ -88,52 +94,6 @@ export function generateSessionId(): string {
   return randomBytes(32).toString('hex');
 }
 
-// ============================================================================
-// IN-MEMORY STORAGE (Replace with database in production)
-// ============================================================================
-
-interface StoredUser {
-  id: number;
-  email: string;
-  password: string | null;
-  name: string | null;
-  avatar: string | null;
-  googleId: string | null;
-  subscriptionTier: string;
-  emailVerified: boolean;
-  emailNotifications: boolean;
-  preferredCurrency: string;
-  homeAirport: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-interface StoredSession {
-  id: string;
-  userId: number;
-  expiresAt: Date;
-  createdAt: Date;
-  userAgent?: string;
-  ipAddress?: string;
-}
-
-interface StoredToken {
-  id: number;
-  userId: number;
-  token: string;
-  expiresAt: Date;
-  createdAt: Date;
-}
-
-// In-memory stores
-const usersStore = new Map<number, StoredUser>();
-const sessionsStore = new Map<string, StoredSession>();
-const emailVerificationTokens = new Map<string, StoredToken>();
-const passwordResetTokens = new Map<string, StoredToken>();
-
-let userIdCounter = 1;
-let tokenIdCounter = 1;
-
 // ============================================================================
 // USER OPERATIONS
 // ============================================================================
@@ -157,33 +117,32 @@ export interface UserResponse {
   createdAt: Date;
 }
 
+/** Profile fields that can be changed through updateUser */
+export type UserUpdates = Partial<Pick<User,
+  'name' | 'avatar' | 'preferredCurrency' | 'homeAirport' | 'emailNotifications' | 'emailVerified' | 'googleId' | 'password'
+>>;
+
 /**
  * Create a new user
  */
 export async function createUser(input: CreateUserInput): Promise<UserResponse> {
   // Check if email already exists
-  const existingUser = Array.from(usersStore.values()).find(u => u.email === input.email);
+  const existingUser = await getUserByEmail(input.email);
   if (existingUser) {
     throw new Error('Email already registered');
   }
 
-  const user: StoredUser = {
-    id: userIdCounter++,
-    email: input.email,
-    password: input.password ? hashPassword(input.password) : null,
-    name: input.name || null,
-    avatar: null,
-    googleId: input.googleId || null,
-    subscriptionTier: 'free',
-    emailVerified: !!input.googleId, // Auto-verify OAuth users
-    emailNotifications: true,
-    preferredCurrency: 'USD',
-    homeAirport: null,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: input.email,
+      password: input.password ? hashPassword(input.password) : null,
+      name: input.name || null,
+      googleId: input.googleId || null,
+      emailVerified: !!input.googleId, // Auto-verify OAuth users
+    })
+    .returning();
 
-  usersStore.set(user.id, user);
   console.log(`[Auth] User created: ${user.email} (ID: ${user.id})`);
 
   return sanitizeUser(user);
@@ -192,48 +151,45 @@ export async function createUser(input: CreateUserInput): Promise<UserResponse>
 /**
  * Get user by email
  */
-export async function getUserByEmail(email: string): Promise<StoredUser | null> {
-  return Array.from(usersStore.values()).find(u => u.email === email) || null;
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const [user] = await db.select().from(users).where(eq(users.email, email));
+  return user || null;
 }
 
 /**
  * Get user by ID
  */
 export async function getUserById(id: number): Promise<UserResponse | null> {
-  const user = usersStore.get(id);
+  const [user] = await db.select().from(users).where(eq(users.id, id));
   return user ? sanitizeUser(user) : null;
 }
 
 /**
  * Update user
  */
-export async function updateUser(id: number, updates: Partial<StoredUser>): Promise<UserResponse | null> {
-  const user = usersStore.get(id);
-  if (!user) return null;
-
-  const updatedUser = {
-    ...user,
-    ...updates,
-    updatedAt: new Date(),
-  };
-  usersStore.set(id, updatedUser);
-  return sanitizeUser(updatedUser);
+export async function updateUser(id: number, updates: UserUpdates): Promise<UserResponse | null> {
+  const [updatedUser] = await db
+    .update(users)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(users.id, id))
+    .returning();
+  return updatedUser ? sanitizeUser(updatedUser) : null;
 }
 
 /**
  * Remove sensitive data from user object
  */
-function sanitizeUser(user: StoredUser): UserResponse {
+function sanitizeUser(user: User): UserResponse {
   return {
     id: user.id,
     email: user.email,
     name: user.name,
     avatar: user.avatar,
-    subscriptionTier: user.subscriptionTier,
-    emailVerified: user.emailVerified,
-    preferredCurrency: user.preferredCurrency,
+    subscriptionTier: user.subscriptionTier || 'free',
+    emailVerified: !!user.emailVerified,
+    preferredCurrency: user.preferredCurrency || 'USD',
     homeAirport: user.homeAirport,
-    createdAt: user.createdAt,
+    createdAt: user.createdAt || new Date(),
   };
 }
 
@@ -255,7 +211,7 @@ export async function createSession(
   userAgent?: string,
   ipAddress?: string
 ): Promise<SessionInfo> {
-  const user = usersStore.get(userId);
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
   if (!user) {
     throw new Error('User not found');
   }
@@ -263,16 +219,15 @@ export async function createSession(
   const sessionId = generateSessionId();
   const expiresAt = new Date(Date.now() + AUTH_CONFIG.sessionDuration);
 
-  const session: StoredSession = {
+  await db.insert(sessions).values({
     id: sessionId,
     userId,
     expiresAt,
-    createdAt: new Date(),
-    userAgent,
-    ipAddress,
-  };
+    userAgent: userAgent || null,
+    ipAddress: ipAddress || null,
+  });
 
-  sessionsStore.set(sessionId, session);
+  await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, userId));
   console.log(`[Auth] Session created for user ${userId}`);
 
   return {
@@ -286,25 +241,24 @@ export async function createSession(
  * Validate a session and return user info
  */
 export async function validateSession(sessionId: string): Promise<SessionInfo | null> {
-  const session = sessionsStore.get(sessionId);
-  if (!session) return null;
+  const [row] = await db
+    .select({ session: sessions, user: users })
+    .from(sessions)
+    .leftJoin(users, eq(sessions.userId, users.id))
+    .where(eq(sessions.id, sessionId));
 
-  // Check if expired
-  if (session.expiresAt < new Date()) {
-    sessionsStore.delete(sessionId);
-    return null;
-  }
+  if (!row) return null;
 
-  const user = usersStore.get(session.userId);
-  if (!user) {
-    sessionsStore.delete(sessionId);
+  // Expired or orphaned sessions are removed on sight; the sweeper handles the rest
+  if (row.session.expiresAt < new Date() || !row.user) {
+    await db.delete(sessions).where(eq(sessions.id, sessionId));
     return null;
   }
 
   return {
-    id: session.id,
-    user: sanitizeUser(user),
-    expiresAt: session.expiresAt,
+    id: row.session.id,
+    user: sanitizeUser(row.user),
+    expiresAt: row.session.expiresAt,
   };
 }
 
@@ -312,27 +266,74 @@ export async function validateSession(sessionId: string): Promise<SessionInfo |
  * Invalidate a session (logout)
  */
 export async function invalidateSession(sessionId: string): Promise<boolean> {
-  const deleted = sessionsStore.delete(sessionId);
-  if (deleted) {
+  const deleted = await db
+    .delete(sessions)
+    .where(eq(sessions.id, sessionId))
+    .returning({ id: sessions.id });
+  if (deleted.length > 0) {
     console.log(`[Auth] Session invalidated: ${sessionId.substring(0, 8)}...`);
   }
-  return deleted;
+  return deleted.length > 0;
 }
 
 /**
  * Invalidate all sessions for a user
  */
 export async function invalidateAllUserSessions(userId: number): Promise<number> {
-  let count = 0;
-  const entries = Array.from(sessionsStore.entries());
-  for (const [id, session] of entries) {
-    if (session.userId === userId) {
-      sessionsStore.delete(id);
-      count++;
-    }
+  const deleted = await db
+    .delete(sessions)
+    .where(eq(sessions.userId, userId))
+    .returning({ id: sessions.id });
+  console.log(`[Auth] Invalidated ${deleted.length} sessions for user ${userId}`);
+  return deleted.length;
+}
+
+/**
+ * Delete expired sessions and verification/reset tokens
+ */
+export async function sweepExpiredSessions(): Promise<{ sessions: number; tokens: number }> {
+  const now = new Date();
+
+  const expiredSessions = await db
+    .delete(sessions)
+    .where(lt(sessions.expiresAt, now))
+    .returning({ id: sessions.id });
+  const expiredVerifications = await db
+    .delete(emailVerificationTokens)
+    .where(lt(emailVerificationTokens.expiresAt, now))
+    .returning({ id: emailVerificationTokens.id });
+  const expiredResets = await db
+    .delete(passwordResetTokens)
+    .where(lt(passwordResetTokens.expiresAt, now))
+    .returning({ id: passwordResetTokens.id });
+
+  const result = {
+    sessions: expiredSessions.length,
+    tokens: expiredVerifications.length + expiredResets.length,
+  };
+  if (result.sessions > 0 || result.tokens > 0) {
+    console.log(`[Auth] Swept ${result.sessions} expired sessions, ${result.tokens} expired tokens`);
   }
-  console.log(`[Auth] Invalidated ${count} sessions for user ${userId}`);
-  return count;
+  return result;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic expired-session sweep (idempotent)
+ */
+export function startSessionSweeper(): void {
+  if (sweepTimer) return;
+
+  const run = () => {
+    sweepExpiredSessions().catch(err => {
+      console.error('[Auth] Session sweep failed:', err);
+    });
+  };
+
+  run();
+  sweepTimer = setInterval(run, AUTH_CONFIG.sweepInterval);
+  sweepTimer.unref();
 }
 
 // ============================================================================
@@ -344,15 +345,13 @@ export async function invalidateAllUserSessions(userId: number): Promise<number>
  */
 export async function createEmailVerificationToken(userId: number): Promise<string> {
   const token = generateToken();
-  const tokenRecord: StoredToken = {
-    id: tokenIdCounter++,
+
+  await db.insert(emailVerificationTokens).values({
     userId,
     token,
     expiresAt: new Date(Date.now() + AUTH_CONFIG.tokenExpiry),
-    createdAt: new Date(),
-  };
+  });
 
-  emailVerificationTokens.set(token, tokenRecord);
   return token;
 }
 
@@ -360,25 +359,21 @@ export async function createEmailVerificationToken(userId: number): Promise<stri
  * Verify email with token
  */
 export async function verifyEmail(token: string): Promise<boolean> {
-  const tokenRecord = emailVerificationTokens.get(token);
-  if (!tokenRecord) return false;
+  // Tokens are single-use: delete and read back in one statement
+  const [tokenRecord] = await db
+    .delete(emailVerificationTokens)
+    .where(eq(emailVerificationTokens.token, token))
+    .returning();
+  if (!tokenRecord || !tokenRecord.userId) return false;
 
   // Check if expired
   if (tokenRecord.expiresAt < new Date()) {
-    emailVerificationTokens.delete(token);
     return false;
   }
 
   // Update user
-  const user = usersStore.get(tokenRecord.userId);
-  if (user) {
-    user.emailVerified = true;
-    user.updatedAt = new Date();
-    usersStore.set(user.id, user);
-  }
+  await updateUser(tokenRecord.userId, { emailVerified: true });
 
-  // Delete token
-  emailVerificationTokens.delete(token);
   console.log(`[Auth] Email verified for user ${tokenRecord.userId}`);
   return true;
 }
@@ -395,15 +390,13 @@ export async function createPasswordResetToken(email: string): Promise<string |
   if (!user) return null;
 
   const token = generateToken();
-  const tokenRecord: StoredToken = {
-    id: tokenIdCounter++,
+
+  await db.insert(passwordResetTokens).values({
     userId: user.id,
     token,
     expiresAt: new Date(Date.now() + AUTH_CONFIG.tokenExpiry),
-    createdAt: new Date(),
-  };
+  });
 
-  passwordResetTokens.set(token, tokenRecord);
   return token;
 }
 
@@ -411,25 +404,22 @@ export async function createPasswordResetToken(email: string): Promise<string |
  * Reset password with token
  */
 export async function resetPassword(token: string, newPassword: string): Promise<boolean> {
-  const tokenRecord = passwordResetTokens.get(token);
-  if (!tokenRecord) return false;
+  // Tokens are single-use: delete and read back in one statement
+  const [tokenRecord] = await db
+    .delete(passwordResetTokens)
+    .where(eq(passwordResetTokens.token, token))
+    .returning();
+  if (!tokenRecord || !tokenRecord.userId) return false;
 
   // Check if expired
   if (tokenRecord.expiresAt < new Date()) {
-    passwordResetTokens.delete(token);
     return false;
   }
 
   // Update user password
-  const user = usersStore.get(tokenRecord.userId);
-  if (user) {
-    user.password = hashPassword(newPassword);
-    user.updatedAt = new Date();
-    usersStore.set(user.id, user);
-  }
+  await updateUser(tokenRecord.userId, { password: hashPassword(newPassword) });
 
-  // Delete token and invalidate all sessions
-  passwordResetTokens.delete(token);
+  // Invalidate all sessions
   await invalidateAllUserSessions(tokenRecord.userId);
   console.log(`[Auth] Password reset for user ${tokenRecord.userId}`);
   return true;
@@ -490,36 +480,63 @@ export async function googleAuth(
   ipAddress?: string
 ): Promise<LoginResult> {
   // Check if user exists with this Google ID
-  let user = Array.from(usersStore.values()).find(u => u.googleId === googleId);
+  const [existingGoogleUser] = await db.select().from(users).where(eq(users.googleId, googleId));
+  let userId = existingGoogleUser?.id;
 
-  if (!user) {
+  if (!userId) {
     // Check if email exists (link accounts)
-    user = Array.from(usersStore.values()).find(u => u.email === email);
+    const emailUser = await getUserByEmail(email);
 
-    if (user) {
+    if (emailUser) {
       // Link Google to existing account
-      user.googleId = googleId;
-      user.emailVerified = true;
-      if (avatar && !user.avatar) user.avatar = avatar;
-      user.updatedAt = new Date();
-      usersStore.set(user.id, user);
+      await updateUser(emailUser.id, {
+        googleId,
+        emailVerified: true,
+        ...(avatar && !emailUser.avatar ? { avatar } : {}),
+      });
+      userId = emailUser.id;
     } else {
       // Create new user
       const newUser = await createUser({ email, googleId, name });
-      user = usersStore.get(newUser.id)!;
       if (avatar) {
-        user.avatar = avatar;
-        usersStore.set(user.id, user);
+        await updateUser(newUser.id, { avatar });
       }
+      userId = newUser.id;
     }
   }
 
-  const session = await createSession(user.id, userAgent, ipAddress);
+  const session = await createSession(userId, userAgent, ipAddress);
   console.log(`[Auth] Google login: ${email}`);
 
   return { success: true, session };
 }
 
+// ============================================================================
+// ANONYMOUS TRIP ADOPTION
+// ============================================================================
+
+/**
+ * Link trips created anonymously under a voyageUid to a signed-in user.
+ * Called after login/registration so trips follow the account across devices.
+ */
+export async function adoptAnonymousTrips(userId: number, voyageUid: string | undefined): Promise<number> {
+  if (!voyageUid) return 0;
+
+  const anonymousTrips = await storage.listTripsByUid(voyageUid, AUTH_CONFIG.maxAdoptedTrips);
+  let adopted = 0;
+
+  for (const trip of anonymousTrips) {
+    if (trip.userId) continue;
+    const result = await storage.adoptTrip(trip.id, voyageUid, userId);
+    if (result) adopted++;
+  }
+
+  if (adopted > 0) {
+    console.log(`[Auth] Adopted ${adopted} anonymous trips for user ${userId}`);
+  }
+  return adopted;
+}
+
 // ============================================================================
 // MIDDLEWARE HELPERS
 // ============================================================================
@@ -0,0 +1,247 @@
+/**
+ * Calendar Export
+ *
+ * Renders a trip as an iCalendar (RFC 5545) document from the normalized
+ * TripExportModel, so the .ics download, the subscription feed and the
+ * PDF all read the same data.
+ *
+ * - One timed VEVENT per itinerary activity (floating local time - the
+ *   traveler's calendar shows it at the destination's wall-clock time)
+ * - Visa "apply by" deadlines as all-day VEVENTs
+ * - UIDs are stable per trip/day/slot so subscribed calendars update in place
+ */
+
+import type { Trip } from '@shared/schema';
+import { buildTripExportModel, type TripExportModel } from '@shared/exportModel';
+import { buildVisaDueDates } from './dueDates';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CALENDAR_CONFIG = {
+  prodId: '-//VoyageAI//Trip Itinerary//EN',
+  uidDomain: 'voyageai.app',
+  defaultDurationMinutes: 60,
+  refreshIntervalHours: 6, // Hint for subscribing clients (Apple/Outlook honor it)
+  maxLineOctets: 75,
+};
+
+// Default start time when an activity has no parseable time, by section
+const SECTION_DEFAULT_TIMES: Record<string, string> = {
+  Morning: '09:00',
+  Afternoon: '14:00',
+  Evening: '19:00',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalendarDeadline {
+  /** Stable key used in the event UID (e.g. "visa-apply-by") */
+  key: string;
+  dateISO: string;
+  summary: string;
+  description?: string;
+}
+
+export interface BuildCalendarOptions {
+  deadlines?: CalendarDeadline[];
+  /** Subscription feeds carry refresh hints; one-off downloads don't need them */
+  isFeed?: boolean;
+  now?: Date;
+}
+
+// ============================================================================
+// ICS PRIMITIVES
+// ============================================================================
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuation lines start with a space.
+ * Splits on code points so multi-byte characters are never cut in half.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? CALENDAR_CONFIG.maxLineOctets : CALENDAR_CONFIG.maxLineOctets - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDateValue(dateISO: string): string {
+  return dateISO.replace(/-/g, '');
+}
+
+/**
+ * Parse "14:30", "9:00", "2:30 PM" into [hours, minutes]
+ */
+function parseTime(time: string): [number, number] | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) return null;
+  return [hours, minutes];
+}
+
+/**
+ * Floating local date-time (no Z / TZID), e.g. 20260304T143000
+ */
+function formatLocalDateTime(dateISO: string, hours: number, minutes: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${formatDateValue(dateISO)}T${pad(hours)}${pad(minutes)}00`;
+}
+
+function addDays(dateISO: string, days: number): string {
+  const date = new Date(`${dateISO}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// BUILDERS
+// ============================================================================
+
+/**
+ * Collect calendar deadlines for a trip (currently the visa "apply by" date)
+ */
+export function buildTripDeadlines(trip: Trip): CalendarDeadline[] {
+  const visaDetails = (trip.feasibilityReport as any)?.visaDetails;
+  const deadlines: CalendarDeadline[] = [];
+
+  const visaDue = buildVisaDueDates(visaDetails, trip.dates);
+  if (visaDue?.applyByDate) {
+    const visaName = visaDetails?.name || 'visa';
+    deadlines.push({
+      key: 'visa-apply-by',
+      dateISO: visaDue.applyByDate,
+      summary: `Apply for ${visaName} (${trip.destination})`,
+      description: visaDue.recommendation || undefined,
+    });
+  }
+
+  return deadlines;
+}
+
+/**
+ * Render an export model as an iCalendar document
+ */
+export function buildTripCalendar(model: TripExportModel, options: BuildCalendarOptions = {}): string {
+  const now = options.now ?? new Date();
+  const stamp = formatUtcStamp(now);
+  const tripId = model.meta.tripId;
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_CONFIG.prodId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(model.meta.title)}`,
+  ];
+
+  if (options.isFeed) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${CALENDAR_CONFIG.refreshIntervalHours}H`,
+      `X-PUBLISHED-TTL:PT${CALENDAR_CONFIG.refreshIntervalHours}H`
+    );
+  }
+
+  for (const day of model.itinerary) {
+    // Without a real date there's nothing to anchor the event to
+    if (!day.dateISO) continue;
+
+    let slot = 0;
+    for (const section of day.sections) {
+      for (const item of section.items) {
+        slot++;
+        const time = parseTime(item.time) ?? parseTime(SECTION_DEFAULT_TIMES[section.label]);
+        if (!time) continue;
+
+        const descriptionParts = [
+          day.dayTitle ? `Day ${day.dayIndex}: ${day.dayTitle}` : `Day ${day.dayIndex} · ${day.cityLabel}`,
+          item.cost ? `Estimated cost: ${model.costs.currencySymbol}${item.cost.toLocaleString('en-US')}` : null,
+          item.notes || null,
+          model.meta.shareUrl || null,
+        ].filter(Boolean) as string[];
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:trip-${tripId}-day${day.dayIndex}-${slot}@${CALENDAR_CONFIG.uidDomain}`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${formatLocalDateTime(day.dateISO, time[0], time[1])}`,
+          `DURATION:PT${item.durationMinutes ?? CALENDAR_CONFIG.defaultDurationMinutes}M`,
+          `SUMMARY:${escapeText(item.title)}`,
+        );
+        if (item.location) {
+          lines.push(`LOCATION:${escapeText(item.location)}`);
+        }
+        if (item.coordinates) {
+          lines.push(`GEO:${item.coordinates.lat};${item.coordinates.lng}`);
+        }
+        lines.push(`DESCRIPTION:${escapeText(descriptionParts.join('\n'))}`, 'END:VEVENT');
+      }
+    }
+  }
+
+  for (const deadline of options.deadlines ?? []) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:trip-${tripId}-${deadline.key}@${CALENDAR_CONFIG.uidDomain}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(deadline.dateISO)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(deadline.dateISO, 1))}`,
+      `SUMMARY:${escapeText(deadline.summary)}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (deadline.description) {
+      lines.push(`DESCRIPTION:${escapeText(deadline.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Convenience: trip row -> .ics document, always built from the current itinerary
+ */
+export function buildCalendarForTrip(trip: Trip, baseUrl?: string, isFeed = false): string {
+  const model = buildTripExportModel(trip, baseUrl);
+  return buildTripCalendar(model, { deadlines: buildTripDeadlines(trip), isFeed });
+}
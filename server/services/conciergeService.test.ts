@@ -0,0 +1,36 @@
+/**
+ * Tests for the WhatsApp Concierge Service
+ *
+ * Run with: npx vitest run server/services/conciergeService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import twilio from 'twilio';
+import { isValidTwilioSignature } from './conciergeService';
+
+const AUTH_TOKEN = '12345';
+const URL = 'https://voyageai.app/api/concierge/webhook';
+const params = {
+  From: 'whatsapp:+14155550123',
+  Body: '042917',
+  MessageSid: 'SM1234567890',
+  AccountSid: 'AC1234567890',
+};
+
+describe('isValidTwilioSignature', () => {
+  it('accepts the signature Twilio computes for the request', () => {
+    const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, URL, params);
+
+    expect(isValidTwilioSignature(AUTH_TOKEN, signature, URL, params)).toBe(true);
+  });
+
+  it('rejects forged, missing and replayed-elsewhere signatures', () => {
+    const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, URL, params);
+
+    expect(isValidTwilioSignature(AUTH_TOKEN, undefined, URL, params)).toBe(false);
+    expect(isValidTwilioSignature(AUTH_TOKEN, 'forged', URL, params)).toBe(false);
+    expect(isValidTwilioSignature('other-token', signature, URL, params)).toBe(false);
+    expect(isValidTwilioSignature(AUTH_TOKEN, signature, URL, { ...params, Body: '000000' })).toBe(false);
+    expect(isValidTwilioSignature(AUTH_TOKEN, signature, `${URL}?x=1`, params)).toBe(false);
+  });
+});
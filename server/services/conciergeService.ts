@@ -7,13 +7,18 @@
  * - Trip status queries
  * - Change requests (routed to agentChat)
  * - General travel questions
+ * - Proactive notifications (sent by notificationScheduler to opted-in users)
+ *
+ * Set CONCIERGE_TRANSPORT=local to swap Twilio for an in-memory outbox,
+ * so the concierge and its notifications can be exercised offline.
+ * Otherwise incoming webhooks must carry a valid X-Twilio-Signature.
  *
  * Deferred to Phase 2:
- * - Proactive notifications
  * - Rich media (images, cards)
  * - Multi-language support
  */
 
+import crypto from 'crypto';
 import OpenAI from 'openai';
 import { BoundedMap } from '../utils/boundedMap';
 
@@ -90,6 +95,8 @@ export interface WhatsAppMessage {
 const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID;
 const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
 const TWILIO_WHATSAPP_NUMBER = process.env.TWILIO_WHATSAPP_NUMBER || 'whatsapp:+14155238886';
+const USE_LOCAL_TRANSPORT = process.env.CONCIERGE_TRANSPORT === 'local';
+const LOCAL_OUTBOX_LIMIT = 200;
 
 // In-memory conversation context (bounded to prevent memory leaks; production would use Redis/DB)
 const CONTEXT_TTL_MS = 30 * 60 * 1000; // 30 minutes
@@ -101,11 +108,76 @@ const conversationContexts = new BoundedMap<string, ConversationContext>({ maxSi
 
 let twilioClient: TwilioClient | null = null;
 
+export interface LocalOutboxMessage {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+  mediaUrl?: string[];
+  sentAt: string;
+}
+
+// Messages "sent" through the local transport, newest last
+const localOutbox: LocalOutboxMessage[] = [];
+
 /**
- * Get or create Twilio client
+ * Local stand-in for the Twilio client: records messages instead of sending them
+ */
+function createLocalTwilioClient(): TwilioClient {
+  return {
+    messages: {
+      create: async ({ from, to, body, mediaUrl }) => {
+        const message: LocalOutboxMessage = {
+          sid: `LOCAL_${Date.now()}_${localOutbox.length}`,
+          from,
+          to,
+          body,
+          ...(mediaUrl && { mediaUrl }),
+          sentAt: new Date().toISOString(),
+        };
+        localOutbox.push(message);
+        if (localOutbox.length > LOCAL_OUTBOX_LIMIT) localOutbox.shift();
+
+        console.log(`[Concierge] (local) To ${to}:\n${body}`);
+        return { sid: message.sid, status: 'queued' };
+      },
+    },
+  };
+}
+
+/**
+ * Whether messages go to the local outbox instead of Twilio
+ */
+export function isLocalTransport(): boolean {
+  return USE_LOCAL_TRANSPORT;
+}
+
+/**
+ * Messages recorded by the local transport, optionally for one recipient
+ */
+export function getLocalOutbox(to?: string): LocalOutboxMessage[] {
+  if (!to) return [...localOutbox];
+  const toNumber = to.startsWith('whatsapp:') ? to : `whatsapp:${to}`;
+  return localOutbox.filter(m => m.to === toNumber);
+}
+
+/**
+ * Empty the local outbox
+ */
+export function clearLocalOutbox(): void {
+  localOutbox.length = 0;
+}
+
+/**
+ * Get or create Twilio client (or the local stand-in)
  * Uses dynamic require for CommonJS compatibility
  */
 export function getTwilioClient(): TwilioClient | null {
+  if (USE_LOCAL_TRANSPORT) {
+    if (!twilioClient) twilioClient = createLocalTwilioClient();
+    return twilioClient;
+  }
+
   if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
     console.warn('[Concierge] Twilio credentials not configured');
     return null;
@@ -130,7 +202,43 @@ export function getTwilioClient(): TwilioClient | null {
  * Check if concierge service is configured
  */
 export function isConciergeConfigured(): boolean {
-  return !!(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN);
+  return USE_LOCAL_TRANSPORT || !!(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN);
+}
+
+// ============================================================================
+// WEBHOOK SIGNATURES
+// ============================================================================
+
+/**
+ * Whether a webhook request was signed by Twilio: the base64 HMAC-SHA1,
+ * keyed with the auth token, of the full URL followed by every POST
+ * param's name and value in name order.
+ */
+export function isValidTwilioSignature(
+  authToken: string,
+  signature: string | undefined,
+  url: string,
+  params: Record<string, unknown>
+): boolean {
+  if (!signature) return false;
+
+  const payload = Object.keys(params).sort().reduce((data, key) => {
+    const values = Array.from(new Set(([] as unknown[]).concat(params[key]).map(String))).sort();
+    return data + values.map(value => key + value).join('');
+  }, url);
+  const expected = Buffer.from(crypto.createHmac('sha1', authToken).update(payload).digest('base64'));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check an incoming webhook against TWILIO_AUTH_TOKEN. The local transport
+ * takes unsigned requests; without a token everything else is rejected.
+ */
+export function verifyTwilioWebhook(signature: string | undefined, url: string, params: Record<string, unknown>): boolean {
+  if (USE_LOCAL_TRANSPORT) return true;
+  if (!TWILIO_AUTH_TOKEN) return false;
+  return isValidTwilioSignature(TWILIO_AUTH_TOKEN, signature, url, params);
 }
 
 // ============================================================================
@@ -721,12 +829,13 @@ export async function sendWhatsAppMessage(
 }
 
 // ============================================================================
-// PROACTIVE NOTIFICATIONS (Placeholder for Phase 2)
+// PROACTIVE NOTIFICATIONS
 // ============================================================================
+// Scheduled reminders, briefings and digests are composed and sent by
+// notificationScheduler; these cover one-off sends.
 
 /**
  * Send trip status update notification
- * Phase 2: Implement proactive notifications
  */
 export async function sendTripStatusNotification(
   phoneNumber: string,
@@ -744,7 +853,6 @@ export async function sendTripStatusNotification(
 
 /**
  * Send visa deadline reminder
- * Phase 2: Implement deadline tracking
  */
 export async function sendVisaDeadlineReminder(
   phoneNumber: string,
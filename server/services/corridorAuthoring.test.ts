@@ -0,0 +1,127 @@
+/**
+ * Tests for Corridor Authoring
+ *
+ * Run with: npx vitest run server/services/corridorAuthoring.test.ts
+ *
+ * Runs against the committed corridor files and the real passport-index.csv.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { CORRIDOR_DIR, type CorridorData } from './corridorData';
+import { buildCorridorJsonSchema } from './corridorSchema';
+import {
+  buildCoverageReport,
+  crossCheckCorridor,
+  diffCorridorVisa,
+  formatCorridorDiff,
+  loadCorridorFiles,
+  validateCorridor,
+} from './corridorAuthoring';
+
+const files = loadCorridorFiles();
+const usSchengen = files.find(file => file.fileName === 'us-schengen.json')!.data!;
+const indiaJapan = files.find(file => file.fileName === 'india-japan.json')!.data!;
+
+/** Deep copy with changes applied */
+function edit(data: CorridorData, change: (copy: CorridorData) => void): CorridorData {
+  const copy = structuredClone(data);
+  change(copy);
+  return copy;
+}
+
+describe('schema validation', () => {
+  it('accepts every committed corridor file', () => {
+    expect(files.length).toBeGreaterThan(0);
+    for (const file of files) {
+      expect(file.issues, file.fileName).toEqual([]);
+    }
+  });
+
+  it('rejects misspelt keys, impossible ranges and a visa type that contradicts "required"', () => {
+    const { data, issues } = validateCorridor(edit(indiaJapan, copy => {
+      (copy.visa as any).procesingNote = 'typo';
+      copy.visa.processingDays.maximum = 2;
+      copy.visa.required = false;
+    }));
+
+    expect(data).toBeNull();
+    expect(issues.map(issue => issue.path).sort()).toEqual(['visa', 'visa.processingDays.maximum', 'visa.required']);
+  });
+
+  it('keeps corridor.schema.json in sync with the zod schema', () => {
+    const committed = JSON.parse(fs.readFileSync(path.join(CORRIDOR_DIR, '..', 'corridor.schema.json'), 'utf-8'));
+    expect(committed).toEqual(buildCorridorJsonSchema());
+  });
+});
+
+describe('Passport Index cross-check', () => {
+  it('agrees with US → Schengen', () => {
+    expect(crossCheckCorridor(usSchengen)).toEqual([]);
+  });
+
+  it('flags a visa type the index contradicts, grouped across countries', () => {
+    const issues = crossCheckCorridor(edit(usSchengen, copy => {
+      copy.visa.type = 'embassy_visa';
+    }));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'contradiction', path: 'visa.type' });
+    expect(issues[0].message).toContain('France');
+    expect(issues[0].message).toContain('Switzerland');
+  });
+
+  it('flags a visa-free stay length the index contradicts', () => {
+    const issues = crossCheckCorridor(edit(usSchengen, copy => {
+      copy.stayLimits.maxStay = 30;
+    }));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'contradiction', path: 'stayLimits.maxStay' });
+  });
+});
+
+describe('coverage', () => {
+  it('counts each Schengen member state as a covered route', () => {
+    const report = buildCoverageReport([usSchengen, indiaJapan]);
+
+    expect(report.routesCovered).toBe(usSchengen.corridor.destinationCountries!.length + 1);
+    expect(report.byPassport.map(row => row.passportCode)).toEqual(['US', 'IN']);
+    expect(report.byDestination.find(row => row.destination === 'Japan')?.passports).toEqual(['India']);
+  });
+});
+
+describe('visa diff', () => {
+  it('describes fee and processing time changes', () => {
+    const after = edit(indiaJapan, copy => {
+      copy.lastVerified = '2025-06-01';
+      copy.visa.cost.government = 500;
+      copy.visa.processingDays.maximum = 10;
+    });
+
+    expect(diffCorridorVisa(indiaJapan, after).map(change => change.field)).toEqual([
+      'visa.cost.government',
+      'visa.processingDays.maximum',
+    ]);
+    expect(formatCorridorDiff(indiaJapan, after)).toBe([
+      'India → Japan (lastVerified 2025-01-06 → 2025-06-01)',
+      '  Government fee: 440 INR → 500 INR (+60 INR, +13.6%)',
+      '  Processing time (maximum): 7 days → 10 days (+3 days, +42.9%)',
+    ].join('\n'));
+  });
+
+  it("doesn't compare amounts across currencies", () => {
+    const after = edit(indiaJapan, copy => {
+      copy.visa.cost.currency = 'JPY';
+      copy.visa.cost.government = 3000;
+    });
+
+    const government = diffCorridorVisa(indiaJapan, after).find(change => change.field === 'visa.cost.government');
+    expect(government?.summary).toBe('Government fee: 440 INR → 3,000 JPY');
+  });
+
+  it('reports no changes for an identical corridor', () => {
+    expect(diffCorridorVisa(indiaJapan, structuredClone(indiaJapan))).toEqual([]);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Corridor Authoring
+ *
+ * Checks behind the curated corridor workflow (server/scripts/corridors.ts and
+ * the admin /api/corridors endpoints). Curated corridors outrank AI output in
+ * corridorData.ts, so a new or edited file has to pass:
+ *
+ * - Schema validation against corridorDataSchema
+ * - A cross-check with the Passport Index dataset: a visa type or stay length
+ *   that contradicts the index is flagged for a human to resolve (either side
+ *   may be out of date)
+ *
+ * It also reports which passport → destination routes have curated data, and
+ * renders readable diffs of visa fee and processing time changes for review.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CORRIDOR_DIR, type CorridorData, type CorridorVisa } from './corridorData';
+import { corridorDataSchema } from './corridorSchema';
+import {
+  getDestinationsForPassport,
+  getStats as getPassportIndexStats,
+  lookupVisa,
+  type VisaStatus,
+} from './passportIndexService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CorridorIssue {
+  /** error: schema violation; contradiction: disagrees with the Passport Index; warning: worth a look */
+  severity: 'error' | 'contradiction' | 'warning';
+  path?: string;
+  message: string;
+}
+
+export interface CorridorFile {
+  fileName: string;
+  /** Present when the file passed schema validation */
+  data: CorridorData | null;
+  issues: CorridorIssue[];
+}
+
+export interface CorridorCoverage {
+  corridors: number;
+  /** passport → country routes with curated data (a Schengen corridor covers one route per member state) */
+  routesCovered: number;
+  routesInIndex: number;
+  byPassport: Array<{
+    passport: string;
+    passportCode: string;
+    destinations: string[];
+    routesCovered: number;
+    routesInIndex: number;
+  }>;
+  byDestination: Array<{
+    destination: string;
+    passports: string[];
+  }>;
+}
+
+export interface CorridorVisaChange {
+  field: string;
+  before: string | number | undefined;
+  after: string | number | undefined;
+  summary: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a parsed corridor file against the schema
+ */
+export function validateCorridor(raw: unknown): { data: CorridorData | null; issues: CorridorIssue[] } {
+  const parsed = corridorDataSchema.safeParse(raw);
+  if (parsed.success) {
+    return { data: parsed.data, issues: [] };
+  }
+  return {
+    data: null,
+    issues: parsed.error.issues.map(issue => ({
+      severity: 'error' as const,
+      path: issue.path.join('.') || undefined,
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Read and validate one corridor file
+ */
+export function readCorridorFile(filePath: string): CorridorFile {
+  const fileName = path.basename(filePath);
+  try {
+    return { fileName, ...validateCorridor(JSON.parse(fs.readFileSync(filePath, 'utf-8'))) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { fileName, data: null, issues: [{ severity: 'error', message: `Invalid JSON: ${message}` }] };
+  }
+}
+
+/**
+ * Every corridor file in the corridors directory, validated
+ */
+export function loadCorridorFiles(dir = CORRIDOR_DIR): CorridorFile[] {
+  return fs.readdirSync(dir)
+    .filter(fileName => fileName.endsWith('.json'))
+    .sort()
+    .map(fileName => readCorridorFile(path.join(dir, fileName)));
+}
+
+// ============================================================================
+// PASSPORT INDEX CROSS-CHECK
+// ============================================================================
+
+/** Passport Index statuses consistent with each corridor visa type */
+const COMPATIBLE_INDEX_STATUSES: Record<CorridorVisa['type'], VisaStatus[]> = {
+  visa_free: ['visa_free', 'eta'],
+  visa_on_arrival: ['visa_on_arrival'],
+  e_visa: ['e_visa', 'eta'],
+  embassy_visa: ['visa_required'],
+  not_allowed: ['no_admission', 'covid_ban'],
+};
+
+/** Countries a corridor applies to: its destinationCountries, or the destination itself */
+export function corridorCountries(data: CorridorData): string[] {
+  return data.corridor.destinationCountries ?? [data.corridor.destination];
+}
+
+/**
+ * Compare a corridor with the Passport Index for every country it covers.
+ * Multi-country corridors report one contradiction listing all the
+ * countries that disagree in the same way.
+ */
+export function crossCheckCorridor(data: CorridorData): CorridorIssue[] {
+  const issues: CorridorIssue[] = [];
+  const { passport, passportCode, destinationCode, destinationCountries } = data.corridor;
+  const compatible = COMPATIBLE_INDEX_STATUSES[data.visa.type];
+
+  const typeMismatches = new Map<string, string[]>();
+  const stayMismatches = new Map<number, string[]>();
+  const missing: string[] = [];
+
+  for (const country of corridorCountries(data)) {
+    const entry = lookupVisa(passport, country);
+    if (!entry) {
+      missing.push(country);
+      continue;
+    }
+
+    if (entry.passportCode !== passportCode) {
+      issues.push({
+        severity: 'warning',
+        path: 'corridor.passportCode',
+        message: `Passport Index has ${entry.passport} as ${entry.passportCode}, file says ${passportCode}`,
+      });
+    }
+    if (!destinationCountries && entry.destinationCode !== destinationCode) {
+      issues.push({
+        severity: 'warning',
+        path: 'corridor.destinationCode',
+        message: `Passport Index has ${entry.destination} as ${entry.destinationCode}, file says ${destinationCode}`,
+      });
+    }
+
+    if (!compatible.includes(entry.status)) {
+      const label = entry.statusLabel;
+      typeMismatches.set(label, [...(typeMismatches.get(label) ?? []), entry.destination]);
+      continue;
+    }
+
+    // The index only has a stay length for visa-free routes
+    const maxStay = data.stayLimits.maxStay;
+    if (data.visa.type === 'visa_free' && entry.days !== undefined && maxStay !== undefined && entry.days !== maxStay) {
+      stayMismatches.set(entry.days, [...(stayMismatches.get(entry.days) ?? []), entry.destination]);
+    }
+  }
+
+  for (const [label, countries] of Array.from(typeMismatches)) {
+    issues.push({
+      severity: 'contradiction',
+      path: 'visa.type',
+      message: `File says ${data.visa.type}, Passport Index says "${label}" for ${countries.join(', ')}`,
+    });
+  }
+  for (const [indexDays, countries] of Array.from(stayMismatches)) {
+    issues.push({
+      severity: 'contradiction',
+      path: 'stayLimits.maxStay',
+      message: `File allows ${data.stayLimits.maxStay} days, Passport Index says ${indexDays} for ${countries.join(', ')}`,
+    });
+  }
+  if (missing.length > 0) {
+    issues.push({
+      severity: 'warning',
+      path: destinationCountries ? 'corridor.destinationCountries' : 'corridor.destination',
+      message: `Not in the Passport Index, so not cross-checked: ${passport} → ${missing.join(', ')}`,
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+/**
+ * Which passport → destination routes have curated data, against the
+ * routes in the Passport Index
+ */
+export function buildCoverageReport(corridors: CorridorData[]): CorridorCoverage {
+  const byPassport = new Map<string, CorridorCoverage['byPassport'][number]>();
+  const byDestination = new Map<string, Set<string>>();
+  const routes = new Set<string>();
+
+  for (const data of corridors) {
+    const { passport, passportCode } = data.corridor;
+    let row = byPassport.get(passportCode);
+    if (!row) {
+      row = {
+        passport,
+        passportCode,
+        destinations: [],
+        routesCovered: 0,
+        routesInIndex: getDestinationsForPassport(passport).length,
+      };
+      byPassport.set(passportCode, row);
+    }
+    row.destinations.push(data.corridor.destination);
+
+    for (const country of corridorCountries(data)) {
+      const route = `${passportCode}:${country.toLowerCase()}`;
+      if (routes.has(route)) continue;
+      routes.add(route);
+      row.routesCovered++;
+
+      const passports = byDestination.get(country) ?? new Set<string>();
+      passports.add(passport);
+      byDestination.set(country, passports);
+    }
+  }
+
+  return {
+    corridors: corridors.length,
+    routesCovered: routes.size,
+    routesInIndex: getPassportIndexStats().totalRoutes,
+    byPassport: Array.from(byPassport.values()).sort((a, b) => b.routesCovered - a.routesCovered),
+    byDestination: Array.from(byDestination.entries())
+      .map(([destination, passports]) => ({ destination, passports: Array.from(passports).sort() }))
+      .sort((a, b) => a.destination.localeCompare(b.destination)),
+  };
+}
+
+/**
+ * Destinations a passport needs some kind of visa for that have no curated
+ * corridor yet, the ones where curated data helps most
+ */
+export function findUncoveredDestinations(
+  passport: string,
+  corridors: CorridorData[]
+): Array<{ destination: string; status: VisaStatus }> {
+  const entries = getDestinationsForPassport(passport);
+  const passportName = entries[0]?.passport.toLowerCase();
+  const covered = new Set(
+    corridors
+      .filter(data => data.corridor.passport.toLowerCase() === passportName)
+      .flatMap(data => corridorCountries(data).map(country => country.toLowerCase()))
+  );
+
+  return entries
+    .filter(entry => entry.status !== 'visa_free' && entry.status !== 'no_admission')
+    .filter(entry => entry.passport !== entry.destination && !covered.has(entry.destination.toLowerCase()))
+    .map(entry => ({ destination: entry.destination, status: entry.status }))
+    .sort((a, b) => a.destination.localeCompare(b.destination));
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function formatAmount(value: number | undefined, currency: string): string {
+  return value === undefined ? 'none' : `${value.toLocaleString('en-US')} ${currency}`;
+}
+
+function formatDays(value: number | undefined): string {
+  if (value === undefined) return 'none';
+  return value === 1 ? '1 day' : `${value} days`;
+}
+
+/** "+60 INR, +13.6%" */
+function formatDelta(before: number, after: number, unit: string): string {
+  const delta = after - before;
+  const sign = delta > 0 ? '+' : '-';
+  const percent = before > 0 ? `, ${sign}${(Math.abs(delta) / before * 100).toFixed(1)}%` : '';
+  return `${sign}${Math.abs(delta).toLocaleString('en-US')} ${unit}${percent}`;
+}
+
+/**
+ * Visa fee and processing time changes between two versions of a corridor.
+ * Amounts in different currencies aren't compared numerically.
+ */
+export function diffCorridorVisa(before: CorridorData, after: CorridorData): CorridorVisaChange[] {
+  const changes: CorridorVisaChange[] = [];
+  const oldVisa = before.visa;
+  const newVisa = after.visa;
+
+  if (oldVisa.type !== newVisa.type) {
+    changes.push({
+      field: 'visa.type',
+      before: oldVisa.type,
+      after: newVisa.type,
+      summary: `Visa type: ${oldVisa.type} → ${newVisa.type}`,
+    });
+  }
+
+  const sameCurrency = oldVisa.cost.currency === newVisa.cost.currency;
+  const fees: Array<['government' | 'service' | 'expedited', string]> = [
+    ['government', 'Government fee'],
+    ['service', 'Service fee'],
+    ['expedited', 'Expedited fee'],
+  ];
+  for (const [key, label] of fees) {
+    const oldValue = oldVisa.cost[key];
+    const newValue = newVisa.cost[key];
+    if (oldValue === newValue && sameCurrency) continue;
+
+    const delta = sameCurrency && oldValue !== undefined && newValue !== undefined
+      ? ` (${formatDelta(oldValue, newValue, newVisa.cost.currency)})`
+      : '';
+    changes.push({
+      field: `visa.cost.${key}`,
+      before: oldValue,
+      after: newValue,
+      summary: `${label}: ${formatAmount(oldValue, oldVisa.cost.currency)} → ${formatAmount(newValue, newVisa.cost.currency)}${delta}`,
+    });
+  }
+
+  const days: Array<['minimum' | 'maximum' | 'expedited', string]> = [
+    ['minimum', 'Processing time (minimum)'],
+    ['maximum', 'Processing time (maximum)'],
+    ['expedited', 'Processing time (expedited)'],
+  ];
+  for (const [key, label] of days) {
+    const oldValue = oldVisa.processingDays[key];
+    const newValue = newVisa.processingDays[key];
+    if (oldValue === newValue) continue;
+
+    const delta = oldValue !== undefined && newValue !== undefined ? ` (${formatDelta(oldValue, newValue, 'days')})` : '';
+    changes.push({
+      field: `visa.processingDays.${key}`,
+      before: oldValue,
+      after: newValue,
+      summary: `${label}: ${formatDays(oldValue)} → ${formatDays(newValue)}${delta}`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Human-readable diff for review, e.g.
+ *
+ *   India → Japan (lastVerified 2025-01-06 → 2025-06-01)
+ *     Government fee: 440 INR → 500 INR (+60 INR, +13.6%)
+ */
+export function formatCorridorDiff(before: CorridorData, after: CorridorData): string {
+  const changes = diffCorridorVisa(before, after);
+  const verified = before.lastVerified === after.lastVerified
+    ? `lastVerified ${after.lastVerified} unchanged`
+    : `lastVerified ${before.lastVerified} → ${after.lastVerified}`;
+  const header = `${after.corridor.passport} → ${after.corridor.destination} (${verified})`;
+
+  if (changes.length === 0) {
+    return `${header}\n  No visa fee or processing time changes`;
+  }
+  return [header, ...changes.map(change => `  ${change.summary}`)].join('\n');
+}
@@ -2,11 +2,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import type { VisaDetails } from '@shared/schema';
+import { corridorDataSchema } from './corridorSchema';
 
 // ES Module compatibility for __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+export const CORRIDOR_DIR = path.join(__dirname, '..', 'data', 'corridors');
+
 /**
  * Corridor Data Service
  *
@@ -68,6 +71,8 @@ export interface CorridorCostEstimate {
     premium: number;
     note?: string;
   };
+  /** Tier name → countries in it, for multi-country corridors */
+  regionalVariation?: Record<string, string[]>;
 }
 
 export interface CorridorData {
@@ -158,6 +163,38 @@ const CORRIDOR_MAP: Record<string, string> = {
   'us-switzerland': 'us-schengen.json',
 };
 
+/**
+ * Register corridor files that aren't in CORRIDOR_MAP yet, keyed by passport
+ * and destination (names and codes) plus each of their destinationCountries,
+ * so a newly authored file is served without editing this map
+ */
+function registerCorridorFiles(): void {
+  if (!fs.existsSync(CORRIDOR_DIR)) return;
+
+  const mapped = new Set(Object.values(CORRIDOR_MAP));
+  for (const fileName of fs.readdirSync(CORRIDOR_DIR).filter(f => f.endsWith('.json')).sort()) {
+    if (mapped.has(fileName)) continue;
+
+    try {
+      const { corridor } = JSON.parse(fs.readFileSync(path.join(CORRIDOR_DIR, fileName), 'utf-8')) as CorridorData;
+      const passports = [corridor.passport, corridor.passportCode].map(normalizeLocation);
+      const destinations = [corridor.destination, corridor.destinationCode, ...(corridor.destinationCountries ?? [])]
+        .map(normalizeLocation);
+
+      for (const passport of passports) {
+        for (const destination of destinations) {
+          CORRIDOR_MAP[`${passport}-${destination}`] ??= fileName;
+        }
+      }
+    } catch (error) {
+      // Reported by validateCorridorData at startup
+      console.error(`[Corridor] Could not register ${fileName}:`, error);
+    }
+  }
+}
+
+registerCorridorFiles();
+
 // Cache for loaded corridor data
 const corridorCache = new Map<string, CorridorData>();
 
@@ -203,7 +240,7 @@ function getCorridorKey(passport: string, destination: string): string | null {
  */
 function loadCorridorData(fileName: string): CorridorData | null {
   try {
-    const filePath = path.join(__dirname, '..', 'data', 'corridors', fileName);
+    const filePath = path.join(CORRIDOR_DIR, fileName);
 
     if (!fs.existsSync(filePath)) {
       console.log(`Corridor file not found: ${filePath}`);
@@ -269,8 +306,7 @@ export function getAvailableCorridors(): string[] {
 }
 
 /**
- * Validate all corridor JSON files at startup
- * Ensures required fields are present and data is well-formed
+ * Validate all corridor JSON files at startup against corridorDataSchema
  */
 export function validateCorridorData(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -278,7 +314,7 @@ export function validateCorridorData(): { valid: boolean; errors: string[] } {
 
   for (const fileName of uniqueFiles) {
     try {
-      const filePath = path.join(__dirname, '..', 'data', 'corridors', fileName);
+      const filePath = path.join(CORRIDOR_DIR, fileName);
 
       if (!fs.existsSync(filePath)) {
         errors.push(`[Corridor] File not found: ${fileName}`);
@@ -286,36 +322,15 @@ export function validateCorridorData(): { valid: boolean; errors: string[] } {
       }
 
       const raw = fs.readFileSync(filePath, 'utf-8');
-      const data = JSON.parse(raw) as CorridorData;
-
-      // Required fields in corridor section
-      if (!data.corridor) {
-        errors.push(`[Corridor] ${fileName}: missing 'corridor' section`);
-      } else {
-        if (!data.corridor.passport) errors.push(`[Corridor] ${fileName}: missing 'corridor.passport'`);
-        if (!data.corridor.destination) errors.push(`[Corridor] ${fileName}: missing 'corridor.destination'`);
-      }
-
-      // Required top-level fields
-      if (!data.lastVerified) errors.push(`[Corridor] ${fileName}: missing 'lastVerified'`);
-      if (!data.source) errors.push(`[Corridor] ${fileName}: missing 'source'`);
-
-      // Visa section validation
-      if (!data.visa) {
-        errors.push(`[Corridor] ${fileName}: missing 'visa' section`);
-      } else {
-        if (data.visa.required === undefined) errors.push(`[Corridor] ${fileName}: visa.required missing`);
-        if (!data.visa.type) errors.push(`[Corridor] ${fileName}: visa.type missing`);
-        if (!data.visa.processingDays) errors.push(`[Corridor] ${fileName}: visa.processingDays missing`);
-        if (!data.visa.cost) errors.push(`[Corridor] ${fileName}: visa.cost missing`);
-        if (data.visa.cost && data.visa.cost.government === undefined) {
-          errors.push(`[Corridor] ${fileName}: visa.cost.government missing`);
+      const parsed = corridorDataSchema.safeParse(JSON.parse(raw));
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          errors.push(`[Corridor] ${fileName}: ${issue.path.join('.') || '(root)'} - ${issue.message}`);
         }
+        continue;
       }
 
-      const corridorLabel = data.corridor
-        ? `${data.corridor.passport} → ${data.corridor.destination}`
-        : fileName;
+      const corridorLabel = `${parsed.data.corridor.passport} → ${parsed.data.corridor.destination}`;
       console.log(`[Corridor] ✓ Validated: ${fileName} (${corridorLabel})`);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -0,0 +1,173 @@
+/**
+ * Corridor Schema
+ *
+ * zod schema for the curated corridor files in server/data/corridors, typed
+ * against the CorridorData interface so the two can't drift apart. The JSON
+ * schema editors validate against (server/data/corridor.schema.json) is
+ * generated from it with `npm run corridors -- schema`.
+ *
+ * Objects are strict: a misspelt key in a hand-written file is an error
+ * rather than a field that is silently ignored.
+ */
+
+import { z } from 'zod';
+import type { CorridorData } from './corridorData';
+import { zodToJsonSchema, type JsonSchema } from '../utils/zodToJsonSchema';
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+const amount = z.number().min(0);
+const days = z.number().int().min(0);
+const currency = z.string().regex(/^[A-Z]{3}$/, 'ISO 4217 currency code');
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD date');
+const nonEmpty = z.string().min(1);
+
+const processingDaysSchema = z.object({
+  minimum: days,
+  maximum: days,
+  expedited: days.optional(),
+  note: z.string().optional(),
+}).strict().refine(value => value.maximum >= value.minimum, {
+  message: 'maximum must be at least minimum',
+  path: ['maximum'],
+});
+
+const visaCostSchema = z.object({
+  government: amount,
+  service: amount.optional(),
+  expedited: amount.optional(),
+  currency,
+  note: z.string().optional(),
+}).strict();
+
+const costTierSchema = z.object({
+  daily: z.record(amount),
+  total7Days: amount,
+}).strict();
+
+// ============================================================================
+// CORRIDOR
+// ============================================================================
+
+const visaSchema = z.object({
+  required: z.boolean(),
+  type: z.enum(['visa_free', 'visa_on_arrival', 'e_visa', 'embassy_visa', 'not_allowed']),
+  name: nonEmpty,
+  processingDays: processingDaysSchema,
+  cost: visaCostSchema,
+  documentsRequired: z.array(nonEmpty),
+  applicationMethod: z.enum(['online', 'embassy', 'vfs', 'on_arrival', 'none']),
+  applicationUrl: z.string().url().optional(),
+  embassyUrl: z.string().url().optional(),
+  notes: z.array(z.string()).optional(),
+  alternatives: z.record(z.any()).optional(),
+  etias: z.object({
+    launching: z.string(),
+    cost: amount,
+    currency,
+    validity: z.string(),
+    processingTime: z.string(),
+    applicationUrl: z.string().url(),
+    note: z.string(),
+  }).strict().optional(),
+}).strict();
+
+export const corridorDataSchema: z.ZodType<CorridorData> = z.object({
+  corridor: z.object({
+    passport: nonEmpty,
+    passportCode: z.string().regex(/^[A-Z]{2}$/, 'ISO 3166 alpha-2 code'),
+    destination: nonEmpty,
+    destinationCode: z.string().regex(/^[A-Z]{2,}$/, 'ISO 3166 alpha-2 code, or an uppercase region name'),
+    destinationCountries: z.array(nonEmpty).min(1).optional(),
+  }).strict(),
+  lastVerified: isoDate,
+  source: nonEmpty,
+  visa: visaSchema,
+  entryRequirements: z.object({
+    passportValidity: nonEmpty,
+    blankPages: z.number().int().min(0),
+    returnTicket: z.boolean(),
+    proofOfAccommodation: z.boolean(),
+    proofOfFunds: z.boolean(),
+    proofOfFundsAmount: z.object({
+      perPerson: amount.optional(),
+      perFamily: amount.optional(),
+      recommended: amount.optional(),
+      perDay: z.boolean().optional(),
+      currency,
+      note: z.string().optional(),
+    }).strict().optional(),
+    travelInsurance: z.object({
+      required: z.boolean(),
+      recommended: z.boolean(),
+      minimumCoverage: amount,
+      currency,
+      note: z.string().optional(),
+    }).strict(),
+  }).strict(),
+  stayLimits: z.object({
+    maxStay: days.optional(),
+    voaMaxStay: days.optional(),
+    touristVisaMaxStay: days.optional(),
+    period: days.optional(),
+    extendable: z.boolean(),
+    extensionDays: days.optional(),
+    extensionCost: amount.optional(),
+    extensionCurrency: currency.optional(),
+    extensionProcess: z.string().optional(),
+    overstayConsequences: z.string().optional(),
+    note: z.string().optional(),
+  }).strict(),
+  costEstimates: z.object({
+    currency,
+    budget: costTierSchema,
+    mid: costTierSchema,
+    luxury: costTierSchema,
+    flights: z.object({
+      budget: amount,
+      average: amount,
+      premium: amount,
+      note: z.string().optional(),
+    }).strict(),
+    regionalVariation: z.record(z.array(nonEmpty)).optional(),
+  }).strict(),
+  tips: z.array(nonEmpty),
+  popularDestinations: z.array(z.object({
+    country: nonEmpty,
+    cities: z.array(nonEmpty),
+    highlights: z.array(z.string()),
+  }).strict()).optional(),
+}).strict().superRefine((data, ctx) => {
+  // "required" and "type" are both read downstream, so they must agree
+  const visaFree = data.visa.type === 'visa_free';
+  if (data.visa.type !== 'not_allowed' && data.visa.required === visaFree) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['visa', 'required'],
+      message: `visa.required must be ${!visaFree} for visa type "${data.visa.type}"`,
+    });
+  }
+  if (visaFree !== (data.visa.applicationMethod === 'none')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['visa', 'applicationMethod'],
+      message: visaFree
+        ? 'visa-free corridors use applicationMethod "none"'
+        : `applicationMethod "none" is only valid for visa-free corridors`,
+    });
+  }
+});
+
+/**
+ * JSON schema for corridor files, for editors and external tooling
+ */
+export function buildCorridorJsonSchema(): JsonSchema {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Curated visa corridor',
+    description: 'A passport → destination corridor in server/data/corridors. Generated from corridorDataSchema; do not edit by hand.',
+    ...zodToJsonSchema(corridorDataSchema),
+  };
+}
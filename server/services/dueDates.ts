@@ -144,6 +144,37 @@ export function parseTravelStartDate(dates: string | null | undefined): string |
   return null;
 }
 
+/**
+ * Parse date string like "February 2026, 5 days" or "2026-02-15 to 2026-02-22"
+ */
+export function parseDateRange(dateStr: string): { startDate: string; endDate: string } | null {
+  if (!dateStr) return null;
+
+  // Try "YYYY-MM-DD to YYYY-MM-DD" format
+  const rangeMatch = dateStr.match(/(\d{4}-\d{2}-\d{2})\s*to\s*(\d{4}-\d{2}-\d{2})/);
+  if (rangeMatch) {
+    return { startDate: rangeMatch[1], endDate: rangeMatch[2] };
+  }
+
+  // Try "Month Year, N days" format
+  const monthMatch = dateStr.match(/(\w+)\s+(\d{4}),?\s*(\d+)\s*days?/i);
+  if (monthMatch) {
+    const [, month, year, days] = monthMatch;
+    const monthNum = new Date(`${month} 1, ${year}`).getMonth();
+    if (!isNaN(monthNum)) {
+      const startDate = new Date(parseInt(year), monthNum, 15);
+      const endDate = new Date(startDate);
+      endDate.setDate(endDate.getDate() + parseInt(days) - 1);
+      return {
+        startDate: startDate.toISOString().split('T')[0],
+        endDate: endDate.toISOString().split('T')[0],
+      };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Build action item due dates from visa details.
  */
@@ -0,0 +1,66 @@
+/**
+ * Exchange Rates
+ *
+ * USD-based rates from the Frankfurter API (free, no API key), cached for
+ * an hour, with approximate fallback rates when the API is unreachable.
+ */
+
+// Fallback exchange rates from USD (used if API fails) - approximate rates
+export const FALLBACK_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, JPY: 149.5, CNY: 7.24, INR: 83.5, AUD: 1.53, CAD: 1.36,
+  CHF: 0.88, KRW: 1320, SGD: 1.34, HKD: 7.82, NZD: 1.64, SEK: 10.5, NOK: 10.8, DKK: 6.9,
+  MXN: 17.2, BRL: 4.95, AED: 3.67, SAR: 3.75, THB: 35.5, MYR: 4.72, IDR: 15600, PHP: 55.8,
+  ZAR: 18.5, TRY: 32.5, RUB: 92, PLN: 4.0, CZK: 23.5, HUF: 360
+};
+
+// Cache for exchange rates (refreshed every hour)
+let exchangeRateCache: { rates: Record<string, number>; timestamp: number } | null = null;
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+
+// Fetch live exchange rates from Frankfurter API (free, no API key)
+export async function getExchangeRates(): Promise<Record<string, number>> {
+  // Return cached rates if still valid
+  if (exchangeRateCache && Date.now() - exchangeRateCache.timestamp < CACHE_DURATION) {
+    return exchangeRateCache.rates;
+  }
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    const response = await fetch('https://api.frankfurter.app/latest?from=USD', {
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+
+    if (response.ok) {
+      const data = await response.json();
+      const rates: Record<string, number> = { USD: 1, ...data.rates };
+      exchangeRateCache = { rates, timestamp: Date.now() };
+      console.log('[Currency] Fetched live exchange rates:', Object.keys(rates).length, 'currencies');
+      return rates;
+    }
+  } catch (error) {
+    console.error('[Currency] API error, using fallback rates:', error);
+  }
+
+  return FALLBACK_RATES;
+}
+
+// Sync version using cached rates (for use in loops)
+export function convertFromUSD(amountUSD: number, targetCurrency: string, rates: Record<string, number>): number {
+  const rate = rates[targetCurrency] || FALLBACK_RATES[targetCurrency] || 1;
+  return Math.round(amountUSD * rate);
+}
+
+/**
+ * Rate to multiply an amount in `from` by to get `to` (unrounded), or null
+ * when either currency is unknown
+ */
+export function getConversionRate(from: string, to: string, rates: Record<string, number>): number | null {
+  if (from === to) return 1;
+  const fromRate = rates[from] || FALLBACK_RATES[from];
+  const toRate = rates[to] || FALLBACK_RATES[to];
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
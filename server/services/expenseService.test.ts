@@ -0,0 +1,80 @@
+/**
+ * Tests for the Expense Service
+ *
+ * Run with: npx vitest run server/services/expenseService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertExpense, ExpenseError, reconcileExpenses } from './expenseService';
+
+const NOW = new Date('2026-11-11T18:00:00Z'); // Day 2 of the trip
+
+function activity(type: 'activity' | 'meal' | 'transport' | 'lodging', estimatedCost: number) {
+  return { time: '10:00', name: type, description: type, type, estimatedCost, duration: '1h', location: '', coordinates: { lat: 0, lng: 0 } };
+}
+
+const trip = {
+  budget: 1000,
+  currency: 'EUR',
+  dates: '2026-11-10 to 2026-11-13',
+  itinerary: {
+    days: [1, 2, 3, 4].map(day => ({
+      day,
+      date: `2026-11-${9 + day}`,
+      title: `Day ${day}`,
+      activities: [activity('activity', 100), activity('meal', 50)],
+    })),
+  },
+};
+
+describe('reconcileExpenses', () => {
+  it('compares each day and category with the plan and projects the pace forward', () => {
+    const result = reconcileExpenses(trip, [
+      { tripAmount: 200, category: 'activities', dayNumber: 1 },
+      { tripAmount: 100, category: 'meals', dayNumber: 1 },
+      { tripAmount: 150, category: 'meals', dayNumber: 2 },
+      { tripAmount: 80, category: 'transport', dayNumber: null },
+    ], NOW);
+
+    expect(result.totalPlanned).toBe(600);
+    expect(result.totalSpent).toBe(530);
+    expect(result.unassignedSpent).toBe(80);
+
+    const [day1] = result.days;
+    expect(day1.planned).toMatchObject({ day: 1, actual: 150, allocated: 225 });
+    expect(day1.actual).toMatchObject({ day: 1, actual: 300, allocated: 225, status: 'OVER_BUDGET' });
+    expect(day1.actual.breakdown).toEqual({ activities: 200, meals: 100, transport: 0, lodging: 0 });
+
+    expect(result.categories.find(c => c.category === 'meals')).toEqual({ category: 'meals', planned: 200, actual: 250, delta: 50 });
+
+    // 450 spent against 300 planned over two days: the last two days (300 planned) should run to 450
+    expect(result.forecast).toMatchObject({
+      currentDay: 2,
+      remainingDays: 2,
+      remainingBudget: 470,
+      plannedRemaining: 300,
+      pace: 1.5,
+      projectedTotal: 980,
+      projectedRemaining: 20,
+      dailyAllowance: 235,
+    });
+  });
+
+  it('has no current day before the trip starts', () => {
+    const result = reconcileExpenses(trip, [], new Date('2026-10-19T12:00:00Z'));
+
+    expect(result.forecast.currentDay).toBeNull();
+    expect(result.forecast.remainingDays).toBe(4);
+    expect(result.forecast.projectedTotal).toBe(600);
+  });
+});
+
+describe('convertExpense', () => {
+  it('converts into the trip currency and rejects unknown currencies', () => {
+    const rates = { USD: 1, EUR: 0.9, JPY: 150 };
+
+    expect(convertExpense(1500, 'JPY', 'EUR', rates)).toEqual({ tripAmount: 9, exchangeRate: 0.006 });
+    expect(convertExpense(42, 'EUR', 'EUR', rates)).toEqual({ tripAmount: 42, exchangeRate: 1 });
+    expect(() => convertExpense(10, 'XYZ', 'EUR', rates)).toThrow(ExpenseError);
+  });
+});
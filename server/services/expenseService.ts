@@ -0,0 +1,197 @@
+/**
+ * Expense Service
+ *
+ * What travelers actually spend, logged on the road, reconciled against
+ * the plan. Deterministic (no LLM):
+ * - Expenses are converted to the trip's budget currency when logged,
+ *   so later rate moves don't rewrite history
+ * - Budget vs actual per day and category reuses the budget validator's
+ *   DayBudgetBreakdown: the itinerary estimates are "planned", logged
+ *   expenses are "actual", both against the same daily allocation
+ * - Forecast: spending pace so far applied to the rest of the itinerary
+ */
+
+import type {
+  DayBudgetBreakdown,
+  ExpenseCategory,
+  ExpenseReconciliation,
+  Trip,
+  TripExpense,
+} from "@shared/schema";
+import { EXPENSE_CATEGORIES } from "@shared/schema";
+import { validateBudget, getDayBudgetStatus } from "./validators";
+import type { ItineraryDay } from "./streamingItinerary";
+import { getConversionRate } from "./exchangeRates";
+import { parseTripDateRange } from "./stayLimitService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ExpenseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpenseError";
+  }
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Convert an expense into the trip's budget currency
+ */
+export function convertExpense(
+  amount: number,
+  currency: string,
+  tripCurrency: string,
+  rates: Record<string, number>
+): { tripAmount: number; exchangeRate: number } {
+  const exchangeRate = getConversionRate(currency, tripCurrency, rates);
+  if (exchangeRate === null) {
+    throw new ExpenseError(`No exchange rate from ${currency} to ${tripCurrency}`);
+  }
+  return { tripAmount: round2(amount * exchangeRate), exchangeRate };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyBreakdown(): Record<ExpenseCategory, number> {
+  return { activities: 0, meals: 0, transport: 0, lodging: 0 };
+}
+
+function getItineraryDays(trip: Pick<Trip, 'itinerary'>): ItineraryDay[] {
+  const days = (trip.itinerary as { days?: ItineraryDay[] } | null)?.days;
+  return Array.isArray(days) ? days.filter(d => Array.isArray(d.activities)) : [];
+}
+
+/** Trip day (1-based) that `now` falls on, or null outside the trip */
+function getTripDayToday(dates: string, numDays: number, now: Date): number | null {
+  const range = parseTripDateRange(dates);
+  if (!range) return null;
+  const day = Math.floor((now.getTime() - new Date(`${range.startDate}T00:00:00Z`).getTime()) / DAY_MS) + 1;
+  return day >= 1 && day <= numDays ? day : null;
+}
+
+function getTripNumDays(dates: string): number | null {
+  const range = parseTripDateRange(dates);
+  if (!range) return null;
+  return Math.round((Date.parse(`${range.endDate}T00:00:00Z`) - Date.parse(`${range.startDate}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Budget vs actual per day and category, plus a forecast for the rest of
+ * the trip
+ */
+export function reconcileExpenses(
+  trip: Pick<Trip, 'budget' | 'currency' | 'dates' | 'itinerary'>,
+  expenses: Array<Pick<TripExpense, 'tripAmount' | 'category' | 'dayNumber'>>,
+  now = new Date()
+): ExpenseReconciliation {
+  const itineraryDays = getItineraryDays(trip);
+  const loggedDays = expenses.map(e => e.dayNumber).filter((d): d is number => d !== null);
+  const numDays = Math.max(
+    itineraryDays.length || getTripNumDays(trip.dates) || 1,
+    ...loggedDays
+  );
+
+  // Planned: the validator's own breakdown of the itinerary estimates
+  const plan = validateBudget(itineraryDays, trip.budget, numDays);
+  const plannedByDay = new Map(plan.perDayBreakdown.map(day => [day.day, day]));
+
+  // Actual: logged expenses bucketed the same way
+  const spentByDay = new Map<number, Record<ExpenseCategory, number>>();
+  let unassignedSpent = 0;
+  for (const expense of expenses) {
+    if (expense.dayNumber === null) {
+      unassignedSpent += expense.tripAmount;
+      continue;
+    }
+    const breakdown = spentByDay.get(expense.dayNumber) ?? emptyBreakdown();
+    const category = (EXPENSE_CATEGORIES as readonly string[]).includes(expense.category)
+      ? expense.category as ExpenseCategory
+      : 'activities';
+    breakdown[category] += expense.tripAmount;
+    spentByDay.set(expense.dayNumber, breakdown);
+  }
+
+  const dayNumbers = Array.from(new Set([...Array.from(plannedByDay.keys()), ...Array.from(spentByDay.keys())]))
+    .sort((a, b) => a - b);
+
+  const days = dayNumbers.map(dayNumber => {
+    const planned: DayBudgetBreakdown = plannedByDay.get(dayNumber) ?? {
+      day: dayNumber,
+      date: '',
+      allocated: plan.dailyAllocation,
+      actual: 0,
+      delta: -plan.dailyAllocation,
+      status: getDayBudgetStatus(0, plan.dailyAllocation),
+      breakdown: emptyBreakdown(),
+    };
+    const breakdown = spentByDay.get(dayNumber) ?? emptyBreakdown();
+    const spent = Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
+    const actual: DayBudgetBreakdown = {
+      day: dayNumber,
+      date: planned.date,
+      allocated: plan.dailyAllocation,
+      actual: round2(spent),
+      delta: round2(spent - plan.dailyAllocation),
+      status: getDayBudgetStatus(spent, plan.dailyAllocation),
+      breakdown,
+    };
+    return { planned, actual };
+  });
+
+  const categories = EXPENSE_CATEGORIES.map(category => {
+    const planned = days.reduce((sum, d) => sum + d.planned.breakdown[category], 0);
+    const actual = days.reduce((sum, d) => sum + d.actual.breakdown[category], 0);
+    return { category, planned: round2(planned), actual: round2(actual), delta: round2(actual - planned) };
+  });
+
+  // Forecast: how the days so far went against plan, carried forward
+  const totalSpent = expenses.reduce((sum, e) => sum + e.tripAmount, 0);
+  const lastLoggedDay = loggedDays.length > 0 ? Math.max(...loggedDays) : null;
+  const today = getTripDayToday(trip.dates, numDays, now);
+  const currentDay = lastLoggedDay === null && today === null ? null : Math.max(lastLoggedDay ?? 0, today ?? 0);
+
+  const isPast = (d: { actual: DayBudgetBreakdown }) => currentDay !== null && d.actual.day <= currentDay;
+  const plannedSoFar = days.filter(isPast).reduce((sum, d) => sum + d.planned.actual, 0);
+  const spentSoFar = days.filter(isPast).reduce((sum, d) => sum + d.actual.actual, 0);
+  const plannedRemaining = days.filter(d => !isPast(d)).reduce((sum, d) => sum + d.planned.actual, 0);
+
+  const pace = plannedSoFar > 0 ? spentSoFar / plannedSoFar : 1;
+  const remainingDays = Math.max(0, numDays - (currentDay ?? 0));
+  const remainingBudget = trip.budget - totalSpent;
+  const projectedTotal = totalSpent + plannedRemaining * pace;
+
+  return {
+    currency: trip.currency || 'USD',
+    totalBudget: trip.budget,
+    totalPlanned: round2(plan.totalEstimatedCost),
+    totalSpent: round2(totalSpent),
+    unassignedSpent: round2(unassignedSpent),
+    days,
+    categories,
+    forecast: {
+      currentDay,
+      remainingDays,
+      remainingBudget: round2(remainingBudget),
+      plannedRemaining: round2(plannedRemaining),
+      pace: Math.round(pace * 100) / 100,
+      projectedTotal: round2(projectedTotal),
+      projectedRemaining: round2(trip.budget - projectedTotal),
+      dailyAllowance: remainingDays > 0 ? round2(remainingBudget / remainingDays) : null,
+      status: getDayBudgetStatus(projectedTotal, trip.budget),
+    },
+    computedAt: now.toISOString(),
+  };
+}
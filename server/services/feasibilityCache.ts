@@ -180,6 +180,29 @@ export function clearFeasibilityCache(): void {
   console.log('[FeasibilityCache] Cleared');
 }
 
+/**
+ * Drop cached reports whose corridor matches, e.g. after visa knowledge for
+ * it changed. Keys hold names as the user typed them, so the caller decides
+ * what matches. Returns the number of entries removed.
+ */
+export function invalidateFeasibility(
+  matches: (passport: string, destinationCountry: string) => boolean
+): number {
+  let removed = 0;
+  const keys = Array.from(feasibilityCache.keys());
+  for (const key of keys) {
+    const [passport, country] = key.split(':');
+    if (matches(passport, country)) {
+      feasibilityCache.delete(key);
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    console.log(`[FeasibilityCache] Invalidated ${removed} entries`);
+  }
+  return removed;
+}
+
 /**
  * Warm cache with common corridors (call on startup)
  */
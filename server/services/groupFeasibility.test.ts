@@ -0,0 +1,72 @@
+/**
+ * Tests for Group Feasibility
+ *
+ * Run with: npx vitest run server/services/groupFeasibility.test.ts
+ *
+ * Runs against the committed corridor files and the real passport-index.csv.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { FeasibilityReport } from '@shared/schema';
+import { applyGroupFeasibility, checkGroupVisas } from './groupFeasibility';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const familyToJapan = {
+  destination: 'Tokyo, Japan',
+  dates: '2026-12-10 to 2026-12-16',
+  legs: null,
+  travelers: [
+    { name: 'Priya', passport: 'India', ageBand: 'adult' as const },
+    { name: 'Sam', passport: 'United States', ageBand: 'adult' as const },
+    { name: 'Asha', passport: 'United States', ageBand: 'child' as const },
+  ],
+};
+
+function report(): FeasibilityReport {
+  return {
+    overall: 'yes',
+    score: 90,
+    breakdown: {
+      visa: { status: 'ok', reason: 'Visa-free for United States passport holders' },
+      budget: { status: 'ok', estimatedCost: 3000, reason: 'Within budget' },
+      safety: { status: 'safe', reason: 'Low risk' },
+    },
+    summary: 'Looks good.',
+  };
+}
+
+describe('checkGroupVisas', () => {
+  it('checks each traveler on their own passport', () => {
+    const result = checkGroupVisas(familyToJapan, NOW)!;
+    const [priya, sam, asha] = result.travelers;
+
+    expect(priya.visas[0]).toMatchObject({ country: 'Japan', source: 'corridor' });
+    expect(priya.visas[0].type).not.toBe('visa_free');
+    expect(priya.visas[0].applyByDate).not.toBeNull();
+    expect(sam.visas[0].type).toBe('visa_free');
+
+    expect(asha.documents).toContain('Birth certificate (copy)');
+    expect(sam.documents).not.toContain('Birth certificate (copy)');
+  });
+
+  it('has nothing to check without a roster', () => {
+    expect(checkGroupVisas({ ...familyToJapan, travelers: null }, NOW)).toBeNull();
+  });
+});
+
+describe('applyGroupFeasibility', () => {
+  it('turns the whole trip into a no when one traveler is blocked', () => {
+    const result = checkGroupVisas(familyToJapan, NOW)!;
+    result.travelers[0] = { ...result.travelers[0], status: 'blocker', issues: ['Priya (India passport) can\'t enter Japan'] };
+    result.worstStatus = 'blocker';
+
+    const target = report();
+    applyGroupFeasibility(target, result);
+
+    expect(target.overall).toBe('no');
+    expect(target.score).toBeLessThanOrEqual(20);
+    expect(target.breakdown.visa.status).toBe('issue');
+    expect(target.group).toBe(result);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Group Feasibility
+ *
+ * Group trips can mix nationalities. The Stage 1 report is run for the
+ * trip's passport; this checks everyone on the roster separately and rolls
+ * the result up to the worst case - one traveler without a visa keeps the
+ * whole group home.
+ *
+ * Per traveler, deterministic (no LLM):
+ * - Visa type, fee and processing time for each country on the trip
+ *   (curated corridor data, else the Passport Index)
+ * - Apply-by date: computeDueDate with the usual 7-day buffer
+ * - Documents to carry, including the extra ones minors need
+ */
+
+import type {
+  FeasibilityReport,
+  GroupFeasibility,
+  Trip,
+  TravelerFeasibility,
+  TravelerVisaCheck,
+  TripTraveler,
+} from "@shared/schema";
+import { assessVisa, type VisaSourceCache } from "./passportChoice";
+import { computeDueDate, parseTravelStartDate } from "./dueDates";
+import { getTripCountries } from "./multiCityService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days until the trip when it has no parseable dates - far enough out not to penalize timing */
+const UNKNOWN_DAYS_UNTIL_TRIP = 60;
+
+const BUFFER_DAYS = 7; // Same buffer as buildVisaDueDates
+
+const STATUS_ORDER: Record<TravelerFeasibility['status'], number> = { ok: 0, warning: 1, blocker: 2 };
+
+/** Carried by every minor, whatever the destination asks */
+const MINOR_DOCUMENTS = [
+  'Birth certificate (copy)',
+  'Consent letter from any parent not travelling',
+];
+
+/**
+ * The roster, or null when the trip doesn't have one
+ */
+export function getTripTravelers(trip: { travelers?: unknown }): TripTraveler[] | null {
+  const travelers = trip.travelers as TripTraveler[] | null | undefined;
+  return Array.isArray(travelers) && travelers.length > 0 ? travelers : null;
+}
+
+function checkTraveler(
+  cache: VisaSourceCache,
+  traveler: TripTraveler,
+  travelerIndex: number,
+  countries: string[],
+  startDate: string | null,
+  daysUntilTrip: number
+): TravelerFeasibility {
+  const issues: string[] = [];
+  const documents = new Set<string>(['Passport valid 6+ months after return']);
+  const visas: TravelerVisaCheck[] = [];
+  let status: TravelerFeasibility['status'] = 'ok';
+  const raise = (to: TravelerFeasibility['status']) => {
+    if (STATUS_ORDER[to] > STATUS_ORDER[status]) status = to;
+  };
+
+  for (const country of countries) {
+    const { details, source } = assessVisa(cache, traveler.passport, country, daysUntilTrip);
+    const due = startDate
+      ? computeDueDate({
+        travelStartDateISO: startDate,
+        processingDaysMax: details.processingDays.maximum,
+        processingDaysMin: details.processingDays.minimum,
+        bufferDays: BUFFER_DAYS,
+      })
+      : null;
+
+    visas.push({
+      country,
+      type: details.type,
+      name: details.name,
+      source,
+      processingDaysMax: details.processingDays.maximum,
+      costPerPerson: details.cost.totalPerPerson,
+      currency: details.cost.currency,
+      applyByDate: due?.applyByDate ?? null,
+      daysUntilDeadline: due?.daysUntilDeadline ?? null,
+      urgency: due?.urgency ?? null,
+      applicationUrl: details.applicationUrl,
+    });
+    for (const document of details.documentsRequired) documents.add(document);
+
+    if (details.type === 'not_allowed') {
+      issues.push(`${traveler.name} (${traveler.passport} passport) can't enter ${country}`);
+      raise('blocker');
+    } else if (details.timing?.urgency === 'impossible') {
+      issues.push(`Not enough time for ${traveler.name}'s ${country} visa (${details.processingDays.maximum} days processing)`);
+      raise('blocker');
+    } else if (details.type === 'requires_verification') {
+      issues.push(`Verify ${country} entry rules for ${traveler.name} (${traveler.passport} passport)`);
+      raise('warning');
+    } else if (due?.urgency === 'critical' || due?.urgency === 'urgent') {
+      issues.push(`${traveler.name} must apply for a ${country} visa by ${due.applyByDate}`);
+      raise('warning');
+    }
+  }
+
+  if (traveler.ageBand !== 'adult') {
+    for (const document of MINOR_DOCUMENTS) documents.add(document);
+  }
+
+  return {
+    travelerIndex,
+    name: traveler.name,
+    passport: traveler.passport,
+    ageBand: traveler.ageBand,
+    status,
+    issues,
+    visas,
+    documents: Array.from(documents),
+  };
+}
+
+/**
+ * Check every traveler on the roster. Null when the trip has no roster.
+ */
+export function checkGroupVisas(
+  trip: Pick<Trip, 'travelers' | 'destination' | 'legs' | 'dates'>,
+  now = new Date()
+): GroupFeasibility | null {
+  const roster = getTripTravelers(trip);
+  if (!roster) return null;
+
+  const startDate = parseTravelStartDate(trip.dates);
+  const daysUntilTrip = startDate
+    ? Math.max(0, Math.ceil((new Date(`${startDate}T00:00:00Z`).getTime() - now.getTime()) / DAY_MS))
+    : UNKNOWN_DAYS_UNTIL_TRIP;
+  const countries = getTripCountries(trip);
+  const cache: VisaSourceCache = new Map();
+
+  const travelers = roster.map((traveler, index) =>
+    checkTraveler(cache, traveler, index, countries, startDate, daysUntilTrip)
+  );
+
+  return {
+    travelers,
+    worstStatus: travelers.reduce<TravelerFeasibility['status']>(
+      (worst, t) => (STATUS_ORDER[t.status] > STATUS_ORDER[worst] ? t.status : worst),
+      'ok'
+    ),
+  };
+}
+
+/**
+ * Roll per-traveler checks into the report: any blocker makes the trip a
+ * no, any warning downgrades a yes.
+ */
+export function applyGroupFeasibility(report: FeasibilityReport, group: GroupFeasibility): void {
+  report.group = group;
+
+  const blocked = group.travelers.filter(t => t.status === 'blocker');
+  const warned = group.travelers.filter(t => t.status === 'warning');
+
+  if (blocked.length > 0) {
+    const reasons = blocked.flatMap(t => t.issues);
+    report.overall = 'no';
+    report.score = Math.min(report.score, 20);
+    report.breakdown.visa = { status: 'issue', reason: reasons.join('. ') };
+    report.summary = `${report.summary} ${reasons[0]}.`;
+    return;
+  }
+
+  if (warned.length > 0) {
+    if (report.overall === 'yes') report.overall = 'warning';
+    report.breakdown.visa = {
+      status: 'issue',
+      reason: [report.breakdown.visa?.reason, ...warned.flatMap(t => t.issues)].filter(Boolean).join('. '),
+    };
+  }
+}
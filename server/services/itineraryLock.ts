@@ -56,9 +56,11 @@ export interface LockContext {
  * Returns:
  * - acquired: true if lock was acquired (either fresh or stale takeover)
  * - acquired: false if another process has a fresh lock
+ *
+ * Pass lockOwner to use a known owner id (the job worker uses its worker id
+ * so locks held by a dead worker can be found and released).
  */
-export async function acquireItineraryLock(tripId: number): Promise<LockResult> {
-  const lockOwner = randomUUID();
+export async function acquireItineraryLock(tripId: number, lockOwner: string = randomUUID()): Promise<LockResult> {
   const now = new Date();
   const staleThreshold = new Date(now.getTime() - LOCK_TIMEOUT_MS);
 
@@ -0,0 +1,472 @@
+/**
+ * Trip Job Queue
+ *
+ * Durable, Postgres-backed queue for trip processing (feasibility check and
+ * itinerary generation). Replaces the fire-and-forget background functions
+ * so work survives restarts and failures are visible.
+ *
+ * - Jobs are claimed with FOR UPDATE SKIP LOCKED, so several server
+ *   instances can share one table without double-processing
+ * - Failed attempts are retried with exponential backoff; after maxAttempts
+ *   the job is dead-lettered (status 'dead') and its onDead hook runs
+ * - Handlers report per-step progress into the job row, which backs
+ *   GET /api/trips/:id/progress
+ * - Running jobs heartbeat lockedAt. Jobs whose worker stopped heartbeating
+ *   (crash, deploy) are requeued or dead-lettered, and the itinerary lock
+ *   held by that worker is released
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { tripJobs, type TripJob, type TripJobType } from "@shared/schema";
+import { and, eq, desc, inArray, lt, sql } from "drizzle-orm";
+import { releaseItineraryLock } from "./itineraryLock";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const JOB_QUEUE_CONFIG = {
+  pollInterval: 2000, // How often idle workers look for due jobs
+  concurrency: 3, // Jobs processed at once per server instance
+  heartbeatInterval: 30 * 1000,
+  staleAfter: 2 * 60 * 1000, // No heartbeat for this long = worker died
+  recoveryInterval: 60 * 1000,
+  backoffBase: 5000, // 5s, 20s, 80s, ...
+  backoffFactor: 4,
+  finishedProgressTtl: 30 * 1000, // Keep serving a finished job's progress so the UI can show completion
+};
+
+/** Identifies this process in trip_jobs.locked_by (and as the itinerary lock owner) */
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JobHandler {
+  handler: (job: TripJob) => Promise<void>;
+  /** Called once when the job is dead-lettered (attempts exhausted) */
+  onDead?: (job: TripJob, error: string) => Promise<void>;
+  maxAttempts?: number;
+}
+
+export interface TripProgress {
+  step: number;
+  message: string;
+  details?: string;
+  startedAt: number;
+  updatedAt: number;
+  status: TripJob['status'];
+  attempts: number;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const handlers = new Map<string, JobHandler>();
+const activeJobs = new Set<number>();
+// Progress writes are fire-and-forget from the handlers; chain them per trip so they land in order
+const progressWrites = new Map<number, Promise<void>>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let recoveryTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+// ============================================================================
+// REGISTRATION & ENQUEUE
+// ============================================================================
+
+/**
+ * Register the handler for a job type (called once at startup)
+ */
+export function registerJobHandler(type: TripJobType, jobHandler: JobHandler): void {
+  handlers.set(type, jobHandler);
+}
+
+/**
+ * Queue a job for a trip.
+ *
+ * - A still-queued job of the same type is reused with the new payload
+ *   (e.g. two quick edits only re-check feasibility once)
+ * - An itinerary job that is already running is returned as-is, so repeated
+ *   "generate" clicks and speculative starts don't generate twice
+ */
+export async function enqueueTripJob(
+  tripId: number,
+  type: TripJobType,
+  payload: Record<string, unknown> = {}
+): Promise<TripJob> {
+  const pendingStatuses = type === 'itinerary' ? ['queued', 'running'] : ['queued'];
+  const [existing] = await db
+    .select()
+    .from(tripJobs)
+    .where(and(
+      eq(tripJobs.tripId, tripId),
+      eq(tripJobs.type, type),
+      inArray(tripJobs.status, pendingStatuses)
+    ))
+    .orderBy(desc(tripJobs.createdAt))
+    .limit(1);
+
+  if (existing?.status === 'running') {
+    return existing;
+  }
+
+  if (existing) {
+    const [updated] = await db
+      .update(tripJobs)
+      .set({ payload, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(tripJobs.id, existing.id), eq(tripJobs.status, 'queued')))
+      .returning();
+    if (updated) {
+      console.log(`[Jobs] Reused queued ${type} job ${updated.id} for trip ${tripId}`);
+      return updated;
+    }
+    // Claimed between the select and the update - fall through and queue a fresh one
+  }
+
+  const [job] = await db
+    .insert(tripJobs)
+    .values({
+      tripId,
+      type,
+      payload,
+      maxAttempts: handlers.get(type)?.maxAttempts ?? 3,
+    })
+    .returning();
+
+  console.log(`[Jobs] Queued ${type} job ${job.id} for trip ${tripId}`);
+
+  // Pick it up right away instead of waiting for the next poll
+  if (pollTimer) {
+    setImmediate(pollForJobs);
+  }
+
+  return job;
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Record progress for the trip's running job. Synchronous for callers;
+ * the write is queued behind earlier writes for the same trip.
+ */
+export function recordTripProgress(tripId: number, step: number, message: string, details?: string): void {
+  const previous = progressWrites.get(tripId) ?? Promise.resolve();
+  const next = previous
+    .then(async () => {
+      await db
+        .update(tripJobs)
+        .set({
+          progressStep: step,
+          progressMessage: message,
+          progressDetails: details ?? null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(tripJobs.tripId, tripId), eq(tripJobs.status, 'running')));
+    })
+    .catch(err => {
+      console.error(`[Jobs] Failed to record progress for trip ${tripId}:`, err);
+    });
+
+  progressWrites.set(tripId, next);
+  next.finally(() => {
+    if (progressWrites.get(tripId) === next) {
+      progressWrites.delete(tripId);
+    }
+  });
+}
+
+async function flushTripProgress(tripId: number): Promise<void> {
+  await progressWrites.get(tripId);
+}
+
+/**
+ * Current progress for a trip: the running job, else a job that finished in
+ * the last few seconds, else a queued job waiting to retry. Null when
+ * nothing is in flight (callers derive state from the trip row instead).
+ */
+export async function getTripProgress(tripId: number): Promise<TripProgress | null> {
+  const jobs = await db
+    .select()
+    .from(tripJobs)
+    .where(eq(tripJobs.tripId, tripId))
+    .orderBy(desc(tripJobs.updatedAt))
+    .limit(5);
+
+  const finishedCutoff = Date.now() - JOB_QUEUE_CONFIG.finishedProgressTtl;
+  const job =
+    jobs.find(j => j.status === 'running') ??
+    jobs.find(j => j.completedAt && j.completedAt.getTime() > finishedCutoff) ??
+    jobs.find(j => j.status === 'queued' && j.progressStep !== null);
+
+  if (!job || job.progressStep === null) {
+    return null;
+  }
+
+  return {
+    step: job.progressStep,
+    message: job.progressMessage || '',
+    details: job.progressDetails || undefined,
+    startedAt: (job.startedAt ?? job.createdAt).getTime(),
+    updatedAt: job.updatedAt.getTime(),
+    status: job.status,
+    attempts: job.attempts,
+  };
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Claim the next due job. SKIP LOCKED lets concurrent workers each take a
+ * different row without blocking on one another.
+ */
+async function claimNextJob(): Promise<TripJob | null> {
+  const claimed = await db.execute<{ id: number }>(sql`
+    UPDATE trip_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = ${WORKER_ID},
+        locked_at = now(),
+        started_at = COALESCE(started_at, now()),
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM trip_jobs
+      WHERE status = 'queued' AND run_at <= now()
+      ORDER BY run_at, id
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id
+  `);
+
+  const id = claimed.rows[0]?.id;
+  if (!id) return null;
+
+  const [job] = await db.select().from(tripJobs).where(eq(tripJobs.id, id)).limit(1);
+  return job ?? null;
+}
+
+function getBackoffMs(attempts: number): number {
+  return JOB_QUEUE_CONFIG.backoffBase * Math.pow(JOB_QUEUE_CONFIG.backoffFactor, Math.max(0, attempts - 1));
+}
+
+/**
+ * Move a job to the dead-letter state and run its onDead hook
+ */
+async function markJobDead(job: TripJob, error: string): Promise<void> {
+  await db
+    .update(tripJobs)
+    .set({
+      status: 'dead',
+      lastError: error,
+      lockedBy: null,
+      lockedAt: null,
+      progressStep: -1,
+      progressMessage: 'Error processing trip',
+      progressDetails: error,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(tripJobs.id, job.id));
+
+  console.error(`[Jobs] ${job.type} job ${job.id} for trip ${job.tripId} dead after ${job.attempts} attempts: ${error}`);
+
+  const onDead = handlers.get(job.type)?.onDead;
+  if (onDead) {
+    try {
+      await onDead(job, error);
+    } catch (err) {
+      console.error(`[Jobs] onDead hook failed for job ${job.id}:`, err);
+    }
+  }
+}
+
+async function runJob(job: TripJob): Promise<void> {
+  const jobHandler = handlers.get(job.type);
+  const startTime = Date.now();
+  console.log(`[Jobs] Running ${job.type} job ${job.id} for trip ${job.tripId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    if (!jobHandler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    await jobHandler.handler(job);
+    await flushTripProgress(job.tripId);
+
+    await db
+      .update(tripJobs)
+      .set({
+        status: 'succeeded',
+        lastError: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(tripJobs.id, job.id));
+
+    console.log(`[Jobs] ${job.type} job ${job.id} succeeded in ${Date.now() - startTime}ms`);
+  } catch (err) {
+    await flushTripProgress(job.tripId);
+    const error = err instanceof Error ? err.message : String(err);
+
+    if (!jobHandler || job.attempts >= job.maxAttempts) {
+      await markJobDead(job, error);
+      return;
+    }
+
+    const delay = getBackoffMs(job.attempts);
+    await db
+      .update(tripJobs)
+      .set({
+        status: 'queued',
+        lastError: error,
+        lockedBy: null,
+        lockedAt: null,
+        runAt: new Date(Date.now() + delay),
+        progressDetails: `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`,
+        updatedAt: new Date(),
+      })
+      .where(eq(tripJobs.id, job.id));
+
+    console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${error}`);
+  }
+}
+
+async function pollForJobs(): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    while (activeJobs.size < JOB_QUEUE_CONFIG.concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs.add(job.id);
+      runJob(job)
+        .catch(err => {
+          console.error(`[Jobs] Unexpected error running job ${job.id}:`, err);
+        })
+        .finally(() => {
+          activeJobs.delete(job.id);
+          setImmediate(pollForJobs);
+        });
+    }
+  } catch (err) {
+    console.error('[Jobs] Poll failed:', err);
+  } finally {
+    polling = false;
+  }
+}
+
+async function heartbeat(): Promise<void> {
+  if (activeJobs.size === 0) return;
+
+  await db
+    .update(tripJobs)
+    .set({ lockedAt: new Date() })
+    .where(and(
+      inArray(tripJobs.id, Array.from(activeJobs)),
+      eq(tripJobs.lockedBy, WORKER_ID)
+    ));
+}
+
+// ============================================================================
+// RECOVERY
+// ============================================================================
+
+/**
+ * Requeue (or dead-letter, if out of attempts) running jobs whose worker has
+ * stopped heartbeating, and release the itinerary lock that worker held so
+ * the retry - or the streaming endpoint - can take it immediately.
+ */
+export async function recoverOrphanedJobs(): Promise<{ requeued: number; dead: number }> {
+  const staleThreshold = new Date(Date.now() - JOB_QUEUE_CONFIG.staleAfter);
+  const orphaned = await db
+    .select()
+    .from(tripJobs)
+    .where(and(eq(tripJobs.status, 'running'), lt(tripJobs.lockedAt, staleThreshold)));
+
+  let requeued = 0;
+  let dead = 0;
+
+  for (const job of orphaned) {
+    if (job.lockedBy) {
+      await releaseItineraryLock(job.tripId, job.lockedBy, 'idle');
+    }
+
+    const error = `Worker ${job.lockedBy || 'unknown'} stopped responding`;
+
+    if (job.attempts >= job.maxAttempts) {
+      await markJobDead(job, error);
+      dead++;
+      continue;
+    }
+
+    // Guard on lockedBy so a worker that comes back to life can't be raced
+    const [updated] = await db
+      .update(tripJobs)
+      .set({
+        status: 'queued',
+        lastError: error,
+        lockedBy: null,
+        lockedAt: null,
+        runAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tripJobs.id, job.id), eq(tripJobs.status, 'running'), lt(tripJobs.lockedAt, staleThreshold)))
+      .returning({ id: tripJobs.id });
+
+    if (updated) requeued++;
+  }
+
+  if (requeued > 0 || dead > 0) {
+    console.log(`[Jobs] Recovered orphaned jobs: ${requeued} requeued, ${dead} dead-lettered`);
+  }
+
+  return { requeued, dead };
+}
+
+/**
+ * Start polling for jobs, heartbeating and orphan recovery (idempotent).
+ * Handlers must be registered before jobs can run.
+ */
+export function startJobWorker(): void {
+  if (pollTimer) return;
+
+  const recover = () => {
+    recoverOrphanedJobs()
+      .then(() => pollForJobs())
+      .catch(err => {
+        console.error('[Jobs] Orphan recovery failed:', err);
+      });
+  };
+
+  recover();
+
+  pollTimer = setInterval(pollForJobs, JOB_QUEUE_CONFIG.pollInterval);
+  pollTimer.unref();
+
+  heartbeatTimer = setInterval(() => {
+    heartbeat().catch(err => {
+      console.error('[Jobs] Heartbeat failed:', err);
+    });
+  }, JOB_QUEUE_CONFIG.heartbeatInterval);
+  heartbeatTimer.unref();
+
+  recoveryTimer = setInterval(recover, JOB_QUEUE_CONFIG.recoveryInterval);
+  recoveryTimer.unref();
+
+  console.log(`[Jobs] Worker ${WORKER_ID} started (concurrency ${JOB_QUEUE_CONFIG.concurrency})`);
+}
+
@@ -0,0 +1,149 @@
+/**
+ * Knowledge Ingest Service
+ *
+ * The embed-and-store pipeline behind POST /api/knowledge/ingest, shared
+ * with the knowledge source refresher.
+ *
+ * - Every stored chunk carries a SHA-256 content hash so a refresh can tell
+ *   which chunks changed and re-embed only those
+ * - Content that a refresh replaces or removes is archived to
+ *   knowledge_document_versions first
+ */
+
+import { createHash } from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import {
+  knowledgeDocuments,
+  knowledgeDocumentVersions,
+  type KnowledgeDocument,
+} from "../../shared/knowledgeSchema";
+import { generateEmbedding, type EmbeddingResult } from "./embeddings";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KnowledgeDocumentInput {
+  sourceId: string;
+  sourceType: string;
+  title: string;
+  content: string;
+  fromCountry?: string | null;
+  toCountry?: string | null;
+  sourceUrl?: string | null;
+  sourceName?: string | null;
+  metadata?: Record<string, unknown> | null;
+  /** Set for chunks ingested from a knowledge_sources row */
+  parentSourceId?: string | null;
+  chunkIndex?: number | null;
+}
+
+export interface IngestResult {
+  id: number;
+  embedding: EmbeddingResult;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function hashKnowledgeContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// ============================================================================
+// INGEST
+// ============================================================================
+
+/**
+ * Embed a document and insert it
+ */
+export async function ingestKnowledgeDocument(input: KnowledgeDocumentInput): Promise<IngestResult> {
+  const embeddingResult = await generateEmbedding(input.content);
+
+  const [inserted] = await db
+    .insert(knowledgeDocuments)
+    .values({
+      sourceId: input.sourceId,
+      sourceType: input.sourceType,
+      title: input.title,
+      content: input.content,
+      fromCountry: input.fromCountry?.toUpperCase() || null,
+      toCountry: input.toCountry?.toUpperCase() || null,
+      sourceUrl: input.sourceUrl || null,
+      sourceName: input.sourceName || null,
+      lastVerified: new Date(),
+      metadata: input.metadata || null,
+      parentSourceId: input.parentSourceId ?? null,
+      chunkIndex: input.chunkIndex ?? null,
+      contentHash: hashKnowledgeContent(input.content),
+      embedding: embeddingResult.embedding,
+    })
+    .returning({ id: knowledgeDocuments.id });
+
+  return { id: inserted.id, embedding: embeddingResult };
+}
+
+/**
+ * Copy a document's current content to knowledge_document_versions
+ */
+export async function archiveKnowledgeDocument(
+  doc: KnowledgeDocument,
+  changeType: "updated" | "removed"
+): Promise<void> {
+  await db.insert(knowledgeDocumentVersions).values({
+    documentId: doc.id,
+    sourceId: doc.sourceId,
+    parentSourceId: doc.parentSourceId,
+    version: doc.version,
+    title: doc.title,
+    content: doc.content,
+    contentHash: doc.contentHash,
+    sourceUrl: doc.sourceUrl,
+    sourceName: doc.sourceName,
+    lastVerified: doc.lastVerified,
+    metadata: doc.metadata,
+    changeType,
+  });
+}
+
+/**
+ * Replace a document's content: archive the current version, re-embed,
+ * and bump the version
+ */
+export async function updateKnowledgeDocument(
+  existing: KnowledgeDocument,
+  input: KnowledgeDocumentInput
+): Promise<IngestResult> {
+  const embeddingResult = await generateEmbedding(input.content);
+  await archiveKnowledgeDocument(existing, "updated");
+
+  await db
+    .update(knowledgeDocuments)
+    .set({
+      title: input.title,
+      content: input.content,
+      fromCountry: input.fromCountry?.toUpperCase() || null,
+      toCountry: input.toCountry?.toUpperCase() || null,
+      sourceUrl: input.sourceUrl || null,
+      sourceName: input.sourceName || null,
+      metadata: input.metadata ?? existing.metadata,
+      contentHash: hashKnowledgeContent(input.content),
+      embedding: embeddingResult.embedding,
+      version: existing.version + 1,
+      lastVerified: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(knowledgeDocuments.id, existing.id));
+
+  return { id: existing.id, embedding: embeddingResult };
+}
+
+/**
+ * Archive and delete a document that is no longer in its source
+ */
+export async function removeKnowledgeDocument(existing: KnowledgeDocument): Promise<void> {
+  await archiveKnowledgeDocument(existing, "removed");
+  await db.delete(knowledgeDocuments).where(eq(knowledgeDocuments.id, existing.id));
+}
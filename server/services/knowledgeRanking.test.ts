@@ -0,0 +1,69 @@
+/**
+ * Tests for Knowledge Ranking
+ *
+ * Run with: npx vitest run server/services/knowledgeRanking.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractQueryTerms,
+  toKeywordQuery,
+  reciprocalRankFusion,
+  heuristicRerankScore,
+} from './knowledgeRanking';
+
+describe('extractQueryTerms', () => {
+  it('keeps hyphenated words and separated numbers, dropping stopwords', () => {
+    expect(extractQueryTerms('What is the e-Visa fee for 500,000 IDR?')).toEqual(['e-visa', 'fee', '500,000', 'idr']);
+  });
+
+  it('lowercases and removes duplicates', () => {
+    expect(extractQueryTerms('Visa visa ETA')).toEqual(['visa', 'eta']);
+    expect(extractQueryTerms('how to')).toEqual([]);
+  });
+});
+
+describe('toKeywordQuery', () => {
+  it('ORs quoted terms so hyphens are not read as operators', () => {
+    expect(toKeywordQuery('Do I need an e-Visa?')).toBe('"need" or "e-visa"');
+    expect(toKeywordQuery('-entry ban')).toBe('"entry" or "ban"');
+  });
+
+  it('is empty when only stopwords remain', () => {
+    expect(toKeywordQuery('the of')).toBe('');
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (k + rank) over every list a document appears in', () => {
+    const scores = reciprocalRankFusion([[1, 2, 3], [3, 1]], 60);
+
+    expect(scores.get(1)).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(scores.get(2)).toBeCloseTo(1 / 62);
+    expect(scores.get(3)).toBeCloseTo(1 / 63 + 1 / 61);
+    expect([...scores.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id)).toEqual([1, 3, 2]);
+  });
+
+  it('returns no scores for empty rankings', () => {
+    expect(reciprocalRankFusion([[], []]).size).toBe(0);
+  });
+});
+
+describe('heuristicRerankScore', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const doc = { title: 'UK ETA', content: 'The ETA fee is £10 and covers two years.', lastVerified: now };
+
+  it('blends term coverage, title coverage, exact phrase and freshness', () => {
+    expect(heuristicRerankScore('ETA fee', doc, now)).toBeCloseTo(0.5 + 0.2 * 0.5 + 0.15 + 0.15);
+  });
+
+  it('drops the freshness bonus for stale or unverified documents', () => {
+    const stale = { ...doc, lastVerified: new Date('2024-06-01T00:00:00Z') };
+    expect(heuristicRerankScore('ETA fee', stale, now)).toBeCloseTo(0.75);
+    expect(heuristicRerankScore('ETA fee', { ...doc, lastVerified: null }, now)).toBeCloseTo(0.75);
+  });
+
+  it('scores zero for a query without usable terms', () => {
+    expect(heuristicRerankScore('the', doc, now)).toBe(0);
+  });
+});
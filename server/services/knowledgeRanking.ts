@@ -0,0 +1,91 @@
+/**
+ * Knowledge Ranking
+ *
+ * Query parsing and score fusion for knowledge search, without database
+ * access: query terms, the keyword-leg tsquery, reciprocal rank fusion and
+ * the fallback rerank heuristic. Retrieval lives in knowledgeSearch.ts.
+ */
+
+import type { KnowledgeSearchResult } from "../../shared/knowledgeSchema";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const KNOWLEDGE_SEARCH_CONFIG = {
+  rrfK: 60, // Standard RRF constant; dampens the weight of top ranks
+  minCandidates: 20, // Per-leg candidate pool before fusion
+  candidateMultiplier: 4, // Pool = max(minCandidates, limit * multiplier)
+  heuristicWeight: 0.5, // Blend of heuristic score vs fused rank score
+  freshnessDays: 365, // Freshness bonus decays to zero over this many days
+  rerankTimeoutMs: 5000,
+};
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how",
+  "i", "in", "is", "it", "me", "my", "of", "on", "or", "the", "to", "what", "when", "which", "with",
+]);
+
+/**
+ * Lowercased query terms worth matching: words, hyphenated words ("e-visa")
+ * and numbers with separators ("500,000")
+ */
+export function extractQueryTerms(query: string): string[] {
+  const terms = query.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+(?:[-,.][a-z0-9\u00c0-\u024f]+)*/g) ?? [];
+  return Array.from(new Set(terms.filter(term => !STOPWORDS.has(term))));
+}
+
+/**
+ * websearch_to_tsquery input that ORs the terms, so a document matching
+ * most (not all) of them still ranks. Quoting each term keeps hyphens and
+ * leading minus signs from being read as operators.
+ */
+export function toKeywordQuery(query: string): string {
+  return extractQueryTerms(query).map(term => `"${term}"`).join(" or ");
+}
+
+/**
+ * Reciprocal rank fusion: score(doc) = Σ 1 / (k + rank), rank 1-based,
+ * summed over every list the document appears in
+ */
+export function reciprocalRankFusion(rankings: number[][], k = KNOWLEDGE_SEARCH_CONFIG.rrfK): Map<number, number> {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+/**
+ * Heuristic relevance in [0, 1]: share of query terms in the document and
+ * its title, an exact-phrase bonus and a freshness bonus
+ */
+export function heuristicRerankScore(
+  query: string,
+  doc: Pick<KnowledgeSearchResult, "title" | "content" | "lastVerified">,
+  now = new Date()
+): number {
+  const terms = extractQueryTerms(query);
+  if (terms.length === 0) return 0;
+
+  const title = doc.title.toLowerCase();
+  const text = `${title}\n${doc.content.toLowerCase()}`;
+
+  const coverage = terms.filter(term => text.includes(term)).length / terms.length;
+  const titleCoverage = terms.filter(term => title.includes(term)).length / terms.length;
+  const phrase = terms.length > 1 && text.includes(query.toLowerCase().trim()) ? 1 : 0;
+
+  let freshness = 0;
+  if (doc.lastVerified) {
+    const ageDays = (now.getTime() - new Date(doc.lastVerified).getTime()) / (24 * 60 * 60 * 1000);
+    freshness = Math.max(0, 1 - ageDays / KNOWLEDGE_SEARCH_CONFIG.freshnessDays);
+  }
+
+  return 0.5 * coverage + 0.2 * titleCoverage + 0.15 * phrase + 0.15 * freshness;
+}
@@ -0,0 +1,331 @@
+/**
+ * Knowledge Source Refresher
+ *
+ * Re-fetches knowledge_sources rows once their refreshIntervalDays has passed
+ * and re-ingests them through the knowledge ingest pipeline, so the visa
+ * citations used by visaService and ragCostVerifier don't go stale silently.
+ *
+ * - The fetched page is split into chunks; chunk N of a source is the
+ *   knowledge document "<sourceId>#N"
+ * - Chunks are compared by content hash: unchanged chunks are only
+ *   re-stamped, changed and new chunks are (re-)embedded, chunks past the
+ *   end of the new content are removed. Replaced content is archived.
+ * - When anything changed, cached visa facts and feasibility reports for the
+ *   source's corridor are dropped
+ */
+
+import { asc, eq, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  knowledgeDocuments,
+  knowledgeSources,
+  type KnowledgeSource,
+} from "../../shared/knowledgeSchema";
+import {
+  hashKnowledgeContent,
+  ingestKnowledgeDocument,
+  removeKnowledgeDocument,
+  updateKnowledgeDocument,
+  type KnowledgeDocumentInput,
+} from "./knowledgeIngest";
+import { invalidateVisaFacts } from "./visaService";
+import { invalidateFeasibility } from "./feasibilityCache";
+import { getCountryCode } from "./visaApiService";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const KNOWLEDGE_REFRESH_CONFIG = {
+  checkInterval: 60 * 60 * 1000, // Look for due sources hourly
+  fetchTimeoutMs: 20_000,
+  maxChunkChars: 2000,
+  maxSourcesPerRun: 20, // Embedding is slow; the rest wait for the next run
+  defaultIntervalDays: 30,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KnowledgeRefreshResult {
+  sourceId: string;
+  chunks: number;
+  unchanged: number;
+  updated: number;
+  added: number;
+  removed: number;
+  invalidated: { visaFacts: number; feasibility: number };
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checkInFlight = false;
+
+// ============================================================================
+// FETCH & CHUNK
+// ============================================================================
+
+/**
+ * Readable text from an HTML page: scripts, styles and tags dropped, block
+ * elements turned into paragraph breaks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6])>/gi, "\n\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Split text into chunks of whole paragraphs, each at most maxChars
+ * (a single longer paragraph is split on sentence boundaries, then hard-cut)
+ */
+export function chunkSourceText(text: string, maxChars = KNOWLEDGE_REFRESH_CONFIG.maxChunkChars): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (paragraph.length <= maxChars) {
+      pieces.push(paragraph);
+      continue;
+    }
+    for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars));
+      }
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+async function fetchSourceText(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: { "User-Agent": "VoyageAI-KnowledgeRefresh/1.0" },
+    signal: AbortSignal.timeout(KNOWLEDGE_REFRESH_CONFIG.fetchTimeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${url}`);
+  }
+
+  const body = await response.text();
+  const contentType = response.headers.get("content-type") || "";
+  return contentType.includes("html") || /^\s*</.test(body) ? htmlToText(body) : body.trim();
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+export function isKnowledgeSourceDue(source: KnowledgeSource, now = new Date()): boolean {
+  if (!source.url) return false;
+  if (!source.lastFetched) return true;
+
+  const intervalDays = source.refreshIntervalDays ?? KNOWLEDGE_REFRESH_CONFIG.defaultIntervalDays;
+  return now.getTime() - source.lastFetched.getTime() >= intervalDays * 24 * 60 * 60 * 1000;
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+/**
+ * Drop cached visa facts and feasibility reports for a source's corridor.
+ * Sources without a destination can't be mapped to a corridor.
+ */
+function invalidateCorridor(source: KnowledgeSource): KnowledgeRefreshResult["invalidated"] {
+  if (!source.toCountry) {
+    return { visaFacts: 0, feasibility: 0 };
+  }
+
+  const fromCountry = source.fromCountry?.toUpperCase() ?? null;
+  const toCountry = source.toCountry.toUpperCase();
+
+  return {
+    visaFacts: invalidateVisaFacts(fromCountry, toCountry),
+    feasibility: invalidateFeasibility((passport, country) =>
+      getCountryCode(country) === toCountry &&
+      (fromCountry === null || getCountryCode(passport) === fromCountry)
+    ),
+  };
+}
+
+/**
+ * Re-fetch one source and bring its chunks up to date.
+ * Failures are recorded on the source (lastError) and re-thrown.
+ */
+export async function refreshKnowledgeSource(source: KnowledgeSource): Promise<KnowledgeRefreshResult> {
+  if (!source.url) {
+    throw new Error(`Knowledge source ${source.sourceId} has no URL to refresh from`);
+  }
+
+  try {
+    const chunks = chunkSourceText(await fetchSourceText(source.url));
+    if (chunks.length === 0) {
+      throw new Error(`No text content at ${source.url}`);
+    }
+
+    const existing = await db
+      .select()
+      .from(knowledgeDocuments)
+      .where(eq(knowledgeDocuments.parentSourceId, source.sourceId))
+      .orderBy(asc(knowledgeDocuments.chunkIndex));
+    const byIndex = new Map(existing.map(doc => [doc.chunkIndex, doc]));
+
+    const result: KnowledgeRefreshResult = {
+      sourceId: source.sourceId,
+      chunks: chunks.length,
+      unchanged: 0,
+      updated: 0,
+      added: 0,
+      removed: 0,
+      invalidated: { visaFacts: 0, feasibility: 0 },
+    };
+
+    for (let i = 0; i < chunks.length; i++) {
+      const input: KnowledgeDocumentInput = {
+        sourceId: `${source.sourceId}#${i}`,
+        sourceType: source.sourceType,
+        title: chunks.length > 1 ? `${source.name} (part ${i + 1})` : source.name,
+        content: chunks[i],
+        fromCountry: source.fromCountry,
+        toCountry: source.toCountry,
+        sourceUrl: source.url,
+        sourceName: source.name,
+        parentSourceId: source.sourceId,
+        chunkIndex: i,
+      };
+
+      const current = byIndex.get(i);
+      if (!current) {
+        await ingestKnowledgeDocument(input);
+        result.added++;
+      } else if (current.contentHash === hashKnowledgeContent(chunks[i])) {
+        await db
+          .update(knowledgeDocuments)
+          .set({ lastVerified: new Date() })
+          .where(eq(knowledgeDocuments.id, current.id));
+        result.unchanged++;
+      } else {
+        await updateKnowledgeDocument(current, input);
+        result.updated++;
+      }
+    }
+
+    for (const doc of existing) {
+      if (doc.chunkIndex === null || doc.chunkIndex >= chunks.length) {
+        await removeKnowledgeDocument(doc);
+        result.removed++;
+      }
+    }
+
+    const changed = result.updated + result.added + result.removed > 0;
+    if (changed) {
+      result.invalidated = invalidateCorridor(source);
+    }
+
+    await db
+      .update(knowledgeSources)
+      .set({
+        lastFetched: new Date(),
+        documentCount: chunks.length,
+        lastError: null,
+        ...(changed ? { lastChangedAt: new Date() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(knowledgeSources.id, source.id));
+
+    console.log(
+      `[KnowledgeRefresh] ${source.sourceId}: ${result.unchanged} unchanged, ${result.updated} updated, ` +
+      `${result.added} added, ${result.removed} removed`
+    );
+    return result;
+  } catch (error) {
+    // Stamp lastFetched anyway so a broken URL waits for its next interval
+    await db
+      .update(knowledgeSources)
+      .set({
+        lastFetched: new Date(),
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(knowledgeSources.id, source.id));
+    throw error;
+  }
+}
+
+/**
+ * Refresh every source past its interval, oldest first
+ */
+export async function refreshDueKnowledgeSources(now = new Date()): Promise<KnowledgeRefreshResult[]> {
+  const sources = await db
+    .select()
+    .from(knowledgeSources)
+    .where(isNotNull(knowledgeSources.url))
+    .orderBy(sql`${knowledgeSources.lastFetched} ASC NULLS FIRST`);
+
+  const due = sources
+    .filter(source => isKnowledgeSourceDue(source, now))
+    .slice(0, KNOWLEDGE_REFRESH_CONFIG.maxSourcesPerRun);
+
+  const results: KnowledgeRefreshResult[] = [];
+  for (const source of due) {
+    try {
+      results.push(await refreshKnowledgeSource(source));
+    } catch (error) {
+      console.error(`[KnowledgeRefresh] Failed to refresh ${source.sourceId}:`, error);
+    }
+  }
+  return results;
+}
+
+/**
+ * Start the periodic refresh (idempotent). Runs are skipped while a previous
+ * run is still in flight.
+ */
+export function startKnowledgeRefreshScheduler(): void {
+  if (checkTimer) return;
+
+  const run = () => {
+    if (checkInFlight) return;
+    checkInFlight = true;
+    refreshDueKnowledgeSources()
+      .catch(err => {
+        console.error("[KnowledgeRefresh] Scheduled refresh failed:", err);
+      })
+      .finally(() => {
+        checkInFlight = false;
+      });
+  };
+
+  checkTimer = setInterval(run, KNOWLEDGE_REFRESH_CONFIG.checkInterval);
+  checkTimer.unref();
+  run();
+
+  console.log("[KnowledgeRefresh] Scheduler started (hourly)");
+}
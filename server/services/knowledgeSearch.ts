@@ -0,0 +1,245 @@
+/**
+ * Knowledge Search Service
+ *
+ * Hybrid retrieval over knowledge_documents for POST /api/knowledge/search:
+ *
+ * - Vector leg: pgvector cosine similarity to the query embedding
+ * - Keyword leg: Postgres full-text ranking (ts_rank_cd) so exact terms such
+ *   as "eNTRI", "ETA" or "500,000 IDR" match even when embeddings blur them
+ * - The two ranked lists are fused with reciprocal rank fusion (RRF), then
+ *   optionally reranked: by a local cross-encoder (KNOWLEDGE_RERANK_URL) or a
+ *   term-coverage/freshness heuristic (knowledgeRanking.ts)
+ *
+ * The keyword leg benefits from a GIN index, which must be created manually:
+ * CREATE INDEX knowledge_fts_idx ON knowledge_documents
+ * USING gin (to_tsvector('english', title || ' ' || content));
+ *
+ * Environment Variables:
+ * - KNOWLEDGE_RERANK_URL: Local cross-encoder rerank endpoint (text-embeddings-inference
+ *   style: POST { query, texts } → [{ index, score }]). Falls back to the heuristic.
+ */
+
+import { and, desc, eq, gte, inArray, sql, type SQL } from "drizzle-orm";
+import { cosineDistance } from "drizzle-orm";
+import { db } from "../db";
+import {
+  knowledgeDocuments,
+  type KnowledgeQueryParams,
+  type KnowledgeSearchMode,
+  type KnowledgeReranker,
+  type KnowledgeSearchResult,
+} from "../../shared/knowledgeSchema";
+import { generateEmbedding } from "./embeddings";
+import {
+  KNOWLEDGE_SEARCH_CONFIG,
+  toKeywordQuery,
+  reciprocalRankFusion,
+  heuristicRerankScore,
+} from "./knowledgeRanking";
+
+const RERANK_URL = process.env.KNOWLEDGE_RERANK_URL;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KnowledgeSearchOutcome {
+  results: KnowledgeSearchResult[];
+  mode: KnowledgeSearchMode;
+  reranker: KnowledgeReranker;
+  queryEmbedding: number[] | null;
+}
+
+type CandidateRow = Omit<KnowledgeSearchResult, "score" | "matchedBy">;
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+function buildFilters(params: KnowledgeQueryParams): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (params.fromCountry) {
+    conditions.push(eq(knowledgeDocuments.fromCountry, params.fromCountry.toUpperCase()));
+  }
+  if (params.toCountry) {
+    conditions.push(eq(knowledgeDocuments.toCountry, params.toCountry.toUpperCase()));
+  }
+  if (params.sourceTypes && params.sourceTypes.length > 0) {
+    conditions.push(inArray(knowledgeDocuments.sourceType, params.sourceTypes));
+  }
+  if (params.verifiedWithinDays) {
+    const since = new Date(Date.now() - params.verifiedWithinDays * 24 * 60 * 60 * 1000);
+    conditions.push(gte(knowledgeDocuments.lastVerified, since));
+  }
+
+  return conditions;
+}
+
+function selectCandidates(similarity: SQL<number>) {
+  return {
+    id: knowledgeDocuments.id,
+    sourceId: knowledgeDocuments.sourceId,
+    sourceType: knowledgeDocuments.sourceType,
+    title: knowledgeDocuments.title,
+    content: knowledgeDocuments.content,
+    fromCountry: knowledgeDocuments.fromCountry,
+    toCountry: knowledgeDocuments.toCountry,
+    sourceUrl: knowledgeDocuments.sourceUrl,
+    sourceName: knowledgeDocuments.sourceName,
+    lastVerified: knowledgeDocuments.lastVerified,
+    similarity,
+  };
+}
+
+async function vectorCandidates(
+  similarity: SQL<number>,
+  filters: SQL[],
+  poolSize: number,
+  minSimilarity: number
+): Promise<CandidateRow[]> {
+  const rows = await db
+    .select(selectCandidates(similarity))
+    .from(knowledgeDocuments)
+    .where(filters.length > 0 ? and(...filters) : undefined)
+    .orderBy(desc(similarity))
+    .limit(poolSize);
+
+  // Filter by minimum similarity (post-query since we can't use computed column in WHERE easily)
+  return rows.filter((r: typeof rows[number]) => r.similarity >= minSimilarity);
+}
+
+async function keywordCandidates(
+  query: string,
+  similarity: SQL<number>,
+  filters: SQL[],
+  poolSize: number
+): Promise<CandidateRow[]> {
+  const keywordQuery = toKeywordQuery(query);
+  if (!keywordQuery) return [];
+
+  const document = sql`to_tsvector('english', ${knowledgeDocuments.title} || ' ' || ${knowledgeDocuments.content})`;
+  const tsQuery = sql`websearch_to_tsquery('english', ${keywordQuery})`;
+  const rank = sql<number>`ts_rank_cd(${document}, ${tsQuery})`;
+
+  return db
+    .select(selectCandidates(similarity))
+    .from(knowledgeDocuments)
+    .where(and(...filters, sql`${document} @@ ${tsQuery}`))
+    .orderBy(desc(rank))
+    .limit(poolSize);
+}
+
+// ============================================================================
+// RERANKING
+// ============================================================================
+
+/**
+ * Scores from the local cross-encoder, in candidate order. Null when it's
+ * not configured or fails, so the caller can fall back.
+ */
+async function crossEncoderScores(query: string, candidates: CandidateRow[]): Promise<number[] | null> {
+  if (!RERANK_URL || candidates.length === 0) return null;
+
+  try {
+    const response = await fetch(RERANK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query,
+        texts: candidates.map(c => `${c.title}\n${c.content}`),
+      }),
+      signal: AbortSignal.timeout(KNOWLEDGE_SEARCH_CONFIG.rerankTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const ranked = await response.json() as Array<{ index: number; score: number }>;
+    const scores = new Array<number>(candidates.length).fill(0);
+    for (const { index, score } of ranked) {
+      if (index >= 0 && index < scores.length) scores[index] = score;
+    }
+    return scores;
+  } catch (error) {
+    console.warn("[KnowledgeSearch] Cross-encoder rerank failed, using heuristic:", error);
+    return null;
+  }
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Search the knowledge base. Hybrid by default; `mode: "vector"` is the
+ * previous similarity-only behaviour.
+ */
+export async function searchKnowledge(params: KnowledgeQueryParams): Promise<KnowledgeSearchOutcome> {
+  const {
+    query,
+    limit = 5,
+    minSimilarity = 0.7,
+    mode = "hybrid",
+    rerank = "none",
+  } = params;
+
+  const filters = buildFilters(params);
+  const poolSize = Math.max(KNOWLEDGE_SEARCH_CONFIG.minCandidates, limit * KNOWLEDGE_SEARCH_CONFIG.candidateMultiplier);
+
+  // Keyword-only search skips the embedding call; similarity is then unknown (0)
+  const queryEmbedding = mode === "keyword" ? null : (await generateEmbedding(query)).embedding;
+  const similarity = queryEmbedding
+    ? sql<number>`1 - (${cosineDistance(knowledgeDocuments.embedding, queryEmbedding)})`
+    : sql<number>`0::float`;
+
+  const [vectorRows, keywordRows] = await Promise.all([
+    mode === "keyword" ? Promise.resolve([]) : vectorCandidates(similarity, filters, poolSize, minSimilarity),
+    mode === "vector" ? Promise.resolve([]) : keywordCandidates(query, similarity, filters, poolSize),
+  ]);
+
+  const candidates = new Map<number, CandidateRow>();
+  const matchedBy = new Map<number, Array<"vector" | "keyword">>();
+  for (const [leg, rows] of [["vector", vectorRows], ["keyword", keywordRows]] as const) {
+    for (const row of rows) {
+      candidates.set(row.id, row);
+      matchedBy.set(row.id, [...(matchedBy.get(row.id) ?? []), leg]);
+    }
+  }
+
+  const fused = reciprocalRankFusion([vectorRows.map(r => r.id), keywordRows.map(r => r.id)]);
+  const maxFused = Math.max(0, ...Array.from(fused.values()));
+
+  let pool = Array.from(candidates.values());
+  let scores = new Map(pool.map(c => [c.id, maxFused > 0 ? (fused.get(c.id) ?? 0) / maxFused : 0]));
+  let reranker: KnowledgeReranker = "none";
+
+  if (rerank === "cross-encoder") {
+    const crossScores = await crossEncoderScores(query, pool);
+    if (crossScores) {
+      scores = new Map(pool.map((c, i) => [c.id, crossScores[i]]));
+      reranker = "cross-encoder";
+    }
+  }
+  if ((rerank === "heuristic" || rerank === "cross-encoder") && reranker === "none") {
+    const weight = KNOWLEDGE_SEARCH_CONFIG.heuristicWeight;
+    scores = new Map(pool.map(c => [
+      c.id,
+      (1 - weight) * (scores.get(c.id) ?? 0) + weight * heuristicRerankScore(query, c),
+    ]));
+    reranker = "heuristic";
+  }
+
+  pool = pool.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)).slice(0, limit);
+
+  return {
+    results: pool.map(c => ({
+      ...c,
+      score: Math.round((scores.get(c.id) ?? 0) * 10000) / 10000,
+      matchedBy: matchedBy.get(c.id) ?? [],
+    })),
+    mode,
+    reranker,
+    queryEmbedding,
+  };
+}
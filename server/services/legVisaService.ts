@@ -0,0 +1,156 @@
+/**
+ * Leg Visa Service
+ *
+ * Per-stop visa checks for multi-city trips, through the passport index and
+ * the knowledge base: admission, visa type, visa-free allowance per stay,
+ * re-entries that need a multiple-entry visa, and the Schengen 90-day limit
+ * across all Schengen stops.
+ */
+
+import type { TripLeg, LegFeasibility, LegVisaCheck, VisaDetails } from "@shared/schema";
+import { lookupVisa } from "./passportIndexService";
+import * as VisaService from "./visaService";
+import { getCountryCode } from "./visaApiService";
+import {
+  buildLegSchedule,
+  getLegCountry,
+  isSchengenCountry,
+  SCHENGEN_STAY_LIMIT_DAYS,
+} from "./multiCityService";
+
+// Statuses where the visa is issued before travel and may be single-entry
+const PRE_ISSUED_VISA_STATUSES = new Set<LegVisaCheck['visaStatus']>(['visa_required', 'e_visa']);
+
+function normalizeVisaStatus(status: string | undefined): LegVisaCheck['visaStatus'] {
+  switch (status) {
+    case 'visa_free':
+    case 'visa_on_arrival':
+    case 'e_visa':
+    case 'eta':
+    case 'visa_required':
+    case 'no_admission':
+      return status;
+    case 'covid_ban':
+      return 'no_admission';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Check every stop against the passport: admission, visa type, visa-free
+ * allowance per stay, re-entries that need a multiple-entry visa, and the
+ * Schengen 90-day limit across all Schengen stops.
+ */
+export async function checkLegVisas(passport: string, legs: TripLeg[], startDate?: string): Promise<LegFeasibility> {
+  const schedule = buildLegSchedule(legs, startDate);
+  const passportCode = getCountryCode(passport) || passport;
+
+  // One lookup per country, even when several stops share it
+  const knowledgeByCountry = new Map<string, VisaDetails | null>();
+  for (const country of Array.from(new Set(schedule.map(leg => getLegCountry(leg.destination))))) {
+    try {
+      const { details } = await VisaService.getVisaRequirements(passportCode, getCountryCode(country) || country);
+      knowledgeByCountry.set(country, details);
+    } catch (err) {
+      console.warn(`[MultiCity] Knowledge visa lookup failed for ${passport} → ${country}:`, err);
+      knowledgeByCountry.set(country, null);
+    }
+  }
+
+  // Group consecutive stops in the same country (or the Schengen area) into stays
+  const zoneOf = (country: string) => isSchengenCountry(country) ? 'Schengen area' : country;
+  const entries = new Map<string, number>();
+  const stays: Array<{ zone: string; legIndexes: number[]; days: number }> = [];
+
+  const checks: LegVisaCheck[] = schedule.map((leg, i) => {
+    const country = getLegCountry(leg.destination);
+    const zone = zoneOf(country);
+    const isNewEntry = i === 0 || zoneOf(getLegCountry(schedule[i - 1].destination)) !== zone;
+
+    if (isNewEntry) {
+      entries.set(zone, (entries.get(zone) ?? 0) + 1);
+      stays.push({ zone, legIndexes: [i], days: leg.nights + 1 });
+    } else {
+      const stay = stays[stays.length - 1];
+      stay.legIndexes.push(i);
+      stay.days += leg.nights;
+    }
+
+    const lookup = lookupVisa(passport, country);
+    return {
+      legIndex: i,
+      destination: leg.destination,
+      country,
+      nights: leg.nights,
+      startDate: leg.startDate,
+      endDate: leg.endDate,
+      visaStatus: normalizeVisaStatus(lookup?.status),
+      statusLabel: lookup?.statusLabel ?? 'Unknown',
+      allowedDays: lookup?.days,
+      entryNumber: entries.get(zone)!,
+      schengen: isSchengenCountry(country),
+      status: 'ok',
+      issues: [],
+      visaDetails: knowledgeByCountry.get(country) ?? undefined,
+    };
+  });
+
+  const raise = (check: LegVisaCheck, status: 'warning' | 'blocker', issue: string) => {
+    if (status === 'blocker' || check.status === 'ok') check.status = status;
+    check.issues.push(issue);
+  };
+
+  for (const check of checks) {
+    switch (check.visaStatus) {
+      case 'no_admission':
+        raise(check, 'blocker', `${check.country} does not admit ${passport} passport holders`);
+        break;
+      case 'visa_required':
+        raise(check, 'warning', `${check.country} requires a visa for ${passport} passport holders`);
+        break;
+      case 'e_visa':
+        raise(check, 'warning', `${check.country} requires an e-visa before arrival`);
+        break;
+      case 'unknown':
+        raise(check, 'warning', `Could not verify visa rules for ${check.country} - check official sources`);
+        break;
+    }
+
+    if (check.entryNumber > 1 && PRE_ISSUED_VISA_STATUSES.has(check.visaStatus)) {
+      raise(check, 'warning', `You re-enter ${check.schengen ? 'the Schengen area' : check.country} here - a multiple-entry visa is required`);
+    }
+  }
+
+  // Visa-free allowance per continuous stay (Schengen is handled as a whole below)
+  for (const stay of stays) {
+    if (stay.zone === 'Schengen area') continue;
+    const first = checks[stay.legIndexes[0]];
+    if (first.visaStatus === 'visa_free' && first.allowedDays && stay.days > first.allowedDays) {
+      for (const i of stay.legIndexes) {
+        raise(checks[i], 'blocker', `${stay.days}-day stay in ${first.country} exceeds the ${first.allowedDays}-day visa-free allowance`);
+      }
+    }
+  }
+
+  // Schengen: every day in the area counts toward one 90-day limit (a trip is at most 60 days, so one window)
+  const schengenStays = stays.filter(s => s.zone === 'Schengen area');
+  let schengen: LegFeasibility['schengen'];
+  if (schengenStays.length > 0) {
+    const days = schengenStays.reduce((sum, s) => sum + s.days, 0);
+    schengen = { days, limit: SCHENGEN_STAY_LIMIT_DAYS, exceeded: days > SCHENGEN_STAY_LIMIT_DAYS };
+    if (schengen.exceeded) {
+      for (const stay of schengenStays) {
+        for (const i of stay.legIndexes) {
+          raise(checks[i], 'blocker', `${days} days in the Schengen area exceeds the ${SCHENGEN_STAY_LIMIT_DAYS}/180-day limit`);
+        }
+      }
+    }
+  }
+
+  const multipleEntryRequired = Array.from(entries.entries())
+    .filter(([zone, count]) => count > 1 && checks.some(c => zoneOf(c.country) === zone && PRE_ISSUED_VISA_STATUSES.has(c.visaStatus)))
+    .map(([country, count]) => ({ country, entries: count }));
+
+  return { checks, multipleEntryRequired, schengen };
+}
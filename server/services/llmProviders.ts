@@ -0,0 +1,237 @@
+/**
+ * LLM Providers — chat-completion backends behind getAIClient().
+ *
+ * Every provider hands back an OpenAI SDK client (or an OpenAI-shaped one
+ * implementing chat.completions.create), so call sites never change.
+ *
+ *   openai    OPENAI_API_KEY
+ *   deepseek  DEEPSEEK_API_KEY
+ *   replit    AI_INTEGRATIONS_OPENAI_API_KEY (+ AI_INTEGRATIONS_OPENAI_BASE_URL), legacy
+ *   ollama    Local OpenAI-compatible endpoint at OLLAMA_BASE_URL/v1
+ *             (default http://localhost:11434, same as embeddings.ts).
+ *             OLLAMA_CHAT_MODEL sets the default model (llama3.1).
+ *   replay    Deterministic fixture replay keyed by prompt hash, from
+ *             AI_REPLAY_FILE (default server/eval/recordings.json).
+ *             With AI_REPLAY_RECORD=true, misses fall through the chain and
+ *             the answers are saved to the file.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import type { AITier } from './aiClientFactory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProviderName = 'openai' | 'deepseek' | 'replit' | 'ollama' | 'replay';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'deepseek', 'replit', 'ollama', 'replay'];
+
+export interface LLMProvider {
+  name: ProviderName;
+  /** Credentials/endpoint present. Local providers are always considered configured. */
+  isConfigured(): boolean;
+  defaultModel(tier: AITier): string;
+  createClient(): OpenAI;
+}
+
+interface ChatMessage {
+  role: string;
+  content?: unknown;
+}
+
+interface ChatCompletionParams {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number | null;
+  [key: string]: unknown;
+}
+
+export interface RecordedCompletion {
+  model: string;
+  content: string;
+  recordedAt: string;
+  /** First user-message line, to tell recordings apart when reviewing diffs */
+  promptPreview: string;
+}
+
+export interface RecordingStore {
+  version: 1;
+  recordings: Record<string, RecordedCompletion>;
+}
+
+export class RecordingMissError extends Error {
+  constructor(public key: string, public promptPreview: string) {
+    super(`No recording for prompt "${promptPreview}" (${key.slice(0, 12)}). Re-record it (eval --mode record, or AI_REPLAY_RECORD=true)`);
+    this.name = 'RecordingMissError';
+  }
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+const OPENAI_TIER_DEFAULTS: Record<AITier, string> = {
+  premium: 'gpt-4o',
+  standard: 'gpt-4o',
+  fast: 'gpt-4o-mini',
+  auxiliary: 'gpt-4o-mini',
+};
+
+const DEEPSEEK_MODEL = 'deepseek-chat';
+const DEEPSEEK_BASE_URL = 'https://api.deepseek.com';
+const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+const OLLAMA_CHAT_MODEL = process.env.OLLAMA_CHAT_MODEL || 'llama3.1';
+const DEFAULT_REPLAY_FILE = 'server/eval/recordings.json';
+
+// ============================================================================
+// SINGLETON CACHE (one OpenAI instance per unique baseURL)
+// ============================================================================
+
+const clientCache = new Map<string, OpenAI>();
+
+function getOrCreateOpenAI(apiKey: string, baseURL?: string): OpenAI {
+  const cacheKey = `${apiKey.slice(0, 8)}:${baseURL ?? 'default'}`;
+  let client = clientCache.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({ apiKey, baseURL });
+    clientCache.set(cacheKey, client);
+  }
+  return client;
+}
+
+// ============================================================================
+// RECORDING STORE
+// ============================================================================
+
+export function loadRecordings(filePath: string): RecordingStore {
+  if (!fs.existsSync(filePath)) return { version: 1, recordings: {} };
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RecordingStore;
+}
+
+export function saveRecordings(filePath: string, store: RecordingStore): void {
+  // Sorted keys keep diffs of the recordings file reviewable
+  const recordings = Object.fromEntries(Object.entries(store.recordings).sort(([a], [b]) => a.localeCompare(b)));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify({ version: 1, recordings }, null, 2) + '\n');
+}
+
+/**
+ * Model-independent key: the same prompt replays the same response whichever
+ * model is configured at replay time
+ */
+export function recordingKey(params: ChatCompletionParams): string {
+  const payload = JSON.stringify({ messages: params.messages, temperature: params.temperature ?? null });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+export function promptPreview(params: ChatCompletionParams): string {
+  const user = params.messages.find(m => m.role === 'user');
+  const text = typeof user?.content === 'string' ? user.content : '';
+  return text.split('\n')[0].slice(0, 120);
+}
+
+export function completion(model: string, content: string) {
+  return {
+    id: `replay-${createHash('sha1').update(content).digest('hex').slice(0, 12)}`,
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+  };
+}
+
+export function asOpenAI(create: (params: ChatCompletionParams) => Promise<unknown>): OpenAI {
+  return { chat: { completions: { create } } } as unknown as OpenAI;
+}
+
+/**
+ * Forward to a real client and store every response. onRecord runs after
+ * each new recording (e.g. to persist the store).
+ */
+export function createRecordingClient(real: OpenAI, store: RecordingStore, onRecord?: () => void): OpenAI {
+  return asOpenAI(async (params) => {
+    const response = await real.chat.completions.create({ ...params, stream: false } as any);
+    const content = (response as any).choices?.[0]?.message?.content ?? '';
+    store.recordings[recordingKey(params)] = {
+      model: (response as any).model || params.model,
+      content,
+      recordedAt: new Date().toISOString(),
+      promptPreview: promptPreview(params),
+    };
+    onRecord?.();
+    return response;
+  });
+}
+
+export function createReplayClient(store: RecordingStore): OpenAI {
+  return asOpenAI(async (params) => {
+    const key = recordingKey(params);
+    const recorded = store.recordings[key];
+    if (!recorded) throw new RecordingMissError(key, promptPreview(params));
+    return completion(recorded.model, recorded.content);
+  });
+}
+
+// Loaded once per process; record-through writes go back to the same object
+let replayStore: { filePath: string; store: RecordingStore } | null = null;
+
+export function getReplayStore(): { filePath: string; store: RecordingStore } {
+  const filePath = path.resolve(process.env.AI_REPLAY_FILE || DEFAULT_REPLAY_FILE);
+  if (!replayStore || replayStore.filePath !== filePath) {
+    replayStore = { filePath, store: loadRecordings(filePath) };
+  }
+  return replayStore;
+}
+
+export function isReplayRecording(): boolean {
+  return process.env.AI_REPLAY_RECORD === 'true';
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export const PROVIDERS: Record<ProviderName, LLMProvider> = {
+  openai: {
+    name: 'openai',
+    isConfigured: () => !!process.env.OPENAI_API_KEY,
+    defaultModel: tier => OPENAI_TIER_DEFAULTS[tier],
+    createClient: () => getOrCreateOpenAI(process.env.OPENAI_API_KEY!),
+  },
+  deepseek: {
+    name: 'deepseek',
+    isConfigured: () => !!process.env.DEEPSEEK_API_KEY,
+    defaultModel: () => DEEPSEEK_MODEL,
+    createClient: () => getOrCreateOpenAI(process.env.DEEPSEEK_API_KEY!, DEEPSEEK_BASE_URL),
+  },
+  replit: {
+    name: 'replit',
+    isConfigured: () => !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+    defaultModel: tier => OPENAI_TIER_DEFAULTS[tier],
+    createClient: () => getOrCreateOpenAI(
+      process.env.AI_INTEGRATIONS_OPENAI_API_KEY!,
+      process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    ),
+  },
+  ollama: {
+    name: 'ollama',
+    isConfigured: () => true,
+    defaultModel: () => OLLAMA_CHAT_MODEL,
+    // Ollama ignores the key, but the SDK requires one
+    createClient: () => getOrCreateOpenAI('ollama', `${OLLAMA_BASE_URL.replace(/\/$/, '')}/v1`),
+  },
+  replay: {
+    name: 'replay',
+    isConfigured: () => true,
+    defaultModel: () => 'replay',
+    createClient: () => createReplayClient(getReplayStore().store),
+  },
+};
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
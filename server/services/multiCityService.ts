@@ -0,0 +1,341 @@
+/**
+ * Multi-City Service
+ *
+ * Trips with an ordered list of legs (stops with a number of nights each),
+ * e.g. Tokyo (3) → Kyoto (2) → Osaka (2).
+ *
+ * - Schedule: which itinerary days belong to which stop. The day you move
+ *   between stops is the arrival day of the next stop.
+ * - Visa: per-stop checks (legVisaService) folded into the feasibility report
+ * - Transport: inter-city transfers from transportService
+ * - Costs: per-stop breakdown of a generated itinerary
+ */
+
+import {
+  tripLegSchema,
+  type TripLeg,
+  type FeasibilityReport,
+  type LegFeasibility,
+} from "@shared/schema";
+import { z } from "zod";
+import { getSmartTransportRecommendations } from "./transportService";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Max days in any 180-day window for short-stay visitors */
+export const SCHENGEN_STAY_LIMIT_DAYS = 90;
+
+/** Schengen area members (as of 2025, incl. Bulgaria and Romania) */
+export const SCHENGEN_COUNTRIES = new Set([
+  'austria', 'belgium', 'bulgaria', 'croatia', 'czech republic', 'czechia', 'denmark',
+  'estonia', 'finland', 'france', 'germany', 'greece', 'hungary', 'iceland', 'italy',
+  'latvia', 'liechtenstein', 'lithuania', 'luxembourg', 'malta', 'netherlands', 'norway',
+  'poland', 'portugal', 'romania', 'slovakia', 'slovenia', 'spain', 'sweden', 'switzerland',
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LegSchedule {
+  legIndex: number;
+  destination: string;
+  nights: number;
+  /** 0-based itinerary day the traveler arrives at this stop */
+  startDay: number;
+  /** 0-based day they leave (the next stop's startDay, or the final day) */
+  endDay: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface LegTransfer {
+  fromLegIndex: number;
+  toLegIndex: number;
+  from: string;
+  to: string;
+  /** 0-based travel day (the arrival day of the next stop) */
+  dayIndex: number;
+  date?: string;
+  mode: string;
+  durationHours: number;
+  /** Whole group, USD */
+  costUSD: number;
+  note: string;
+}
+
+export interface LegPlan {
+  legs: LegSchedule[];
+  transfers: LegTransfer[];
+  numDays: number;
+}
+
+export interface LegCostBreakdown {
+  legIndex: number;
+  destination: string;
+  nights: number;
+  /** 1-based day numbers spent at this stop */
+  days: number[];
+  activities: number;
+  food: number;
+  /** Getting here from the previous stop */
+  transfer: number;
+  total: number;
+}
+
+/** How to price itinerary items; callers differ in currency and per-person vs group costs */
+export interface LegCostPricing {
+  activityCost: (activity: any) => number;
+  foodCost: (food: any) => number;
+  transferCost: (transfer: LegTransfer) => number;
+}
+
+// ============================================================================
+// LEGS & SCHEDULE
+// ============================================================================
+
+/**
+ * Read validated legs from a trip row or request body. Null for
+ * single-destination trips.
+ */
+export function getTripLegs(source: { legs?: unknown } | null | undefined): TripLeg[] | null {
+  const parsed = z.array(tripLegSchema).safeParse(source?.legs);
+  if (!parsed.success || parsed.data.length < 2) return null;
+  return parsed.data;
+}
+
+/**
+ * Countries on a trip, in visiting order, each listed once
+ */
+export function getTripCountries(trip: { destination: string; legs?: unknown }): string[] {
+  const legs = getTripLegs(trip);
+  const destinations = legs ? legs.map(leg => leg.destination) : [trip.destination];
+  return Array.from(new Set(destinations.map(getLegCountry)));
+}
+
+/**
+ * Country part of a "City, Country" destination
+ */
+export function getLegCountry(destination: string): string {
+  const parts = destination.split(',').map(p => p.trim()).filter(Boolean);
+  return parts[parts.length - 1] || destination.trim();
+}
+
+export function isSchengenCountry(country: string): boolean {
+  return SCHENGEN_COUNTRIES.has(country.toLowerCase().trim());
+}
+
+/**
+ * Display label stored in trips.destination, e.g. "Tokyo → Kyoto → Osaka, Japan"
+ * or "Paris, France → Rome, Italy"
+ */
+export function formatLegRoute(legs: TripLeg[]): string {
+  const countries = legs.map(leg => getLegCountry(leg.destination).toLowerCase());
+  const singleCountry = countries.every(c => c === countries[0]) && legs[0].destination.includes(',');
+
+  if (singleCountry) {
+    const cities = legs.map(leg => leg.destination.split(',')[0].trim());
+    return `${cities.join(' → ')}, ${getLegCountry(legs[0].destination)}`;
+  }
+  return legs.map(leg => leg.destination.trim()).join(' → ');
+}
+
+/** Trip length implied by the legs: every night plus the departure day */
+export function getLegsNumDays(legs: TripLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.nights, 0) + 1;
+}
+
+function addDays(dateISO: string, days: number): string {
+  const date = new Date(`${dateISO}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lay the legs out over itinerary days
+ */
+export function buildLegSchedule(legs: TripLeg[], startDate?: string): LegSchedule[] {
+  let day = 0;
+  return legs.map((leg, legIndex) => {
+    const schedule: LegSchedule = {
+      legIndex,
+      destination: leg.destination,
+      nights: leg.nights,
+      startDay: day,
+      endDay: day + leg.nights,
+      startDate: startDate ? addDays(startDate, day) : undefined,
+      endDate: startDate ? addDays(startDate, day + leg.nights) : undefined,
+    };
+    day += leg.nights;
+    return schedule;
+  });
+}
+
+/**
+ * Stop the traveler is at (or arriving at) on a 0-based day
+ */
+export function getLegForDay(plan: Pick<LegPlan, 'legs'>, dayIndex: number): LegSchedule {
+  return plan.legs.find(leg => dayIndex >= leg.startDay && dayIndex < leg.endDay)
+    ?? plan.legs[plan.legs.length - 1];
+}
+
+export function getTransferForDay(plan: LegPlan, dayIndex: number): LegTransfer | undefined {
+  return plan.transfers.find(t => t.dayIndex === dayIndex);
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * Recommended transfer between each pair of consecutive stops
+ */
+export async function planLegTransfers(
+  schedule: LegSchedule[],
+  options: { budget: number; currency: string; groupSize: number; travelStyle?: string | null }
+): Promise<LegTransfer[]> {
+  const tier = options.travelStyle === 'luxury' ? 'luxury' : options.travelStyle === 'budget' ? 'budget' : 'standard';
+
+  return Promise.all(schedule.slice(1).map(async (leg) => {
+    const previous = schedule[leg.legIndex - 1];
+    const rec = await getSmartTransportRecommendations(
+      previous.destination,
+      leg.destination,
+      options.budget,
+      options.currency,
+      options.groupSize,
+      tier
+    );
+    const option = rec.allOptions.find(o => o.mode === rec.primaryMode) ?? rec.allOptions[0];
+
+    return {
+      fromLegIndex: previous.legIndex,
+      toLegIndex: leg.legIndex,
+      from: previous.destination,
+      to: leg.destination,
+      dayIndex: leg.startDay,
+      date: leg.startDate,
+      mode: option?.mode ?? rec.primaryMode,
+      durationHours: option?.durationHours ?? 0,
+      costUSD: Math.round(option?.priceRangeUSD[tier] ?? 0),
+      note: option?.note ?? rec.recommendation,
+    };
+  }));
+}
+
+/**
+ * Schedule plus transfers - everything the itinerary generators need
+ */
+export async function buildLegPlan(
+  legs: TripLeg[],
+  options: { startDate?: string; budget: number; currency: string; groupSize: number; travelStyle?: string | null }
+): Promise<LegPlan> {
+  const schedule = buildLegSchedule(legs, options.startDate);
+  const transfers = await planLegTransfers(schedule, options);
+  return { legs: schedule, transfers, numDays: getLegsNumDays(legs) };
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  return minutes ? `${whole}h${minutes}m` : `${whole}h`;
+}
+
+/**
+ * Compact route description for itinerary prompts
+ */
+export function formatLegPlanForPrompt(plan: LegPlan): string {
+  const lines = plan.legs.map(leg => {
+    const lastDay = leg.legIndex === plan.legs.length - 1 ? leg.endDay : leg.endDay - 1;
+    const transfer = plan.transfers.find(t => t.toLegIndex === leg.legIndex);
+    const arrival = transfer
+      ? ` - Day ${leg.startDay + 1} is a TRAVEL DAY: ${transfer.mode} from ${transfer.from} (~${formatHours(transfer.durationHours)}), check in, light evening`
+      : '';
+    return `- Days ${leg.startDay + 1}-${lastDay + 1}: ${leg.destination} (${leg.nights} night${leg.nights > 1 ? 's' : ''})${arrival}`;
+  });
+  return `MULTI-CITY ROUTE (follow exactly, each day's activities must be in that day's city):\n${lines.join('\n')}`;
+}
+
+// ============================================================================
+// VISA CHECKS
+// ============================================================================
+
+/**
+ * Fold per-stop results into the trip's feasibility report. The main
+ * report covers the first stop; other stops can only make it stricter.
+ */
+export function applyLegFeasibility(report: FeasibilityReport, legFeasibility: LegFeasibility): void {
+  report.legs = legFeasibility;
+
+  const blockers = legFeasibility.checks.filter(c => c.status === 'blocker');
+  const warnings = legFeasibility.checks.filter(c => c.status === 'warning' && c.legIndex > 0);
+
+  if (blockers.length > 0) {
+    const reasons = Array.from(new Set(blockers.flatMap(c => c.issues)));
+    report.overall = 'no';
+    report.score = Math.min(report.score, 20);
+    report.breakdown.visa = { status: 'issue', reason: reasons.join('. ') };
+    report.summary = `${report.summary} ${reasons[0]}.`;
+    return;
+  }
+
+  if (warnings.length > 0 || legFeasibility.multipleEntryRequired.length > 0) {
+    const reasons = Array.from(new Set(warnings.flatMap(c => c.issues)));
+    if (report.overall === 'yes') report.overall = 'warning';
+    report.breakdown.visa = {
+      status: 'issue',
+      reason: [report.breakdown.visa?.reason, ...reasons].filter(Boolean).join('. '),
+    };
+  }
+}
+
+// ============================================================================
+// COSTS
+// ============================================================================
+
+/**
+ * Streaming itineraries price activities per person in USD
+ */
+export function usdGroupPricing(groupSize: number): LegCostPricing {
+  return {
+    activityCost: (a) => (a?.estimatedCost || 0) * groupSize,
+    foodCost: (f) => (f?.estimatedCost || 0) * groupSize,
+    transferCost: (t) => t.costUSD,
+  };
+}
+
+/**
+ * Per-stop cost breakdown of a generated itinerary
+ */
+export function buildLegCostBreakdown(days: any[], plan: LegPlan, pricing: LegCostPricing): LegCostBreakdown[] {
+  const breakdown: LegCostBreakdown[] = plan.legs.map(leg => {
+    const transfer = plan.transfers.find(t => t.toLegIndex === leg.legIndex);
+    const transferCost = transfer ? Math.round(pricing.transferCost(transfer)) : 0;
+    return {
+      legIndex: leg.legIndex,
+      destination: leg.destination,
+      nights: leg.nights,
+      days: [],
+      activities: 0,
+      food: 0,
+      transfer: transferCost,
+      total: transferCost,
+    };
+  });
+
+  days.forEach((day, dayIndex) => {
+    const entry = breakdown[getLegForDay(plan, dayIndex).legIndex];
+    const activities = (day?.activities || []).reduce((sum: number, a: any) => sum + pricing.activityCost(a), 0);
+    const food = (day?.localFood || []).reduce((sum: number, f: any) => sum + pricing.foodCost(f), 0);
+
+    entry.days.push(dayIndex + 1);
+    entry.activities += Math.round(activities);
+    entry.food += Math.round(food);
+    entry.total += Math.round(activities) + Math.round(food);
+  });
+
+  return breakdown;
+}
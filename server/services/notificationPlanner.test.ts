@@ -0,0 +1,201 @@
+/**
+ * Tests for the Notification Planner
+ *
+ * Run with: npx vitest run server/services/notificationPlanner.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { NotificationPreferences, PriceAlert } from '@shared/schema';
+import {
+  checkVerificationCode,
+  getLocalClock,
+  hashVerificationCode,
+  isQuietHour,
+  planPreferencesUpdate,
+  planPriceDropNotifications,
+  planTripNotifications,
+} from './notificationPlanner';
+
+const ALL_KINDS = ['visa_deadline', 'departure_briefing', 'price_drop', 'daily_digest'] as const;
+
+const trip = {
+  id: 7,
+  destination: 'Tokyo, Japan',
+  dates: '2026-04-01 to 2026-04-03',
+  feasibilityReport: {
+    visaDetails: { required: true, name: 'eVisa', processingDays: { minimum: 5, maximum: 10 } },
+  },
+  itinerary: {
+    days: [
+      {
+        day: 1, date: '2026-04-01', title: 'Asakusa',
+        activities: [
+          { time: '09:00', name: 'Senso-ji Temple' },
+          { time: '14:00', name: 'Sumida River Cruise' },
+        ],
+      },
+      { day: 2, date: '2026-04-02', title: 'Shibuya', activities: [{ time: '10:00', name: 'Meiji Shrine' }] },
+    ],
+  },
+};
+
+const keysOn = (date: string, hour = 9) =>
+  planTripNotifications(trip, { date, hour }, [...ALL_KINDS]).map(n => n.dedupeKey);
+
+describe('quiet hours', () => {
+  it('wraps midnight and reads the hour in the user\'s time zone', () => {
+    expect(isQuietHour(23, 22, 8)).toBe(true);
+    expect(isQuietHour(7, 22, 8)).toBe(true);
+    expect(isQuietHour(8, 22, 8)).toBe(false);
+    expect(isQuietHour(13, 13, 15)).toBe(true);
+    expect(isQuietHour(3, 0, 0)).toBe(false);
+
+    const now = new Date('2026-03-31T23:30:00Z');
+    expect(getLocalClock(now, 'Asia/Tokyo')).toEqual({ date: '2026-04-01', hour: 8 });
+    expect(getLocalClock(now, 'Not/AZone')).toEqual({ date: '2026-03-31', hour: 23 });
+  });
+});
+
+describe('planTripNotifications', () => {
+  it('reminds about the visa as the apply-by date passes each threshold', () => {
+    // Apply by 2026-03-15 (travel date - 10 processing days - 7 buffer)
+    expect(keysOn('2026-02-01')).toEqual([]);
+    expect(keysOn('2026-02-20')).toEqual(['visa:7:2026-03-15:30']);
+    expect(keysOn('2026-03-10')).toEqual(['visa:7:2026-03-15:7']);
+    expect(keysOn('2026-03-20')).toEqual(['visa:7:2026-03-15:overdue']);
+  });
+
+  it('sends departure briefings at T-7 and T-1 with the forecast', () => {
+    expect(keysOn('2026-03-25')).toContain('briefing:7:2026-04-01:T-7');
+
+    const [briefing] = planTripNotifications(trip, { date: '2026-03-31', hour: 9 }, ['departure_briefing']);
+    expect(briefing.dedupeKey).toBe('briefing:7:2026-04-01:T-1');
+    expect(briefing.body).toContain('Tomorrow: Tokyo, Japan');
+    expect(briefing.body).toContain('2026-04-01:');
+    expect(briefing.body).toContain('09:00 Senso-ji Temple');
+  });
+
+  it('sends the digest only on trip mornings, for that day\'s plan', () => {
+    const [digest] = planTripNotifications(trip, { date: '2026-04-02', hour: 8 }, ['daily_digest']);
+    expect(digest.dedupeKey).toBe('digest:7:2026-04-02');
+    expect(digest.body).toContain('Day 2 in Tokyo, Japan: Shibuya');
+    expect(digest.body).toContain('10:00 Meiji Shrine');
+
+    expect(planTripNotifications(trip, { date: '2026-04-02', hour: 15 }, ['daily_digest'])).toEqual([]);
+    expect(planTripNotifications(trip, { date: '2026-04-05', hour: 8 }, ['daily_digest'])).toEqual([]);
+  });
+
+  it('only plans the kinds the user opted in to', () => {
+    expect(planTripNotifications(trip, { date: '2026-03-25', hour: 9 }, ['price_drop'])).toEqual([]);
+  });
+});
+
+describe('planPriceDropNotifications', () => {
+  it('relays drops the price checks found in the last day', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const alert = {
+      id: 3, tripId: 7, type: 'flight', destination: 'Tokyo', currency: 'USD',
+      initialPrice: 900, currentPrice: 720, departureDate: '2026-04-01', returnDate: null,
+      lastAlertSent: new Date('2026-03-01T06:00:00Z'),
+    } as PriceAlert;
+    const stale = { ...alert, id: 4, lastAlertSent: new Date('2026-02-27T06:00:00Z') } as PriceAlert;
+
+    const planned = planPriceDropNotifications([alert, stale], now);
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ kind: 'price_drop', dedupeKey: 'price:3:2026-03-01T06:00:00.000Z', tripId: 7 });
+    expect(planned[0].body).toContain('Now USD 720 (was USD 900, 20% lower)');
+  });
+});
+
+describe('planPreferencesUpdate', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const input = { whatsappNumber: '+14155550123', optedIn: true };
+  const verified = {
+    id: 1, userId: 5, whatsappNumber: '+14155550123', optedIn: false, kinds: ['daily_digest'], timezone: 'UTC',
+    quietHoursStart: 22, quietHoursEnd: 8, optedInAt: null, verifiedAt: new Date('2026-02-01T00:00:00Z'),
+    verificationCodeHash: null, verificationExpiresAt: null, verificationAttempts: 0, createdAt: now, updatedAt: now,
+  } as NotificationPreferences;
+
+  it('keeps a new number opted out and issues a code', () => {
+    const { values, verificationCode } = planPreferencesUpdate(null, input, now, () => '042917');
+
+    expect(verificationCode).toBe('042917');
+    expect(values).toMatchObject({ optedIn: false, verifiedAt: null, optedInAt: null });
+    expect(values.verificationCodeHash).toBe(hashVerificationCode('042917'));
+    expect(values.verificationExpiresAt).toEqual(new Date('2026-03-01T12:30:00Z'));
+  });
+
+  it('opts a verified number straight in', () => {
+    const { values, verificationCode } = planPreferencesUpdate(verified, input, now);
+
+    expect(verificationCode).toBeNull();
+    expect(values).toMatchObject({ optedIn: true, optedInAt: now, verificationCodeHash: null, kinds: ['daily_digest'] });
+  });
+
+  it('drops the verification when the number changes', () => {
+    const { values, verificationCode } = planPreferencesUpdate(
+      verified, { ...input, whatsappNumber: '+447700900123' }, now, () => '111111'
+    );
+
+    expect(verificationCode).toBe('111111');
+    expect(values).toMatchObject({ optedIn: false, verifiedAt: null });
+  });
+
+  it('reuses a code sent less than a minute ago', () => {
+    const pending = {
+      ...verified, verifiedAt: null, verificationCodeHash: 'abc',
+      verificationExpiresAt: new Date('2026-03-01T12:29:30Z'), // Sent 30 seconds ago
+    } as NotificationPreferences;
+
+    const { values, verificationCode } = planPreferencesUpdate(pending, input, now, () => '222222');
+    expect(verificationCode).toBeNull();
+    expect(values.verificationCodeHash).toBe('abc');
+
+    const later = new Date('2026-03-01T12:05:00Z');
+    expect(planPreferencesUpdate(pending, input, later, () => '222222').verificationCode).toBe('222222');
+  });
+});
+
+describe('checkVerificationCode', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const pending = {
+    id: 1, userId: 5, whatsappNumber: '+14155550123', optedIn: false, kinds: ['daily_digest'], timezone: 'UTC',
+    quietHoursStart: 22, quietHoursEnd: 8, optedInAt: null, verifiedAt: null,
+    verificationCodeHash: hashVerificationCode('042917'), verificationExpiresAt: new Date('2026-03-01T12:20:00Z'),
+    verificationAttempts: 0, createdAt: now, updatedAt: now,
+  } as NotificationPreferences;
+
+  it('verifies the number and opts it in on the right code', () => {
+    expect(checkVerificationCode(pending, '042917', now)).toMatchObject({
+      outcome: 'verified',
+      values: { verifiedAt: now, optedIn: true, verificationCodeHash: null, verificationAttempts: 0 },
+    });
+  });
+
+  it('drops the code after five wrong replies', () => {
+    let prefs = pending;
+    const outcomes: string[] = [];
+    for (const guess of ['000000', '000001', '000002', '000003', '000004']) {
+      const check = checkVerificationCode(prefs, guess, now)!;
+      outcomes.push(check.outcome);
+      prefs = { ...prefs, ...check.values } as NotificationPreferences;
+    }
+
+    expect(outcomes).toEqual(['wrong_code', 'wrong_code', 'wrong_code', 'wrong_code', 'locked']);
+    expect(prefs).toMatchObject({ verificationCodeHash: null, verificationExpiresAt: null, verificationAttempts: 5 });
+
+    // Even the right code is no use once the code is gone
+    expect(checkVerificationCode(prefs, '042917', now)).toBeNull();
+  });
+
+  it('ignores expired codes', () => {
+    expect(checkVerificationCode(pending, '042917', new Date('2026-03-01T12:20:00Z'))).toBeNull();
+  });
+
+  it('starts a new code with a fresh attempt count', () => {
+    const locked = { ...pending, verificationCodeHash: null, verificationExpiresAt: null, verificationAttempts: 5 } as NotificationPreferences;
+    const { values } = planPreferencesUpdate(locked, { whatsappNumber: '+14155550123', optedIn: true }, now, () => '333333');
+
+    expect(values).toMatchObject({ verificationCodeHash: hashVerificationCode('333333'), verificationAttempts: 0 });
+  });
+});
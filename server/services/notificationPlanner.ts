@@ -0,0 +1,412 @@
+/**
+ * Notification Planner
+ *
+ * Works out which WhatsApp notifications are due and what they say, and how
+ * a preferences save changes the stored row. Pure - notificationScheduler
+ * loads the rows, drops what was already sent and does the sending.
+ */
+
+import crypto from 'crypto';
+import {
+  NOTIFICATION_KINDS,
+  type FeasibilityReport,
+  type NotificationKind,
+  type NotificationPreferences,
+  type PriceAlert,
+  type Trip,
+  type notificationPreferences,
+} from '@shared/schema';
+import { computeDueDate, parseDateRange } from './dueDates';
+import { generateForecast, type WeatherDay } from './weatherService';
+import type { ItineraryDay } from './streamingItinerary';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const NOTIFICATION_CONFIG = {
+  visaReminderDays: [30, 14, 7, 3, 1], // Remind as the apply-by date passes each of these
+  briefingDays: [7, 1], // Departure briefings, in days before the trip starts
+  digestHours: { start: 7, end: 11 }, // Local hours the morning digest may go out
+  priceDropWindow: 24 * 60 * 60 * 1000, // Relay drops the price checks found this recently
+  maxDigestActivities: 6,
+  verificationCodeTtl: 30 * 60 * 1000, // How long a one-time code can be replied with
+  verificationResendInterval: 60 * 1000, // Saving again sooner reuses the outstanding code
+  maxVerificationAttempts: 5, // Wrong replies before the code is thrown away
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The user's local calendar date (YYYY-MM-DD) and hour (0-23) */
+export interface LocalClock {
+  date: string;
+  hour: number;
+}
+
+export interface PlannedNotification {
+  kind: NotificationKind;
+  dedupeKey: string;
+  tripId: number | null;
+  body: string;
+}
+
+export interface NotificationPreferencesInput {
+  whatsappNumber: string;
+  optedIn: boolean;
+  kinds?: NotificationKind[];
+  timezone?: string;
+  quietHoursStart?: number;
+  quietHoursEnd?: number;
+}
+
+/** Row values for a save, and the one-time code to send (null when none is due) */
+export interface PreferencesUpdate {
+  values: Omit<typeof notificationPreferences.$inferInsert, 'id' | 'userId' | 'createdAt'>;
+  verificationCode: string | null;
+}
+
+/** What a reply does to the outstanding code, and the row values to store */
+export interface CodeCheck {
+  outcome: 'verified' | 'wrong_code' | 'locked';
+  values: Partial<Omit<typeof notificationPreferences.$inferInsert, 'id' | 'userId' | 'createdAt'>>;
+}
+
+export type PlannableTrip = Pick<Trip, 'id' | 'destination' | 'dates' | 'feasibilityReport' | 'itinerary'>;
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+export function hashVerificationCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Work out a save. A new number starts unverified; opting in with an
+ * unverified number stays opted out and issues a code instead.
+ */
+export function planPreferencesUpdate(
+  existing: NotificationPreferences | null,
+  input: NotificationPreferencesInput,
+  now: Date,
+  generateCode: () => string = () => crypto.randomInt(0, 1_000_000).toString().padStart(6, '0')
+): PreferencesUpdate {
+  const sameNumber = existing?.whatsappNumber === input.whatsappNumber;
+  const verifiedAt = sameNumber ? existing?.verifiedAt ?? null : null;
+  const optedIn = input.optedIn && verifiedAt !== null;
+
+  let verificationCode: string | null = null;
+  let verificationCodeHash: string | null = null;
+  let verificationExpiresAt: Date | null = null;
+  let verificationAttempts = 0;
+  if (input.optedIn && !verifiedAt) {
+    const outstanding = sameNumber && existing?.verificationCodeHash && existing.verificationExpiresAt
+      ? existing.verificationExpiresAt
+      : null;
+    const sentAt = outstanding ? outstanding.getTime() - NOTIFICATION_CONFIG.verificationCodeTtl : 0;
+    if (outstanding && now.getTime() - sentAt < NOTIFICATION_CONFIG.verificationResendInterval) {
+      verificationCodeHash = existing!.verificationCodeHash;
+      verificationExpiresAt = outstanding;
+      verificationAttempts = existing!.verificationAttempts;
+    } else {
+      verificationCode = generateCode();
+      verificationCodeHash = hashVerificationCode(verificationCode);
+      verificationExpiresAt = new Date(now.getTime() + NOTIFICATION_CONFIG.verificationCodeTtl);
+    }
+  }
+
+  return {
+    values: {
+      whatsappNumber: input.whatsappNumber,
+      optedIn,
+      kinds: input.kinds ?? existing?.kinds ?? [...NOTIFICATION_KINDS],
+      timezone: input.timezone ?? existing?.timezone ?? 'UTC',
+      quietHoursStart: input.quietHoursStart ?? existing?.quietHoursStart ?? 22,
+      quietHoursEnd: input.quietHoursEnd ?? existing?.quietHoursEnd ?? 8,
+      optedInAt: optedIn && !existing?.optedIn ? now : existing?.optedInAt ?? null,
+      verifiedAt,
+      verificationCodeHash,
+      verificationExpiresAt,
+      verificationAttempts,
+      updatedAt: now,
+    },
+    verificationCode,
+  };
+}
+
+/**
+ * Check a reply against the outstanding code. A match verifies the number
+ * and switches notifications on; after maxVerificationAttempts wrong replies
+ * the code is dropped, so guessing means asking for (and waiting on) a new one.
+ * Null when there is no unexpired code to check.
+ */
+export function checkVerificationCode(prefs: NotificationPreferences, code: string, now: Date): CodeCheck | null {
+  if (!prefs.verificationCodeHash || !prefs.verificationExpiresAt) return null;
+  if (prefs.verificationExpiresAt.getTime() <= now.getTime()) return null;
+
+  if (hashVerificationCode(code) === prefs.verificationCodeHash) {
+    return {
+      outcome: 'verified',
+      values: {
+        verifiedAt: now,
+        optedIn: true,
+        optedInAt: now,
+        verificationCodeHash: null,
+        verificationExpiresAt: null,
+        verificationAttempts: 0,
+        updatedAt: now,
+      },
+    };
+  }
+
+  const attempts = prefs.verificationAttempts + 1;
+  if (attempts >= NOTIFICATION_CONFIG.maxVerificationAttempts) {
+    return {
+      outcome: 'locked',
+      values: { verificationCodeHash: null, verificationExpiresAt: null, verificationAttempts: attempts, updatedAt: now },
+    };
+  }
+  return { outcome: 'wrong_code', values: { verificationAttempts: attempts, updatedAt: now } };
+}
+
+// ============================================================================
+// CLOCK & QUIET HOURS
+// ============================================================================
+
+/**
+ * Whether the runtime knows an IANA time zone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Date and hour for `now` in the given time zone (UTC when it's unknown)
+ */
+export function getLocalClock(now: Date, timezone: string): LocalClock {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10) % 24,
+  };
+}
+
+/**
+ * Whether a local hour falls in the quiet period. The period may wrap
+ * midnight (22 -> 8); equal start and end means no quiet hours.
+ */
+export function isQuietHour(hour: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+function daysBetween(fromISO: string, toISO: string): number {
+  return Math.round((Date.parse(`${toISO}T00:00:00Z`) - Date.parse(`${fromISO}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function addDays(dateISO: string, days: number): string {
+  return new Date(Date.parse(`${dateISO}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The tightest threshold the countdown has reached, e.g. 5 days left of [30, 14, 7, 3, 1] -> 7
+ */
+function reachedThreshold(daysLeft: number, thresholds: number[]): number | null {
+  const reached = thresholds.filter(t => daysLeft <= t);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Work out which trip messages are due on the user's local date. Pure apart
+ * from the (simulated) forecast; the caller drops keys that were already sent.
+ */
+export function planTripNotifications(
+  trip: PlannableTrip,
+  clock: LocalClock,
+  kinds: NotificationKind[]
+): PlannedNotification[] {
+  const range = parseDateRange(trip.dates);
+  if (!range) return [];
+
+  const planned: PlannedNotification[] = [];
+  const daysToStart = daysBetween(clock.date, range.startDate);
+
+  if (kinds.includes('visa_deadline') && daysToStart > 0) {
+    const visa = planVisaReminder(trip, range.startDate, clock);
+    if (visa) planned.push(visa);
+  }
+
+  if (kinds.includes('departure_briefing') && daysToStart >= 1) {
+    const stage = reachedThreshold(daysToStart, NOTIFICATION_CONFIG.briefingDays);
+    if (stage !== null) {
+      planned.push({
+        kind: 'departure_briefing',
+        dedupeKey: `briefing:${trip.id}:${range.startDate}:T-${stage}`,
+        tripId: trip.id,
+        body: formatDepartureBriefing(trip, range, daysToStart),
+      });
+    }
+  }
+
+  const { start, end } = NOTIFICATION_CONFIG.digestHours;
+  const underway = daysToStart <= 0 && clock.date <= range.endDate;
+  if (kinds.includes('daily_digest') && underway && clock.hour >= start && clock.hour < end) {
+    const day = findItineraryDay(trip, clock.date, -daysToStart);
+    if (day) {
+      planned.push({
+        kind: 'daily_digest',
+        dedupeKey: `digest:${trip.id}:${clock.date}`,
+        tripId: trip.id,
+        body: formatDailyDigest(trip, day, clock.date),
+      });
+    }
+  }
+
+  return planned;
+}
+
+function planVisaReminder(trip: PlannableTrip, startDate: string, clock: LocalClock): PlannedNotification | null {
+  const visa = (trip.feasibilityReport as FeasibilityReport | null)?.visaDetails;
+  if (!visa?.required) return null;
+
+  const due = computeDueDate({
+    travelStartDateISO: startDate,
+    processingDaysMax: visa.processingDays?.maximum,
+    processingDaysMin: visa.processingDays?.minimum,
+    bufferDays: 7,
+  });
+  if (!due.applyByDate) return null;
+
+  const daysLeft = daysBetween(clock.date, due.applyByDate);
+  const stage = daysLeft < 0 ? 'overdue' : reachedThreshold(daysLeft, NOTIFICATION_CONFIG.visaReminderDays);
+  if (stage === null) return null;
+
+  const visaName = visa.name || 'visa';
+  const lines = [
+    `⚠️ Visa reminder: ${trip.destination}`,
+    '',
+    daysLeft < 0
+      ? `The apply-by date for your ${visaName} was ${due.applyByDate}.`
+      : `Apply for your ${visaName} by ${due.applyByDate} (${daysLeft === 0 ? 'today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}).`,
+  ];
+  if (due.recommendation) lines.push(due.recommendation);
+  if (visa.applicationUrl) lines.push('', `Apply: ${visa.applicationUrl}`);
+
+  return {
+    kind: 'visa_deadline',
+    dedupeKey: `visa:${trip.id}:${due.applyByDate}:${stage}`,
+    tripId: trip.id,
+    body: lines.join('\n'),
+  };
+}
+
+/**
+ * Price alerts the price checks emailed about recently, relayed over WhatsApp
+ */
+export function planPriceDropNotifications(alerts: PriceAlert[], now: Date): PlannedNotification[] {
+  const since = now.getTime() - NOTIFICATION_CONFIG.priceDropWindow;
+
+  return alerts
+    .filter(alert => alert.lastAlertSent && alert.lastAlertSent.getTime() >= since && alert.currentPrice !== null)
+    .map(alert => {
+      const currency = alert.currency || 'USD';
+      const was = alert.initialPrice ?? alert.currentPrice!;
+      const percentDrop = was > 0 ? Math.round(((was - alert.currentPrice!) / was) * 100) : 0;
+      const what = alert.type === 'hotel' ? `Hotels in ${alert.destination}` : `Flights to ${alert.destination}`;
+
+      return {
+        kind: 'price_drop' as const,
+        dedupeKey: `price:${alert.id}:${alert.lastAlertSent!.toISOString()}`,
+        tripId: alert.tripId,
+        body: [
+          `📉 Price drop: ${what}`,
+          '',
+          `Now ${currency} ${Math.round(alert.currentPrice!)}` + (percentDrop > 0 ? ` (was ${currency} ${Math.round(was)}, ${percentDrop}% lower)` : ''),
+          ...(alert.departureDate ? [`For ${alert.departureDate}${alert.returnDate ? ` – ${alert.returnDate}` : ''}`] : []),
+        ].join('\n'),
+      };
+    });
+}
+
+// ============================================================================
+// MESSAGE FORMATTING
+// ============================================================================
+
+function findItineraryDay(trip: PlannableTrip, date: string, dayIndex: number): ItineraryDay | null {
+  const days: ItineraryDay[] = (trip.itinerary as { days?: ItineraryDay[] } | null)?.days ?? [];
+  return days.find(d => d.date === date) ?? days[dayIndex] ?? null;
+}
+
+function formatWeatherDay(day: WeatherDay): string {
+  return `• ${day.date}: ${day.tempHigh}°/${day.tempLow}°C, ${day.description.toLowerCase()}`;
+}
+
+function formatActivities(day: ItineraryDay): string[] {
+  const { maxDigestActivities } = NOTIFICATION_CONFIG;
+  const lines = day.activities
+    .slice(0, maxDigestActivities)
+    .map(a => `• ${a.time} ${a.name}`);
+  if (day.activities.length > maxDigestActivities) {
+    lines.push(`• +${day.activities.length - maxDigestActivities} more`);
+  }
+  return lines;
+}
+
+function formatDepartureBriefing(
+  trip: PlannableTrip,
+  range: { startDate: string; endDate: string },
+  daysToStart: number
+): string {
+  const tomorrow = daysToStart === 1;
+  const forecastEnd = addDays(range.startDate, tomorrow ? 0 : 2);
+  const forecast = generateForecast(trip.destination, range.startDate, forecastEnd < range.endDate ? forecastEnd : range.endDate);
+
+  const lines = [
+    tomorrow ? `✈️ Tomorrow: ${trip.destination}` : `🧳 ${trip.destination} in ${daysToStart} days`,
+    '',
+    'Weather on arrival:',
+    ...forecast.days.map(formatWeatherDay),
+  ];
+
+  if (!tomorrow && forecast.packingTips.length > 0) {
+    lines.push('', `Pack: ${forecast.packingTips.slice(0, 3).join('; ')}`);
+  }
+
+  const firstDay = tomorrow ? findItineraryDay(trip, range.startDate, 0) : null;
+  if (firstDay && firstDay.activities.length > 0) {
+    lines.push('', `Day 1 – ${firstDay.title}:`, ...formatActivities(firstDay));
+  }
+
+  lines.push('', `Full itinerary: voyageai.app/trips/${trip.id}`);
+  return lines.join('\n');
+}
+
+function formatDailyDigest(trip: PlannableTrip, day: ItineraryDay, date: string): string {
+  const [weather] = generateForecast(trip.destination, date, date).days;
+
+  const lines = [`☀️ Good morning! Day ${day.day} in ${trip.destination}: ${day.title}`];
+  if (weather) lines.push(formatWeatherDay(weather).replace('• ', 'Weather '));
+  lines.push('');
+  lines.push(...(day.activities.length > 0 ? formatActivities(day) : ['Nothing planned – a free day.']));
+  return lines.join('\n');
+}
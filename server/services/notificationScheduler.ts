@@ -0,0 +1,272 @@
+/**
+ * Notification Scheduler
+ * Proactive WhatsApp concierge messages for users who opted in:
+ * - Visa apply-by reminders (computeDueDate) as the deadline gets close
+ * - Departure briefings with the destination forecast at T-7 and T-1
+ * - Price drops picked up by the price alert checks
+ * - A morning digest of the day's plan while the trip is underway
+ *
+ * What is due, and the message text, is worked out in notificationPlanner.
+ * Every send is logged under a dedupe key, so runs can repeat safely and
+ * anything held back by quiet hours simply goes out on a later run.
+ *
+ * Opting in sends a one-time code to the number; notifications only start
+ * once that number replies with it (confirmWhatsAppNumber, via the webhook).
+ */
+
+import { and, eq, gt, gte, inArray, isNotNull } from 'drizzle-orm';
+import {
+  notificationPreferences,
+  sentNotifications,
+  priceAlerts,
+  trips,
+  type NotificationPreferences,
+} from '@shared/schema';
+import { db } from '../db';
+import { sendWhatsAppMessage } from './conciergeService';
+import {
+  NOTIFICATION_CONFIG,
+  checkVerificationCode,
+  getLocalClock,
+  isQuietHour,
+  planPreferencesUpdate,
+  planPriceDropNotifications,
+  planTripNotifications,
+  type CodeCheck,
+  type NotificationPreferencesInput,
+  type PlannedNotification,
+} from './notificationPlanner';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CHECK_INTERVAL = 30 * 60 * 1000; // Every 30 minutes, so the morning digest lands near its hour
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NotificationRunSummary {
+  users: number;
+  quiet: number;
+  sent: number;
+  failed: number;
+}
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferences | null> {
+  const [prefs] = await db
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+  return prefs ?? null;
+}
+
+/**
+ * Create or update a user's preferences, texting a one-time code when the
+ * number still has to be verified. codeSent is null when no new code was due.
+ * optedInAt records when they last opted in.
+ */
+export async function saveNotificationPreferences(
+  userId: number,
+  input: NotificationPreferencesInput
+): Promise<{ preferences: NotificationPreferences; codeSent: boolean | null }> {
+  const existing = await getNotificationPreferences(userId);
+  const { values, verificationCode } = planPreferencesUpdate(existing, input, new Date());
+
+  const [preferences] = await db
+    .insert(notificationPreferences)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+    .returning();
+
+  if (verificationCode === null) return { preferences, codeSent: null };
+
+  const codeSent = await sendWhatsAppMessage(input.whatsappNumber, {
+    text: `Your Voyage code is ${verificationCode}. Reply with it to turn on trip notifications. It expires in ${NOTIFICATION_CONFIG.verificationCodeTtl / 60_000} minutes.`,
+  });
+  return { preferences, codeSent };
+}
+
+/**
+ * Handle a reply with a one-time code. A match verifies the number and
+ * switches its notifications on; wrong replies count towards the lockout
+ * (checkVerificationCode). Null when the number has no unexpired code.
+ */
+export async function confirmWhatsAppNumber(
+  whatsappNumber: string,
+  code: string,
+  now: Date = new Date()
+): Promise<{ outcome: CodeCheck['outcome']; preferences: NotificationPreferences } | null> {
+  const candidates = await db
+    .select()
+    .from(notificationPreferences)
+    .where(and(
+      eq(notificationPreferences.whatsappNumber, whatsappNumber),
+      isNotNull(notificationPreferences.verificationCodeHash),
+      gt(notificationPreferences.verificationExpiresAt, now)
+    ));
+
+  const checks = candidates.flatMap(prefs => {
+    const check = checkVerificationCode(prefs, code, now);
+    return check ? [{ prefs, check }] : [];
+  });
+  // A match only touches its own row; a miss counts against every pending code for the number
+  const matched = checks.find(({ check }) => check.outcome === 'verified');
+
+  let result: { outcome: CodeCheck['outcome']; preferences: NotificationPreferences } | null = null;
+  for (const { prefs, check } of matched ? [matched] : checks) {
+    // Only if the code and attempt count are unchanged, so concurrent replies can't skip the count
+    const [updated] = await db
+      .update(notificationPreferences)
+      .set(check.values)
+      .where(and(
+        eq(notificationPreferences.id, prefs.id),
+        eq(notificationPreferences.verificationCodeHash, prefs.verificationCodeHash!),
+        eq(notificationPreferences.verificationAttempts, prefs.verificationAttempts)
+      ))
+      .returning();
+    if (updated) result ??= { outcome: check.outcome, preferences: updated };
+  }
+  return result;
+}
+
+export async function deleteNotificationPreferences(userId: number): Promise<void> {
+  await db.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Send whatever is due for one opted-in user. Returns null during their quiet hours.
+ */
+export async function notifyUser(
+  prefs: NotificationPreferences,
+  now: Date
+): Promise<{ sent: number; failed: number } | null> {
+  const clock = getLocalClock(now, prefs.timezone);
+  if (isQuietHour(clock.hour, prefs.quietHoursStart, prefs.quietHoursEnd)) return null;
+
+  const kinds = prefs.kinds;
+  const planned: PlannedNotification[] = [];
+
+  const userTrips = await db.select().from(trips).where(eq(trips.userId, prefs.userId));
+  for (const trip of userTrips) {
+    planned.push(...planTripNotifications(trip, clock, kinds));
+  }
+
+  if (kinds.includes('price_drop')) {
+    const since = new Date(now.getTime() - NOTIFICATION_CONFIG.priceDropWindow);
+    const dropped = await db
+      .select()
+      .from(priceAlerts)
+      .where(and(eq(priceAlerts.userId, prefs.userId), gte(priceAlerts.lastAlertSent, since)));
+    planned.push(...planPriceDropNotifications(dropped, now));
+  }
+
+  if (planned.length === 0) return { sent: 0, failed: 0 };
+
+  const alreadySent = await db
+    .select({ dedupeKey: sentNotifications.dedupeKey })
+    .from(sentNotifications)
+    .where(inArray(sentNotifications.dedupeKey, planned.map(p => p.dedupeKey)));
+  const sentKeys = new Set(alreadySent.map(row => row.dedupeKey));
+
+  let sent = 0;
+  let failed = 0;
+  for (const notification of planned.filter(p => !sentKeys.has(p.dedupeKey))) {
+    // Claim the key first so overlapping runs can't both send it
+    const [claim] = await db
+      .insert(sentNotifications)
+      .values({
+        userId: prefs.userId,
+        tripId: notification.tripId,
+        kind: notification.kind,
+        dedupeKey: notification.dedupeKey,
+        body: notification.body,
+      })
+      .onConflictDoNothing()
+      .returning({ id: sentNotifications.id });
+    if (!claim) continue;
+
+    const ok = await sendWhatsAppMessage(prefs.whatsappNumber, { text: notification.body });
+    if (ok) {
+      sent++;
+    } else {
+      // Release the claim so the next run retries
+      await db.delete(sentNotifications).where(eq(sentNotifications.id, claim.id));
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * One pass over every opted-in user. Failures are logged per user so one
+ * bad trip doesn't stop the run.
+ */
+export async function runNotificationChecks(now: Date = new Date()): Promise<NotificationRunSummary> {
+  const subscribers = await db
+    .select()
+    .from(notificationPreferences)
+    .where(and(eq(notificationPreferences.optedIn, true), isNotNull(notificationPreferences.verifiedAt)));
+
+  const summary: NotificationRunSummary = { users: subscribers.length, quiet: 0, sent: 0, failed: 0 };
+
+  for (const prefs of subscribers) {
+    try {
+      const result = await notifyUser(prefs, now);
+      if (!result) {
+        summary.quiet++;
+        continue;
+      }
+      summary.sent += result.sent;
+      summary.failed += result.failed;
+    } catch (err) {
+      console.error(`[Notifications] Run failed for user #${prefs.userId}:`, err);
+      summary.failed++;
+    }
+  }
+
+  if (summary.sent > 0 || summary.failed > 0) {
+    console.log(`[Notifications] ${summary.users} subscribers: ${summary.sent} sent, ${summary.failed} failed, ${summary.quiet} in quiet hours`);
+  }
+  return summary;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checkInFlight = false;
+
+/**
+ * Start the periodic notification run (idempotent). Runs are skipped while
+ * a previous run is still in flight.
+ */
+export function startNotificationScheduler(): void {
+  if (checkTimer) return;
+
+  const run = () => {
+    if (checkInFlight) return;
+    checkInFlight = true;
+    runNotificationChecks()
+      .catch(err => {
+        console.error('[Notifications] Scheduled run failed:', err);
+      })
+      .finally(() => {
+        checkInFlight = false;
+      });
+  };
+
+  checkTimer = setInterval(run, CHECK_INTERVAL);
+  checkTimer.unref();
+}
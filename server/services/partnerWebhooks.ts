@@ -0,0 +1,370 @@
+/**
+ * Partner Webhooks
+ *
+ * Outbound events for trips created through the B2B API with a webhookUrl.
+ * Every event is written to webhook_deliveries first (the per-API-key
+ * delivery log), then sent by a small Postgres-backed worker:
+ *
+ * - Deliveries are claimed with FOR UPDATE SKIP LOCKED; claiming pushes
+ *   nextAttemptAt out as a lease, so a crash mid-send just means a retry
+ * - Failed attempts back off exponentially (webhookDelivery.ts) until
+ *   maxAttempts, then the delivery is marked 'failed'
+ * - Any delivery can be replayed; the replay is a new row with the same
+ *   eventId so receivers can dedupe
+ *
+ * Events: trip.feasibility.completed, trip.itinerary.day_ready,
+ * trip.itinerary.completed, trip.failed
+ */
+
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  apiKeys,
+  tripWebhooks,
+  webhookDeliveries,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  type FeasibilityReport,
+} from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  generateWebhookSecret,
+  nextDeliveryState,
+  sendWebhook,
+} from "./webhookDelivery";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PARTNER_WEBHOOK_CONFIG = {
+  pollInterval: 5000,
+  concurrency: 4,
+  leaseMs: 2 * 60 * 1000, // Longer than the request timeout
+  maxAttempts: 6,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  tripId: number;
+  clientReference: string | null;
+  data: Record<string, unknown>;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const activeDeliveries = new Set<number>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+// ============================================================================
+// SECRETS & SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * The API key's signing secret, created on first use
+ */
+export async function ensureWebhookSecret(apiKeyId: number): Promise<string> {
+  const [key] = await db
+    .select({ webhookSecret: apiKeys.webhookSecret })
+    .from(apiKeys)
+    .where(eq(apiKeys.id, apiKeyId))
+    .limit(1);
+
+  if (key?.webhookSecret) {
+    return key.webhookSecret;
+  }
+  return rotateWebhookSecret(apiKeyId);
+}
+
+/**
+ * Replace the signing secret. Deliveries already in flight are signed with
+ * the new secret from their next attempt on.
+ */
+export async function rotateWebhookSecret(apiKeyId: number): Promise<string> {
+  const secret = generateWebhookSecret();
+  await db
+    .update(apiKeys)
+    .set({ webhookSecret: secret, updatedAt: new Date() })
+    .where(eq(apiKeys.id, apiKeyId));
+  return secret;
+}
+
+/**
+ * Remember where to send a trip's events (POST /api/v1/trips with webhookUrl)
+ */
+export async function registerTripWebhook(
+  tripId: number,
+  apiKeyId: number,
+  url: string,
+  clientReference?: string
+): Promise<void> {
+  await ensureWebhookSecret(apiKeyId);
+  await db
+    .insert(tripWebhooks)
+    .values({ tripId, apiKeyId, url, clientReference: clientReference ?? null })
+    .onConflictDoUpdate({
+      target: tripWebhooks.tripId,
+      set: { apiKeyId, url, clientReference: clientReference ?? null },
+    });
+}
+
+// ============================================================================
+// EMIT
+// ============================================================================
+
+/**
+ * Event data for trip.feasibility.completed - the verdict, with a link to
+ * the full report rather than the report itself
+ */
+export function buildFeasibilityEventData(tripId: number, report: FeasibilityReport): Record<string, unknown> {
+  return {
+    status: report.overall,
+    score: report.score,
+    summary: report.summary,
+    _links: { feasibility: `/api/v1/trips/${tripId}/feasibility` },
+  };
+}
+
+/** Event data for trip.itinerary.day_ready - the full day as stored */
+export function buildDayReadyEventData(tripId: number, day: { day: number }, totalDays: number): Record<string, unknown> {
+  return {
+    day,
+    totalDays,
+    _links: { trip: `/api/v1/trips/${tripId}` },
+  };
+}
+
+/**
+ * Queue an event for the trip's partner, if it has one. Never throws -
+ * webhook bookkeeping must not fail trip processing.
+ */
+export async function emitTripWebhook(
+  tripId: number,
+  type: WebhookEventType,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const [subscription] = await db
+      .select()
+      .from(tripWebhooks)
+      .where(eq(tripWebhooks.tripId, tripId))
+      .limit(1);
+
+    if (!subscription) return;
+
+    const payload: WebhookEventPayload = {
+      id: `evt_${randomUUID().replace(/-/g, '')}`,
+      type,
+      createdAt: new Date().toISOString(),
+      tripId,
+      clientReference: subscription.clientReference,
+      data,
+    };
+
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        apiKeyId: subscription.apiKeyId,
+        tripId,
+        eventId: payload.id,
+        event: type,
+        url: subscription.url,
+        payload,
+        maxAttempts: PARTNER_WEBHOOK_CONFIG.maxAttempts,
+      })
+      .returning();
+
+    console.log(`[Webhooks] Queued ${type} for trip ${tripId} (delivery ${delivery.id})`);
+    if (pollTimer) {
+      setImmediate(pollForDeliveries);
+    }
+  } catch (err) {
+    console.error(`[Webhooks] Failed to queue ${type} for trip ${tripId}:`, err);
+  }
+}
+
+// ============================================================================
+// DELIVERY LOG & REPLAY
+// ============================================================================
+
+export async function listWebhookDeliveries(
+  apiKeyId: number,
+  filters: { tripId?: number; status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const conditions = [eq(webhookDeliveries.apiKeyId, apiKeyId)];
+  if (filters.tripId !== undefined) conditions.push(eq(webhookDeliveries.tripId, filters.tripId));
+  if (filters.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(Math.min(filters.limit ?? 50, 200));
+}
+
+export async function getWebhookDelivery(apiKeyId: number, deliveryId: number): Promise<WebhookDelivery | null> {
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.apiKeyId, apiKeyId)))
+    .limit(1);
+  return delivery ?? null;
+}
+
+/**
+ * Send a logged event again, as a new delivery with a fresh attempt budget.
+ * Goes to the trip's current webhook URL if it has changed since.
+ */
+export async function replayWebhookDelivery(apiKeyId: number, deliveryId: number): Promise<WebhookDelivery | null> {
+  const original = await getWebhookDelivery(apiKeyId, deliveryId);
+  if (!original) return null;
+
+  const [subscription] = original.tripId
+    ? await db.select().from(tripWebhooks).where(eq(tripWebhooks.tripId, original.tripId)).limit(1)
+    : [];
+
+  const [replay] = await db
+    .insert(webhookDeliveries)
+    .values({
+      apiKeyId,
+      tripId: original.tripId,
+      eventId: original.eventId,
+      event: original.event,
+      url: subscription?.url ?? original.url,
+      payload: original.payload,
+      maxAttempts: PARTNER_WEBHOOK_CONFIG.maxAttempts,
+      replayOf: original.id,
+    })
+    .returning();
+
+  console.log(`[Webhooks] Replaying delivery ${original.id} as ${replay.id}`);
+  if (pollTimer) {
+    setImmediate(pollForDeliveries);
+  }
+  return replay;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Claim the next due delivery and lease it by pushing nextAttemptAt out
+ */
+async function claimNextDelivery(): Promise<number | null> {
+  const leaseSeconds = Math.round(PARTNER_WEBHOOK_CONFIG.leaseMs / 1000);
+  const claimed = await db.execute<{ id: number }>(sql`
+    UPDATE webhook_deliveries
+    SET attempts = attempts + 1,
+        next_attempt_at = now() + make_interval(secs => ${leaseSeconds}),
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= now()
+      ORDER BY next_attempt_at, id
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id
+  `);
+  return claimed.rows[0]?.id ?? null;
+}
+
+async function attemptDelivery(deliveryId: number): Promise<void> {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, secret: apiKeys.webhookSecret, isActive: apiKeys.isActive })
+    .from(webhookDeliveries)
+    .innerJoin(apiKeys, eq(apiKeys.id, webhookDeliveries.apiKeyId))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!row) return;
+  const { delivery } = row;
+
+  if (!row.isActive || !row.secret) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'failed', lastError: 'API key is inactive', updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return;
+  }
+
+  const result = await sendWebhook({
+    url: delivery.url,
+    secret: row.secret,
+    deliveryId: delivery.id,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    body: JSON.stringify(delivery.payload),
+  });
+
+  const next = nextDeliveryState(delivery.attempts, delivery.maxAttempts, result);
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: next.status,
+      nextAttemptAt: next.nextAttemptAt,
+      deliveredAt: next.deliveredAt,
+      lastStatusCode: result.statusCode,
+      lastError: result.error,
+      lastDurationMs: result.durationMs,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  if (next.status === 'delivered') {
+    console.log(`[Webhooks] Delivered ${delivery.event} (delivery ${delivery.id}) in ${result.durationMs}ms`);
+  } else if (next.status === 'failed') {
+    console.error(`[Webhooks] Delivery ${delivery.id} failed after ${delivery.attempts} attempts: ${result.error}`);
+  } else {
+    const delay = Math.round((next.nextAttemptAt.getTime() - Date.now()) / 1000);
+    console.warn(`[Webhooks] Delivery ${delivery.id} attempt ${delivery.attempts}/${delivery.maxAttempts} failed, retrying in ${delay}s: ${result.error}`);
+  }
+}
+
+async function pollForDeliveries(): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    while (activeDeliveries.size < PARTNER_WEBHOOK_CONFIG.concurrency) {
+      const id = await claimNextDelivery();
+      if (!id) break;
+
+      activeDeliveries.add(id);
+      attemptDelivery(id)
+        .catch(err => {
+          console.error(`[Webhooks] Unexpected error sending delivery ${id}:`, err);
+        })
+        .finally(() => {
+          activeDeliveries.delete(id);
+          setImmediate(pollForDeliveries);
+        });
+    }
+  } catch (err) {
+    console.error('[Webhooks] Poll failed:', err);
+  } finally {
+    polling = false;
+  }
+}
+
+export function startWebhookWorker(): void {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(pollForDeliveries, PARTNER_WEBHOOK_CONFIG.pollInterval);
+  pollTimer.unref();
+  pollForDeliveries();
+
+  console.log(`[Webhooks] Delivery worker started (concurrency ${PARTNER_WEBHOOK_CONFIG.concurrency})`);
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for Passport Choice
+ *
+ * Run with: npx vitest run server/services/passportChoice.test.ts
+ *
+ * Runs against the committed corridor files and the real passport-index.csv.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { comparePassports } from './passportChoice';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const dualToJapan = {
+  passport: 'India',
+  passports: ['India', 'United States'],
+  passportPinned: false,
+  destination: 'Tokyo, Japan',
+  dates: '2026-12-10 to 2026-12-16',
+  legs: null,
+};
+
+describe('comparePassports', () => {
+  it('recommends the visa-free passport, with fee and processing deltas for the other', () => {
+    const comparison = comparePassports(dualToJapan, NOW)!;
+
+    expect(comparison.recommended).toBe('United States');
+    expect(comparison.chosen).toBe('India');
+    expect(comparison.options.map(o => o.passport)).toEqual(['United States', 'India']);
+
+    const [us, india] = comparison.options;
+    expect(us).toMatchObject({ friction: 0, costPerPerson: 0, processingDaysMax: 0, costDelta: 0, processingDaysDelta: 0 });
+    expect(india.visas[0]).toMatchObject({ country: 'Japan', source: 'corridor' });
+    expect(india.friction).toBeGreaterThan(0);
+    expect(india.costDelta).toBe(india.costPerPerson);
+    expect(india.processingDaysDelta).toBe(india.processingDaysMax);
+  });
+
+  it('checks every country on a multi-city trip', () => {
+    const comparison = comparePassports({
+      ...dualToJapan,
+      destination: 'Tokyo → Bangkok',
+      legs: [{ destination: 'Tokyo, Japan', nights: 3 }, { destination: 'Bangkok, Thailand', nights: 3 }],
+    }, NOW)!;
+
+    for (const option of comparison.options) {
+      expect(option.visas.map(v => v.country)).toEqual(['Japan', 'Thailand']);
+    }
+  });
+
+  it('has nothing to compare with a single passport', () => {
+    expect(comparePassports({ ...dualToJapan, passports: ['india'] }, NOW)).toBeNull();
+    expect(comparePassports({ ...dualToJapan, passports: null }, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Passport Choice
+ *
+ * For travelers holding more than one passport: checks each against every
+ * country on the trip and recommends the one with the least friction.
+ *
+ * Deterministic - no LLM calls:
+ * - Visa type: curated corridor data, else the Passport Index
+ * - Fees and processing times: corridor data, else estimates by visa type
+ *
+ * Ranking: admitted everywhere first, then fewest / lightest visas, then
+ * shortest processing, then lowest fee (when the fees share a currency).
+ */
+
+import type { PassportComparison, PassportOption, Trip, VisaDetails } from "@shared/schema";
+import { getCorridorData, corridorToVisaDetails, generateEstimatedVisaDetails } from "./corridorData";
+import { lookupVisa, type VisaStatus } from "./passportIndexService";
+import { getTripCountries } from "./multiCityService";
+import { parseTripDateRange } from "./stayLimitService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days until the trip when it has no parseable dates - far enough out not to penalize timing */
+const UNKNOWN_DAYS_UNTIL_TRIP = 60;
+
+// ============================================================================
+// VISA ASSESSMENT
+// ============================================================================
+
+/** Corridor visa type for a Passport Index status (ETAs are processed like e-visas) */
+const INDEX_VISA_TYPES: Record<VisaStatus, VisaDetails['type']> = {
+  visa_free: 'visa_free',
+  visa_on_arrival: 'visa_on_arrival',
+  e_visa: 'e_visa',
+  eta: 'e_visa',
+  visa_required: 'embassy_visa',
+  covid_ban: 'not_allowed',
+  no_admission: 'not_allowed',
+  unknown: 'requires_verification',
+};
+
+/** Paperwork per visa type; not_allowed is handled as a blocker */
+const FRICTION: Record<VisaDetails['type'], number> = {
+  visa_free: 0,
+  visa_on_arrival: 1,
+  e_visa: 2,
+  requires_verification: 3,
+  embassy_visa: 4,
+  not_allowed: 4,
+};
+
+export interface VisaAssessment {
+  details: VisaDetails;
+  source: PassportOption['visas'][number]['source'];
+}
+
+/** Corridor and Passport Index entries, looked up once per passport and country */
+export type VisaSourceCache = Map<string, {
+  corridor: ReturnType<typeof getCorridorData>;
+  entry: ReturnType<typeof lookupVisa>;
+}>;
+
+/**
+ * Visa details for one passport and country, without the LLM: curated
+ * corridor first, then the Passport Index with estimated processing times
+ */
+export function assessVisa(cache: VisaSourceCache, passport: string, country: string, daysUntilTrip: number): VisaAssessment {
+  const key = `${passport.toLowerCase()}|${country.toLowerCase()}`;
+  if (!cache.has(key)) {
+    cache.set(key, { corridor: getCorridorData(passport, country), entry: lookupVisa(passport, country) });
+  }
+  const { corridor, entry } = cache.get(key)!;
+
+  const curated = corridor ? corridorToVisaDetails(corridor, daysUntilTrip) : null;
+  if (curated) {
+    return { details: curated, source: 'corridor' };
+  }
+
+  const type = INDEX_VISA_TYPES[entry?.status ?? 'unknown'];
+  const details = generateEstimatedVisaDetails(type !== 'visa_free', type, entry?.statusLabel ?? '', daysUntilTrip, country);
+  if (type === 'not_allowed' || type === 'requires_verification') {
+    details.type = type;
+  }
+  // The visa type comes from the dataset, only processing times are estimates
+  if (entry) {
+    details.confidenceLevel = 'medium';
+  }
+
+  return { details, source: entry ? 'passport_index' : 'unknown' };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Fee difference a - b, or null when the fees are in different currencies */
+function costDifference(a: PassportOption, b: PassportOption): number | null {
+  if (a.costPerPerson === null || b.costPerPerson === null) return null;
+  if (a.costPerPerson === 0 || b.costPerPerson === 0 || a.currency === b.currency) {
+    return a.costPerPerson - b.costPerPerson;
+  }
+  return null;
+}
+
+function rankOptions(a: PassportOption, b: PassportOption): number {
+  return Number(a.blocked) - Number(b.blocked) ||
+    a.friction - b.friction ||
+    a.processingDaysMax - b.processingDaysMax ||
+    (costDifference(a, b) ?? 0);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Every passport the traveler holds, the trip's own first, without duplicates
+ */
+export function getTripPassports(trip: { passport: string; passports?: string[] | null }): string[] {
+  const held: string[] = [];
+  for (const passport of [trip.passport, ...(trip.passports ?? [])]) {
+    const trimmed = passport?.trim();
+    if (trimmed && !held.some(p => p.toLowerCase() === trimmed.toLowerCase())) held.push(trimmed);
+  }
+  return held;
+}
+
+/**
+ * Assess each passport the traveler holds for this trip. Null with fewer
+ * than two passports - there's nothing to choose.
+ */
+export function comparePassports(
+  trip: Pick<Trip, 'passport' | 'passports' | 'passportPinned' | 'destination' | 'dates' | 'legs'>,
+  now = new Date()
+): PassportComparison | null {
+  const passports = getTripPassports(trip);
+  if (passports.length < 2) return null;
+
+  const range = parseTripDateRange(trip.dates);
+  const daysUntilTrip = range
+    ? Math.max(0, Math.ceil((new Date(`${range.startDate}T00:00:00Z`).getTime() - now.getTime()) / DAY_MS))
+    : UNKNOWN_DAYS_UNTIL_TRIP;
+  const countries = getTripCountries(trip);
+  const cache: VisaSourceCache = new Map();
+
+  const options = passports.map((passport): PassportOption => {
+    const visas = countries.map(country => {
+      const { details, source } = assessVisa(cache, passport, country, daysUntilTrip);
+      return {
+        country,
+        type: details.type,
+        source,
+        costPerPerson: details.cost.totalPerPerson,
+        currency: details.cost.currency,
+        processingDaysMax: details.processingDays.maximum,
+      };
+    });
+
+    // Visa-free entries are free in any currency
+    const currencies = Array.from(new Set(visas.filter(v => v.costPerPerson > 0).map(v => v.currency)));
+
+    return {
+      passport,
+      friction: visas.reduce((sum, v) => sum + FRICTION[v.type], 0),
+      blocked: visas.some(v => v.type === 'not_allowed'),
+      visas,
+      costPerPerson: currencies.length > 1 ? null : visas.reduce((sum, v) => sum + v.costPerPerson, 0),
+      currency: currencies.length === 1 ? currencies[0] : null,
+      processingDaysMax: Math.max(...visas.map(v => v.processingDaysMax)),
+      costDelta: null,
+      processingDaysDelta: 0,
+    };
+  });
+
+  options.sort(rankOptions);
+  const best = options[0];
+  for (const option of options) {
+    option.processingDaysDelta = option.processingDaysMax - best.processingDaysMax;
+    option.costDelta = costDifference(option, best);
+  }
+
+  return {
+    recommended: best.passport,
+    chosen: trip.passport,
+    pinned: !!trip.passportPinned,
+    options,
+    comparedAt: now.toISOString(),
+  };
+}
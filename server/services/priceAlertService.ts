@@ -0,0 +1,372 @@
+/**
+ * Price Alert Service
+ * Stores flight/hotel price alerts in Postgres, re-prices them on a schedule
+ * through flightApi/hotelApi and emails the owner when a drop is worth reporting.
+ */
+
+import { and, asc, eq, or, type SQL } from 'drizzle-orm';
+import { priceAlerts, type PriceAlert } from '@shared/schema';
+import { db } from '../db';
+import { searchFlights } from './flightApi';
+import { searchHotels } from './hotelApi';
+import { sendPriceAlertEmail } from './email';
+import { parseDateRange } from './dueDates';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PRICE_ALERT_CONFIG = {
+  checkInterval: 6 * 60 * 60 * 1000, // Re-price active alerts every 6 hours
+  alertCooldown: 24 * 60 * 60 * 1000, // At most one email per alert per day
+  maxHistoryPoints: 120, // ~30 days of checks at the default interval
+  defaultThreshold: 10, // Percent drop from the initial price
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PriceAlertType = 'flight' | 'hotel';
+
+export interface PricePoint {
+  price: number;
+  timestamp: string;
+  source?: 'api' | 'estimate';
+}
+
+export interface CreateAlertInput {
+  tripId: number;
+  userId?: number;
+  email: string;
+  type: PriceAlertType;
+  destination: string;
+  origin?: string;
+  dates: string;
+  adults?: number;
+  currentPrice: number;
+  targetPrice: number;
+  alertThreshold?: number;
+  currency: string;
+}
+
+export interface PriceDropDecision {
+  notify: boolean;
+  reason: 'target' | 'threshold' | null;
+  percentDrop: number;
+}
+
+export interface CheckSummary {
+  checked: number;
+  updated: number;
+  alertsSent: number;
+  deactivated: number;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Create an alert, or update the target of an existing active alert
+ * for the same trip, type and recipient.
+ */
+export async function createOrUpdateAlert(
+  input: CreateAlertInput
+): Promise<{ alert: PriceAlert; created: boolean }> {
+  const [existing] = await db
+    .select()
+    .from(priceAlerts)
+    .where(and(
+      eq(priceAlerts.tripId, input.tripId),
+      eq(priceAlerts.type, input.type),
+      eq(priceAlerts.email, input.email),
+      eq(priceAlerts.isActive, true)
+    ))
+    .limit(1);
+
+  if (existing) {
+    const [alert] = await db
+      .update(priceAlerts)
+      .set({
+        targetPrice: input.targetPrice,
+        alertThreshold: input.alertThreshold ?? existing.alertThreshold,
+        userId: existing.userId ?? input.userId ?? null,
+      })
+      .where(eq(priceAlerts.id, existing.id))
+      .returning();
+    return { alert, created: false };
+  }
+
+  const range = parseDateRange(input.dates);
+  const draft = {
+    type: input.type,
+    origin: input.origin || null,
+    destination: input.destination,
+    departureDate: range?.startDate ?? null,
+    returnDate: range?.endDate ?? null,
+    adults: input.adults ?? 1,
+    currency: input.currency,
+  };
+
+  // Baseline against the same source the scheduler will use, so the first
+  // check doesn't report a "drop" that is only a client/engine mismatch
+  const quote = await fetchCurrentPrice(draft);
+  const initialPrice = quote?.price ?? input.currentPrice;
+  const now = new Date();
+
+  const [alert] = await db
+    .insert(priceAlerts)
+    .values({
+      ...draft,
+      tripId: input.tripId,
+      userId: input.userId ?? null,
+      email: input.email,
+      initialPrice,
+      currentPrice: initialPrice,
+      lowestPrice: initialPrice,
+      targetPrice: input.targetPrice,
+      alertThreshold: input.alertThreshold ?? PRICE_ALERT_CONFIG.defaultThreshold,
+      isActive: true,
+      lastChecked: now,
+      priceHistory: [{ price: initialPrice, timestamp: now.toISOString(), source: quote?.source }],
+    })
+    .returning();
+
+  return { alert, created: true };
+}
+
+/**
+ * List alerts belonging to a user id and/or notification email
+ */
+export async function listAlerts(owner: { userId?: number; email?: string }): Promise<PriceAlert[]> {
+  const conditions: SQL[] = [];
+  if (owner.userId) conditions.push(eq(priceAlerts.userId, owner.userId));
+  if (owner.email) conditions.push(eq(priceAlerts.email, owner.email));
+  if (conditions.length === 0) return [];
+
+  return db
+    .select()
+    .from(priceAlerts)
+    .where(or(...conditions))
+    .orderBy(asc(priceAlerts.createdAt));
+}
+
+export async function getAlert(id: number): Promise<PriceAlert | null> {
+  const [alert] = await db.select().from(priceAlerts).where(eq(priceAlerts.id, id));
+  return alert ?? null;
+}
+
+/**
+ * Soft delete - the row and its history are kept
+ */
+export async function deactivateAlert(id: number): Promise<void> {
+  await db.update(priceAlerts).set({ isActive: false }).where(eq(priceAlerts.id, id));
+}
+
+export function getPriceHistory(alert: PriceAlert): PricePoint[] {
+  return Array.isArray(alert.priceHistory) ? (alert.priceHistory as PricePoint[]) : [];
+}
+
+export async function getAlertStats(): Promise<{
+  total: number;
+  active: number;
+  byType: Record<PriceAlertType, number>;
+}> {
+  const rows = await db
+    .select({ type: priceAlerts.type, isActive: priceAlerts.isActive })
+    .from(priceAlerts);
+
+  return {
+    total: rows.length,
+    active: rows.filter(r => r.isActive).length,
+    byType: {
+      flight: rows.filter(r => r.type === 'flight').length,
+      hotel: rows.filter(r => r.type === 'hotel').length,
+    },
+  };
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+type PricingParams = Pick<
+  PriceAlert,
+  'type' | 'origin' | 'destination' | 'departureDate' | 'returnDate' | 'adults' | 'currency'
+>;
+
+/**
+ * Quote the alert's search through the flight/hotel APIs. Both fall back to
+ * estimates when SerpAPI isn't configured. Returns null when the alert lacks
+ * the parameters needed to search (e.g. no parsable dates).
+ */
+export async function fetchCurrentPrice(
+  params: PricingParams
+): Promise<{ price: number; source: 'api' | 'estimate' } | null> {
+  if (!params.departureDate || !params.returnDate) return null;
+
+  const travelers = params.adults || 1;
+  const currency = params.currency || 'USD';
+
+  if (params.type === 'flight') {
+    if (!params.origin) return null;
+    const flight = await searchFlights({
+      origin: params.origin,
+      destination: params.destination,
+      departureDate: params.departureDate,
+      returnDate: params.returnDate,
+      passengers: travelers,
+      currency,
+    });
+    return { price: Math.round(flight.price), source: flight.source };
+  }
+
+  const hotel = await searchHotels({
+    destination: params.destination,
+    checkIn: params.departureDate,
+    checkOut: params.returnDate,
+    guests: travelers,
+    currency,
+  });
+  return { price: Math.round(hotel.totalPrice), source: hotel.source };
+}
+
+/**
+ * Decide whether a new price should trigger an email.
+ * Fires when the price is at/below targetPrice, or has dropped at least
+ * alertThreshold percent below the initial price - and the alert hasn't
+ * emailed within the cooldown window.
+ */
+export function evaluatePriceDrop(
+  alert: Pick<PriceAlert, 'initialPrice' | 'targetPrice' | 'alertThreshold' | 'lastAlertSent'>,
+  newPrice: number,
+  now: Date = new Date()
+): PriceDropDecision {
+  const initial = alert.initialPrice ?? newPrice;
+  const percentDrop = initial > 0 ? Math.round(((initial - newPrice) / initial) * 100) : 0;
+
+  let reason: PriceDropDecision['reason'] = null;
+  if (alert.targetPrice != null && newPrice <= alert.targetPrice) {
+    reason = 'target';
+  } else if (alert.alertThreshold != null && alert.alertThreshold > 0 && percentDrop >= alert.alertThreshold) {
+    reason = 'threshold';
+  }
+
+  const lastSent = alert.lastAlertSent?.getTime() ?? 0;
+  const coolingDown = now.getTime() - lastSent < PRICE_ALERT_CONFIG.alertCooldown;
+
+  return { notify: reason !== null && !coolingDown, reason, percentDrop };
+}
+
+/**
+ * Re-price a single alert, append to its history and email on a qualifying drop
+ */
+export async function checkAlert(alert: PriceAlert): Promise<{ updated: boolean; notified: boolean; deactivated: boolean }> {
+  const now = new Date();
+
+  // Nothing left to track once the trip has started
+  if (alert.departureDate && new Date(alert.departureDate) < now) {
+    await deactivateAlert(alert.id);
+    return { updated: false, notified: false, deactivated: true };
+  }
+
+  const quote = await fetchCurrentPrice(alert);
+  if (!quote) {
+    await db.update(priceAlerts).set({ lastChecked: now }).where(eq(priceAlerts.id, alert.id));
+    return { updated: false, notified: false, deactivated: false };
+  }
+
+  const history = [
+    ...getPriceHistory(alert),
+    { price: quote.price, timestamp: now.toISOString(), source: quote.source },
+  ].slice(-PRICE_ALERT_CONFIG.maxHistoryPoints);
+
+  const decision = evaluatePriceDrop(alert, quote.price, now);
+  const recipient = alert.email;
+  const notified = decision.notify && !!recipient;
+
+  if (notified) {
+    sendPriceAlertEmail(recipient!, {
+      destination: alert.destination,
+      type: alert.type as PriceAlertType,
+      originalPrice: alert.initialPrice ?? quote.price,
+      currentPrice: quote.price,
+      currency: alert.currency || 'USD',
+      percentDrop: Math.max(decision.percentDrop, 0),
+    });
+    console.log(`[Price Alerts] Alert #${alert.id} (${decision.reason}) sent to ${recipient}: ${alert.type} to ${alert.destination} at ${alert.currency}${quote.price}`);
+  }
+
+  await db
+    .update(priceAlerts)
+    .set({
+      currentPrice: quote.price,
+      lowestPrice: Math.min(alert.lowestPrice ?? quote.price, quote.price),
+      lastChecked: now,
+      priceHistory: history,
+      ...(notified ? { lastAlertSent: now } : {}),
+    })
+    .where(eq(priceAlerts.id, alert.id));
+
+  return { updated: quote.price !== alert.currentPrice, notified, deactivated: false };
+}
+
+/**
+ * Re-price every active alert. Failures are logged per alert so one bad
+ * search doesn't stop the run.
+ */
+export async function checkAllAlerts(): Promise<CheckSummary> {
+  const active = await db
+    .select()
+    .from(priceAlerts)
+    .where(eq(priceAlerts.isActive, true))
+    .orderBy(asc(priceAlerts.lastChecked));
+
+  const summary: CheckSummary = { checked: 0, updated: 0, alertsSent: 0, deactivated: 0 };
+
+  for (const alert of active) {
+    try {
+      const result = await checkAlert(alert);
+      summary.checked++;
+      if (result.updated) summary.updated++;
+      if (result.notified) summary.alertsSent++;
+      if (result.deactivated) summary.deactivated++;
+    } catch (err) {
+      console.error(`[Price Alerts] Check failed for alert #${alert.id}:`, err);
+    }
+  }
+
+  console.log(`[Price Alerts] Checked ${summary.checked}/${active.length} alerts: ${summary.updated} updated, ${summary.alertsSent} sent, ${summary.deactivated} expired`);
+  return summary;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checkInFlight = false;
+
+/**
+ * Start the periodic price check (idempotent). Runs are skipped while a
+ * previous run is still in flight.
+ */
+export function startPriceAlertScheduler(): void {
+  if (checkTimer) return;
+
+  const run = () => {
+    if (checkInFlight) return;
+    checkInFlight = true;
+    checkAllAlerts()
+      .catch(err => {
+        console.error('[Price Alerts] Scheduled check failed:', err);
+      })
+      .finally(() => {
+        checkInFlight = false;
+      });
+  };
+
+  checkTimer = setInterval(run, PRICE_ALERT_CONFIG.checkInterval);
+  checkTimer.unref();
+}
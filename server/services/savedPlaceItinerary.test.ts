@@ -0,0 +1,74 @@
+/**
+ * Tests for Saved Place Itinerary
+ *
+ * Run with: npx vitest run server/services/savedPlaceItinerary.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { SavedPlace } from '@shared/schema';
+import { addPlaceToDay, SavedPlaceError } from './savedPlaceItinerary';
+
+const place = {
+  id: 3,
+  userId: null,
+  voyageUid: 'device-1',
+  name: 'Tanah Lot Temple',
+  address: 'Beraban, Kediri, Tabanan, Bali',
+  city: 'Bali, Indonesia',
+  country: 'Indonesia',
+  lat: -8.6212,
+  lng: 115.0868,
+  category: 'hindu_temple',
+  googlePlaceId: 'ChIJ-tanah-lot',
+  mapboxId: null,
+  rating: 4.6,
+  notes: 'Best at sunset, arrive early',
+  tags: ['temple'],
+  source: 'manual',
+  sourceUrl: null,
+  createdAt: null,
+  updatedAt: null,
+} as SavedPlace;
+
+function activity(time: string, name: string, duration = '2h') {
+  return { time, name, description: name, type: 'activity' as const, estimatedCost: 10, duration, location: '', coordinates: { lat: -8.65, lng: 115.13 } };
+}
+
+const trip = {
+  groupSize: 2,
+  infants: 0,
+  itinerary: {
+    days: [
+      { day: 1, date: '2026-05-01', title: 'Arrival', activities: [activity('09:00', 'Breakfast', '1h'), activity('16:00', 'Dinner', '1h 30m')] },
+      { day: 2, date: '2026-05-02', title: 'Ubud', activities: [] },
+    ],
+  },
+};
+
+describe('addPlaceToDay', () => {
+  it('slots the place into the day by time and re-validates that day', () => {
+    const result = addPlaceToDay(trip, place, 1, { time: '13:00' });
+
+    expect(result.itinerary.days[0].activities.map(a => a.name)).toEqual(['Breakfast', 'Tanah Lot Temple', 'Dinner']);
+    expect(result.activity).toMatchObject({
+      time: '13:00',
+      description: 'Best at sunset, arrive early',
+      coordinates: { lat: -8.6212, lng: 115.0868 },
+      placeDetails: { placeId: 'ChIJ-tanah-lot' },
+    });
+    expect(result.logistics.day).toBe(1);
+    expect(result.logistics.activityCount).toBe(3);
+
+    // The trip's own itinerary is not mutated
+    expect(trip.itinerary.days[0].activities).toHaveLength(2);
+  });
+
+  it('defaults to the first free slot after the last activity', () => {
+    expect(addPlaceToDay(trip, place, 1).activity.time).toBe('18:00');
+    expect(addPlaceToDay(trip, place, 2).activity.time).toBe('10:00');
+  });
+
+  it('rejects a day outside the itinerary', () => {
+    expect(() => addPlaceToDay(trip, place, 5)).toThrow(SavedPlaceError);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Saved Place Itinerary
+ *
+ * "Add to day N" for the saved places library: turns a place into an
+ * ItineraryActivity, slots it in by time, and re-runs the logistics
+ * validator on that day. Pure - the caller loads and saves the trip.
+ */
+
+import type { SavedPlace, Trip } from "@shared/schema";
+import { validateLogistics, type DayLogistics, type GroupProfile } from "./validators";
+import type { ItineraryActivity, ItineraryDay } from "./streamingItinerary";
+
+// ============================================================================
+// ADD TO ITINERARY
+// ============================================================================
+
+export class SavedPlaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedPlaceError";
+  }
+}
+
+export interface AddToDayOptions {
+  time?: string; // "HH:MM"; defaults to the first free slot after the day's last activity
+  duration?: string; // defaults to "1h 30m"
+  estimatedCost?: number;
+}
+
+export interface AddToDayResult {
+  itinerary: { days: ItineraryDay[]; [key: string]: unknown };
+  activity: ItineraryActivity;
+  logistics: DayLogistics;
+}
+
+/**
+ * Convert a saved place into an itinerary activity
+ */
+export function toItineraryActivity(place: SavedPlace, options: AddToDayOptions & { time: string }): ItineraryActivity {
+  return {
+    time: options.time,
+    name: place.name,
+    description: place.notes || place.address || place.name,
+    type: "activity",
+    estimatedCost: options.estimatedCost ?? 0,
+    duration: options.duration ?? "1h 30m",
+    location: place.address || place.city || "",
+    coordinates: { lat: place.lat ?? 0, lng: place.lng ?? 0 },
+    costVerification: { source: "user_input", confidence: "low" },
+    ...(place.googlePlaceId && { placeDetails: { placeId: place.googlePlaceId, rating: place.rating ?? undefined } }),
+  };
+}
+
+/**
+ * Insert a saved place into day N of a trip's itinerary and re-check that
+ * day's logistics. Returns the new itinerary without saving it.
+ */
+export function addPlaceToDay(
+  trip: Pick<Trip, "itinerary" | "groupSize" | "infants">,
+  place: SavedPlace,
+  dayNumber: number,
+  options: AddToDayOptions = {}
+): AddToDayResult {
+  const itinerary = trip.itinerary as AddToDayResult["itinerary"] | null;
+  const dayIndex = itinerary?.days?.findIndex(d => d.day === dayNumber) ?? -1;
+  if (!itinerary || dayIndex === -1) {
+    throw new SavedPlaceError(`Day ${dayNumber} is not in this trip's itinerary`);
+  }
+
+  const day = itinerary.days[dayIndex];
+  const activity = toItineraryActivity(place, { ...options, time: options.time ?? nextFreeSlot(day.activities) });
+  const activities = [...day.activities, activity]
+    .sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+  const updatedDay: ItineraryDay = { ...day, activities };
+
+  const days = [...itinerary.days];
+  days[dayIndex] = updatedDay;
+
+  const groupProfile: GroupProfile = {
+    hasToddler: (trip.infants ?? 0) > 0,
+    hasElderly: false,
+    hasMobilityIssues: false,
+    groupSize: trip.groupSize || 1,
+  };
+  const logistics = validateLogistics([updatedDay], groupProfile).perDayLogistics[0];
+
+  return { itinerary: { ...itinerary, days }, activity, logistics };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const match = time?.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!match) return 9 * 60;
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === "PM" && hours !== 12) hours += 12;
+  if (period === "AM" && hours === 12) hours = 0;
+  return hours * 60 + parseInt(match[2], 10);
+}
+
+function durationMinutes(duration: string): number {
+  const hours = duration?.match(/(\d+(?:\.\d+)?)\s*h/i);
+  const minutes = duration?.match(/(\d+)\s*m(?!o)/i);
+  if (!hours && !minutes) return 60;
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+}
+
+/**
+ * Half an hour after the day's last activity ends (rounded to the next
+ * half hour), or 10:00 on an empty day
+ */
+function nextFreeSlot(activities: ItineraryActivity[]): string {
+  if (activities.length === 0) return "10:00";
+  const lastEnd = Math.max(...activities.map(a => toMinutes(a.time) + durationMinutes(a.duration)));
+  const slot = Math.min(Math.ceil((lastEnd + 30) / 30) * 30, 22 * 60);
+  return `${String(Math.floor(slot / 60)).padStart(2, "0")}:${String(slot % 60).padStart(2, "0")}`;
+}
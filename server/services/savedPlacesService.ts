@@ -0,0 +1,146 @@
+/**
+ * Saved Places Service
+ *
+ * A personal library of places - saved by hand or pulled out of social
+ * imports - that can be dropped into any trip's itinerary.
+ * - Resolution: Mapbox geocoding for coordinates and country, Google Places
+ *   for the canonical place (id, rating, type). Either may be unconfigured;
+ *   unresolved places are still saved, just without coordinates.
+ * - "Add to day N" lives in savedPlaceItinerary.
+ */
+
+import type { InsertSavedPlace, SavedPlace } from "@shared/schema";
+import { storage } from "../storage";
+import { geocodePlace } from "./mapboxService";
+import { findPlaceWithDetails } from "./googlePlacesService";
+import type { SocialImportResult } from "./socialImportService";
+
+export interface PlaceOwner {
+  userId: number | null;
+  voyageUid: string | null;
+}
+
+/** At most this many places are saved from one social import */
+const MAX_IMPORTED_PLACES = 8;
+
+// ============================================================================
+// OWNERSHIP
+// ============================================================================
+
+/**
+ * Whether the caller owns a saved place (by account or by device)
+ */
+export function ownsPlace(place: Pick<SavedPlace, "userId" | "voyageUid">, owner: PlaceOwner): boolean {
+  if (owner.userId !== null && place.userId === owner.userId) return true;
+  return !!owner.voyageUid && place.voyageUid === owner.voyageUid;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export type ResolvedPlace = Pick<
+  InsertSavedPlace,
+  "name" | "address" | "country" | "lat" | "lng" | "category" | "googlePlaceId" | "mapboxId" | "rating"
+>;
+
+/**
+ * Resolve a free-text place ("Tanah Lot Temple") near a destination.
+ * Google's match wins for identity and coordinates; Mapbox fills in the
+ * country and a fallback location. Null when neither service finds it.
+ */
+export async function resolvePlace(query: string, near?: string | null): Promise<ResolvedPlace | null> {
+  const fullQuery = near ? `${query}, ${near}` : query;
+
+  const [geocoded, details] = await Promise.all([
+    geocodePlace(fullQuery, { types: ["poi", "address", "place", "locality"], limit: 1 }),
+    findPlaceWithDetails(fullQuery),
+  ]);
+  const match = geocoded[0];
+
+  if (!match && !details) return null;
+
+  return {
+    name: details?.name || match?.name || query,
+    address: details?.formattedAddress || match?.fullAddress || null,
+    country: match?.country || null,
+    lat: details?.location?.lat ?? match?.coordinates.lat ?? null,
+    lng: details?.location?.lng ?? match?.coordinates.lng ?? null,
+    category: details?.types?.[0] || match?.placeType || null,
+    googlePlaceId: details?.placeId || null,
+    mapboxId: match?.id || null,
+    rating: details?.rating ?? null,
+  };
+}
+
+/**
+ * Save a place to the owner's library, resolving it first
+ */
+export async function savePlace(
+  owner: PlaceOwner,
+  input: { query: string; city?: string | null; notes?: string | null; tags?: string[]; source?: string; sourceUrl?: string | null }
+): Promise<SavedPlace> {
+  const resolved = await resolvePlace(input.query, input.city);
+
+  return storage.createSavedPlace({
+    userId: owner.userId,
+    voyageUid: owner.voyageUid,
+    ...(resolved ?? { name: input.query }),
+    city: input.city ?? null,
+    notes: input.notes ?? null,
+    tags: normalizeTags(input.tags ?? []),
+    source: input.source ?? "manual",
+    sourceUrl: input.sourceUrl ?? null,
+  });
+}
+
+/**
+ * Land the activities from a successful social import in the library.
+ * Best-effort: a place that fails to save doesn't fail the import.
+ */
+export async function saveImportedPlaces(result: SocialImportResult, owner: PlaceOwner): Promise<SavedPlace[]> {
+  if (!result.success || !result.activities?.length) return [];
+
+  let existing: SavedPlace[];
+  try {
+    existing = await storage.listSavedPlaces(owner);
+  } catch (err) {
+    console.error("[SavedPlaces] Could not load library for import:", err);
+    return [];
+  }
+  const seen = new Set(existing.map(p => placeKey(p.name, p.city)));
+  const saved: SavedPlace[] = [];
+
+  for (const activity of result.activities.slice(0, MAX_IMPORTED_PLACES)) {
+    const key = placeKey(activity, result.destination);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    try {
+      saved.push(await savePlace(owner, {
+        query: activity,
+        city: result.destination ?? null,
+        tags: [...(result.tags ?? []), result.platform],
+        source: "social_import",
+        sourceUrl: result.sourceUrl,
+      }));
+    } catch (err) {
+      console.error(`[SavedPlaces] Failed to save imported place "${activity}":`, err);
+    }
+  }
+
+  console.log(`[SavedPlaces] Saved ${saved.length} places from ${result.platform} import`);
+  return saved;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(t => t.trim().toLowerCase().replace(/^#/, "")).filter(Boolean)));
+}
+
+function placeKey(name: string, city?: string | null): string {
+  return `${name.trim().toLowerCase()}|${(city ?? "").trim().toLowerCase()}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Tests for Share Links
+ *
+ * Run with: npx vitest run server/services/shareLinks.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Trip } from '@shared/schema';
+import { isShareLinkActive, redactShareableTrip } from './shareLinks';
+
+const trip = {
+  id: 7,
+  destination: 'Tokyo, Japan',
+  origin: 'Mumbai',
+  dates: '2026-03-10 to 2026-03-15',
+  groupSize: 2,
+  adults: 2,
+  children: 0,
+  infants: 0,
+  travelStyle: 'moderate',
+  budget: 4000,
+  currency: 'USD',
+  passport: 'India',
+  residence: 'India',
+  feasibilityReport: {
+    overall: 'yes',
+    breakdown: { budget: { status: 'ok', estimatedCost: 3500, reason: 'Fits comfortably' } },
+    visaDetails: { type: 'e_visa', timing: { applyBy: '2026-02-10' } },
+    passports: [{ passport: 'India' }],
+    stayLimits: { status: 'ok' },
+  },
+  itinerary: {
+    days: [{
+      day: 1,
+      date: '2026-03-10',
+      title: 'Arrival',
+      activities: [{ time: '15:00', name: 'Shinjuku Gyoen', estimatedCost: 4 }],
+      localFood: [{ name: 'Fuunji', cuisine: 'Ramen', estimatedCost: 12 }],
+    }],
+    costBreakdown: { total: 3500, legs: [{ legIndex: 0, total: 1800 }] },
+    legCosts: { currency: 'USD', legs: [{ legIndex: 0, total: 1800 }] },
+    legPlan: {
+      legs: [
+        { legIndex: 0, destination: 'Tokyo, Japan', startDate: '2026-03-10', endDate: '2026-03-13' },
+        { legIndex: 1, destination: 'Kyoto, Japan', startDate: '2026-03-13', endDate: '2026-03-15' },
+      ],
+      numDays: 6,
+      transfers: [{ from: 'Tokyo, Japan', to: 'Kyoto, Japan', date: '2026-03-13', mode: 'train', costUSD: 220 }],
+    },
+  },
+  status: 'complete',
+  feasibilityStatus: 'yes',
+  createdAt: new Date('2026-01-05T10:00:00Z'),
+} as unknown as Trip;
+
+describe('redactShareableTrip', () => {
+  it('hides passport, budget and exact dates when asked to', () => {
+    const shared = redactShareableTrip(trip, ['passport', 'budget', 'exactDates']) as any;
+
+    expect(shared).toMatchObject({ passport: null, residence: null, origin: null, budget: null, dates: 'March 2026, 6 days' });
+    expect(shared.redacted).toEqual(['passport', 'budget', 'exactDates']);
+    expect(shared.feasibilityReport.passports).toBeUndefined();
+    expect(shared.feasibilityReport.breakdown.budget).toEqual({ status: 'ok', estimatedCost: 0, reason: '' });
+    expect(shared.feasibilityReport.visaDetails.timing).toBeUndefined();
+    expect(shared.itinerary.costBreakdown).toBeUndefined();
+    expect(shared.itinerary.days[0].date).toBeUndefined();
+    expect(shared.itinerary.legPlan.legs).toEqual([
+      { legIndex: 0, destination: 'Tokyo, Japan' },
+      { legIndex: 1, destination: 'Kyoto, Japan' },
+    ]);
+    expect(shared.itinerary.legPlan.transfers).toEqual([{ from: 'Tokyo, Japan', to: 'Kyoto, Japan', mode: 'train' }]);
+
+    // The stored trip is untouched
+    expect((trip.feasibilityReport as any).passports).toHaveLength(1);
+    expect((trip.itinerary as any).days[0].date).toBe('2026-03-10');
+    expect((trip.itinerary as any).legPlan.legs[0].startDate).toBe('2026-03-10');
+    expect((trip.itinerary as any).legPlan.transfers[0].date).toBe('2026-03-13');
+  });
+
+  it('strips item and per-stop costs along with the budget', () => {
+    const shared = redactShareableTrip(trip, ['budget']) as any;
+    const [day] = shared.itinerary.days;
+
+    expect(day.date).toBe('2026-03-10');
+    expect(day.activities).toEqual([{ time: '15:00', name: 'Shinjuku Gyoen' }]);
+    expect(day.localFood).toEqual([{ name: 'Fuunji', cuisine: 'Ramen' }]);
+    expect(shared.itinerary.costBreakdown).toBeUndefined();
+    expect(shared.itinerary.legCosts).toBeUndefined();
+    expect(shared.itinerary.legPlan.transfers).toEqual([{ from: 'Tokyo, Japan', to: 'Kyoto, Japan', date: '2026-03-13', mode: 'train' }]);
+    expect(shared.itinerary.legPlan.legs[1].startDate).toBe('2026-03-13');
+
+    expect((trip.itinerary as any).days[0].activities[0].estimatedCost).toBe(4);
+    expect((trip.itinerary as any).legPlan.transfers[0].costUSD).toBe(220);
+  });
+
+  it('keeps everything but stay limits on an unredacted link', () => {
+    const shared = redactShareableTrip(trip, []) as any;
+
+    expect(shared).toMatchObject({ passport: 'India', budget: 4000, dates: '2026-03-10 to 2026-03-15' });
+    expect(shared.feasibilityReport.stayLimits).toBeUndefined();
+    expect(shared.itinerary.days[0].activities[0].estimatedCost).toBe(4);
+    expect(shared.itinerary.legCosts.legs[0].total).toBe(1800);
+    expect(shared.itinerary.legPlan).toEqual((trip.itinerary as any).legPlan);
+  });
+});
+
+describe('isShareLinkActive', () => {
+  it('rejects revoked and expired links', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+
+    expect(isShareLinkActive({ expiresAt: null, revokedAt: null }, now)).toBe(true);
+    expect(isShareLinkActive({ expiresAt: new Date('2026-02-28T00:00:00Z'), revokedAt: null }, now)).toBe(false);
+    expect(isShareLinkActive({ expiresAt: null, revokedAt: new Date('2026-02-01T00:00:00Z') }, now)).toBe(false);
+  });
+});
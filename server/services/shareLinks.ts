@@ -0,0 +1,135 @@
+/**
+ * Share Links
+ *
+ * The public, read-only view of a trip behind a share token: whether a link
+ * still opens, and what it shows once the link's redactions are applied.
+ */
+
+import type { ShareRedaction, Trip, TripShareLink } from "@shared/schema";
+import { parseDateRange } from "./dueDates";
+
+export interface ShareableTrip {
+  id: number;
+  destination: string;
+  origin: string | null;
+  dates: string;
+  groupSize: number | null;
+  adults: number | null;
+  children: number | null;
+  infants: number | null;
+  travelStyle: string | null;
+  budget: number | null;
+  currency: string | null;
+  passport: string | null;
+  residence: string | null;
+  feasibilityReport: unknown;
+  itinerary: unknown;
+  status: string | null;
+  feasibilityStatus: string | null;
+  createdAt: string | null;
+  redacted: ShareRedaction[]; // What the share link hides from this view
+}
+
+/**
+ * Whether a share link can still be opened
+ */
+export function isShareLinkActive(link: Pick<TripShareLink, 'expiresAt' | 'revokedAt'>, now = new Date()): boolean {
+  if (link.revokedAt) return false;
+  return !link.expiresAt || link.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * "March 2026, 6 days" - the month and length without the exact days
+ */
+function toApproximateDates(dates: string): string {
+  const range = parseDateRange(dates);
+  if (!range) return dates;
+  const start = new Date(`${range.startDate}T00:00:00Z`);
+  const days = Math.round((Date.parse(`${range.endDate}T00:00:00Z`) - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const month = start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return `${month}, ${days} days`;
+}
+
+/**
+ * The public view of a trip with the link's redactions applied. Stay limits
+ * are always dropped - they describe the traveler's other trips.
+ */
+export function redactShareableTrip(trip: Trip, redact: ShareRedaction[]): ShareableTrip {
+  const hides = (field: ShareRedaction) => redact.includes(field);
+  const report = trip.feasibilityReport ? structuredClone(trip.feasibilityReport) as any : null;
+  let itinerary = trip.itinerary as any;
+
+  if (report) {
+    delete report.stayLimits;
+    if (hides('passport')) {
+      delete report.passports;
+      delete report.group;
+    }
+    if (hides('budget') && report.breakdown?.budget) {
+      report.breakdown.budget = { status: report.breakdown.budget.status, estimatedCost: 0, reason: '' };
+    }
+    if (hides('exactDates')) {
+      delete report.visaDetails?.timing;
+      for (const check of report.legs?.checks ?? []) {
+        delete check.startDate;
+        delete check.endDate;
+      }
+    }
+  }
+
+  if (itinerary && (hides('budget') || hides('exactDates'))) {
+    itinerary = { ...itinerary };
+    if (hides('budget')) {
+      // Totals, plus the per-stop costs of multi-city trips
+      delete itinerary.costBreakdown;
+      delete itinerary.legCosts;
+    }
+    if (itinerary.legPlan) {
+      // Multi-city stops and transfers carry their own dates and costs
+      const legPlan = structuredClone(itinerary.legPlan);
+      for (const leg of hides('exactDates') ? legPlan.legs ?? [] : []) {
+        delete leg.startDate;
+        delete leg.endDate;
+      }
+      for (const transfer of legPlan.transfers ?? []) {
+        if (hides('budget')) delete transfer.costUSD;
+        if (hides('exactDates')) delete transfer.date;
+      }
+      itinerary.legPlan = legPlan;
+    }
+    if (Array.isArray(itinerary.days)) {
+      itinerary.days = itinerary.days.map((stored: any) => {
+        const day = { ...stored };
+        if (hides('exactDates')) delete day.date;
+        if (hides('budget')) {
+          // Item prices would add back up to the budget
+          if (Array.isArray(day.activities)) day.activities = day.activities.map(({ estimatedCost, ...a }: any) => a);
+          if (Array.isArray(day.localFood)) day.localFood = day.localFood.map(({ estimatedCost, ...f }: any) => f);
+        }
+        return day;
+      });
+    }
+  }
+
+  return {
+    id: trip.id,
+    destination: trip.destination,
+    origin: hides('passport') ? null : trip.origin,
+    dates: hides('exactDates') ? toApproximateDates(trip.dates) : trip.dates,
+    groupSize: trip.groupSize,
+    adults: trip.adults,
+    children: trip.children,
+    infants: trip.infants,
+    travelStyle: trip.travelStyle,
+    budget: hides('budget') ? null : trip.budget,
+    currency: trip.currency,
+    passport: hides('passport') ? null : trip.passport,
+    residence: hides('passport') ? null : trip.residence,
+    feasibilityReport: report,
+    itinerary,
+    status: trip.status,
+    feasibilityStatus: trip.feasibilityStatus,
+    createdAt: trip.createdAt?.toISOString() ?? null,
+    redacted: redact,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for the Stay Limit Service
+ *
+ * Run with: npx vitest run server/services/stayLimitService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeStayLimits } from './stayLimitService';
+
+function trip(id: number, destination: string, dates: string) {
+  return { id, passport: 'United States', destination, dates, legs: null, status: 'planning', isTemplate: false };
+}
+
+function schengenWindow(current: ReturnType<typeof trip>, others: Array<ReturnType<typeof trip>>) {
+  const report = computeStayLimits(current, others);
+  return report?.windows.find(w => w.zone === 'schengen');
+}
+
+describe('computeStayLimits', () => {
+  it('shares one Schengen allowance across trips to different member states', () => {
+    const spring = trip(1, 'Paris, France', '2026-03-01 to 2026-04-29'); // 60 days
+
+    expect(schengenWindow(trip(2, 'Rome, Italy', '2026-07-01 to 2026-07-20'), [spring])).toMatchObject({
+      maxStay: 90,
+      period: 180,
+      daysInTrip: 20,
+      daysUsedBefore: 60,
+      peakDaysUsed: 80,
+      daysRemaining: 10,
+      exceeded: false,
+      otherTrips: [{ tripId: 1, destination: 'Paris, France', days: 60 }],
+    });
+
+    expect(schengenWindow(trip(2, 'Rome, Italy', '2026-07-01 to 2026-08-09'), [spring])).toMatchObject({
+      peakDaysUsed: 100,
+      exceeded: true,
+      overstayDays: 10,
+      firstViolationDate: '2026-07-31',
+    });
+  });
+
+  it('counts days where trips overlap once', () => {
+    const window = schengenWindow(
+      trip(2, 'Paris, France', '2026-06-05 to 2026-06-14'),
+      [trip(1, 'Berlin, Germany', '2026-06-01 to 2026-06-10')]
+    );
+
+    expect(window).toMatchObject({
+      daysInTrip: 10,
+      peakDaysUsed: 14,
+      exceeded: false,
+      otherTrips: [{ tripId: 1, days: 4 }],
+    });
+  });
+
+  it('flags a new trip that pushes an already-planned later trip over the limit', () => {
+    const window = schengenWindow(
+      trip(2, 'Rome, Italy', '2026-06-01 to 2026-07-10'), // 40 days
+      [trip(1, 'Madrid, Spain', '2026-08-01 to 2026-09-29')] // 60 days, planned first
+    );
+
+    expect(window).toMatchObject({
+      daysUsedBefore: 0,
+      peakDaysUsed: 100,
+      exceeded: true,
+      overstayDays: 10,
+      firstViolationDate: '2026-09-20',
+      otherTrips: [{ tripId: 1, days: 60 }],
+    });
+  });
+
+  it('ignores other passports and cancelled trips', () => {
+    const otherPassport = { ...trip(1, 'Madrid, Spain', '2026-08-01 to 2026-09-29'), passport: 'Canada' };
+    const cancelled = { ...trip(3, 'Lisbon, Portugal', '2026-08-01 to 2026-09-29'), status: 'cancelled' };
+
+    expect(schengenWindow(trip(2, 'Rome, Italy', '2026-06-01 to 2026-07-10'), [otherPassport, cancelled]))
+      .toMatchObject({ peakDaysUsed: 40, exceeded: false, otherTrips: [] });
+  });
+});
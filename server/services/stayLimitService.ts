@@ -0,0 +1,307 @@
+/**
+ * Stay Limit Service
+ *
+ * Feasibility judges each trip on its own, but visa-free allowances are
+ * cumulative: a traveler with a May trip to France and a July trip to Italy
+ * shares one Schengen 90/180 allowance across both. This combines the
+ * traveler's trips and checks every zone the trip enters against a rolling
+ * window.
+ *
+ * Rules, per passport and zone:
+ * - Schengen countries: one shared zone, 90 days in any 180 (curated corridor
+ *   limits win when present)
+ * - Curated corridors (server/data/corridors): stayLimits.maxStay / period
+ * - Otherwise the passport index visa-free / on-arrival allowance
+ *
+ * Trips count unless cancelled or templates; overlapping trips are counted
+ * once per calendar day.
+ */
+
+import type {
+  Trip,
+  FeasibilityReport,
+  StayLimitReport,
+  StayLimitWindow,
+} from "@shared/schema";
+import { getCorridorData } from "./corridorData";
+import { lookupVisa } from "./passportIndexService";
+import { parseDateRange, parseTravelStartDate } from "./dueDates";
+import {
+  getTripLegs,
+  getLegCountry,
+  isSchengenCountry,
+  buildLegSchedule,
+  SCHENGEN_STAY_LIMIT_DAYS,
+} from "./multiCityService";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Rolling window for Schengen and for allowances without a published period */
+export const DEFAULT_STAY_PERIOD_DAYS = 180;
+
+/** Trip statuses that never happen */
+const EXCLUDED_TRIP_STATUSES = new Set(['cancelled']);
+
+/** Passport index statuses that come with a day allowance */
+const ALLOWANCE_STATUSES = new Set(['visa_free', 'visa_on_arrival', 'eta', 'e_visa']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StayRule {
+  zone: string;
+  zoneLabel: string;
+  maxStay: number;
+  period: number;
+  source: StayLimitWindow['source'];
+}
+
+/** A continuous stay in one country, inclusive of entry and exit days */
+export interface TripStay {
+  tripId: number;
+  destination: string;
+  country: string;
+  startDate: string;
+  endDate: string;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Stay rule for a passport in a country, or null when no limit is known
+ * (visa required, no admission, or no data)
+ */
+export function getStayRule(passport: string, country: string): StayRule | null {
+  const corridorLimits = getCorridorData(passport, country)?.stayLimits;
+  const corridorMax = corridorLimits?.maxStay;
+
+  if (isSchengenCountry(country)) {
+    return {
+      zone: 'schengen',
+      zoneLabel: 'Schengen Area',
+      maxStay: corridorMax ?? SCHENGEN_STAY_LIMIT_DAYS,
+      period: corridorLimits?.period ?? DEFAULT_STAY_PERIOD_DAYS,
+      source: corridorMax ? 'corridor' : 'schengen',
+    };
+  }
+
+  if (corridorMax) {
+    return {
+      zone: country.toLowerCase().trim(),
+      zoneLabel: country,
+      maxStay: corridorMax,
+      period: corridorLimits?.period ?? DEFAULT_STAY_PERIOD_DAYS,
+      source: 'corridor',
+    };
+  }
+
+  const visa = lookupVisa(passport, country);
+  if (visa && ALLOWANCE_STATUSES.has(visa.status) && visa.days) {
+    return {
+      zone: country.toLowerCase().trim(),
+      zoneLabel: visa.destination || country,
+      maxStay: visa.days,
+      period: DEFAULT_STAY_PERIOD_DAYS,
+      source: 'passport_index',
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// DATES & STAYS
+// ============================================================================
+
+function toDayNumber(dateISO: string): number {
+  return Math.floor(new Date(`${dateISO}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Start and end of a trips.dates string. Handles "2026-02-15 to 2026-02-22",
+ * "Feb 15, 2026 - Feb 22, 2026" and "February 2026, 5 days".
+ */
+export function parseTripDateRange(dates: string | null | undefined): { startDate: string; endDate: string } | null {
+  if (!dates) return null;
+
+  const parsed = parseDateRange(dates);
+  if (parsed) return parsed;
+
+  const parts = dates.split(/\s+(?:to|-|→)\s+/);
+  if (parts.length !== 2) return null;
+  const startDate = parseTravelStartDate(parts[0]);
+  const endDate = parseTravelStartDate(parts[1]);
+  if (!startDate || !endDate || endDate < startDate) return null;
+  return { startDate, endDate };
+}
+
+/**
+ * Country stays for a trip; multi-city trips produce one stay per stop
+ */
+export function getTripStays(trip: Pick<Trip, 'id' | 'destination' | 'dates' | 'legs'>): TripStay[] {
+  const range = parseTripDateRange(trip.dates);
+  if (!range) return [];
+
+  const legs = getTripLegs(trip);
+  if (!legs) {
+    return [{
+      tripId: trip.id,
+      destination: trip.destination,
+      country: getLegCountry(trip.destination),
+      startDate: range.startDate,
+      endDate: range.endDate,
+    }];
+  }
+
+  return buildLegSchedule(legs, range.startDate).map(leg => ({
+    tripId: trip.id,
+    destination: leg.destination,
+    country: getLegCountry(leg.destination),
+    startDate: leg.startDate!,
+    endDate: leg.endDate!,
+  }));
+}
+
+function normalizePassport(passport: string): string {
+  return passport.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * Check a trip against every zone it enters, counting the traveler's other
+ * trips (same passport) in each rolling window. Pure: callers load the trips.
+ */
+export function computeStayLimits(
+  trip: Pick<Trip, 'id' | 'passport' | 'destination' | 'dates' | 'legs'>,
+  otherTrips: Array<Pick<Trip, 'id' | 'passport' | 'destination' | 'dates' | 'legs' | 'status' | 'isTemplate'>>
+): StayLimitReport | null {
+  const tripStays = getTripStays(trip);
+  if (tripStays.length === 0) return null;
+
+  const passport = normalizePassport(trip.passport);
+  const otherStays = otherTrips
+    .filter(t => t.id !== trip.id && !t.isTemplate && !EXCLUDED_TRIP_STATUSES.has(t.status ?? ''))
+    .filter(t => normalizePassport(t.passport) === passport)
+    .flatMap(getTripStays);
+
+  // Rules by zone, in order of first entry
+  const rules = new Map<string, StayRule>();
+  const ruleByCountry = new Map<string, StayRule | null>();
+  const ruleFor = (country: string): StayRule | null => {
+    const key = country.toLowerCase().trim();
+    if (!ruleByCountry.has(key)) ruleByCountry.set(key, getStayRule(trip.passport, country));
+    return ruleByCountry.get(key)!;
+  };
+  for (const stay of tripStays) {
+    const rule = ruleFor(stay.country);
+    if (rule && !rules.has(rule.zone)) rules.set(rule.zone, rule);
+  }
+
+  const windows: StayLimitWindow[] = [];
+  for (const rule of Array.from(rules.values())) {
+    const inZone = (stay: TripStay) => ruleFor(stay.country)?.zone === rule.zone;
+
+    // Calendar days in the zone, keyed by day number; this trip wins on overlaps
+    const tripDays = new Set<number>();
+    for (const stay of tripStays.filter(inZone)) {
+      for (let d = toDayNumber(stay.startDate); d <= toDayNumber(stay.endDate); d++) tripDays.add(d);
+    }
+    const otherDays = new Map<number, TripStay>();
+    for (const stay of otherStays.filter(inZone)) {
+      for (let d = toDayNumber(stay.startDate); d <= toDayNumber(stay.endDate); d++) {
+        if (!tripDays.has(d) && !otherDays.has(d)) otherDays.set(d, stay);
+      }
+    }
+
+    const isUsed = (d: number) => tripDays.has(d) || otherDays.has(d);
+    const countWindow = (end: number) => {
+      let used = 0;
+      for (let d = end - rule.period + 1; d <= end; d++) if (isUsed(d)) used++;
+      return used;
+    };
+
+    const sortedTripDays = Array.from(tripDays).sort((a, b) => a - b);
+    const entryDay = sortedTripDays[0];
+    const exitDay = sortedTripDays[sortedTripDays.length - 1];
+
+    // Every window holding one of this trip's days, including those that end
+    // in a later trip: this trip can push an already-planned one over the limit
+    let peakDaysUsed = 0;
+    let peakDay = entryDay;
+    let firstViolationDay: number | undefined;
+    for (let d = entryDay; d <= exitDay + rule.period - 1; d++) {
+      const used = countWindow(d);
+      if (used > peakDaysUsed) {
+        peakDaysUsed = used;
+        peakDay = d;
+      }
+      if (used > rule.maxStay && firstViolationDay === undefined) firstViolationDay = d;
+    }
+
+    // Other trips that fall inside the peak window
+    const counted = new Map<number, { tripId: number; destination: string; days: number }>();
+    for (let d = peakDay - rule.period + 1; d <= peakDay; d++) {
+      const stay = otherDays.get(d);
+      if (!stay) continue;
+      const entry = counted.get(stay.tripId) ?? { tripId: stay.tripId, destination: stay.destination, days: 0 };
+      entry.days++;
+      counted.set(stay.tripId, entry);
+    }
+
+    windows.push({
+      zone: rule.zone,
+      zoneLabel: rule.zoneLabel,
+      maxStay: rule.maxStay,
+      period: rule.period,
+      source: rule.source,
+      daysInTrip: tripDays.size,
+      daysUsedBefore: countWindow(entryDay - 1),
+      peakDaysUsed,
+      daysRemaining: Math.max(0, rule.maxStay - peakDaysUsed),
+      exceeded: peakDaysUsed > rule.maxStay,
+      overstayDays: Math.max(0, peakDaysUsed - rule.maxStay),
+      firstViolationDate: firstViolationDay !== undefined ? fromDayNumber(firstViolationDay) : undefined,
+      otherTrips: Array.from(counted.values()),
+    });
+  }
+
+  return { checkedAt: new Date().toISOString(), windows };
+}
+
+/**
+ * Attach stay limits to a feasibility report; an exceeded window is a hard blocker
+ */
+export function applyStayLimits(report: FeasibilityReport, stayLimits: StayLimitReport): void {
+  report.stayLimits = stayLimits;
+
+  const exceeded = stayLimits.windows.filter(w => w.exceeded);
+  if (exceeded.length === 0) return;
+
+  const reasons = exceeded.map(formatStayLimitViolation);
+  report.overall = 'no';
+  report.score = Math.min(report.score, 20);
+  report.breakdown.visa = { status: 'issue', reason: reasons.join('. ') };
+  report.summary = `${report.summary} ${reasons[0]}.`;
+}
+
+export function formatStayLimitViolation(window: StayLimitWindow): string {
+  const others = window.otherTrips.length > 0
+    ? ` including ${window.otherTrips.map(t => `${t.days} day${t.days === 1 ? '' : 's'} in ${t.destination}`).join(', ')}`
+    : '';
+  return `Exceeds the ${window.zoneLabel} limit of ${window.maxStay} days in any ${window.period}: ` +
+    `${window.peakDaysUsed} days used${others} (${window.overstayDays} over from ${window.firstViolationDate})`;
+}
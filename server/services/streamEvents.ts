@@ -0,0 +1,14 @@
+/**
+ * Itinerary Stream Events
+ * The SSE event names streamingItinerary.ts emits. Dependency-free so the
+ * OpenAPI document can describe them without loading the generator.
+ */
+
+export const STREAM_EVENT_TYPES = ["meta", "leg", "day", "progress", "done", "error", "validation", "refinement"] as const;
+
+export type StreamEventType = typeof STREAM_EVENT_TYPES[number];
+
+export interface StreamEvent {
+  event: StreamEventType;
+  data: any;
+}
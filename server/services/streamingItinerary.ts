@@ -29,6 +29,14 @@ import {
   enrichActivitiesBatch,
   type PlaceDetails,
 } from "./googlePlacesService";
+import {
+  getLegForDay,
+  getTransferForDay,
+  buildLegCostBreakdown,
+  usdGroupPricing,
+  type LegPlan,
+} from "./multiCityService";
+import type { StreamEvent } from "./streamEvents";
 
 // ============================================================================
 // TYPES
@@ -58,6 +66,8 @@ export interface StreamingItineraryInput {
     type?: string;
     costs?: { total?: number };
   };
+  /** Multi-city trips: per-stop schedule and transfers; days are generated per stop */
+  legPlan?: LegPlan;
 }
 
 export interface ItineraryActivity {
@@ -111,11 +121,6 @@ export interface ItineraryDay {
   }>;
 }
 
-export interface StreamEvent {
-  event: "meta" | "day" | "progress" | "done" | "error" | "validation" | "refinement";
-  data: any;
-}
-
 /**
  * Validation result included in done event
  */
@@ -939,6 +944,10 @@ export async function generateSingleDay(
   const isFirstDay = dayIndex === 0;
   const isLastDay = dayIndex === input.numDays - 1;
 
+  // Multi-city: each day belongs to one stop; the day you move is a travel day
+  const dayDestination = input.legPlan ? getLegForDay(input.legPlan, dayIndex).destination : input.destination;
+  const transfer = input.legPlan ? getTransferForDay(input.legPlan, dayIndex) : undefined;
+
   const dayDate = new Date(input.startDate);
   dayDate.setDate(dayDate.getDate() + dayIndex);
   const dateStr = dayDate.toISOString().split("T")[0];
@@ -952,10 +961,12 @@ export async function generateSingleDay(
     ? "ARRIVAL DAY - lighter schedule, include hotel check-in, traveler is tired from journey"
     : isLastDay
     ? "DEPARTURE DAY - include hotel check-out, allow time for packing and airport transfer"
+    : transfer
+    ? `TRAVEL DAY - check out in ${transfer.from}, ${transfer.mode} to ${transfer.to} (~${transfer.durationHours}h, include it as a transport activity), check in, 1-2 light activities in ${transfer.to}`
     : `MID-TRIP DAY ${dayIndex + 1} - full exploration, 3-4 activities`;
 
   const prompt = `Generate Day ${dayIndex + 1} of a ${input.numDays}-day ${input.destination} itinerary.
-
+${input.legPlan ? `\nCITY FOR THIS DAY: ${dayDestination} (all activities must be here)\n` : ""}
 DATE: ${dateStr}
 DAY TYPE: ${dayType}
 STYLE: ${input.travelStyle || "standard"}
@@ -965,7 +976,7 @@ ${previousContext}
 
 REQUIREMENTS:
 1. Use REAL place names, not generic descriptions
-2. Include realistic GPS coordinates for ${input.destination}
+2. Include realistic GPS coordinates for ${dayDestination}
 3. estimatedCost in USD (NEVER 0 for paid attractions)
 4. ${isFirstDay ? "Include lodging type activity for hotel check-in" : ""}
 5. ${isLastDay ? "Include lodging type activity for hotel check-out" : ""}
@@ -1018,7 +1029,7 @@ Return JSON ONLY:
     messages: [
       {
         role: "system",
-        content: `You are a travel expert creating a day-by-day itinerary for ${input.destination}. Return valid JSON only, no markdown.`
+        content: `You are a travel expert creating a day-by-day itinerary for ${dayDestination}. Return valid JSON only, no markdown.`
       },
       { role: "user", content: prompt }
     ],
@@ -1058,7 +1069,7 @@ Return JSON ONLY:
     const { activities: dedupedActivities, newKeys } = dedupeActivities(
       activities,
       usedActivityKeys,
-      input.destination
+      dayDestination
     );
 
     // Add new keys to the set
@@ -1093,6 +1104,33 @@ export function summarizeDay(day: ItineraryDay): string {
   return `Day ${day.day}: ${activities}`;
 }
 
+/**
+ * Multi-city: announce a stop when its first day is about to stream
+ */
+function sendLegStart(res: Response, input: StreamingItineraryInput, dayIndex: number): void {
+  const leg = input.legPlan?.legs.find(l => l.startDay === dayIndex);
+  if (!input.legPlan || !leg) return;
+
+  sendSSE(res, {
+    event: "leg",
+    data: {
+      ...leg,
+      transfer: input.legPlan.transfers.find(t => t.toLegIndex === leg.legIndex) ?? null,
+    }
+  }, `leg-${leg.legIndex}`);
+}
+
+/**
+ * Multi-city: per-stop costs for the done event (USD, whole group)
+ */
+function buildStreamLegCosts(input: StreamingItineraryInput, days: ItineraryDay[]) {
+  if (!input.legPlan) return undefined;
+  return {
+    currency: "USD",
+    legs: buildLegCostBreakdown(days, input.legPlan, usdGroupPricing(input.groupSize)),
+  };
+}
+
 // ============================================================================
 // STREAMING GENERATOR
 // ============================================================================
@@ -1163,7 +1201,9 @@ export async function streamItineraryGeneration(
       tripId: input.tripId,
       destination: input.destination,
       totalDays: input.numDays,
-      startDate: input.startDate
+      startDate: input.startDate,
+      legs: input.legPlan?.legs,
+      transfers: input.legPlan?.transfers,
     }
   }, "meta-0");
 
@@ -1211,6 +1251,8 @@ export async function streamItineraryGeneration(
     }
 
     try {
+      sendLegStart(res, input, i);
+
       // Send progress (with ID for completeness, though less critical for resume)
       sendSSE(res, {
         event: "progress",
@@ -1473,6 +1515,7 @@ export async function streamItineraryGeneration(
         itinerary: { days },
         complete: days.length >= input.numDays,
         validation: validationMetadata,
+        legCosts: buildStreamLegCosts(input, days),
       }
     }, "done-0");
   }
@@ -1524,12 +1567,15 @@ export async function resumeItineraryStream(
       destination: input.destination,
       totalDays: input.numDays,
       startDate: input.startDate,
-      resumedFrom: existingDays.length
+      resumedFrom: existingDays.length,
+      legs: input.legPlan?.legs,
+      transfers: input.legPlan?.transfers,
     }
   }, "meta-0");
 
   // Emit existing days immediately with IDs
   for (let i = 0; i < existingDays.length; i++) {
+    sendLegStart(res, input, i);
     sendSSE(res, {
       event: "day",
       data: {
@@ -1580,6 +1626,8 @@ export async function resumeItineraryStream(
     }
 
     try {
+      sendLegStart(res, input, i);
+
       sendSSE(res, {
         event: "progress",
         data: {
@@ -1798,6 +1846,7 @@ export async function resumeItineraryStream(
         itinerary: { days },
         complete: days.length >= input.numDays,
         validation: validationMetadata,
+        legCosts: buildStreamLegCosts(input, days),
       }
     }, "done-0");
   }
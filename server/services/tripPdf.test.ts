@@ -0,0 +1,285 @@
+/**
+ * Snapshot Tests for Trip PDF Layout
+ *
+ * Run with: npx vitest run server/services/tripPdf.test.ts
+ *
+ * The layout (positioned text/rect/line ops) is snapshotted rather than the
+ * PDF bytes, so diffs show what moved. Update intentionally with `-u`.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TripExportModel } from '@shared/exportModel';
+import {
+  layoutTripPdf,
+  renderTripPdf,
+  createPdfKitMeasurer,
+  toPdfText,
+  type PdfLayout,
+} from './tripPdf';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const visaRequiredTrip: TripExportModel = {
+  meta: {
+    tripId: 101,
+    generatedAtISO: '2026-01-10T12:00:00.000Z',
+    title: 'Tokyo, Japan · Mar 4–8, 2026',
+    shareUrl: 'https://voyageai.app/trips/101/results-v1',
+  },
+  inputs: {
+    from: 'Mumbai, India',
+    to: 'Tokyo, Japan',
+    startDate: '2026-03-04',
+    endDate: '2026-03-08',
+    travelers: 2,
+    passport: 'India',
+    budget: 4500,
+    currency: 'USD',
+    travelStyle: 'moderate',
+  },
+  certainty: {
+    score: 72,
+    label: 'medium',
+    visaRisk: 'medium',
+    bufferDays: 4,
+    summaryLine: 'Feasible with a tourist visa. Apply at least five weeks before departure to leave room for processing delays.',
+  },
+  visa: {
+    statusLabel: 'Visa Required',
+    required: true,
+    processingDays: '5-10 business days',
+    fee: '$25',
+    requirements: [
+      { label: 'Passport valid for the duration of stay', status: 'required' },
+      { label: 'Completed visa application form with photograph', status: 'required' },
+      { label: 'Bank statements for the last 6 months', status: 'required' },
+      { label: 'Flight reservation and hotel booking confirmation', status: 'required' },
+    ],
+  },
+  travelers: [],
+  costs: {
+    currency: 'USD',
+    currencySymbol: '$',
+    rows: [
+      { label: 'Flights', amount: 1400, note: 'Round trip, economy' },
+      { label: 'Accommodation', amount: 1120, note: '4 nights mid-range hotel' },
+      { label: 'Food & Dining', amount: 480 },
+      { label: 'Activities', amount: 260 },
+      { label: 'Local Transport', amount: 90, note: 'Suica card top-ups' },
+      { label: 'Intercity Transport', amount: null },
+      { label: 'Miscellaneous', amount: null },
+      { label: 'Visa', amount: 50, note: '$25 per person' },
+    ],
+    total: 3400,
+    perPerson: 1700,
+    pricingNote: 'Prices based on March averages.',
+  },
+  itinerary: [1, 2, 3, 4, 5].map(dayIndex => ({
+    dayIndex,
+    dateLabel: `Day ${dayIndex} date`,
+    cityLabel: 'Tokyo',
+    dayTitle: dayIndex === 1 ? 'Arrival & Shinjuku Evening' : `Neighborhood walk ${dayIndex}`,
+    dayCost: 120 + dayIndex * 10,
+    sections: [
+      {
+        label: 'Morning' as const,
+        items: [
+          { time: '09:00', title: `Tsukiji Outer Market breakfast ${dayIndex}`, location: 'Tsukiji', cost: 30, notes: 'Go before 10am to beat the crowds' },
+          { time: '11:00', title: 'Hama-rikyu Gardens', location: 'Chuo City', cost: 3 },
+        ],
+      },
+      {
+        label: 'Afternoon' as const,
+        items: [
+          { time: '14:00', title: 'teamLab Planets', location: 'Toyosu', cost: 32, notes: 'Book timed tickets online' },
+        ],
+      },
+      {
+        label: 'Evening' as const,
+        items: [
+          { time: '19:00', title: 'Dinner in Omoide Yokocho', location: 'Shinjuku', cost: 40 },
+        ],
+      },
+    ],
+  })),
+  actionItems: [
+    {
+      group: 'Before departure',
+      items: [
+        { label: 'Apply for Japan tourist visa', isRequired: true },
+        { label: 'Book flights', isRequired: true },
+        { label: 'Buy travel insurance', isRequired: false },
+      ],
+    },
+    {
+      group: 'Upon arrival',
+      items: [{ label: 'Pick up Suica card', isRequired: false }],
+    },
+  ],
+  footnotes: [
+    'Feasibility analysis generated: Sat, Jan 10, 2026',
+    'Prices are estimates and may vary. Verify with official sources before booking.',
+  ],
+};
+
+const minimalTrip: TripExportModel = {
+  meta: {
+    tripId: 202,
+    generatedAtISO: '2026-02-01T08:30:00.000Z',
+    title: 'Seoul, South Korea · Apr 10–12, 2026',
+  },
+  inputs: {
+    to: 'Seoul, South Korea',
+    startDate: '2026-04-10',
+    endDate: '2026-04-12',
+    travelers: 1,
+    passport: 'United States',
+    budget: null,
+    currency: 'KRW',
+  },
+  certainty: {
+    score: null,
+    label: 'unavailable',
+    visaRisk: 'unavailable',
+    bufferDays: null,
+  },
+  visa: {
+    statusLabel: 'Unknown',
+    required: false,
+    processingDays: null,
+    fee: null,
+    requirements: [],
+  },
+  travelers: [],
+  costs: {
+    currency: 'KRW',
+    currencySymbol: '₩',
+    rows: [{ label: 'Flights', amount: 850000 }],
+    total: 850000,
+    perPerson: 850000,
+  },
+  itinerary: [],
+  actionItems: [],
+  footnotes: ['Prices are estimates and may vary. Verify with official sources before booking.'],
+};
+
+const groupTrip: TripExportModel = {
+  ...visaRequiredTrip,
+  meta: { ...visaRequiredTrip.meta, tripId: 303 },
+  travelers: [
+    {
+      name: 'Priya',
+      passport: 'India',
+      ageBand: 'adult',
+      visas: [{ country: 'Japan', statusLabel: 'Visa Required', applyBy: '2026-02-11' }],
+      documents: ['Bank statements for the last 6 months'],
+    },
+    {
+      name: 'Leo',
+      passport: 'United Kingdom',
+      ageBand: 'child',
+      visas: [{ country: 'Japan', statusLabel: 'Visa Free', applyBy: null }],
+      documents: ['Birth certificate (travelling with one parent)'],
+    },
+  ],
+};
+
+const measure = createPdfKitMeasurer();
+
+function textOps(layout: PdfLayout): string[] {
+  return layout.ops.flatMap(op => (op.op === 'text' ? [op.text] : []));
+}
+
+// ============================================================================
+// LAYOUT SNAPSHOTS
+// ============================================================================
+
+describe('layoutTripPdf', () => {
+  it('matches snapshot for a visa-required multi-day trip', () => {
+    expect(layoutTripPdf(visaRequiredTrip, measure)).toMatchSnapshot();
+  });
+
+  it('matches snapshot for a minimal trip with no itinerary', () => {
+    expect(layoutTripPdf(minimalTrip, measure)).toMatchSnapshot();
+  });
+
+  it('matches snapshot for a group trip with a traveler roster', () => {
+    expect(layoutTripPdf(groupTrip, measure)).toMatchSnapshot();
+  });
+
+  it('lists each traveler between the visa and cost sections', () => {
+    const texts = textOps(layoutTripPdf(groupTrip, measure));
+    const travelers = texts.lastIndexOf('Travelers'); // The cover's inputs table has a Travelers row too
+
+    expect(travelers).toBeGreaterThan(texts.indexOf('Visa requirements'));
+    expect(travelers).toBeLessThan(texts.indexOf('Estimated costs (USD)'));
+    expect(texts).toContain('Leo (child) - United Kingdom passport');
+    expect(texts).toContain('Japan: Visa Required, apply by 2026-02-11');
+    expect(textOps(layoutTripPdf(visaRequiredTrip, measure)).filter(t => t === 'Travelers')).toHaveLength(1);
+  });
+
+  it('puts the cover on its own page and numbers the rest', () => {
+    const layout = layoutTripPdf(visaRequiredTrip, measure);
+    const coverText = layout.ops.filter(op => op.page === 0 && op.op === 'text').map(op => (op as { text: string }).text);
+
+    expect(coverText).toContain('TRIP REPORT');
+    expect(coverText).toContain('Certainty summary');
+    expect(coverText.some(t => t.startsWith('Page '))).toBe(false);
+    expect(layout.pageCount).toBeGreaterThan(2);
+    expect(textOps(layout)).toContain(`Page ${layout.pageCount} of ${layout.pageCount}`);
+  });
+
+  it('includes every section heading in order', () => {
+    const texts = textOps(layoutTripPdf(visaRequiredTrip, measure));
+    const order = ['Visa requirements', 'Estimated costs (USD)', 'Day by day', 'Action items'];
+
+    const positions = order.map(heading => texts.indexOf(heading));
+    expect(positions.every(p => p >= 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+  });
+
+  it('keeps all ops inside the page bounds', () => {
+    const layout = layoutTripPdf(visaRequiredTrip, measure);
+    for (const op of layout.ops) {
+      if (op.op === 'text') {
+        expect(op.y).toBeLessThan(841.89);
+        expect(op.page).toBeLessThan(layout.pageCount);
+      }
+    }
+  });
+
+  it('falls back to the currency code when the symbol is not encodable', () => {
+    const texts = textOps(layoutTripPdf(minimalTrip, measure));
+    expect(texts).toContain('KRW 850,000');
+    expect(texts.some(t => t.includes('₩'))).toBe(false);
+  });
+});
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+describe('renderTripPdf', () => {
+  it('produces a PDF', async () => {
+    const pdf = await renderTripPdf(minimalTrip);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('is byte-for-byte deterministic for the same model', async () => {
+    const [first, second] = await Promise.all([
+      renderTripPdf(visaRequiredTrip),
+      renderTripPdf(visaRequiredTrip),
+    ]);
+    expect(first.equals(second)).toBe(true);
+  });
+});
+
+describe('toPdfText', () => {
+  it('replaces characters outside WinAnsi', () => {
+    expect(toPdfText('Mumbai → Tokyo')).toBe('Mumbai -> Tokyo');
+    expect(toPdfText('東京 tour')).toBe('?? tour');
+    expect(toPdfText('Café – €20')).toBe('Café – €20');
+  });
+});
@@ -0,0 +1,578 @@
+/**
+ * Trip PDF Rendering
+ *
+ * Server-side PDF of a TripExportModel - no browser involved, so emails,
+ * the concierge and the B2B API can attach it.
+ *
+ * Two stages:
+ * 1. layoutTripPdf() turns the model into a flat list of positioned draw ops
+ *    (text / rect / line per page). Pure and deterministic - this is what the
+ *    snapshot tests guard.
+ * 2. renderTripPdf() replays those ops through PDFKit. CreationDate comes from
+ *    the model, so the same model always produces the same bytes.
+ *
+ * Only the built-in Helvetica faces are used (no font files to ship); text is
+ * reduced to what WinAnsi can encode.
+ */
+
+import PDFDocument from 'pdfkit';
+import type { Trip } from '@shared/schema';
+import { buildTripExportModel, type TripExportModel } from '@shared/exportModel';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PAGE = {
+  width: 595.28, // A4
+  height: 841.89,
+  margin: 50,
+  footerHeight: 30,
+};
+
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const CONTENT_BOTTOM = PAGE.height - PAGE.margin - PAGE.footerHeight;
+
+const COLORS = {
+  brand: '#059669',
+  text: '#111827',
+  muted: '#6B7280',
+  border: '#E5E7EB',
+  panel: '#F3F4F6',
+  high: '#15803D',
+  medium: '#B45309',
+  low: '#B91C1C',
+};
+
+const FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PdfFont = keyof typeof FONTS;
+
+export type PdfOp =
+  | { op: 'text'; page: number; x: number; y: number; text: string; font: PdfFont; size: number; color: string }
+  | { op: 'rect'; page: number; x: number; y: number; w: number; h: number; color: string; fill: boolean }
+  | { op: 'line'; page: number; x1: number; y1: number; x2: number; y2: number; color: string };
+
+export interface PdfLayout {
+  pageCount: number;
+  ops: PdfOp[];
+}
+
+/** Width of `text` in points for the given font/size */
+export type TextMeasurer = (text: string, font: PdfFont, size: number) => number;
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+// WinAnsi (CP1252) characters outside Latin-1
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+function isWinAnsi(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  if (code >= 0x20 && code <= 0x7e) return true;
+  if (code >= 0xa0 && code <= 0xff) return true;
+  return WIN_ANSI_EXTRAS.has(char);
+}
+
+/**
+ * Reduce text to what the standard PDF fonts can draw
+ */
+export function toPdfText(text: string): string {
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .map(char => (isWinAnsi(char) ? char : char === '→' ? '->' : '?'))
+    .join('');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number | null, model: TripExportModel): string {
+  if (amount === null || amount === undefined) return '-';
+  // Symbols like ₹ or ₩ aren't in WinAnsi - fall back to the ISO code
+  const symbol = Array.from(model.costs.currencySymbol).every(isWinAnsi)
+    ? model.costs.currencySymbol
+    : `${model.costs.currency} `;
+  return `${symbol}${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+interface TextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: string;
+  x?: number;
+  width?: number;
+  lineGap?: number;
+}
+
+/**
+ * Accumulates draw ops, tracking the cursor and breaking pages as needed
+ */
+class LayoutBuilder {
+  readonly ops: PdfOp[] = [];
+  page = 0;
+  y = PAGE.margin;
+
+  constructor(private measure: TextMeasurer) {}
+
+  newPage(): void {
+    this.page++;
+    this.y = PAGE.margin;
+  }
+
+  /** Break to a new page unless `height` points still fit */
+  ensureSpace(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM) this.newPage();
+  }
+
+  space(height: number): void {
+    this.y += height;
+  }
+
+  wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+    const words = toPdfText(text).split(' ').filter(Boolean);
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (this.measure(candidate, font, size) <= width || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  }
+
+  /** Wrapped paragraph at the cursor; returns the height used */
+  text(text: string, options: TextOptions = {}): number {
+    const font = options.font ?? 'regular';
+    const size = options.size ?? 10;
+    const x = options.x ?? PAGE.margin;
+    const width = options.width ?? CONTENT_WIDTH - (x - PAGE.margin);
+    const lineHeight = size * 1.3 + (options.lineGap ?? 0);
+    const lines = this.wrap(text, font, size, width);
+
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.ops.push({
+        op: 'text', page: this.page, x: round(x), y: round(this.y),
+        text: line, font, size, color: options.color ?? COLORS.text,
+      });
+      this.y += lineHeight;
+    }
+    return lines.length * lineHeight;
+  }
+
+  /** Single line at an absolute x on the current row (no cursor movement) */
+  cell(text: string, x: number, width: number, options: { font?: PdfFont; size?: number; color?: string; align?: 'left' | 'right' } = {}): void {
+    const font = options.font ?? 'regular';
+    const size = options.size ?? 10;
+    let line = toPdfText(text);
+    while (line.length > 1 && this.measure(line, font, size) > width) {
+      line = line.slice(0, -2) + '…';
+    }
+    const offset = options.align === 'right' ? width - this.measure(line, font, size) : 0;
+    this.ops.push({
+      op: 'text', page: this.page, x: round(x + offset), y: round(this.y),
+      text: line, font, size, color: options.color ?? COLORS.text,
+    });
+  }
+
+  rect(x: number, y: number, w: number, h: number, color: string, fill = true): void {
+    this.ops.push({ op: 'rect', page: this.page, x: round(x), y: round(y), w: round(w), h: round(h), color, fill });
+  }
+
+  rule(color: string = COLORS.border): void {
+    this.ops.push({
+      op: 'line', page: this.page,
+      x1: PAGE.margin, y1: round(this.y), x2: round(PAGE.width - PAGE.margin), y2: round(this.y), color,
+    });
+  }
+
+  heading(title: string): void {
+    this.ensureSpace(40);
+    this.space(8);
+    this.text(title, { font: 'bold', size: 14, color: COLORS.brand });
+    this.rule(COLORS.brand);
+    this.space(8);
+  }
+}
+
+function certaintyColor(label: TripExportModel['certainty']['label']): string {
+  if (label === 'high') return COLORS.high;
+  if (label === 'medium') return COLORS.medium;
+  if (label === 'low') return COLORS.low;
+  return COLORS.muted;
+}
+
+function riskColor(risk: TripExportModel['certainty']['visaRisk']): string {
+  if (risk === 'low') return COLORS.high;
+  if (risk === 'medium') return COLORS.medium;
+  if (risk === 'high') return COLORS.low;
+  return COLORS.muted;
+}
+
+function layoutCover(b: LayoutBuilder, model: TripExportModel): void {
+  const { meta, inputs, certainty } = model;
+
+  b.rect(0, 0, PAGE.width, 8, COLORS.brand);
+  b.space(120);
+  b.text('TRIP REPORT', { font: 'bold', size: 11, color: COLORS.brand });
+  b.space(6);
+  b.text(meta.title, { font: 'bold', size: 26, lineGap: 2 });
+  b.space(10);
+
+  const route = inputs.from ? `${inputs.from} → ${inputs.to}` : inputs.to;
+  b.text(route, { size: 14, color: COLORS.muted });
+  b.space(30);
+
+  const facts: Array<[string, string]> = [
+    ['Dates', `${inputs.startDate} to ${inputs.endDate}`],
+    ['Travelers', String(inputs.travelers)],
+    ['Passport', inputs.passport || '-'],
+    ['Budget', formatMoney(inputs.budget, model)],
+  ];
+  if (inputs.travelStyle) facts.push(['Travel style', inputs.travelStyle]);
+
+  for (const [label, value] of facts) {
+    b.cell(label, PAGE.margin, 110, { color: COLORS.muted });
+    b.cell(value, PAGE.margin + 110, CONTENT_WIDTH - 110, { font: 'bold' });
+    b.space(18);
+  }
+
+  if (meta.destinationMismatch) {
+    b.space(10);
+    b.text(
+      `Note: the itinerary appears to cover ${meta.destinationMismatch.detected}, not ${meta.destinationMismatch.stated}.`,
+      { size: 10, color: COLORS.medium }
+    );
+  }
+
+  // Certainty summary panel
+  b.space(30);
+  const panelTop = b.y;
+  const summaryLines = certainty.summaryLine
+    ? b.wrap(certainty.summaryLine, 'regular', 10, CONTENT_WIDTH - 32).length
+    : 0;
+  const panelHeight = 88 + summaryLines * 13;
+  b.rect(PAGE.margin, panelTop, CONTENT_WIDTH, panelHeight, COLORS.panel);
+  b.space(16);
+  b.text('Certainty summary', { font: 'bold', size: 12, x: PAGE.margin + 16 });
+  b.space(6);
+
+  const colWidth = (CONTENT_WIDTH - 32) / 3;
+  const scoreText = certainty.score !== null ? `${certainty.score}/100 (${certainty.label})` : 'Unavailable';
+  const stats: Array<[string, string, string]> = [
+    ['Certainty', scoreText, certaintyColor(certainty.label)],
+    ['Visa risk', certainty.visaRisk, riskColor(certainty.visaRisk)],
+    ['Trip length', certainty.bufferDays !== null ? `${certainty.bufferDays} days` : '-', COLORS.text],
+  ];
+  stats.forEach(([label], i) => {
+    b.cell(label, PAGE.margin + 16 + i * colWidth, colWidth, { size: 9, color: COLORS.muted });
+  });
+  b.space(13);
+  stats.forEach(([, value, color], i) => {
+    b.cell(value, PAGE.margin + 16 + i * colWidth, colWidth, { font: 'bold', size: 12, color });
+  });
+  b.space(20);
+  if (certainty.summaryLine) {
+    b.text(certainty.summaryLine, { x: PAGE.margin + 16, width: CONTENT_WIDTH - 32, color: COLORS.muted });
+  }
+  b.y = panelTop + panelHeight;
+
+  b.space(30);
+  b.text(`Generated ${meta.generatedAtISO.slice(0, 10)}`, { size: 9, color: COLORS.muted });
+  if (meta.shareUrl) {
+    b.text(meta.shareUrl, { size: 9, color: COLORS.muted });
+  }
+}
+
+function layoutVisa(b: LayoutBuilder, model: TripExportModel): void {
+  const { visa } = model;
+  b.heading('Visa requirements');
+
+  const rows: Array<[string, string]> = [
+    ['Status', visa.statusLabel],
+    ['Processing time', visa.processingDays || '-'],
+    ['Fee', visa.fee || '-'],
+  ];
+  for (const [label, value] of rows) {
+    b.ensureSpace(16);
+    b.cell(label, PAGE.margin, 120, { color: COLORS.muted });
+    b.cell(value, PAGE.margin + 120, CONTENT_WIDTH - 120, { font: 'bold' });
+    b.space(16);
+  }
+
+  if (visa.requirements.length > 0) {
+    b.space(6);
+    b.text('Documents', { font: 'bold', size: 11 });
+    b.space(2);
+    for (const req of visa.requirements) {
+      b.ensureSpace(14);
+      const rowY = b.y;
+      b.text(`• ${req.label}`, { x: PAGE.margin + 8, width: CONTENT_WIDTH - 108 });
+      const endY = b.y;
+      b.y = rowY;
+      b.cell(req.status, PAGE.margin + CONTENT_WIDTH - 90, 90, { size: 9, color: COLORS.muted, align: 'right' });
+      b.y = endY;
+    }
+  } else if (visa.required) {
+    b.text('Document requirements were not available. Verify with the official embassy.', { color: COLORS.muted });
+  }
+}
+
+function layoutTravelers(b: LayoutBuilder, model: TripExportModel): void {
+  if (model.travelers.length === 0) return;
+  b.heading('Travelers');
+
+  for (const traveler of model.travelers) {
+    b.ensureSpace(40);
+    const ageNote = traveler.ageBand === 'adult' ? '' : ` (${traveler.ageBand})`;
+    b.text(`${traveler.name}${ageNote} - ${traveler.passport} passport`, { font: 'bold', size: 11 });
+    b.space(2);
+    for (const visa of traveler.visas) {
+      b.ensureSpace(14);
+      const applyBy = visa.applyBy ? `, apply by ${visa.applyBy}` : '';
+      b.text(`${visa.country}: ${visa.statusLabel}${applyBy}`, { x: PAGE.margin + 8, color: COLORS.muted });
+    }
+    for (const document of traveler.documents) {
+      b.ensureSpace(14);
+      b.text(`• ${document}`, { x: PAGE.margin + 8, width: CONTENT_WIDTH - 8 });
+    }
+    b.space(6);
+  }
+}
+
+function layoutCosts(b: LayoutBuilder, model: TripExportModel): void {
+  const { costs } = model;
+  b.heading(`Estimated costs (${costs.currency})`);
+
+  const amountX = PAGE.margin + 180;
+  const noteX = amountX + 100;
+
+  b.ensureSpace(20);
+  b.cell('Category', PAGE.margin, 170, { font: 'bold', size: 9, color: COLORS.muted });
+  b.cell('Amount', amountX, 90, { font: 'bold', size: 9, color: COLORS.muted, align: 'right' });
+  b.cell('Note', noteX, CONTENT_WIDTH - (noteX - PAGE.margin), { font: 'bold', size: 9, color: COLORS.muted });
+  b.space(14);
+  b.rule();
+  b.space(6);
+
+  for (const row of costs.rows) {
+    b.ensureSpace(16);
+    const rowY = b.y;
+    b.cell(row.label, PAGE.margin, 170);
+    b.cell(formatMoney(row.amount, model), amountX, 90, { align: 'right' });
+    if (row.note) {
+      b.text(row.note, { x: noteX, size: 9, color: COLORS.muted });
+    }
+    b.y = Math.max(b.y, rowY + 16);
+  }
+
+  b.space(2);
+  b.rule();
+  b.space(6);
+  b.ensureSpace(32);
+  b.cell('Total', PAGE.margin, 170, { font: 'bold' });
+  b.cell(formatMoney(costs.total, model), amountX, 90, { font: 'bold', align: 'right' });
+  b.space(16);
+  if (costs.perPerson !== null && model.inputs.travelers > 1) {
+    b.cell('Per person', PAGE.margin, 170, { color: COLORS.muted });
+    b.cell(formatMoney(costs.perPerson, model), amountX, 90, { color: COLORS.muted, align: 'right' });
+    b.space(16);
+  }
+  if (costs.pricingNote) {
+    b.space(4);
+    b.text(costs.pricingNote, { size: 9, color: COLORS.muted });
+  }
+}
+
+function layoutItinerary(b: LayoutBuilder, model: TripExportModel): void {
+  if (model.itinerary.length === 0) return;
+  b.heading('Day by day');
+
+  for (const day of model.itinerary) {
+    // Keep a day header with at least its first activity
+    b.ensureSpace(60);
+    b.space(4);
+    const headerY = b.y;
+    b.cell(`Day ${day.dayIndex} · ${day.cityLabel}`, PAGE.margin, CONTENT_WIDTH - 150, { font: 'bold', size: 12 });
+    b.cell(day.dateLabel, PAGE.margin + CONTENT_WIDTH - 150, 150, { size: 9, color: COLORS.muted, align: 'right' });
+    b.y = headerY + 16;
+    if (day.dayTitle) {
+      b.text(day.dayTitle, { size: 10, color: COLORS.muted });
+    }
+    b.space(4);
+
+    for (const section of day.sections) {
+      b.ensureSpace(30);
+      b.text(section.label.toUpperCase(), { font: 'bold', size: 8, color: COLORS.brand });
+
+      for (const item of section.items) {
+        const details = [item.location, item.notes].filter(Boolean).join(' · ');
+        // Keep time/cost cells on the same page as the title they belong to
+        b.ensureSpace(details ? 30 : 16);
+        const rowY = b.y;
+        b.cell(item.time, PAGE.margin, 44, { size: 9, color: COLORS.muted });
+        b.cell(formatMoney(item.cost, model), PAGE.margin + CONTENT_WIDTH - 70, 70, { size: 9, color: COLORS.muted, align: 'right' });
+        b.text(item.title, { x: PAGE.margin + 48, width: CONTENT_WIDTH - 128, font: 'bold' });
+        if (details) {
+          b.text(details, { x: PAGE.margin + 48, width: CONTENT_WIDTH - 128, size: 9, color: COLORS.muted });
+        }
+        b.y = Math.max(b.y, rowY + 14) + 3;
+      }
+    }
+
+    if (day.dayCost !== null) {
+      b.ensureSpace(14);
+      b.cell(`Day total ${formatMoney(day.dayCost, model)}`, PAGE.margin, CONTENT_WIDTH, { size: 9, color: COLORS.muted, align: 'right' });
+      b.space(14);
+    }
+    b.rule();
+    b.space(6);
+  }
+}
+
+function layoutActionItems(b: LayoutBuilder, model: TripExportModel): void {
+  if (model.actionItems.length === 0) return;
+  b.heading('Action items');
+
+  for (const group of model.actionItems) {
+    b.ensureSpace(34);
+    b.text(group.group, { font: 'bold', size: 11 });
+    b.space(2);
+    for (const item of group.items) {
+      b.ensureSpace(16);
+      b.rect(PAGE.margin + 4, b.y + 1, 8, 8, COLORS.muted, false);
+      b.text(item.isRequired ? `${item.label} (required)` : item.label, { x: PAGE.margin + 20 });
+      b.space(2);
+    }
+    b.space(6);
+  }
+}
+
+function layoutFootnotes(b: LayoutBuilder, model: TripExportModel): void {
+  if (model.footnotes.length === 0) return;
+  b.ensureSpace(40);
+  b.space(16);
+  b.rule();
+  b.space(8);
+  model.footnotes.forEach((note, i) => {
+    b.text(`${i + 1}. ${note}`, { size: 8, color: COLORS.muted });
+  });
+}
+
+function layoutFooters(b: LayoutBuilder, model: TripExportModel): void {
+  const pageCount = b.page + 1;
+  const y = PAGE.height - PAGE.margin;
+  const title = toPdfText(model.meta.title);
+
+  for (let page = 1; page < pageCount; page++) {
+    b.ops.push({ op: 'text', page, x: PAGE.margin, y, text: title, font: 'regular', size: 8, color: COLORS.muted });
+    const label = `Page ${page + 1} of ${pageCount}`;
+    b.ops.push({
+      op: 'text', page, x: round(PAGE.width - PAGE.margin - 60), y,
+      text: label, font: 'regular', size: 8, color: COLORS.muted,
+    });
+  }
+}
+
+/**
+ * Lay out the full report. Cover on page 1, everything else flows from page 2.
+ */
+export function layoutTripPdf(model: TripExportModel, measure: TextMeasurer): PdfLayout {
+  const b = new LayoutBuilder(measure);
+
+  layoutCover(b, model);
+  b.newPage();
+  layoutVisa(b, model);
+  layoutTravelers(b, model);
+  layoutCosts(b, model);
+  layoutItinerary(b, model);
+  layoutActionItems(b, model);
+  layoutFootnotes(b, model);
+  layoutFooters(b, model);
+
+  return { pageCount: b.page + 1, ops: b.ops };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Measure text with PDFKit's built-in AFM metrics for the standard fonts
+ */
+export function createPdfKitMeasurer(doc: PDFKit.PDFDocument = new PDFDocument({ autoFirstPage: false })): TextMeasurer {
+  return (text, font, size) => doc.font(FONTS[font]).fontSize(size).widthOfString(text);
+}
+
+/**
+ * Render a TripExportModel to PDF bytes
+ */
+export function renderTripPdf(model: TripExportModel): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: [PAGE.width, PAGE.height],
+    margin: 0,
+    autoFirstPage: false,
+    info: {
+      Title: toPdfText(model.meta.title),
+      Author: 'VoyageAI',
+      Subject: `Trip report for ${toPdfText(model.inputs.to)}`,
+      CreationDate: new Date(model.meta.generatedAtISO),
+    },
+  });
+
+  const layout = layoutTripPdf(model, createPdfKitMeasurer(doc));
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk as Buffer));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    for (let page = 0; page < layout.pageCount; page++) {
+      doc.addPage({ size: [PAGE.width, PAGE.height], margin: 0 });
+
+      for (const op of layout.ops) {
+        if (op.page !== page) continue;
+
+        if (op.op === 'text') {
+          doc.font(FONTS[op.font]).fontSize(op.size).fillColor(op.color)
+            .text(op.text, op.x, op.y, { lineBreak: false });
+        } else if (op.op === 'rect') {
+          doc.rect(op.x, op.y, op.w, op.h);
+          if (op.fill) doc.fill(op.color);
+          else doc.lineWidth(0.75).stroke(op.color);
+        } else {
+          doc.moveTo(op.x1, op.y1).lineTo(op.x2, op.y2).lineWidth(0.5).stroke(op.color);
+        }
+      }
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Convenience: trip row -> PDF bytes via the shared export model
+ */
+export function renderTripPdfForTrip(trip: Trip, baseUrl?: string): Promise<Buffer> {
+  return renderTripPdf(buildTripExportModel(trip, baseUrl));
+}
@@ -6,7 +6,12 @@
  */
 
 import { storage } from "../storage";
-import type { Trip } from "@shared/schema";
+import type { ShareRedaction, StayLimitReport, Trip, TripLeg, TripTraveler } from "@shared/schema";
+import { formatLegRoute, getLegsNumDays } from "./multiCityService";
+import { parseDateRange } from "./dueDates";
+import { computeStayLimits } from "./stayLimitService";
+import { getTripPassports } from "./passportChoice";
+import { isShareLinkActive, redactShareableTrip, type ShareableTrip } from "./shareLinks";
 
 // ============================================================================
 // TYPES
@@ -36,27 +41,6 @@ export interface TripSummary {
   updatedAt: string | null;
 }
 
-export interface ShareableTrip {
-  id: number;
-  destination: string;
-  origin: string | null;
-  dates: string;
-  groupSize: number | null;
-  adults: number | null;
-  children: number | null;
-  infants: number | null;
-  travelStyle: string | null;
-  budget: number | null;
-  currency: string | null;
-  passport: string | null;
-  residence: string | null;
-  feasibilityReport: unknown;
-  itinerary: unknown;
-  status: string | null;
-  feasibilityStatus: string | null;
-  createdAt: string | null;
-}
-
 export interface CreateTripInput {
   passport: string;
   destination: string;
@@ -72,6 +56,10 @@ export interface CreateTripInput {
   currency?: string | null;
   interests?: string[] | null;
   createdFrom?: string | null;
+  legs?: TripLeg[] | null; // Multi-city stops; destination becomes the route label
+  passports?: string[] | null; // Every passport the traveler holds; `passport` is added if missing
+  passportPinned?: boolean | null;
+  travelers?: TripTraveler[] | null; // Group roster; the headcounts are derived from it
 }
 
 export interface TripValidationResult {
@@ -101,37 +89,6 @@ export interface DeleteResult {
 // DATE HELPERS
 // ============================================================================
 
-/**
- * Parse date string like "February 2026, 5 days" or "2026-02-15 to 2026-02-22"
- */
-export function parseDateRange(dateStr: string): { startDate: string; endDate: string } | null {
-  if (!dateStr) return null;
-
-  // Try "YYYY-MM-DD to YYYY-MM-DD" format
-  const rangeMatch = dateStr.match(/(\d{4}-\d{2}-\d{2})\s*to\s*(\d{4}-\d{2}-\d{2})/);
-  if (rangeMatch) {
-    return { startDate: rangeMatch[1], endDate: rangeMatch[2] };
-  }
-
-  // Try "Month Year, N days" format
-  const monthMatch = dateStr.match(/(\w+)\s+(\d{4}),?\s*(\d+)\s*days?/i);
-  if (monthMatch) {
-    const [, month, year, days] = monthMatch;
-    const monthNum = new Date(`${month} 1, ${year}`).getMonth();
-    if (!isNaN(monthNum)) {
-      const startDate = new Date(parseInt(year), monthNum, 15);
-      const endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + parseInt(days) - 1);
-      return {
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0],
-      };
-    }
-  }
-
-  return null;
-}
-
 /**
  * Get number of days from date range
  */
@@ -165,6 +122,28 @@ export function validateTripInput(input: CreateTripInput): TripValidationResult
     }
   }
 
+  // Multi-city: nights per stop must fill the trip exactly
+  if (input.legs && input.legs.length > 0 && dates) {
+    const numDays = getNumDays(dates);
+    const legNights = getLegsNumDays(input.legs) - 1;
+    if (legNights !== numDays - 1) {
+      return {
+        valid: false,
+        error: `Your stops add up to ${legNights} night${legNights === 1 ? '' : 's'}, but your dates cover ${numDays - 1}. Adjust the nights per stop.`,
+        field: "legs",
+      };
+    }
+  }
+
+  // Group roster: minors can't travel alone
+  if (input.travelers && input.travelers.length > 0 && !input.travelers.some(t => t.ageBand === 'adult')) {
+    return {
+      valid: false,
+      error: "A group needs at least one adult.",
+      field: "travelers",
+    };
+  }
+
   // Validate minimum budget - ONLY for custom travel style
   const isCustomBudget = input.travelStyle === 'custom';
   if (isCustomBudget) {
@@ -187,6 +166,37 @@ export function validateTripInput(input: CreateTripInput): TripValidationResult
 // TRIP CRUD OPERATIONS
 // ============================================================================
 
+/**
+ * Multi-city trips store the route ("Tokyo → Kyoto, Japan") as their destination
+ */
+function withLegRoute<T extends CreateTripInput>(input: T): T {
+  if (!input.legs || input.legs.length < 2) return input;
+  return { ...input, destination: formatLegRoute(input.legs) };
+}
+
+/**
+ * Store the full passport list only when there's a choice to make
+ */
+function withPassports<T extends CreateTripInput>(input: T): T {
+  const passports = getTripPassports(input);
+  return { ...input, passports: passports.length > 1 ? passports : null };
+}
+
+/**
+ * With a roster, the group size and age breakdown come from it
+ */
+function withTravelerCounts<T extends CreateTripInput>(input: T): T {
+  if (!input.travelers || input.travelers.length === 0) return input;
+  const count = (band: TripTraveler['ageBand']) => input.travelers!.filter(t => t.ageBand === band).length;
+  return {
+    ...input,
+    groupSize: input.travelers.length,
+    adults: count('adult'),
+    children: count('child'),
+    infants: count('infant'),
+  };
+}
+
 /**
  * Create a new trip with validation.
  */
@@ -202,7 +212,7 @@ export async function createTrip(
     }
 
     // Create trip with voyageUid for anonymous user tracking
-    const trip = await storage.createTrip({ ...input, voyageUid } as any);
+    const trip = await storage.createTrip({ ...withTravelerCounts(withPassports(withLegRoute(input))), voyageUid } as any);
     console.log(`[TripService] Created trip ${trip.id} for uid ${voyageUid?.slice(0, 8) || 'anonymous'}`);
 
     return { trip };
@@ -239,7 +249,7 @@ export async function updateTrip(
     }
 
     // Update the trip (storage.updateTrip resets feasibility/itinerary)
-    const updatedTrip = await storage.updateTrip(tripId, input as any);
+    const updatedTrip = await storage.updateTrip(tripId, withTravelerCounts(withPassports(withLegRoute(input))) as any);
     if (!updatedTrip) {
       return { trip: null, error: 'Failed to update trip' };
     }
@@ -290,33 +300,31 @@ export async function getTripWithOwnership(
 }
 
 /**
- * Get a trip for public sharing (no ownership check).
+ * Load the trip and its owner's other trips, then compute stay limits.
+ * Null when the trip has no parseable dates.
+ */
+export async function checkTripStayLimits(tripId: number): Promise<StayLimitReport | null> {
+  const trip = await storage.getTrip(tripId);
+  if (!trip) return null;
+
+  const otherTrips = await storage.listTripsByOwner({ userId: trip.userId, voyageUid: trip.voyageUid });
+  return computeStayLimits(trip, otherTrips);
+}
+
+/**
+ * Get a trip for public sharing by its share token. Null when the token is
+ * unknown, expired or revoked - all look the same to the viewer.
  */
-export async function getTripForShare(tripId: number): Promise<ShareableTrip | null> {
+export async function getTripForShare(token: string): Promise<ShareableTrip | null> {
   try {
-    const trip = await storage.getTrip(tripId);
+    const link = await storage.getShareLinkByToken(token);
+    if (!link || !isShareLinkActive(link)) return null;
+
+    const trip = await storage.getTrip(link.tripId);
     if (!trip) return null;
 
-    return {
-      id: trip.id,
-      destination: trip.destination,
-      origin: trip.origin,
-      dates: trip.dates,
-      groupSize: trip.groupSize,
-      adults: trip.adults,
-      children: trip.children,
-      infants: trip.infants,
-      travelStyle: trip.travelStyle,
-      budget: trip.budget,
-      currency: trip.currency,
-      passport: trip.passport,
-      residence: trip.residence,
-      feasibilityReport: trip.feasibilityReport,
-      itinerary: trip.itinerary,
-      status: trip.status,
-      feasibilityStatus: trip.feasibilityStatus,
-      createdAt: trip.createdAt?.toISOString() ?? null,
-    };
+    await storage.recordShareView(link.id);
+    return redactShareableTrip(trip, link.redact as ShareRedaction[]);
   } catch (error) {
     console.error('[TripService] getTripForShare error:', error);
     return null;
@@ -391,49 +399,6 @@ export async function listMyTrips(
   });
 }
 
-// ============================================================================
-// PROGRESS TRACKING
-// ============================================================================
-
-// In-memory progress store for trip processing
-const tripProgressStore = new Map<number, {
-  step: number;
-  message: string;
-  details?: string;
-  timestamp: number;
-}>();
-
-/**
- * Update trip processing progress.
- */
-export function updateTripProgress(tripId: number, step: number, message: string, details?: string): void {
-  tripProgressStore.set(tripId, {
-    step,
-    message,
-    details,
-    timestamp: Date.now(),
-  });
-}
-
-/**
- * Get trip processing progress.
- */
-export function getTripProgress(tripId: number): {
-  step: number;
-  message: string;
-  details?: string;
-  timestamp: number;
-} | null {
-  return tripProgressStore.get(tripId) ?? null;
-}
-
-/**
- * Clear trip processing progress.
- */
-export function clearTripProgress(tripId: number): void {
-  tripProgressStore.delete(tripId);
-}
-
 // ============================================================================
 // DATA HELPERS
 // ============================================================================
@@ -12,27 +12,14 @@
  */
 
 import type { ItineraryDay, ItineraryActivity } from "../streamingItinerary";
+import type { BudgetStatus, DayBudgetBreakdown } from "@shared/schema";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type BudgetStatus = 'APPROVED' | 'OVER_BUDGET' | 'NEAR_LIMIT' | 'UNDER_BUDGET';
-
-export interface DayBudgetBreakdown {
-  day: number;
-  date: string;
-  allocated: number;
-  actual: number;
-  delta: number; // positive = over budget, negative = under budget
-  status: BudgetStatus;
-  breakdown: {
-    activities: number;
-    meals: number;
-    transport: number;
-    lodging: number;
-  };
-}
+// Day breakdowns live in shared/schema.ts so the client can render them too
+export type { BudgetStatus, DayBudgetBreakdown };
 
 export interface BudgetValidationResult {
   status: BudgetStatus;
@@ -208,31 +195,39 @@ function calculateDayBreakdown(
     actual += breakdown.lodging;
   }
 
-  const delta = actual - dailyAllocation;
-  const deltaPercentage = dailyAllocation > 0 ? delta / dailyAllocation : 0;
-
-  let status: BudgetStatus;
-  if (deltaPercentage > config.rejectThreshold) {
-    status = 'OVER_BUDGET';
-  } else if (deltaPercentage > config.warningThreshold) {
-    status = 'NEAR_LIMIT';
-  } else if (deltaPercentage < -0.3) {
-    status = 'UNDER_BUDGET';
-  } else {
-    status = 'APPROVED';
-  }
-
   return {
     day: day.day,
     date: day.date,
     allocated: dailyAllocation,
     actual,
-    delta,
-    status,
+    delta: actual - dailyAllocation,
+    status: getDayBudgetStatus(actual, dailyAllocation, config),
     breakdown,
   };
 }
 
+/**
+ * Status of a day's spend against its allocation, using the same thresholds
+ * as the validator
+ */
+export function getDayBudgetStatus(
+  actual: number,
+  allocated: number,
+  config: BudgetValidatorConfig = {}
+): BudgetStatus {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const deltaPercentage = allocated > 0 ? (actual - allocated) / allocated : 0;
+
+  if (deltaPercentage > cfg.rejectThreshold) {
+    return 'OVER_BUDGET';
+  } else if (deltaPercentage > cfg.warningThreshold) {
+    return 'NEAR_LIMIT';
+  } else if (deltaPercentage < -0.3) {
+    return 'UNDER_BUDGET';
+  }
+  return 'APPROVED';
+}
+
 /**
  * Generate actionable suggestions for budget issues
  */
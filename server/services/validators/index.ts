@@ -16,6 +16,7 @@
 // Budget Validator (The Bursar)
 export {
   validateBudget,
+  getDayBudgetStatus,
   isWithinBudget,
   calculateTotalCost,
   formatBudgetFeedback,
@@ -416,6 +416,26 @@ export function clearVisaCache(): void {
   console.log(`[VisaService] Cache cleared`);
 }
 
+/**
+ * Drop cached visa facts for one corridor (e.g. after its knowledge source
+ * changed). A null passport drops every passport for the destination.
+ * Returns the number of entries removed.
+ */
+export function invalidateVisaFacts(passport: string | null, destination: string): number {
+  const keys = passport
+    ? [getVisaCacheKey(passport, destination)]
+    : Array.from(visaFactsCache.keys()).filter(key => key.endsWith(`:${destination.toUpperCase()}`));
+
+  let removed = 0;
+  for (const key of keys) {
+    if (visaFactsCache.delete(key)) removed++;
+  }
+  if (removed > 0) {
+    console.log(`[VisaService] Cache invalidated ${removed} entries for ${passport ?? '*'} → ${destination}`);
+  }
+  return removed;
+}
+
 /**
  * Get cache stats
  */
@@ -0,0 +1,271 @@
+/**
+ * Webhook Delivery
+ *
+ * Signing and HTTP delivery for partner webhooks, kept free of database
+ * access so it can be exercised against a local receiver. Queueing, retries
+ * and the delivery log live in partnerWebhooks.ts.
+ *
+ * Signature header (Stripe-style, so partners can reuse verification code):
+ *   X-Voyage-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+ *
+ * Targets must be https and resolve to public addresses. The address check
+ * runs in the socket's DNS lookup, so a hostname that re-resolves to an
+ * internal address after registration is still refused; redirects are not
+ * followed.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const WEBHOOK_DELIVERY_CONFIG = {
+  timeoutMs: 10_000,
+  backoffBase: 30_000, // 30s, 2m, 8m, 32m, ~2h
+  backoffFactor: 4,
+  signatureTolerance: 5 * 60, // Seconds a receiver should accept between t= and now
+  userAgent: 'VoyageAI-Webhooks/1.0',
+  // Local receivers during development only: allows http and private addresses
+  allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true',
+};
+
+export const SIGNATURE_HEADER = 'X-Voyage-Signature';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: number;
+  eventId: string;
+  event: string;
+  body: string;
+}
+
+export interface WebhookAttemptResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/** Row changes after an attempt, for the delivery log */
+export interface DeliveryStateUpdate {
+  status: 'pending' | 'delivered' | 'failed';
+  nextAttemptAt: Date;
+  deliveredAt: Date | null;
+}
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+// ============================================================================
+// TARGET CHECKS
+// ============================================================================
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved.
+// IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:a.b.c.d).
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Checks that need no DNS: scheme, and the host when it is an IP literal.
+ * Returns the reason the URL is refused, or null.
+ */
+export function checkWebhookUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+  if (WEBHOOK_DELIVERY_CONFIG.allowPrivateTargets) {
+    return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'Webhook URL must use https';
+  }
+  if (url.protocol !== 'https:') return 'Webhook URL must use https';
+  if (url.username || url.password) return 'Webhook URL must not contain credentials';
+
+  const host = hostOf(url);
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'Webhook URL must point to a public host';
+  if (net.isIP(host) && isBlockedAddress(host)) return 'Webhook URL must point to a public address';
+  return null;
+}
+
+/**
+ * Full check for registration: the URL rules above, then every address the
+ * host currently resolves to
+ */
+export async function assertWebhookTarget(rawUrl: string): Promise<void> {
+  const problem = checkWebhookUrl(rawUrl);
+  if (problem) throw new WebhookTargetError(problem);
+  if (WEBHOOK_DELIVERY_CONFIG.allowPrivateTargets) return;
+
+  const host = hostOf(new URL(rawUrl));
+  if (net.isIP(host)) return;
+  const addresses = await dns.promises.lookup(host, { all: true }).catch(() => {
+    throw new WebhookTargetError(`Webhook host ${host} could not be resolved`);
+  });
+  if (addresses.some(a => isBlockedAddress(a.address))) {
+    throw new WebhookTargetError('Webhook URL must point to a public address');
+  }
+}
+
+/**
+ * dns.lookup for the delivery socket, refusing internal addresses at
+ * connect time
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    if (!WEBHOOK_DELIVERY_CONFIG.allowPrivateTargets && addresses.some(a => isBlockedAddress(a.address))) {
+      return callback(new WebhookTargetError(`Webhook host ${hostname} resolves to a non-public address`), '', 0);
+    }
+    if (options.all) return (callback as (e: null, a: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Receiver-side check, exported for tests and partner docs
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSeconds - timestamp) > WEBHOOK_DELIVERY_CONFIG.signatureTolerance) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const received = Buffer.from(parts.v1, 'hex');
+  return received.length === expected.length / 2 && crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'));
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * POST one signed event. Any 2xx counts as delivered; everything else
+ * (non-2xx including redirects, refused target, timeout, connection error)
+ * is a failed attempt. Only the status code is kept from the response - the
+ * delivery log is readable through the API.
+ */
+export async function sendWebhook(request: WebhookRequest): Promise<WebhookAttemptResult> {
+  const startTime = Date.now();
+  const timestamp = Math.floor(startTime / 1000);
+  const failed = (error: string, statusCode: number | null = null): WebhookAttemptResult =>
+    ({ ok: false, statusCode, error, durationMs: Date.now() - startTime });
+
+  const problem = checkWebhookUrl(request.url);
+  if (problem) return failed(problem);
+
+  const url = new URL(request.url);
+  const transport = url.protocol === 'https:' ? https : http;
+
+  try {
+    const statusCode = await new Promise<number>((resolve, reject) => {
+      const req = transport.request(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(request.body),
+          'User-Agent': WEBHOOK_DELIVERY_CONFIG.userAgent,
+          [SIGNATURE_HEADER]: signWebhookPayload(request.secret, request.body, timestamp),
+          'X-Voyage-Event': request.event,
+          'X-Voyage-Event-Id': request.eventId,
+          'X-Voyage-Delivery': String(request.deliveryId),
+        },
+        lookup: guardedLookup,
+        signal: AbortSignal.timeout(WEBHOOK_DELIVERY_CONFIG.timeoutMs),
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end(request.body);
+    });
+
+    if (statusCode >= 200 && statusCode < 300) {
+      return { ok: true, statusCode, error: null, durationMs: Date.now() - startTime };
+    }
+    return failed(`HTTP ${statusCode}`, statusCode);
+  } catch (err) {
+    return failed(err instanceof Error ? err.message : String(err));
+  }
+}
+
+export function getWebhookBackoffMs(attempts: number): number {
+  return WEBHOOK_DELIVERY_CONFIG.backoffBase * Math.pow(WEBHOOK_DELIVERY_CONFIG.backoffFactor, Math.max(0, attempts - 1));
+}
+
+/**
+ * Where a delivery goes after an attempt: delivered, scheduled for a retry
+ * with exponential backoff, or failed once attempts are exhausted
+ */
+export function nextDeliveryState(
+  attempts: number,
+  maxAttempts: number,
+  result: WebhookAttemptResult,
+  now: Date = new Date()
+): DeliveryStateUpdate {
+  if (result.ok) {
+    return { status: 'delivered', nextAttemptAt: now, deliveredAt: now };
+  }
+  if (attempts >= maxAttempts) {
+    return { status: 'failed', nextAttemptAt: now, deliveredAt: null };
+  }
+  return { status: 'pending', nextAttemptAt: new Date(now.getTime() + getWebhookBackoffMs(attempts)), deliveredAt: null };
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for the What-If Sweep
+ *
+ * Run with: npx vitest run server/services/whatIfSweep.test.ts
+ *
+ * Runs against the committed corridor files and the real passport-index.csv.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sweepFeasibility, WhatIfSweepError } from './whatIfSweep';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const indiaToJapan = {
+  id: 1,
+  passport: 'India',
+  passports: null,
+  destination: 'Tokyo, Japan',
+  dates: '2026-11-10 to 2026-11-16',
+  legs: null,
+  budget: 2800,
+  groupSize: 2,
+};
+
+describe('sweepFeasibility', () => {
+  it('ranks every combination and always includes the trip as planned', () => {
+    const result = sweepFeasibility(indiaToJapan, [], {
+      passports: ['United States'],
+      startDates: { from: '2026-10-25', to: '2026-12-20', stepDays: 7 },
+      durations: { min: 5, max: 9, step: 2 },
+    }, NOW);
+
+    // Weekly dates plus the planned Nov 10, odd lengths plus the planned 7
+    expect(result.axes.startDates).toContain('2026-11-10');
+    expect(result.axes.durations).toEqual([5, 7, 9]);
+    expect(result.cells).toHaveLength(2 * result.axes.startDates.length * 3);
+    expect(result.cells.map(cell => cell.rank)).toEqual(result.cells.map((_, i) => i + 1));
+
+    const base = result.cells.filter(cell => cell.isBase);
+    expect(base).toHaveLength(1);
+    expect(base[0]).toMatchObject({ passport: 'India', startDate: '2026-11-10', duration: 7, budgetPerDayPerPerson: 200 });
+  });
+
+  it('scores a later start higher when the visa deadline is tight', () => {
+    const result = sweepFeasibility(indiaToJapan, [], {
+      passports: [],
+      startDates: { from: '2026-10-20', to: '2026-12-20', stepDays: 1 },
+    }, NOW);
+
+    const soonest = result.cells.find(cell => cell.startDate === '2026-10-20')!;
+    const latest = result.cells.find(cell => cell.startDate === '2026-12-20')!;
+    expect(soonest.visas[0].applyByDate).not.toBeNull();
+    expect(latest.score).toBeGreaterThan(soonest.score);
+  });
+
+  it('blocks trip lengths past a visa-free stay limit', () => {
+    const result = sweepFeasibility(
+      { ...indiaToJapan, passport: 'United States', destination: 'Paris, France' },
+      [],
+      { passports: [], durations: { min: 85, max: 95, step: 5 } },
+      NOW
+    );
+
+    const byDuration = new Map(result.cells.map(cell => [cell.duration, cell]));
+    expect(byDuration.get(90)!.blockers).toEqual([]);
+    expect(byDuration.get(95)!.verdict).toBe('NO');
+    expect(byDuration.get(95)!.score).toBeLessThanOrEqual(20);
+  });
+
+  it('rejects sweeps over the cell limit and past start dates', () => {
+    expect(() => sweepFeasibility(indiaToJapan, [], {
+      passports: ['US', 'UK', 'Canada'],
+      startDates: { from: '2026-10-20', to: '2027-02-10', stepDays: 1 },
+      durations: { min: 1, max: 10, step: 1 },
+    }, NOW)).toThrow(WhatIfSweepError);
+
+    expect(() => sweepFeasibility(indiaToJapan, [], {
+      passports: [],
+      startDates: { from: '2026-10-01', to: '2026-11-01', stepDays: 1 },
+    }, NOW)).toThrow(/past/);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * What-If Sweep
+ *
+ * Scores every combination of start date, passport and trip length for a
+ * trip in one pass, so a traveler can see which plan works instead of
+ * re-running the change planner one tweak at a time.
+ *
+ * Only the deterministic parts of feasibility are evaluated - no LLM calls:
+ * - Visa type: curated corridor data, else the Passport Index
+ * - Apply-by date and urgency: computeDueDate (7-day buffer)
+ * - Stay limits: computeStayLimits, counting the traveler's other trips
+ * - Certainty: visa timing and buffer scored on the certaintyBreakdown
+ *   scales, then the Stage 1 confidence and stay-limit adjustments
+ *
+ * Safety, accessibility and budget judgement need the LLM and aren't part of
+ * the score; the per-day budget is reported for each trip length.
+ */
+
+import { z } from "zod";
+import type { Trip, VisaDetails, WhatIfCell, WhatIfSweepResult } from "@shared/schema";
+import { assessVisa, getTripPassports, type VisaSourceCache } from "./passportChoice";
+import { computeDueDate } from "./dueDates";
+import { computeStayLimits, getTripStays, parseTripDateRange } from "./stayLimitService";
+import { getTripLegs } from "./multiCityService";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const WHAT_IF_CONFIG = {
+  maxCells: 1000,
+  maxPassports: 4, // Including the trip's own
+  maxDateWindowDays: 120,
+  maxDuration: 90,
+  bufferDays: 7, // Same buffer as buildVisaDueDates
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// SWEEP SPEC
+// ============================================================================
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format");
+
+export const whatIfSweepSchema = z.object({
+  /** Start dates to try; the trip's own start date when omitted */
+  startDates: z.object({
+    from: isoDate,
+    to: isoDate,
+    stepDays: z.number().int().min(1).max(31).default(1),
+  }).optional(),
+  /** Passports to try besides the ones on the trip (trip.passport and trip.passports are always included) */
+  passports: z.array(z.string().min(2)).max(WHAT_IF_CONFIG.maxPassports - 1).default([]),
+  /** Trip lengths to try, in days; the trip's own length when omitted */
+  durations: z.object({
+    min: z.number().int().min(1).max(WHAT_IF_CONFIG.maxDuration),
+    max: z.number().int().min(1).max(WHAT_IF_CONFIG.maxDuration),
+    step: z.number().int().min(1).default(1),
+  }).optional(),
+});
+
+export type WhatIfSweepSpec = z.infer<typeof whatIfSweepSchema>;
+
+export class WhatIfSweepError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhatIfSweepError";
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addDays(dateISO: string, days: number): string {
+  return new Date(new Date(`${dateISO}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(fromISO: string, toISO: string): number {
+  return Math.round((new Date(`${toISO}T00:00:00Z`).getTime() - new Date(`${fromISO}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = from; value <= to; value += step) values.push(value);
+  return values;
+}
+
+/** Visa timing score by urgency - the certaintyBreakdown visa_timing scale */
+const TIMING_SCORES: Record<NonNullable<VisaDetails['timing']>['urgency'], number> = {
+  ok: 100,
+  tight: 65,
+  risky: 35,
+  impossible: 10,
+};
+
+/** Buffer score - the certaintyBreakdown buffer_days scale */
+function bufferScore(bufferDays: number): number {
+  if (bufferDays >= 14) return 100;
+  if (bufferDays >= 7) return 80;
+  if (bufferDays >= 3) return 55;
+  if (bufferDays >= 0) return 30;
+  return 10;
+}
+
+function visasToApplyFor(cell: Pick<WhatIfCell, 'visas'>): number {
+  return cell.visas.filter(visa => visa.applyByDate !== null).length;
+}
+
+function toVerdict(score: number, blocked: boolean): WhatIfCell['verdict'] {
+  if (blocked) return 'NO';
+  if (score >= 80) return 'GO';
+  if (score >= 60) return 'POSSIBLE';
+  if (score >= 40) return 'DIFFICULT';
+  return 'NO';
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+type SweepTrip = Pick<Trip, 'id' | 'passport' | 'passports' | 'destination' | 'dates' | 'legs' | 'budget' | 'groupSize'>;
+type OtherTrip = Pick<Trip, 'id' | 'passport' | 'destination' | 'dates' | 'legs' | 'status' | 'isTemplate'>;
+
+/**
+ * Score one combination. The worst country decides: a trip is only as
+ * feasible as its hardest entry.
+ */
+function evaluateCell(
+  cache: VisaSourceCache,
+  trip: SweepTrip,
+  otherTrips: OtherTrip[],
+  passport: string,
+  startDate: string,
+  duration: number,
+  today: string
+): Omit<WhatIfCell, 'rank' | 'isBase'> {
+  const endDate = addDays(startDate, duration - 1);
+  const daysUntilTrip = Math.max(0, daysBetween(today, startDate));
+  const candidate = { ...trip, passport, dates: `${startDate} to ${endDate}` };
+
+  const blockers: string[] = [];
+  const warnings: string[] = [];
+  const visas: WhatIfCell['visas'] = [];
+  let score = 100;
+
+  const countries = Array.from(new Set(getTripStays(candidate).map(stay => stay.country)));
+  for (const country of countries) {
+    const { details, source } = assessVisa(cache, passport, country, daysUntilTrip);
+    const due = computeDueDate({
+      travelStartDateISO: startDate,
+      processingDaysMax: details.processingDays.maximum,
+      processingDaysMin: details.processingDays.minimum,
+      bufferDays: WHAT_IF_CONFIG.bufferDays,
+    });
+    visas.push({
+      country,
+      type: details.type,
+      source,
+      applyByDate: due.applyByDate,
+      daysUntilDeadline: due.daysUntilDeadline,
+      urgency: due.urgency,
+    });
+
+    let countryScore = 100;
+    if (details.type === 'not_allowed') {
+      blockers.push(`${passport} passport holders are not admitted to ${country}`);
+      countryScore = 0;
+    } else if (details.timing) {
+      const timing = TIMING_SCORES[details.timing.urgency];
+      // Slack before the apply-by date, which already has the buffer taken off
+      const buffer = due.daysUntilDeadline === null ? 100 : bufferScore(due.daysUntilDeadline);
+      countryScore = Math.round(timing * 0.6 + buffer * 0.4);
+
+      if (details.timing.urgency === 'impossible') {
+        blockers.push(`Not enough time for a ${country} visa (${details.processingDays.maximum} days processing)`);
+      } else if (due.applyByDate && due.daysUntilDeadline !== null) {
+        warnings.push(due.daysUntilDeadline < 0
+          ? `${country} visa: the apply-by date (${due.applyByDate}) has passed`
+          : `${country} visa: apply by ${due.applyByDate}`);
+      }
+    }
+
+    // Stage 1 confidence adjustment
+    if (details.confidenceLevel === 'medium') {
+      countryScore = Math.round(countryScore * 0.9);
+    } else if (details.confidenceLevel === 'low') {
+      countryScore = Math.min(Math.round(countryScore * 0.75), 70);
+      warnings.push(`${country} visa requirements are unverified for ${passport}`);
+    }
+
+    score = Math.min(score, countryScore);
+  }
+
+  const stayReport = computeStayLimits(candidate, otherTrips);
+  const stayLimits = (stayReport?.windows ?? []).map(w => ({
+    zoneLabel: w.zoneLabel,
+    maxStay: w.maxStay,
+    period: w.period,
+    peakDaysUsed: w.peakDaysUsed,
+    exceeded: w.exceeded,
+  }));
+  for (const window of stayLimits.filter(w => w.exceeded)) {
+    blockers.push(`Exceeds the ${window.zoneLabel} limit of ${window.maxStay} days in any ${window.period} (${window.peakDaysUsed} days)`);
+    score = Math.min(score, 20); // Same cap as applyStayLimits
+  }
+
+  return {
+    passport,
+    startDate,
+    endDate,
+    duration,
+    score,
+    verdict: toVerdict(score, blockers.length > 0),
+    blockers,
+    warnings,
+    visas,
+    stayLimits,
+    budgetPerDayPerPerson: Math.round(trip.budget / (duration * Math.max(1, trip.groupSize))),
+  };
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Evaluate every combination and rank them: best score first, then fewer
+ * blockers, then fewer visas to apply for, then closest to the trip as
+ * planned. The planned combination is always included. Pure: callers load
+ * the trips.
+ */
+export function sweepFeasibility(
+  trip: SweepTrip,
+  otherTrips: OtherTrip[],
+  spec: WhatIfSweepSpec,
+  now = new Date()
+): Omit<WhatIfSweepResult, 'tripId' | 'currency'> {
+  const base = parseTripDateRange(trip.dates);
+  if (!base) {
+    throw new WhatIfSweepError("Trip has no dates to sweep around");
+  }
+  const baseDuration = daysBetween(base.startDate, base.endDate) + 1;
+  const today = now.toISOString().slice(0, 10);
+
+  let startDates = [base.startDate];
+  if (spec.startDates) {
+    const { from, to, stepDays } = spec.startDates;
+    if (to < from) throw new WhatIfSweepError("startDates.to must not be before startDates.from");
+    if (from < today) throw new WhatIfSweepError("startDates.from must not be in the past");
+    if (daysBetween(from, to) > WHAT_IF_CONFIG.maxDateWindowDays) {
+      throw new WhatIfSweepError(`Date window is limited to ${WHAT_IF_CONFIG.maxDateWindowDays} days`);
+    }
+    startDates = range(0, daysBetween(from, to), stepDays).map(offset => addDays(from, offset));
+    // Always compare against the trip as planned
+    if (!startDates.includes(base.startDate) && base.startDate >= today) {
+      startDates = [...startDates, base.startDate].sort();
+    }
+  }
+
+  let durations = [baseDuration];
+  if (spec.durations) {
+    if (getTripLegs(trip)) {
+      throw new WhatIfSweepError("Multi-city trip length is set by the nights at each stop");
+    }
+    if (spec.durations.max < spec.durations.min) {
+      throw new WhatIfSweepError("durations.max must not be below durations.min");
+    }
+    durations = range(spec.durations.min, spec.durations.max, spec.durations.step);
+    if (!durations.includes(baseDuration)) {
+      durations = [...durations, baseDuration].sort((a, b) => a - b);
+    }
+  }
+
+  const passports = getTripPassports({ passport: trip.passport, passports: [...(trip.passports ?? []), ...spec.passports] });
+
+  const total = passports.length * startDates.length * durations.length;
+  if (total > WHAT_IF_CONFIG.maxCells) {
+    throw new WhatIfSweepError(`Sweep has ${total} combinations; the limit is ${WHAT_IF_CONFIG.maxCells}`);
+  }
+
+  const cache: VisaSourceCache = new Map();
+  const cells: Array<Omit<WhatIfCell, 'rank'> & { distance: number }> = [];
+  for (const passport of passports) {
+    for (const startDate of startDates) {
+      for (const duration of durations) {
+        const isBase = passport === trip.passport && startDate === base.startDate && duration === baseDuration;
+        cells.push({
+          ...evaluateCell(cache, trip, otherTrips, passport, startDate, duration, today),
+          isBase,
+          distance: Math.abs(daysBetween(base.startDate, startDate)) +
+            Math.abs(duration - baseDuration) +
+            (passport === trip.passport ? 0 : 1),
+        });
+      }
+    }
+  }
+
+  cells.sort((a, b) =>
+    b.score - a.score ||
+    a.blockers.length - b.blockers.length ||
+    visasToApplyFor(a) - visasToApplyFor(b) ||
+    a.distance - b.distance
+  );
+
+  return {
+    generatedAt: now.toISOString(),
+    axes: { passports, startDates, durations },
+    cells: cells.map(({ distance: _distance, ...cell }, index) => ({ ...cell, rank: index + 1 })),
+  };
+}
+
+/**
+ * Run the sweep for a stored trip. otherTrips are the owner's trips (from
+ * storage.listTripsByOwner) for the stay-limit checks.
+ */
+export function runWhatIfSweep(trip: Trip, otherTrips: Trip[], spec: WhatIfSweepSpec): WhatIfSweepResult {
+  return {
+    tripId: trip.id,
+    currency: trip.currency || 'USD',
+    ...sweepFeasibility(trip, otherTrips, spec),
+  };
+}
@@ -1,6 +1,13 @@
-import { users, trips, type User, type InsertUser, type Trip, type InsertTrip, type FeasibilityReport } from "@shared/schema";
+import {
+  users, trips, tripCollaborators, tripComments, tripVotes, tripExpenses, tripShareLinks, savedPlaces, tripConversations,
+  type User, type InsertUser, type Trip, type InsertTrip, type FeasibilityReport,
+  type TripCollaborator, type InsertTripCollaborator, type TripComment, type InsertTripComment,
+  type TripVote, type InsertTripVote, type TripExpense, type InsertTripExpense,
+  type TripShareLink, type InsertTripShareLink, type SavedPlace, type InsertSavedPlace,
+  type TripConversation, type ChatMessageRecord, type ChatProposal, type ChatProposalStatus,
+} from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, desc, isNull, and } from "drizzle-orm";
+import { eq, desc, asc, isNull, isNotNull, and, or, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User operations
@@ -14,12 +21,60 @@ export interface IStorage {
   getTrip(id: number): Promise<Trip | undefined>;
   listTrips(): Promise<Trip[]>; // List all trips (for demo lookup)
   listTripsByUid(voyageUid: string, limit?: number): Promise<Trip[]>; // List trips by anonymous user ID
-  adoptTrip(id: number, voyageUid: string): Promise<Trip | null>; // Adopt orphan trip (soft backfill)
+  listTripsByOwner(owner: { userId: number | null; voyageUid: string | null }): Promise<Trip[]>; // Account and device trips together (empty with neither)
+  adoptTrip(id: number, voyageUid: string, userId?: number): Promise<Trip | null>; // Adopt orphan trip (soft backfill), or link to an account
   deleteTrip(id: number): Promise<void>; // Permanently delete trip and associated data
   updateTripFeasibility(id: number, status: string, report: FeasibilityReport | null, error?: string): Promise<Trip>;
   setTripFeasibilityPending(id: number): Promise<Trip>; // Sets pending status with timestamp
   updateTripItinerary(id: number, itinerary: any): Promise<Trip>;
   updateTripImage(id: number, imageUrl: string): Promise<Trip | null>; // Updates ONLY the image, preserves feasibility
+  setTripPassport(id: number, passport: string, pinned: boolean): Promise<Trip | null>; // Switches between the traveler's passports, preserves feasibility
+  getTripByCalendarToken(token: string): Promise<Trip | undefined>;
+  setTripCalendarToken(id: number, token: string | null): Promise<Trip | null>; // null revokes the feed
+
+  // Collaboration operations
+  listCollaborators(tripId: number): Promise<TripCollaborator[]>;
+  getCollaborator(id: number): Promise<TripCollaborator | undefined>;
+  getCollaboratorByEmail(tripId: number, email: string): Promise<TripCollaborator | undefined>;
+  getCollaboratorByInviteToken(tripId: number, token: string): Promise<TripCollaborator | undefined>;
+  getAcceptedCollaborator(tripId: number, userId: number): Promise<TripCollaborator | undefined>; // Accepted membership only
+  createCollaborator(collaborator: InsertTripCollaborator): Promise<TripCollaborator>;
+  acceptCollaborator(id: number, userId: number | null): Promise<TripCollaborator | null>; // Marks accepted and clears invite token
+  deleteCollaborator(id: number): Promise<void>;
+
+  listComments(tripId: number, dayIndex?: number): Promise<TripComment[]>; // Newest first
+  getComment(id: number): Promise<TripComment | undefined>;
+  createComment(comment: InsertTripComment): Promise<TripComment>;
+  deleteComment(id: number): Promise<void>;
+
+  listVotes(tripId: number): Promise<TripVote[]>;
+  upsertVote(vote: InsertTripVote): Promise<{ vote: TripVote; updated: boolean }>; // One vote per voter per activity
+
+  // Share link operations
+  listShareLinks(tripId: number): Promise<TripShareLink[]>; // Newest first, revoked included
+  getShareLinkByToken(token: string): Promise<TripShareLink | undefined>;
+  createShareLink(link: InsertTripShareLink): Promise<TripShareLink>;
+  revokeShareLink(id: number): Promise<TripShareLink | null>;
+  recordShareView(id: number): Promise<void>; // Increments the view count
+
+  // Expense operations
+  listExpenses(tripId: number): Promise<TripExpense[]>; // By day, then oldest first
+  getExpense(id: number): Promise<TripExpense | undefined>;
+  createExpense(expense: InsertTripExpense): Promise<TripExpense>;
+  deleteExpense(id: number): Promise<void>;
+
+  // Saved place operations (owned by a user and/or an anonymous voyageUid)
+  listSavedPlaces(owner: { userId: number | null; voyageUid: string | null }): Promise<SavedPlace[]>; // Newest first
+  getSavedPlace(id: number): Promise<SavedPlace | undefined>;
+  createSavedPlace(place: InsertSavedPlace): Promise<SavedPlace>;
+  updateSavedPlace(id: number, updates: Partial<InsertSavedPlace>): Promise<SavedPlace>;
+  deleteSavedPlace(id: number): Promise<void>;
+
+  // Chat conversation operations (one conversation per trip)
+  getTripConversation(tripId: number): Promise<TripConversation | undefined>;
+  appendConversationMessages(tripId: number, messages: ChatMessageRecord[], userId: number | null): Promise<void>; // Creates the conversation on first use
+  resolveConversationProposal(tripId: number, proposalId: string, resolution: Pick<ChatProposal, 'status' | 'resolvedAt' | 'resolvedBy'>, fromStatus?: ChatProposalStatus): Promise<boolean>; // False when missing or no longer in fromStatus (default pending)
+  deleteTripConversation(tripId: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -79,8 +134,31 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-  // Adopt an orphan trip (soft backfill) - only updates if voyageUid is currently null
-  async adoptTrip(id: number, voyageUid: string): Promise<Trip | null> {
+  async listTripsByOwner(owner: { userId: number | null; voyageUid: string | null }): Promise<Trip[]> {
+    const conditions: SQL[] = [];
+    if (owner.userId) conditions.push(eq(trips.userId, owner.userId));
+    if (owner.voyageUid) conditions.push(eq(trips.voyageUid, owner.voyageUid));
+    if (conditions.length === 0) return [];
+
+    return db.select().from(trips).where(or(...conditions));
+  }
+
+  // Adopt an orphan trip (soft backfill) - only updates if voyageUid is currently null.
+  // With userId: link an anonymous trip owned by voyageUid to an account (only if unclaimed).
+  async adoptTrip(id: number, voyageUid: string, userId?: number): Promise<Trip | null> {
+    if (userId) {
+      const [linkedTrip] = await db
+        .update(trips)
+        .set({ userId, updatedAt: new Date() })
+        .where(and(
+          eq(trips.id, id),
+          isNull(trips.userId),
+          or(eq(trips.voyageUid, voyageUid), isNull(trips.voyageUid)),
+        ))
+        .returning();
+      return linkedTrip || null;
+    }
+
     const [updatedTrip] = await db
       .update(trips)
       .set({ voyageUid })
@@ -111,6 +189,31 @@ export class DatabaseStorage implements IStorage {
     return updatedTrip || null;
   }
 
+  // Switch the passport the trip travels on - the caller re-runs feasibility
+  async setTripPassport(id: number, passport: string, pinned: boolean): Promise<Trip | null> {
+    const [updatedTrip] = await db
+      .update(trips)
+      .set({ passport, passportPinned: pinned, updatedAt: new Date() })
+      .where(eq(trips.id, id))
+      .returning();
+    return updatedTrip || null;
+  }
+
+  async getTripByCalendarToken(token: string): Promise<Trip | undefined> {
+    const [trip] = await db.select().from(trips).where(eq(trips.calendarToken, token));
+    return trip;
+  }
+
+  // Deliberately leaves updatedAt alone - rotating the feed token isn't a trip edit
+  async setTripCalendarToken(id: number, token: string | null): Promise<Trip | null> {
+    const [updatedTrip] = await db
+      .update(trips)
+      .set({ calendarToken: token })
+      .where(eq(trips.id, id))
+      .returning();
+    return updatedTrip || null;
+  }
+
   async updateTripFeasibility(id: number, status: string, report: FeasibilityReport | null, error?: string): Promise<Trip> {
     console.log(`[Storage] updateTripFeasibility: id=${id}, status=${status}`);
 
@@ -159,6 +262,279 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updatedTrip;
   }
+
+  // ---------------------------------------------------------------------------
+  // Collaboration
+  // ---------------------------------------------------------------------------
+
+  async listCollaborators(tripId: number): Promise<TripCollaborator[]> {
+    return db
+      .select()
+      .from(tripCollaborators)
+      .where(eq(tripCollaborators.tripId, tripId))
+      .orderBy(tripCollaborators.invitedAt);
+  }
+
+  async getCollaborator(id: number): Promise<TripCollaborator | undefined> {
+    const [collaborator] = await db.select().from(tripCollaborators).where(eq(tripCollaborators.id, id));
+    return collaborator;
+  }
+
+  async getCollaboratorByEmail(tripId: number, email: string): Promise<TripCollaborator | undefined> {
+    const [collaborator] = await db
+      .select()
+      .from(tripCollaborators)
+      .where(and(eq(tripCollaborators.tripId, tripId), eq(tripCollaborators.email, email)));
+    return collaborator;
+  }
+
+  async getCollaboratorByInviteToken(tripId: number, token: string): Promise<TripCollaborator | undefined> {
+    const [collaborator] = await db
+      .select()
+      .from(tripCollaborators)
+      .where(and(eq(tripCollaborators.tripId, tripId), eq(tripCollaborators.inviteToken, token)));
+    return collaborator;
+  }
+
+  async getAcceptedCollaborator(tripId: number, userId: number): Promise<TripCollaborator | undefined> {
+    const [collaborator] = await db
+      .select()
+      .from(tripCollaborators)
+      .where(and(
+        eq(tripCollaborators.tripId, tripId),
+        eq(tripCollaborators.userId, userId),
+        isNotNull(tripCollaborators.acceptedAt),
+      ));
+    return collaborator;
+  }
+
+  async createCollaborator(collaborator: InsertTripCollaborator): Promise<TripCollaborator> {
+    const [created] = await db.insert(tripCollaborators).values(collaborator).returning();
+    return created;
+  }
+
+  async acceptCollaborator(id: number, userId: number | null): Promise<TripCollaborator | null> {
+    const [updated] = await db
+      .update(tripCollaborators)
+      .set({
+        acceptedAt: new Date(),
+        inviteToken: null, // Single-use token
+        ...(userId ? { userId } : {}),
+      })
+      .where(eq(tripCollaborators.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async deleteCollaborator(id: number): Promise<void> {
+    await db.delete(tripCollaborators).where(eq(tripCollaborators.id, id));
+  }
+
+  async listComments(tripId: number, dayIndex?: number): Promise<TripComment[]> {
+    const conditions = [eq(tripComments.tripId, tripId)];
+    if (dayIndex !== undefined) {
+      conditions.push(eq(tripComments.dayIndex, dayIndex));
+    }
+    return db
+      .select()
+      .from(tripComments)
+      .where(and(...conditions))
+      .orderBy(desc(tripComments.createdAt));
+  }
+
+  async getComment(id: number): Promise<TripComment | undefined> {
+    const [comment] = await db.select().from(tripComments).where(eq(tripComments.id, id));
+    return comment;
+  }
+
+  async createComment(comment: InsertTripComment): Promise<TripComment> {
+    const [created] = await db.insert(tripComments).values(comment).returning();
+    return created;
+  }
+
+  async deleteComment(id: number): Promise<void> {
+    await db.delete(tripComments).where(eq(tripComments.id, id));
+  }
+
+  async listVotes(tripId: number): Promise<TripVote[]> {
+    return db.select().from(tripVotes).where(eq(tripVotes.tripId, tripId));
+  }
+
+  async upsertVote(vote: InsertTripVote): Promise<{ vote: TripVote; updated: boolean }> {
+    // Voter identity is either an account (userId) or an anonymous owner (voyageUid)
+    const voterCondition = vote.userId
+      ? eq(tripVotes.userId, vote.userId)
+      : eq(tripVotes.voyageUid, vote.voyageUid ?? '');
+
+    const [existing] = await db
+      .select()
+      .from(tripVotes)
+      .where(and(
+        eq(tripVotes.tripId, vote.tripId!),
+        eq(tripVotes.dayIndex, vote.dayIndex),
+        eq(tripVotes.activityIndex, vote.activityIndex),
+        voterCondition,
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(tripVotes)
+        .set({ vote: vote.vote })
+        .where(eq(tripVotes.id, existing.id))
+        .returning();
+      return { vote: updated, updated: true };
+    }
+
+    const [created] = await db.insert(tripVotes).values(vote).returning();
+    return { vote: created, updated: false };
+  }
+
+  async listShareLinks(tripId: number): Promise<TripShareLink[]> {
+    return db
+      .select()
+      .from(tripShareLinks)
+      .where(eq(tripShareLinks.tripId, tripId))
+      .orderBy(desc(tripShareLinks.createdAt));
+  }
+
+  async getShareLinkByToken(token: string): Promise<TripShareLink | undefined> {
+    const [link] = await db.select().from(tripShareLinks).where(eq(tripShareLinks.token, token));
+    return link;
+  }
+
+  async createShareLink(link: InsertTripShareLink): Promise<TripShareLink> {
+    const [created] = await db.insert(tripShareLinks).values(link).returning();
+    return created;
+  }
+
+  async revokeShareLink(id: number): Promise<TripShareLink | null> {
+    const [revoked] = await db
+      .update(tripShareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(tripShareLinks.id, id), isNull(tripShareLinks.revokedAt)))
+      .returning();
+    return revoked ?? null;
+  }
+
+  async recordShareView(id: number): Promise<void> {
+    await db
+      .update(tripShareLinks)
+      .set({ viewCount: sql`${tripShareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(tripShareLinks.id, id));
+  }
+
+  async listExpenses(tripId: number): Promise<TripExpense[]> {
+    return db
+      .select()
+      .from(tripExpenses)
+      .where(eq(tripExpenses.tripId, tripId))
+      .orderBy(asc(tripExpenses.dayNumber), asc(tripExpenses.createdAt));
+  }
+
+  async getExpense(id: number): Promise<TripExpense | undefined> {
+    const [expense] = await db.select().from(tripExpenses).where(eq(tripExpenses.id, id));
+    return expense;
+  }
+
+  async createExpense(expense: InsertTripExpense): Promise<TripExpense> {
+    const [created] = await db.insert(tripExpenses).values(expense).returning();
+    return created;
+  }
+
+  async deleteExpense(id: number): Promise<void> {
+    await db.delete(tripExpenses).where(eq(tripExpenses.id, id));
+  }
+
+  async listSavedPlaces(owner: { userId: number | null; voyageUid: string | null }): Promise<SavedPlace[]> {
+    // Signed-in users also see what they saved anonymously on this device
+    const conditions = [
+      owner.userId !== null ? eq(savedPlaces.userId, owner.userId) : undefined,
+      owner.voyageUid ? eq(savedPlaces.voyageUid, owner.voyageUid) : undefined,
+    ].filter(c => c !== undefined);
+    if (conditions.length === 0) return [];
+
+    return db
+      .select()
+      .from(savedPlaces)
+      .where(or(...conditions))
+      .orderBy(desc(savedPlaces.createdAt));
+  }
+
+  async getSavedPlace(id: number): Promise<SavedPlace | undefined> {
+    const [place] = await db.select().from(savedPlaces).where(eq(savedPlaces.id, id));
+    return place;
+  }
+
+  async createSavedPlace(place: InsertSavedPlace): Promise<SavedPlace> {
+    const [created] = await db.insert(savedPlaces).values(place).returning();
+    return created;
+  }
+
+  async updateSavedPlace(id: number, updates: Partial<InsertSavedPlace>): Promise<SavedPlace> {
+    const [updated] = await db
+      .update(savedPlaces)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(savedPlaces.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSavedPlace(id: number): Promise<void> {
+    await db.delete(savedPlaces).where(eq(savedPlaces.id, id));
+  }
+
+  async getTripConversation(tripId: number): Promise<TripConversation | undefined> {
+    const [conversation] = await db.select().from(tripConversations).where(eq(tripConversations.tripId, tripId));
+    return conversation;
+  }
+
+  async appendConversationMessages(tripId: number, messages: ChatMessageRecord[], userId: number | null): Promise<void> {
+    // Appends in SQL so collaborators chatting at the same time don't overwrite each other
+    await db
+      .insert(tripConversations)
+      .values({ tripId, userId, messages })
+      .onConflictDoUpdate({
+        target: tripConversations.tripId,
+        set: {
+          messages: sql`${tripConversations.messages} || ${JSON.stringify(messages)}::jsonb`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async resolveConversationProposal(
+    tripId: number,
+    proposalId: string,
+    resolution: Pick<ChatProposal, 'status' | 'resolvedAt' | 'resolvedBy'>,
+    fromStatus: ChatProposalStatus = 'pending'
+  ): Promise<boolean> {
+    // Sets just that message's proposal in SQL so messages appended meanwhile
+    // survive. The status check is on the row being updated, so of two
+    // concurrent resolutions only the first wins.
+    const resolved = await db.execute<{ id: number }>(sql`
+      UPDATE trip_conversations c
+      SET messages = jsonb_set(
+            c.messages,
+            ARRAY[(m.idx - 1)::text, 'proposal'],
+            (c.messages -> (m.idx - 1)::int -> 'proposal') || ${JSON.stringify(resolution)}::jsonb
+          ),
+          updated_at = now()
+      FROM (
+        SELECT e.idx
+        FROM trip_conversations t, jsonb_array_elements(t.messages) WITH ORDINALITY AS e(msg, idx)
+        WHERE t.trip_id = ${tripId} AND e.msg -> 'proposal' ->> 'id' = ${proposalId}
+        LIMIT 1
+      ) m
+      WHERE c.trip_id = ${tripId}
+        AND c.messages -> (m.idx - 1)::int -> 'proposal' ->> 'status' = ${fromStatus}
+      RETURNING c.id
+    `);
+    return resolved.rows.length > 0;
+  }
+
+  async deleteTripConversation(tripId: number): Promise<void> {
+    await db.delete(tripConversations).where(eq(tripConversations.tripId, tripId));
+  }
 }
 // Always use PostgreSQL (Supabase) - no in-memory fallback
 export const storage: IStorage = new DatabaseStorage();
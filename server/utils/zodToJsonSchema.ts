@@ -0,0 +1,122 @@
+/**
+ * zodToJsonSchema - JSON Schema (draft 2020-12) from a zod schema.
+ *
+ * Shared so published schemas come from the same zod definitions the code
+ * validates with.
+ */
+
+import { ZodFirstPartyTypeKind, type AnyZodObject, type ZodTypeAny } from 'zod';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a zod schema to JSON Schema (draft 2020-12, as used by OpenAPI 3.1).
+ * Covers the zod features our schemas use; anything else throws so a new
+ * construct can't silently produce an empty schema.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const json = convertZod(schema);
+  if (schema.description) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convertZod(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def as any;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        else if (check.kind === 'max') json.maxLength = check.value;
+        else if (check.kind === 'length') json.minLength = json.maxLength = check.value;
+        else if (check.kind === 'regex') json.pattern = check.regex.source;
+        else if (check.kind === 'url') json.format = 'uri';
+        else if (check.kind === 'email') json.format = 'email';
+        else if (check.kind === 'uuid') json.format = 'uuid';
+        else if (check.kind === 'datetime') json.format = 'date-time';
+      }
+      return json;
+    }
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') json.type = 'integer';
+        else if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return json;
+    }
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return json;
+    }
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(field);
+        if (!field.isOptional()) required.push(key);
+      }
+      return {
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        ...(def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+      };
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: ZodTypeAny) => zodToJsonSchema(option)) };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodToJsonSchema(def.innerType);
+      if (typeof inner.type === 'string') {
+        return { ...inner, type: [inner.type, 'null'] };
+      }
+      return { anyOf: [inner, { type: 'null' }] };
+    }
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+
+    default:
+      throw new Error(`Unsupported zod type: ${def.typeName}`);
+  }
+}
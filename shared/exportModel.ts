@@ -53,6 +53,18 @@ export interface TripExportModel {
       status: "required" | "recommended" | "optional";
     }>;
   };
+  /** Per-person documents for group trips with a roster (empty otherwise) */
+  travelers: Array<{
+    name: string;
+    passport: string;
+    ageBand: "adult" | "child" | "infant";
+    visas: Array<{
+      country: string;
+      statusLabel: string;
+      applyBy: string | null;
+    }>;
+    documents: string[];
+  }>;
   costs: {
     currency: string;
     currencySymbol: string;
@@ -68,6 +80,8 @@ export interface TripExportModel {
   itinerary: Array<{
     dayIndex: number;
     dateLabel: string;
+    /** ISO date (YYYY-MM-DD) when the trip start date is parseable */
+    dateISO?: string;
     cityLabel: string;
     /** The full day title/theme (e.g., "Arrival & Riverside Serenity") */
     dayTitle?: string;
@@ -80,6 +94,9 @@ export interface TripExportModel {
         location?: string;
         cost: number | null;
         notes?: string;
+        /** Parsed from free-text durations like "2 hours" or "45 min" */
+        durationMinutes?: number;
+        coordinates?: { lat: number; lng: number };
       }>;
     }>;
   }>;
@@ -248,6 +265,40 @@ function computeDateLabelFromStart(startDate: string, dayIndex: number): string
   }
 }
 
+/**
+ * ISO date (YYYY-MM-DD) for a day index, or undefined when start date is unparseable.
+ */
+function computeDateISOFromStart(startDate: string, dayIndex: number): string | undefined {
+  const start = new Date(startDate);
+  if (isNaN(start.getTime())) return undefined;
+  start.setDate(start.getDate() + dayIndex);
+  return start.toISOString().split('T')[0];
+}
+
+/**
+ * Parse an activity duration into minutes.
+ * Accepts numbers (minutes) and strings like "2 hours", "1.5 hrs", "45 min", "1h 30m".
+ */
+function parseDurationMinutes(duration: unknown): number | undefined {
+  if (typeof duration === 'number') return duration > 0 ? Math.round(duration) : undefined;
+  if (typeof duration !== 'string') return undefined;
+
+  const text = duration.toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)(?![a-z])/);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)(?![a-z])/);
+
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+function getCoordinates(activity: any): { lat: number; lng: number } | undefined {
+  const coords = activity.coordinates ?? activity.location?.coordinates;
+  if (typeof coords?.lat === 'number' && typeof coords?.lng === 'number') {
+    return { lat: coords.lat, lng: coords.lng };
+  }
+  return undefined;
+}
+
 /**
  * Extract dominant city/country from itinerary days.
  * Used to detect destination mismatches.
@@ -425,6 +476,35 @@ interface ActionItemDef {
   isRequired: boolean;
 }
 
+const TRAVELER_VISA_LABELS: Record<string, string> = {
+  visa_free: 'Visa-free',
+  visa_on_arrival: 'Visa on arrival',
+  e_visa: 'e-Visa',
+  embassy_visa: 'Embassy visa',
+  not_allowed: 'Not admitted',
+  requires_verification: 'Verify entry rules',
+};
+
+/**
+ * Each person's visas and documents from the group check
+ */
+function buildTravelers(report: any): TripExportModel['travelers'] {
+  const travelers = report?.group?.travelers;
+  if (!Array.isArray(travelers)) return [];
+
+  return travelers.map((t: any) => ({
+    name: t.name,
+    passport: t.passport,
+    ageBand: t.ageBand,
+    visas: (t.visas || []).map((v: any) => ({
+      country: v.country,
+      statusLabel: TRAVELER_VISA_LABELS[v.type] || v.type,
+      applyBy: v.applyByDate ? formatDateLabel(v.applyByDate) : null,
+    })),
+    documents: t.documents || [],
+  }));
+}
+
 function buildActionItems(trip: any): Array<{ group: string; items: Array<{ label: string; isRequired: boolean }> }> {
   const items: ActionItemDef[] = [];
   const report = trip.feasibilityReport as any;
@@ -440,10 +520,12 @@ function buildActionItems(trip: any): Array<{ group: string; items: Array<{ labe
     });
   }
 
-  // Passport validity
+  // Passport validity - name the passport when the traveler holds several
   items.push({
     key: 'passport',
-    label: 'Check passport validity (6+ months)',
+    label: report?.passports
+      ? `Travel on your ${trip.passport} passport - check it's valid 6+ months`
+      : 'Check passport validity (6+ months)',
     category: 'before_departure',
     isRequired: true,
   });
@@ -625,6 +707,8 @@ export function buildTripExportModel(trip: any, baseUrl?: string): TripExportMod
               location: typeof a.location === 'string' ? a.location : a.location?.address,
               cost: a.estimatedCost || a.cost || null,
               notes: a.bookingTip || a.costNote,
+              durationMinutes: parseDurationMinutes(a.duration),
+              coordinates: getCoordinates(a),
             })),
           });
         }
@@ -665,6 +749,7 @@ export function buildTripExportModel(trip: any, baseUrl?: string): TripExportMod
       itinerarySections.push({
         dayIndex: i + 1,
         dateLabel,
+        dateISO: computeDateISOFromStart(startDate, i),
         cityLabel,
         dayTitle: dayTitleClean || undefined,
         dayCost,
@@ -770,6 +855,7 @@ export function buildTripExportModel(trip: any, baseUrl?: string): TripExportMod
       fee: formatVisaFee(visaDetails?.cost, currency),
       requirements: visaRequirements,
     },
+    travelers: buildTravelers(report),
     costs: {
       currency,
       currencySymbol,
@@ -82,6 +82,12 @@ export const knowledgeDocuments = pgTable("knowledge_documents", {
   // Metadata
   metadata: jsonb("metadata").$type<Record<string, unknown>>(), // Additional structured data
 
+  // Refresh tracking (chunks ingested from a knowledge_sources row)
+  parentSourceId: text("parent_source_id"), // knowledge_sources.source_id this chunk came from
+  chunkIndex: integer("chunk_index"), // Position of the chunk within the source
+  contentHash: text("content_hash"), // SHA-256 of content, to skip re-embedding unchanged chunks
+  version: integer("version").notNull().default(1), // Bumped each time the content changes
+
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -94,6 +100,7 @@ export const knowledgeDocuments = pgTable("knowledge_documents", {
   fromCountryIdx: index("knowledge_from_country_idx").on(table.fromCountry),
   toCountryIdx: index("knowledge_to_country_idx").on(table.toCountry),
   sourceIdIdx: index("knowledge_source_id_idx").on(table.sourceId),
+  parentSourceIdx: index("knowledge_parent_source_idx").on(table.parentSourceId),
 }));
 
 /**
@@ -109,9 +116,15 @@ export const knowledgeSources = pgTable("knowledge_sources", {
   name: text("name").notNull(), // Display name
   url: text("url"), // Source URL
 
+  // Corridor the source covers (copied onto its chunks)
+  fromCountry: text("from_country"), // Passport country code, null for destination-wide info
+  toCountry: text("to_country"),
+
   // Refresh tracking
   lastFetched: timestamp("last_fetched"),
   refreshIntervalDays: integer("refresh_interval_days").default(30),
+  lastChangedAt: timestamp("last_changed_at"), // Last refresh that changed any chunk
+  lastError: text("last_error"), // Error from the last failed refresh, cleared on success
 
   // Stats
   documentCount: integer("document_count").default(0),
@@ -120,6 +133,34 @@ export const knowledgeSources = pgTable("knowledge_sources", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+/**
+ * Knowledge document versions - prior content of chunks that a refresh
+ * changed or removed, kept for audit. Embeddings are not kept.
+ */
+export const knowledgeDocumentVersions = pgTable("knowledge_document_versions", {
+  id: serial("id").primaryKey(),
+
+  documentId: integer("document_id").notNull(), // knowledge_documents.id (row may since be deleted)
+  sourceId: text("source_id").notNull(),
+  parentSourceId: text("parent_source_id"),
+  version: integer("version").notNull(),
+
+  // Content as it was
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  contentHash: text("content_hash"),
+  sourceUrl: text("source_url"),
+  sourceName: text("source_name"),
+  lastVerified: timestamp("last_verified"),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+
+  changeType: text("change_type").notNull(), // "updated" | "removed"
+  archivedAt: timestamp("archived_at").defaultNow(),
+}, (table) => ({
+  documentIdx: index("knowledge_versions_document_idx").on(table.documentId),
+  parentSourceIdx: index("knowledge_versions_parent_source_idx").on(table.parentSourceId),
+}));
+
 // ============================================================================
 // ZOD SCHEMAS
 // ============================================================================
@@ -135,6 +176,7 @@ export type KnowledgeDocument = typeof knowledgeDocuments.$inferSelect;
 export type NewKnowledgeDocument = typeof knowledgeDocuments.$inferInsert;
 export type KnowledgeSource = typeof knowledgeSources.$inferSelect;
 export type NewKnowledgeSource = typeof knowledgeSources.$inferInsert;
+export type KnowledgeDocumentVersion = typeof knowledgeDocumentVersions.$inferSelect;
 
 // ============================================================================
 // RETRIEVAL TYPES
@@ -155,6 +197,8 @@ export interface KnowledgeSearchResult {
   sourceName: string | null;
   lastVerified: Date | null;
   similarity: number; // Cosine similarity score (0-1)
+  score?: number; // Fused (and reranked) relevance score, higher is better
+  matchedBy?: Array<"vector" | "keyword">; // Retrieval legs that returned this document
 }
 
 /**
@@ -178,15 +222,34 @@ export interface KnowledgeQueryParams {
   toCountry?: string; // Filter by destination
   sourceTypes?: string[]; // Filter by type (visa, safety, etc.)
   limit?: number; // Max results (default 5)
-  minSimilarity?: number; // Min cosine similarity (default 0.7)
+  minSimilarity?: number; // Min cosine similarity for vector matches (default 0.7)
+  verifiedWithinDays?: number; // Only documents verified this recently
+  mode?: KnowledgeSearchMode; // Retrieval strategy (default "hybrid")
+  rerank?: KnowledgeReranker; // Reranker applied after fusion (default "none")
 }
 
+/**
+ * Search retrieval strategy: vector similarity, full-text ranking, or both
+ * fused with reciprocal rank fusion.
+ */
+export const KNOWLEDGE_SEARCH_MODES = ["hybrid", "vector", "keyword"] as const;
+export type KnowledgeSearchMode = typeof KNOWLEDGE_SEARCH_MODES[number];
+
+/**
+ * Reranker after fusion. "cross-encoder" falls back to "heuristic" when the
+ * local reranker is not configured or unavailable.
+ */
+export const KNOWLEDGE_RERANKERS = ["none", "heuristic", "cross-encoder"] as const;
+export type KnowledgeReranker = typeof KNOWLEDGE_RERANKERS[number];
+
 /**
  * RAG query response.
  */
 export interface KnowledgeQueryResponse {
   results: KnowledgeSearchResult[];
   citations: KnowledgeCitation[];
+  mode?: KnowledgeSearchMode;
+  reranker?: KnowledgeReranker; // Reranker actually applied
   queryEmbedding?: number[]; // For debugging
 }
 
@@ -0,0 +1,37 @@
+/**
+ * Tests for the shared API contract
+ *
+ * Run with: npx vitest run shared/routes.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { api } from './routes';
+
+const trip = {
+  passport: 'India',
+  destination: 'Tokyo, Japan',
+  dates: '2026-03-10 to 2026-03-15',
+  budget: 4000,
+};
+
+describe('api.trips.update', () => {
+  it('drops ownership and template fields an editor sends', () => {
+    const input = api.trips.update.input.parse({ ...trip, userId: 999, voyageUid: 'attacker', isTemplate: true });
+
+    expect(input).toMatchObject(trip);
+    expect(input).not.toHaveProperty('userId');
+    expect(input).not.toHaveProperty('voyageUid');
+    expect(input).not.toHaveProperty('isTemplate');
+  });
+
+  it('cannot null out the owner so the trip becomes adoptable', () => {
+    const input = api.trips.update.input.parse({ ...trip, userId: null, voyageUid: null });
+
+    expect(Object.keys(input)).not.toContain('userId');
+    expect(Object.keys(input)).not.toContain('voyageUid');
+  });
+
+  it('still accepts ownership fields when creating a trip', () => {
+    expect(api.trips.create.input.parse({ ...trip, voyageUid: 'device-1' })).toHaveProperty('voyageUid', 'device-1');
+  });
+});
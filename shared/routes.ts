@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertTripSchema, trips } from './schema';
+import { insertTripSchema, updateTripSchema, trips } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -32,6 +32,16 @@ export const api = {
         200: z.custom<typeof trips.$inferSelect>(),
         404: errorSchemas.notFound,
       },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/trips/:id',
+      input: updateTripSchema,
+      responses: {
+        200: z.custom<typeof trips.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
     }
   }
 };
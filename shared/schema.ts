@@ -76,10 +76,14 @@ export const trips = pgTable("trips", {
   voyageUid: text("voyage_uid"), // Anonymous user ID from localStorage (Item 21: Account-lite)
 
   // Trip Details
-  passport: text("passport").notNull(),
+  passport: text("passport").notNull(), // The passport this trip travels on
+  passports: text("passports").array(), // Every passport the traveler holds, incl. `passport` (null = just one)
+  passportPinned: boolean("passport_pinned").notNull().default(false), // Traveler chose `passport`; feasibility won't switch it
   residence: text("residence"),
   origin: text("origin"),
   destination: text("destination").notNull(),
+  legs: jsonb("legs").$type<TripLeg[]>(), // Ordered multi-city stops (null = single destination)
+  travelers: jsonb("travelers").$type<TripTraveler[]>(), // Group roster (null = everyone travels on `passport`)
   dates: text("dates").notNull(),
   budget: integer("budget").notNull(),
   currency: text("currency").default("USD"),
@@ -118,6 +122,7 @@ export const trips = pgTable("trips", {
   useCount: integer("use_count").default(0), // How many times template was copied
   rating: real("rating"), // Average rating 1-5
   ratingCount: integer("rating_count").default(0),
+  calendarToken: text("calendar_token"), // Secret for the read-only .ics subscription feed (null = no feed)
 
   // Status
   status: text("status").default("draft"), // 'draft', 'planning', 'booked', 'completed', 'cancelled'
@@ -133,6 +138,7 @@ export const trips = pgTable("trips", {
   voyageUidIdx: index("trips_voyage_uid_idx").on(table.voyageUid),
   destinationIdx: index("trips_destination_idx").on(table.destination),
   isTemplateIdx: index("trips_is_template_idx").on(table.isTemplate),
+  calendarTokenIdx: uniqueIndex("trips_calendar_token_idx").on(table.calendarToken),
 }));
 
 // ============================================================================
@@ -148,40 +154,105 @@ export const tripCollaborators = pgTable("trip_collaborators", {
   inviteToken: text("invite_token"),
   invitedAt: timestamp("invited_at").defaultNow(),
   acceptedAt: timestamp("accepted_at"),
-});
+}, (table) => ({
+  tripIdIdx: index("trip_collaborators_trip_id_idx").on(table.tripId),
+  tripUserIdx: index("trip_collaborators_trip_user_idx").on(table.tripId, table.userId),
+}));
 
 export const tripComments = pgTable("trip_comments", {
   id: serial("id").primaryKey(),
   tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  voyageUid: text("voyage_uid"), // Anonymous author (trip owner without an account)
+  authorName: text("author_name"), // Display name captured at write time
   dayIndex: integer("day_index"), // Which day the comment is about (null for general)
   activityIndex: integer("activity_index"), // Which activity (null for day-level)
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  tripIdIdx: index("trip_comments_trip_id_idx").on(table.tripId),
+}));
 
 export const tripVotes = pgTable("trip_votes", {
   id: serial("id").primaryKey(),
   tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  voyageUid: text("voyage_uid"), // Anonymous voter (trip owner without an account)
   dayIndex: integer("day_index").notNull(),
   activityIndex: integer("activity_index").notNull(),
   vote: text("vote").notNull(), // 'up', 'down'
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  tripIdIdx: index("trip_votes_trip_id_idx").on(table.tripId),
+}));
+
+// Fields a share link can hide: passport (nationality, residence, home city),
+// budget (and cost estimates), exactDates (month and length only)
+export const SHARE_REDACTIONS = ['passport', 'budget', 'exactDates'] as const;
+
+export const tripShareLinks = pgTable("trip_share_links", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }).notNull(),
+  token: text("token").notNull(), // Unguessable, used in /share/:token
+  redact: text("redact").array().notNull().default(sql`'{}'::text[]`), // SHARE_REDACTIONS hidden from viewers
+  expiresAt: timestamp("expires_at"), // null = never expires
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  tokenIdx: uniqueIndex("trip_share_links_token_idx").on(table.token),
+  tripIdIdx: index("trip_share_links_trip_id_idx").on(table.tripId),
+}));
 
 // ============================================================================
 // AI CHAT / CONVERSATIONS
 // ============================================================================
 
+// One conversation per trip, shared by its collaborators
 export const tripConversations = pgTable("trip_conversations", {
   id: serial("id").primaryKey(),
   tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }),
-  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
-  messages: jsonb("messages").notNull().default([]), // [{ role: 'user'|'assistant', content: string, timestamp: Date }]
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Who started it
+  messages: jsonb("messages").$type<ChatMessageRecord[]>().notNull().default([]), // Oldest first
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  tripIdIdx: uniqueIndex("trip_conversations_trip_id_idx").on(table.tripId),
+}));
+
+/** Who wrote a chat message or resolved a proposal (userId null = anonymous trip owner) */
+export interface ChatAuthor {
+  userId: number | null;
+  name: string;
+}
+
+// "applying" claims a proposal while its actions run, so nothing else can resolve it meanwhile
+export type ChatProposalStatus = "pending" | "applying" | "applied" | "rejected" | "conflict";
+
+/** Changes the assistant proposed in a message, and what became of them */
+export interface ChatProposal {
+  id: string;
+  actions: unknown[]; // ChatAction[] (server/services/agentChatTools), replayed on confirm
+  preview: {
+    description: string;
+    items: string[];
+    diff: Array<{ action: string; day?: number; summary: string; before: string | null; after: string | null; costChange: number }>;
+    estimatedCostChange: number;
+  };
+  status: ChatProposalStatus;
+  resolvedAt?: string; // ISO
+  resolvedBy?: ChatAuthor | null;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string; // ISO
+  author: ChatAuthor | null; // null for the assistant
+  proposal?: ChatProposal;
+}
 
 // ============================================================================
 // APPLIED PLANS (for shareable change plan links)
@@ -260,6 +331,44 @@ export const tripVersions = pgTable("trip_versions", {
     .where(sql`change_id IS NOT NULL`),
 }));
 
+// ============================================================================
+// TRIP JOBS (Durable background processing)
+// ============================================================================
+
+/**
+ * Postgres-backed queue for trip processing (feasibility, itinerary).
+ * Survives restarts: running jobs heartbeat via lockedAt, and jobs whose
+ * worker stopped heartbeating are requeued or dead-lettered.
+ */
+export const tripJobs = pgTable("trip_jobs", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // 'feasibility' | 'itinerary'
+  payload: jsonb("payload").default({}),
+
+  // Lifecycle
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'succeeded' | 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Next eligible run (pushed out by backoff)
+  lockedBy: text("locked_by"), // Worker id while running
+  lockedAt: timestamp("locked_at"), // Heartbeat while running
+  lastError: text("last_error"),
+
+  // Per-step progress (served by /api/trips/:id/progress)
+  progressStep: real("progress_step"),
+  progressMessage: text("progress_message"),
+  progressDetails: text("progress_details"),
+
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusRunAtIdx: index("trip_jobs_status_run_at_idx").on(table.status, table.runAt),
+  tripIdIdx: index("trip_jobs_trip_id_idx").on(table.tripId),
+}));
+
 // ============================================================================
 // PRICE ALERTS
 // ============================================================================
@@ -268,6 +377,7 @@ export const priceAlerts = pgTable("price_alerts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }),
+  email: text("email"), // Notification address (anonymous alerts have no userId)
 
   type: text("type").notNull(), // 'flight', 'hotel'
 
@@ -321,6 +431,67 @@ export const packingLists = pgTable("packing_lists", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ============================================================================
+// EXPENSES (logged on the road)
+// ============================================================================
+
+export const EXPENSE_CATEGORIES = ['activities', 'meals', 'transport', 'lodging'] as const;
+
+export const tripExpenses = pgTable("trip_expenses", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+
+  amount: real("amount").notNull(), // In the currency it was paid in
+  currency: text("currency").notNull(),
+  tripAmount: real("trip_amount").notNull(), // Converted to the trip's budget currency when logged
+  exchangeRate: real("exchange_rate").notNull(), // amount × exchangeRate = tripAmount
+
+  category: text("category").notNull(), // One of EXPENSE_CATEGORIES (same buckets as the budget validator)
+  dayNumber: integer("day_number"), // Itinerary day (1-based); null for pre-trip or trip-wide costs
+  activityIndex: integer("activity_index"), // Activity within that day, when the expense is for one
+  payer: text("payer"), // Who paid, e.g. a roster name
+  note: text("note"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  tripIdIdx: index("trip_expenses_trip_id_idx").on(table.tripId),
+}));
+
+// ============================================================================
+// SAVED PLACES (personal library, linkable into itineraries)
+// ============================================================================
+
+export const savedPlaces = pgTable("saved_places", {
+  id: serial("id").primaryKey(),
+  // Owner: signed-in user, or the anonymous X-Voyage-UID (same as trips)
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  voyageUid: text("voyage_uid"),
+
+  name: text("name").notNull(),
+  address: text("address"),
+  city: text("city"), // e.g. "Tokyo, Japan" - the destination it was saved for
+  country: text("country"),
+  lat: real("lat"), // Null when the place couldn't be resolved
+  lng: real("lng"),
+  category: text("category"), // Google place type or Mapbox feature type
+  googlePlaceId: text("google_place_id"),
+  mapboxId: text("mapbox_id"),
+  rating: real("rating"),
+
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+
+  source: text("source").notNull().default("manual"), // 'manual' | 'social_import'
+  sourceUrl: text("source_url"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userIdIdx: index("saved_places_user_id_idx").on(table.userId),
+  voyageUidIdx: index("saved_places_voyage_uid_idx").on(table.voyageUid),
+}));
+
 // ============================================================================
 // SUBSCRIPTIONS & BILLING
 // ============================================================================
@@ -373,8 +544,9 @@ export const apiKeys = pgTable("api_keys", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
 
-  // Key details
-  key: text("key").notNull().unique(), // Format: sk_live_xxx or sk_test_xxx
+  // Key details - only a hash is stored; the full key is shown once at creation/rotation
+  keyHash: text("key_hash").notNull().unique(), // sha256 hex of sk_live_xxx / sk_test_xxx
+  keyPrefix: text("key_prefix").notNull(), // e.g. "sk_live_Ab3d", for telling keys apart
   name: text("name").notNull(), // Display name for the key
   description: text("description"),
 
@@ -391,12 +563,68 @@ export const apiKeys = pgTable("api_keys", {
   // Status
   isActive: boolean("is_active").default(true),
   expiresAt: timestamp("expires_at"), // Optional expiration
+  revokedAt: timestamp("revoked_at"),
+  rotatedAt: timestamp("rotated_at"),
+
+  // Outbound webhooks
+  webhookSecret: text("webhook_secret"), // whsec_xxx, HMAC key for deliveries (created on first use)
 
   // Metadata
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Per-key, per-endpoint request counts by UTC day (quota and usage analytics)
+export const apiKeyUsage = pgTable("api_key_usage", {
+  id: serial("id").primaryKey(),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(),
+  day: text("day").notNull(), // YYYY-MM-DD (UTC)
+  endpoint: text("endpoint").notNull(), // "GET /api/v1/trips/:id"
+  requestCount: integer("request_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0), // Responses with status >= 400
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  keyDayEndpointUnique: uniqueIndex("api_key_usage_key_day_endpoint_uniq").on(table.apiKeyId, table.day, table.endpoint),
+}));
+
+// Webhook target for a trip created through the API (POST /api/v1/trips webhookUrl)
+export const tripWebhooks = pgTable("trip_webhooks", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "cascade" }).notNull().unique(),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(),
+  url: text("url").notNull(),
+  clientReference: text("client_reference"), // Partner's own id, echoed in every event
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Delivery log: one row per event per attempt series (replays add a new row)
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  eventId: text("event_id").notNull(), // evt_xxx, stable across replays so partners can dedupe
+  event: text("event").notNull(), // WebhookEventType
+  url: text("url").notNull(),
+  payload: jsonb("payload").notNull(),
+
+  // Lifecycle
+  status: text("status").notNull().default("pending"), // 'pending' | 'delivered' | 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(6),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Also the lease while an attempt is in flight
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  lastDurationMs: integer("last_duration_ms"),
+  replayOf: integer("replay_of"), // Delivery this one re-sends
+
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  apiKeyCreatedIdx: index("webhook_deliveries_api_key_created_idx").on(table.apiKeyId, table.createdAt),
+}));
+
 // ============================================================================
 // EMAIL NOTIFICATIONS
 // ============================================================================
@@ -423,6 +651,44 @@ export const emailQueue = pgTable("email_queue", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// ============================================================================
+// CONCIERGE NOTIFICATIONS
+// ============================================================================
+
+export const NOTIFICATION_KINDS = ['visa_deadline', 'departure_briefing', 'price_drop', 'daily_digest'] as const;
+
+// Per-user opt-in for proactive WhatsApp messages (nothing is sent without a row here)
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  whatsappNumber: text("whatsapp_number").notNull(), // E.164, e.g. +14155550123
+  optedIn: boolean("opted_in").notNull().default(false), // Only ever true for a verified number
+  kinds: text("kinds").array().$type<NotificationKind[]>().notNull(), // Which NOTIFICATION_KINDS to send
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone the quiet hours and digest are in
+  quietHoursStart: integer("quiet_hours_start").notNull().default(22), // Local hour, 0-23
+  quietHoursEnd: integer("quiet_hours_end").notNull().default(8), // Local hour the quiet period ends
+  optedInAt: timestamp("opted_in_at"),
+  verifiedAt: timestamp("verified_at"), // When the number replied with its code; cleared when the number changes
+  verificationCodeHash: text("verification_code_hash"), // SHA-256 of the outstanding one-time code
+  verificationExpiresAt: timestamp("verification_expires_at"),
+  verificationAttempts: integer("verification_attempts").notNull().default(0), // Wrong replies to the outstanding code
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per proactive message sent; the dedupe key keeps each reminder to a single send
+export const sentNotifications = pgTable("sent_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  kind: text("kind").notNull(), // NotificationKind
+  dedupeKey: text("dedupe_key").notNull().unique(), // e.g. "briefing:42:T-7"
+  body: text("body").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  userSentIdx: index("sent_notifications_user_sent_idx").on(table.userId, table.sentAt),
+}));
+
 // ============================================================================
 // WEATHER CACHE
 // ============================================================================
@@ -457,6 +723,25 @@ export const insertUserSchema = createInsertSchema(users).omit({
   lastLoginAt: true,
 });
 
+// A multi-city stop, e.g. { destination: "Kyoto, Japan", nights: 3 }
+export const tripLegSchema = z.object({
+  destination: z.string().trim().min(1, "Each stop needs a destination"),
+  nights: z.number().int().min(1, "Each stop needs at least 1 night").max(60),
+});
+
+export const MAX_TRIP_LEGS = 8;
+
+// One person in a group trip's roster, e.g. { name: "Maya", passport: "Canada", ageBand: "child" }
+export const tripTravelerSchema = z.object({
+  name: z.string().trim().min(1, "Each traveler needs a name").max(80),
+  passport: z.string().trim().min(1, "Each traveler needs a passport"),
+  ageBand: z.enum(['adult', 'child', 'infant']), // child 2-17, infant under 2
+  residence: z.string().trim().min(1).nullish(),
+});
+
+export const MAX_TRIP_TRAVELERS = 20;
+export const MAX_TRIP_PASSPORTS = 4;
+
 export const insertTripSchema = createInsertSchema(trips).omit({
   id: true,
   createdAt: true,
@@ -467,6 +752,26 @@ export const insertTripSchema = createInsertSchema(trips).omit({
   useCount: true,
   rating: true,
   ratingCount: true,
+  calendarToken: true,
+}).extend({
+  legs: z.array(tripLegSchema)
+    .min(2, "A multi-city trip needs at least 2 stops")
+    .max(MAX_TRIP_LEGS, `A trip can have at most ${MAX_TRIP_LEGS} stops`)
+    .nullish(),
+  passports: z.array(z.string().trim().min(1))
+    .max(MAX_TRIP_PASSPORTS, `A trip can compare at most ${MAX_TRIP_PASSPORTS} passports`)
+    .nullish(),
+  travelers: z.array(tripTravelerSchema)
+    .min(1)
+    .max(MAX_TRIP_TRAVELERS, `A trip can have at most ${MAX_TRIP_TRAVELERS} travelers`)
+    .nullish(),
+});
+
+// Edits change the plan - never who owns the trip or whether it is listed as a template
+export const updateTripSchema = insertTripSchema.omit({
+  userId: true,
+  voyageUid: true,
+  isTemplate: true,
 });
 
 export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
@@ -494,10 +799,35 @@ export type Session = typeof sessions.$inferSelect;
 
 export type Trip = typeof trips.$inferSelect;
 export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type TripLeg = z.infer<typeof tripLegSchema>;
+export type TripTraveler = z.infer<typeof tripTravelerSchema>;
 
 export type TripCollaborator = typeof tripCollaborators.$inferSelect;
+export type InsertTripCollaborator = typeof tripCollaborators.$inferInsert;
 export type TripComment = typeof tripComments.$inferSelect;
+export type InsertTripComment = typeof tripComments.$inferInsert;
+export type TripVote = typeof tripVotes.$inferSelect;
+export type InsertTripVote = typeof tripVotes.$inferInsert;
+export type TripRole = 'owner' | 'editor' | 'viewer';
 export type TripConversation = typeof tripConversations.$inferSelect;
+export type TripShareLink = typeof tripShareLinks.$inferSelect;
+export type InsertTripShareLink = typeof tripShareLinks.$inferInsert;
+export type ShareRedaction = typeof SHARE_REDACTIONS[number];
+
+export type TripJob = typeof tripJobs.$inferSelect;
+export type TripJobType = 'feasibility' | 'itinerary';
+export type TripJobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+export type TripWebhook = typeof tripWebhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookEventType =
+  | 'trip.feasibility.completed'
+  | 'trip.itinerary.day_ready'
+  | 'trip.itinerary.completed'
+  | 'trip.failed';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
 
 export type PriceAlert = typeof priceAlerts.$inferSelect;
 export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
@@ -505,6 +835,17 @@ export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
 export type PackingList = typeof packingLists.$inferSelect;
 export type InsertPackingList = z.infer<typeof insertPackingListSchema>;
 
+export type TripExpense = typeof tripExpenses.$inferSelect;
+export type InsertTripExpense = typeof tripExpenses.$inferInsert;
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+
+export type SavedPlace = typeof savedPlaces.$inferSelect;
+export type InsertSavedPlace = typeof savedPlaces.$inferInsert;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type SentNotification = typeof sentNotifications.$inferSelect;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
 export type Subscription = typeof subscriptions.$inferSelect;
 export type AffiliateClick = typeof affiliateClicks.$inferSelect;
 export type WeatherCache = typeof weatherCache.$inferSelect;
@@ -625,6 +966,10 @@ export interface FeasibilityReport {
   };
   summary: string;
   visaDetails?: VisaDetails; // Server-generated visa details (single source of truth)
+  legs?: LegFeasibility; // Multi-city trips only: per-stop visa checks
+  stayLimits?: StayLimitReport; // Cumulative stay limits across the traveler's trips
+  passports?: PassportComparison; // Travelers with more than one passport
+  group?: GroupFeasibility; // Group trips with a roster: per-traveler visa checks
   generatedAt: string; // ISO date when this analysis was run
   expiresAt?: string; // ISO date when this analysis should be refreshed (e.g., +7 days)
 }
@@ -632,6 +977,166 @@ export interface FeasibilityReport {
 // Current feasibility report schema version
 export const FEASIBILITY_SCHEMA_VERSION = 2;
 
+/**
+ * Visa check for one stop of a multi-city trip.
+ * Consecutive stops in the same country (or in the Schengen area) share one entry.
+ */
+export interface LegVisaCheck {
+  legIndex: number;
+  destination: string;
+  country: string;
+  nights: number;
+  startDate?: string; // ISO, when trip dates are known
+  endDate?: string;
+  visaStatus: 'visa_free' | 'visa_on_arrival' | 'e_visa' | 'eta' | 'visa_required' | 'no_admission' | 'unknown';
+  statusLabel: string;
+  allowedDays?: number; // Visa-free allowance from the passport index
+  entryNumber: number; // 1 = first entry into this country/zone on the trip
+  schengen: boolean;
+  status: 'ok' | 'warning' | 'blocker';
+  issues: string[];
+  visaDetails?: VisaDetails; // Cited details from the knowledge base, when available
+}
+
+export interface LegFeasibility {
+  checks: LegVisaCheck[];
+  /** Countries/zones entered more than once - a single-entry visa won't cover the trip */
+  multipleEntryRequired: Array<{ country: string; entries: number }>;
+  /** Days in the Schengen area on this trip (entry and exit days both count) */
+  schengen?: { days: number; limit: number; exceeded: boolean };
+}
+
+/**
+ * One visa (or entry) requirement for one traveler, with its apply-by date
+ */
+export interface TravelerVisaCheck {
+  country: string;
+  type: VisaDetails['type'];
+  name?: string; // e.g. "Japan eVisa"
+  source: 'corridor' | 'passport_index' | 'unknown';
+  processingDaysMax: number;
+  costPerPerson: number;
+  currency: string;
+  applyByDate: string | null; // From computeDueDate (7-day buffer)
+  daysUntilDeadline: number | null;
+  urgency: 'critical' | 'urgent' | 'normal' | 'relaxed' | null;
+  applicationUrl?: string;
+}
+
+/**
+ * Deterministic visa checks for one person on a group trip's roster
+ */
+export interface TravelerFeasibility {
+  travelerIndex: number;
+  name: string;
+  passport: string;
+  ageBand: TripTraveler['ageBand'];
+  status: 'ok' | 'warning' | 'blocker';
+  issues: string[];
+  visas: TravelerVisaCheck[];
+  documents: string[]; // Everything this person needs to carry or apply for
+}
+
+export interface GroupFeasibility {
+  travelers: TravelerFeasibility[];
+  worstStatus: TravelerFeasibility['status']; // The group is only as ready as its least-ready traveler
+}
+
+/**
+ * Days used in one stay-limit zone (a country, or the whole Schengen area)
+ * across the traveler's trips, measured over a rolling window.
+ */
+export interface StayLimitWindow {
+  zone: string; // 'schengen' or a lowercased country name
+  zoneLabel: string;
+  maxStay: number; // Days allowed...
+  period: number; // ...in any rolling window of this many days
+  source: 'corridor' | 'passport_index' | 'schengen';
+  daysInTrip: number; // Days this trip spends in the zone (entry and exit days both count)
+  daysUsedBefore: number; // Days from other trips in the window ending the day before entry
+  peakDaysUsed: number; // Most days used in any window that includes a day of this trip
+  daysRemaining: number; // Allowance left at the peak (0 when exceeded)
+  exceeded: boolean;
+  overstayDays: number;
+  firstViolationDate?: string; // ISO, first day the limit is exceeded
+  otherTrips: Array<{ tripId: number; destination: string; days: number }>; // Trips counted in the peak window
+}
+
+export interface StayLimitReport {
+  checkedAt: string;
+  windows: StayLimitWindow[];
+}
+
+/**
+ * How one of the traveler's passports fares for this trip, from curated
+ * corridor data or the Passport Index (no LLM)
+ */
+export interface PassportOption {
+  passport: string;
+  friction: number; // Sum over countries: 0 visa-free ... 4 embassy visa; not admitted = blocked
+  blocked: boolean; // Not admitted to at least one country
+  visas: Array<{
+    country: string;
+    type: VisaDetails['type'];
+    source: 'corridor' | 'passport_index' | 'unknown';
+    costPerPerson: number;
+    currency: string;
+    processingDaysMax: number;
+  }>;
+  costPerPerson: number | null; // Null when the fees are in different currencies
+  currency: string | null; // Null when every visa is free, or the currencies differ
+  processingDaysMax: number; // Slowest visa on the trip
+  // Compared with the recommended passport (positive = worse)
+  costDelta: number | null; // In this option's currency, else the recommended one's; null when they differ
+  processingDaysDelta: number;
+}
+
+export interface PassportComparison {
+  recommended: string; // Least friction
+  chosen: string; // The passport the report was run for (trip.passport)
+  pinned: boolean; // The traveler picked `chosen` themselves
+  options: PassportOption[]; // Best first
+  comparedAt: string;
+}
+
+/**
+ * One passport / start date / trip length combination of a what-if sweep,
+ * scored from the deterministic parts of feasibility only (no LLM)
+ */
+export interface WhatIfCell {
+  passport: string;
+  startDate: string; // ISO
+  endDate: string; // ISO, inclusive
+  duration: number; // Days, entry and exit days both count
+  isBase: boolean; // The trip as currently planned
+  rank: number; // 1 = best
+  score: number; // 0-100
+  verdict: 'GO' | 'POSSIBLE' | 'DIFFICULT' | 'NO';
+  blockers: string[];
+  warnings: string[];
+  visas: Array<{
+    country: string;
+    type: VisaDetails['type'];
+    source: 'corridor' | 'passport_index' | 'unknown';
+    applyByDate: string | null;
+    daysUntilDeadline: number | null;
+    urgency: 'critical' | 'urgent' | 'normal' | 'relaxed' | null; // From computeDueDate
+  }>;
+  stayLimits: Array<Pick<StayLimitWindow, 'zoneLabel' | 'maxStay' | 'period' | 'peakDaysUsed' | 'exceeded'>>;
+  budgetPerDayPerPerson: number; // In the trip currency
+}
+
+export interface WhatIfSweepResult {
+  tripId: number;
+  generatedAt: string;
+  currency: string;
+  axes: {
+    passports: string[];
+    startDates: string[];
+    durations: number[];
+  };
+  cells: WhatIfCell[]; // Ranked, best first
+}
 // Alternative destination (shown when HARD_BLOCKER)
 export interface Alternative {
   destination: string;
@@ -835,6 +1340,43 @@ export interface WeatherForecast {
   icon: string;
 }
 
+// Budget validator buckets, shared so expense reconciliation can reuse them
+export type BudgetStatus = 'APPROVED' | 'OVER_BUDGET' | 'NEAR_LIMIT' | 'UNDER_BUDGET';
+
+export interface DayBudgetBreakdown {
+  day: number;
+  date: string;
+  allocated: number;
+  actual: number;
+  delta: number; // positive = over budget, negative = under budget
+  status: BudgetStatus;
+  breakdown: Record<ExpenseCategory, number>;
+}
+
+// Budget vs actual for a trip on the road (GET /api/trips/:id/expenses/summary)
+export interface ExpenseReconciliation {
+  currency: string;
+  totalBudget: number;
+  totalPlanned: number; // Itinerary estimates
+  totalSpent: number;
+  unassignedSpent: number; // Expenses not tied to a day (pre-trip bookings etc.)
+  /** planned: the itinerary's estimates; actual: what was logged, against the same daily allocation */
+  days: Array<{ planned: DayBudgetBreakdown; actual: DayBudgetBreakdown }>;
+  categories: Array<{ category: ExpenseCategory; planned: number; actual: number; delta: number }>;
+  forecast: {
+    currentDay: number | null; // Last day with spending so far (null before the trip)
+    remainingDays: number;
+    remainingBudget: number;
+    plannedRemaining: number;
+    pace: number; // Spent / planned for the days so far (1 = on plan)
+    projectedTotal: number;
+    projectedRemaining: number; // Negative = expected overspend
+    dailyAllowance: number | null; // Remaining budget per remaining day
+    status: BudgetStatus;
+  };
+  computedAt: string;
+}
+
 export type CreateTripRequest = InsertTrip;
 export type TripResponse = Trip;
 